@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -12,16 +12,24 @@ import DashboardLayout from '@/components/DashboardLayout';
 import ProductCatalog from '@/components/ProductCatalog';
 import OrderManagement from '@/components/OrderManagement';
 import ClientProfile from '@/components/ClientProfile';
+import SharedQuote from '@/components/SharedQuote';
+import RepresentativeQuotes from '@/components/RepresentativeQuotes';
 import './App.css';
 
 // Type imports
-import type { User, Client } from '../../server/src/schema';
+import type { PublicUser, Client, PendingValidationPage } from '../../server/src/schema';
+
+type AccountingDashboardData = Awaited<ReturnType<typeof trpc.dashboards.accounting.query>>;
+
+// Token from a quote share link (/quotes/share/<token>)
+const sharedQuoteToken = window.location.pathname.match(/^\/quotes\/share\/([a-f0-9]+)\/?$/)?.[1] ?? null;
 
 interface AuthState {
   isAuthenticated: boolean;
-  user: User | null;
+  user: PublicUser | null;
   client: Client | null;
   token: string | null;
+  refreshToken: string | null;
 }
 
 function App() {
@@ -29,9 +37,10 @@ function App() {
     isAuthenticated: false,
     user: null,
     client: null,
-    token: null
+    token: null,
+    refreshToken: null
   });
-  const [currentView, setCurrentView] = useState<'dashboard' | 'catalog' | 'orders' | 'profile'>('dashboard');
+  const [currentView, setCurrentView] = useState<'dashboard' | 'catalog' | 'orders' | 'quotes' | 'profile'>('dashboard');
 
   // Check for stored authentication on app load
   useEffect(() => {
@@ -47,28 +56,44 @@ function App() {
     }
   }, []);
 
-  const handleLogin = (user: User, client: Client | null, token: string) => {
+  const handleLogin = (user: PublicUser, client: Client | null, token: string, refreshToken: string) => {
     const newAuthState: AuthState = {
       isAuthenticated: true,
       user,
       client,
-      token
+      token,
+      refreshToken
     };
     setAuthState(newAuthState);
     localStorage.setItem('konipa_auth', JSON.stringify(newAuthState));
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      // Revoke the session server-side so the tokens stop working everywhere
+      await trpc.auth.logout.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
     setAuthState({
       isAuthenticated: false,
       user: null,
       client: null,
-      token: null
+      token: null,
+      refreshToken: null
     });
     localStorage.removeItem('konipa_auth');
     setCurrentView('dashboard');
   };
 
+  if (sharedQuoteToken) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-slate-900 to-red-900">
+        <SharedQuote shareToken={sharedQuoteToken} />
+      </div>
+    );
+  }
+
   if (!authState.isAuthenticated) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-900 via-slate-900 to-red-900">
@@ -100,13 +125,16 @@ function App() {
         {currentView === 'profile' && (
           <ClientProfile user={authState.user} client={authState.client} />
         )}
+        {currentView === 'quotes' && authState.user?.role === 'representative' && (
+          <RepresentativeQuotes user={authState.user} />
+        )}
       </DashboardLayout>
     </div>
   );
 }
 
 // Dashboard content based on user role
-function DashboardContent({ user, client }: { user: User | null; client: Client | null }) {
+function DashboardContent({ user, client }: { user: PublicUser | null; client: Client | null }) {
   if (!user) return <div>Erreur: Utilisateur non trouvé</div>;
 
   switch (user.role) {
@@ -128,7 +156,7 @@ function DashboardContent({ user, client }: { user: User | null; client: Client
 }
 
 // Client Dashboard Component
-function ClientDashboard({ user, client }: { user: User; client: Client | null }) {
+function ClientDashboard({ user, client }: { user: PublicUser; client: Client | null }) {
   const [dashboardData, setDashboardData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -332,7 +360,7 @@ function ClientDashboard({ user, client }: { user: User; client: Client | null }
 }
 
 // Placeholder components for other roles
-function RepresentativeDashboard({ user }: { user: User }) {
+function RepresentativeDashboard({ user }: { user: PublicUser }) {
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold text-white mb-4">Dashboard Représentant</h1>
@@ -341,16 +369,244 @@ function RepresentativeDashboard({ user }: { user: User }) {
   );
 }
 
-function AccountingDashboard({ user }: { user: User }) {
+const PENDING_PAGE_SIZE = 10;
+
+function AccountingDashboard({ user }: { user: PublicUser }) {
+  const [pendingPage, setPendingPage] = useState<PendingValidationPage | null>(null);
+  const [dashboardData, setDashboardData] = useState<AccountingDashboardData | null>(null);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingOrderId, setProcessingOrderId] = useState<number | null>(null);
+  const [refusingOrderId, setRefusingOrderId] = useState<number | null>(null);
+  const [refusalReason, setRefusalReason] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [queue, dashboard] = await Promise.all([
+        trpc.orders.getPendingValidation.query({ page, pageSize: PENDING_PAGE_SIZE }),
+        trpc.dashboards.accounting.query()
+      ]);
+      setPendingPage(queue);
+      setDashboardData(dashboard);
+    } catch (error) {
+      console.error('Erreur lors du chargement des commandes à valider:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleDecision = async (orderId: number, approve: boolean) => {
+    if (!approve && !refusalReason.trim()) {
+      setActionError('Veuillez indiquer le motif du refus');
+      return;
+    }
+
+    setProcessingOrderId(orderId);
+    setActionError(null);
+    try {
+      await trpc.orders.validate.mutate({
+        orderId,
+        approve,
+        reason: approve ? undefined : refusalReason.trim()
+      });
+      setRefusingOrderId(null);
+      setRefusalReason('');
+      await loadData();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      setActionError(message.startsWith('Credit check failed')
+        ? 'Contrôle crédit échoué : la commande ne peut pas être validée, elle doit être refusée'
+        : 'Erreur lors du traitement de la commande');
+    } finally {
+      setProcessingOrderId(null);
+    }
+  };
+
+  const totalPages = pendingPage ? Math.max(1, Math.ceil(pendingPage.total / pendingPage.page_size)) : 1;
+
+  if (isLoading && !pendingPage) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-white">Chargement du dashboard...</div>
+      </div>
+    );
+  }
+
   return (
-    <div className="p-6">
-      <h1 className="text-2xl font-bold text-white mb-4">Dashboard Comptabilité</h1>
-      <p className="text-blue-200">Interface comptabilité en cours de développement...</p>
+    <div className="p-6 space-y-6">
+      <h1 className="text-2xl font-bold text-white">Dashboard Comptabilité</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="bg-white/10 backdrop-blur-sm border-blue-200/20">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-blue-100">Commandes en attente</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-white">{pendingPage?.total ?? 0}</div>
+          </CardContent>
+        </Card>
+        <Card className="bg-white/10 backdrop-blur-sm border-blue-200/20">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-blue-100">Validées aujourd'hui</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-300">{dashboardData?.dailyValidations.approved ?? 0}</div>
+          </CardContent>
+        </Card>
+        <Card className="bg-white/10 backdrop-blur-sm border-blue-200/20">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-blue-100">Refusées aujourd'hui</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-300">{dashboardData?.dailyValidations.refused ?? 0}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-white/10 backdrop-blur-sm border-blue-200/20">
+        <CardHeader>
+          <CardTitle className="text-white">File de validation</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {actionError && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-md text-red-200 text-sm">
+              {actionError}
+            </div>
+          )}
+
+          {pendingPage && pendingPage.orders.length === 0 ? (
+            <p className="text-blue-200">Aucune commande en attente de validation</p>
+          ) : (
+            pendingPage?.orders.map((order) => (
+              <div key={order.id} className="p-4 rounded-md bg-white/5 border border-blue-200/10 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <div className="text-white font-semibold">#{order.order_number} — {order.company_name}</div>
+                    <div className="text-xs text-blue-200">
+                      Soumise le {order.created_at.toLocaleDateString('fr-MA')}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-white font-bold">{order.total_amount.toLocaleString('fr-MA')} MAD</div>
+                    {order.passes_credit_check ? (
+                      <Badge className="bg-green-600">Crédit OK</Badge>
+                    ) : (
+                      <Badge className="bg-red-600">Contrôle crédit échoué</Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="text-xs text-blue-200">
+                  Encours : {order.current_balance.toLocaleString('fr-MA')} MAD / Plafond : {order.credit_limit.toLocaleString('fr-MA')} MAD
+                  {order.overdue_amount > 0 && (
+                    <span className="text-orange-300"> — Échu : {order.overdue_amount.toLocaleString('fr-MA')} MAD</span>
+                  )}
+                  {order.is_blocked && <span className="text-red-300"> — Compte bloqué</span>}
+                </div>
+
+                {refusingOrderId === order.id ? (
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <Input
+                      placeholder="Motif du refus"
+                      value={refusalReason}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRefusalReason(e.target.value)}
+                      className="bg-white/10 border-blue-200/30 text-white placeholder:text-blue-200/60"
+                    />
+                    <Button
+                      variant="destructive"
+                      onClick={() => handleDecision(order.id, false)}
+                      disabled={processingOrderId === order.id}
+                    >
+                      Confirmer le refus
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="border-blue-300 text-blue-100 hover:bg-blue-800/20"
+                      onClick={() => {
+                        setRefusingOrderId(null);
+                        setRefusalReason('');
+                      }}
+                    >
+                      Annuler
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      className="bg-green-600 hover:bg-green-700"
+                      onClick={() => handleDecision(order.id, true)}
+                      disabled={processingOrderId === order.id || !order.passes_credit_check}
+                    >
+                      Valider
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="border-red-300 text-red-200 hover:bg-red-800/20"
+                      onClick={() => {
+                        setRefusingOrderId(order.id);
+                        setRefusalReason('');
+                        setActionError(null);
+                      }}
+                      disabled={processingOrderId === order.id}
+                    >
+                      Refuser
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+
+          {pendingPage && pendingPage.total > pendingPage.page_size && (
+            <div className="flex items-center justify-between pt-2">
+              <Button
+                variant="outline"
+                className="border-blue-300 text-blue-100 hover:bg-blue-800/20"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={page <= 1 || isLoading}
+              >
+                Précédent
+              </Button>
+              <span className="text-sm text-blue-200">Page {page} / {totalPages}</span>
+              <Button
+                variant="outline"
+                className="border-blue-300 text-blue-100 hover:bg-blue-800/20"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={page >= totalPages || isLoading}
+              >
+                Suivant
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {dashboardData && dashboardData.blockedAccounts.length > 0 && (
+        <Card className="bg-orange-900/20 border-orange-500/50">
+          <CardHeader>
+            <CardTitle className="text-orange-300">Comptes à surveiller</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {dashboardData.blockedAccounts.map((account) => (
+              <div key={account.client_id} className="flex justify-between text-sm text-orange-200">
+                <span>{account.company_name}</span>
+                <span>{account.overdue_amount.toLocaleString('fr-MA')} MAD échus</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
 
-function CounterDashboard({ user }: { user: User }) {
+function CounterDashboard({ user }: { user: PublicUser }) {
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold text-white mb-4">Dashboard Comptoir</h1>
@@ -359,7 +615,7 @@ function CounterDashboard({ user }: { user: User }) {
   );
 }
 
-function WarehouseDashboard({ user }: { user: User }) {
+function WarehouseDashboard({ user }: { user: PublicUser }) {
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold text-white mb-4">Dashboard Entrepôt La Villette</h1>
@@ -368,7 +624,7 @@ function WarehouseDashboard({ user }: { user: User }) {
   );
 }
 
-function DirectorDashboard({ user }: { user: User }) {
+function DirectorDashboard({ user }: { user: PublicUser }) {
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold text-white mb-4">Dashboard Directeur</h1>
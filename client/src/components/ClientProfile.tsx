@@ -7,13 +7,23 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import type { User, Client } from '../../../server/src/schema';
+import { trpc } from '@/utils/trpc';
+import type { PublicUser, Client } from '../../../server/src/schema';
 
 interface ClientProfileProps {
-  user: User | null;
+  user: PublicUser | null;
   client: Client | null;
 }
 
+// Mirrors passwordPolicySchema on the server
+function getPasswordPolicyError(password: string): string | null {
+  if (password.length < 8) return 'Le mot de passe doit contenir au moins 8 caractères';
+  if (!/[a-z]/.test(password)) return 'Le mot de passe doit contenir une lettre minuscule';
+  if (!/[A-Z]/.test(password)) return 'Le mot de passe doit contenir une lettre majuscule';
+  if (!/[0-9]/.test(password)) return 'Le mot de passe doit contenir un chiffre';
+  return null;
+}
+
 export default function ClientProfile({ user, client }: ClientProfileProps) {
   const [isChangingPassword, setIsChangingPassword] = useState(false);
   const [passwordForm, setPasswordForm] = useState({
@@ -23,6 +33,7 @@ export default function ClientProfile({ user, client }: ClientProfileProps) {
   });
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [passwordSuccess, setPasswordSuccess] = useState(false);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
 
   if (!user || !client) {
     return (
@@ -42,17 +53,19 @@ export default function ClientProfile({ user, client }: ClientProfileProps) {
       return;
     }
 
-    if (passwordForm.newPassword.length < 6) {
-      setPasswordError('Le mot de passe doit contenir au moins 6 caractères');
+    const policyError = getPasswordPolicyError(passwordForm.newPassword);
+    if (policyError) {
+      setPasswordError(policyError);
       return;
     }
 
+    setIsSavingPassword(true);
     try {
-      // TODO: Implement password change API call
-      // await trpc.auth.changePassword.mutate({
-      //   currentPassword: passwordForm.currentPassword,
-      //   newPassword: passwordForm.newPassword
-      // });
+      // Other sessions are signed out; this one stays open
+      await trpc.auth.changePassword.mutate({
+        current_password: passwordForm.currentPassword,
+        new_password: passwordForm.newPassword
+      });
 
       setPasswordSuccess(true);
       setPasswordForm({
@@ -65,7 +78,17 @@ export default function ClientProfile({ user, client }: ClientProfileProps) {
         setPasswordSuccess(false);
       }, 2000);
     } catch (error) {
-      setPasswordError('Erreur lors de la modification du mot de passe');
+      console.error('Erreur lors de la modification du mot de passe:', error);
+      const message = error instanceof Error ? error.message : '';
+      setPasswordError(
+        /current password is incorrect/i.test(message)
+          ? 'Mot de passe actuel incorrect'
+          : /must be different/i.test(message)
+            ? "Le nouveau mot de passe doit être différent de l'actuel"
+            : 'Erreur lors de la modification du mot de passe'
+      );
+    } finally {
+      setIsSavingPassword(false);
     }
   };
 
@@ -411,7 +434,7 @@ export default function ClientProfile({ user, client }: ClientProfileProps) {
                           setPasswordForm(prev => ({ ...prev, newPassword: e.target.value }))
                         }
                         className="bg-white/20 border-blue-300/30 text-white"
-                        minLength={6}
+                        minLength={8}
                         required
                       />
                     </div>
@@ -445,11 +468,16 @@ export default function ClientProfile({ user, client }: ClientProfileProps) {
                       </Alert>
                     )}
 
+                    <p className="text-blue-300 text-xs">
+                      Au moins 8 caractères, avec une majuscule, une minuscule et un chiffre.
+                    </p>
+
                     <Button
                       type="submit"
+                      disabled={isSavingPassword}
                       className="w-full bg-gradient-to-r from-blue-600 to-red-600 hover:from-blue-700 hover:to-red-700"
                     >
-                      Confirmer le changement
+                      {isSavingPassword ? 'Enregistrement...' : 'Confirmer le changement'}
                     </Button>
                   </form>
                 )}
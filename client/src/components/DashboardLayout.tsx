@@ -11,13 +11,13 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator 
 } from '@/components/ui/dropdown-menu';
-import type { User, Client } from '../../../server/src/schema';
+import type { PublicUser, Client } from '../../../server/src/schema';
 
 interface DashboardLayoutProps {
-  user: User | null;
+  user: PublicUser | null;
   client: Client | null;
-  currentView: 'dashboard' | 'catalog' | 'orders' | 'profile';
-  onViewChange: (view: 'dashboard' | 'catalog' | 'orders' | 'profile') => void;
+  currentView: 'dashboard' | 'catalog' | 'orders' | 'quotes' | 'profile';
+  onViewChange: (view: 'dashboard' | 'catalog' | 'orders' | 'quotes' | 'profile') => void;
   onLogout: () => void;
   children: React.ReactNode;
 }
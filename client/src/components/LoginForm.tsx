@@ -5,10 +5,10 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { trpc } from '@/utils/trpc';
-import type { User, Client, LoginInput } from '../../../server/src/schema';
+import type { PublicUser, Client, LoginInput } from '../../../server/src/schema';
 
 interface LoginFormProps {
-  onLogin: (user: User, client: Client | null, token: string) => void;
+  onLogin: (user: PublicUser, client: Client | null, token: string, refreshToken: string) => void;
 }
 
 export default function LoginForm({ onLogin }: LoginFormProps) {
@@ -21,6 +21,11 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
   const [showResetPassword, setShowResetPassword] = useState(false);
   const [resetEmail, setResetEmail] = useState('');
   const [resetMessage, setResetMessage] = useState<string | null>(null);
+  // Token from the emailed reset link (?reset_token=...)
+  const [resetToken, setResetToken] = useState<string | null>(() =>
+    new URLSearchParams(window.location.search).get('reset_token')
+  );
+  const [newPasswordForm, setNewPasswordForm] = useState({ newPassword: '', confirmPassword: '' });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,7 +34,7 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
 
     try {
       const response = await trpc.auth.login.mutate(formData);
-      onLogin(response.user, response.client || null, response.token);
+      onLogin(response.user, response.client || null, response.token, response.refresh_token);
     } catch (error) {
       console.error('Erreur de connexion:', error);
       setError('Email ou mot de passe incorrect');
@@ -44,8 +49,8 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
     setError(null);
 
     try {
-      await trpc.auth.resetPassword.mutate({ email: resetEmail });
-      setResetMessage('Une demande de réinitialisation a été envoyée au directeur. Vous serez contacté prochainement.');
+      await trpc.auth.requestPasswordReset.mutate({ email: resetEmail });
+      setResetMessage('Si un compte actif correspond à cette adresse, un email contenant un lien de réinitialisation vous a été envoyé. Le lien est valable 1 heure.');
     } catch (error) {
       console.error('Erreur de réinitialisation:', error);
       setError('Erreur lors de la demande de réinitialisation');
@@ -54,6 +59,41 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
     }
   };
 
+  const closeResetConfirmation = () => {
+    // Drop the token from the address bar so a refresh does not reopen this screen
+    window.history.replaceState(null, '', window.location.pathname);
+    setResetToken(null);
+    setNewPasswordForm({ newPassword: '', confirmPassword: '' });
+    setError(null);
+  };
+
+  const handleConfirmReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (newPasswordForm.newPassword !== newPasswordForm.confirmPassword) {
+      setError('Les mots de passe ne correspondent pas');
+      return;
+    }
+
+    if (!resetToken) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.auth.confirmPasswordReset.mutate({
+        token: resetToken,
+        new_password: newPasswordForm.newPassword
+      });
+      closeResetConfirmation();
+      setResetMessage('Votre mot de passe a été modifié. Vous pouvez maintenant vous connecter.');
+    } catch (error) {
+      console.error('Erreur de réinitialisation:', error);
+      setError('Lien de réinitialisation invalide ou expiré');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="w-full max-w-md mx-auto">
       <Card className="bg-white/10 backdrop-blur-sm border-blue-200/20 shadow-2xl">
@@ -73,7 +113,81 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
-          {!showResetPassword ? (
+          {resetToken ? (
+            <div className="space-y-4">
+              <div className="text-center">
+                <h3 className="text-lg font-semibold text-white mb-2">
+                  Nouveau mot de passe
+                </h3>
+                <p className="text-blue-200 text-sm mb-4">
+                  Choisissez un nouveau mot de passe pour votre compte.
+                </p>
+              </div>
+
+              <form onSubmit={handleConfirmReset} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword" className="text-blue-100">
+                    Nouveau mot de passe
+                  </Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    value={newPasswordForm.newPassword}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewPasswordForm(prev => ({ ...prev, newPassword: e.target.value }))
+                    }
+                    className="bg-white/20 border-blue-300/30 text-white placeholder-blue-200"
+                    placeholder="••••••••"
+                    minLength={8}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmNewPassword" className="text-blue-100">
+                    Confirmer le mot de passe
+                  </Label>
+                  <Input
+                    id="confirmNewPassword"
+                    type="password"
+                    value={newPasswordForm.confirmPassword}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setNewPasswordForm(prev => ({ ...prev, confirmPassword: e.target.value }))
+                    }
+                    className="bg-white/20 border-blue-300/30 text-white placeholder-blue-200"
+                    placeholder="••••••••"
+                    minLength={8}
+                    required
+                  />
+                </div>
+
+                {error && (
+                  <Alert className="bg-red-900/20 border-red-500/50">
+                    <AlertDescription className="text-red-300">
+                      {error}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex space-x-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={closeResetConfirmation}
+                    className="flex-1 border-blue-300 text-blue-100 hover:bg-blue-800/20"
+                  >
+                    Annuler
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={isLoading}
+                    className="flex-1 bg-gradient-to-r from-blue-600 to-red-600 hover:from-blue-700 hover:to-red-700"
+                  >
+                    {isLoading ? 'Enregistrement...' : 'Valider'}
+                  </Button>
+                </div>
+              </form>
+            </div>
+          ) : !showResetPassword ? (
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="email" className="text-blue-100">
@@ -116,6 +230,14 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
                 </Alert>
               )}
 
+              {resetMessage && (
+                <Alert className="bg-green-900/20 border-green-500/50">
+                  <AlertDescription className="text-green-300">
+                    {resetMessage}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <Button
                 type="submit"
                 disabled={isLoading}
@@ -127,7 +249,10 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
               <div className="text-center">
                 <button
                   type="button"
-                  onClick={() => setShowResetPassword(true)}
+                  onClick={() => {
+                    setShowResetPassword(true);
+                    setResetMessage(null);
+                  }}
                   className="text-blue-300 hover:text-blue-200 text-sm underline"
                 >
                   Mot de passe oublié ?
@@ -141,7 +266,7 @@ export default function LoginForm({ onLogin }: LoginFormProps) {
                   Réinitialisation du mot de passe
                 </h3>
                 <p className="text-blue-200 text-sm mb-4">
-                  Une demande sera envoyée au directeur qui vous contactera.
+                  Vous recevrez par email un lien pour choisir un nouveau mot de passe.
                 </p>
               </div>
 
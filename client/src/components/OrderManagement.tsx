@@ -5,10 +5,11 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { trpc } from '@/utils/trpc';
-import type { User, Client, Order, OrderItem } from '../../../server/src/schema';
+import { downloadDocument } from '@/utils/download';
+import type { PublicUser, Client, Order, OrderItem } from '../../../server/src/schema';
 
 interface OrderManagementProps {
-  user: User | null;
+  user: PublicUser | null;
   client: Client | null;
 }
 
@@ -36,6 +37,14 @@ export default function OrderManagement({ user, client }: OrderManagementProps)
     }
   }, [client, user]);
 
+  const downloadConfirmation = async (orderId: number) => {
+    try {
+      downloadDocument(await trpc.documents.orderConfirmation.query({ orderId }));
+    } catch (error) {
+      console.error('Erreur lors du téléchargement de la confirmation:', error);
+    }
+  };
+
   const loadOrderDetails = async (orderId: number) => {
     try {
       const [orderDetails, orderItems] = await Promise.all([
@@ -82,6 +91,7 @@ export default function OrderManagement({ user, client }: OrderManagementProps)
       case 'shipped': return 'bg-purple-600';
       case 'delivered': return 'bg-green-700';
       case 'refused': return 'bg-red-600';
+      case 'cancelled': return 'bg-gray-600';
       default: return 'bg-gray-600';
     }
   };
@@ -95,6 +105,7 @@ export default function OrderManagement({ user, client }: OrderManagementProps)
       case 'shipped': return 'Expédiée';
       case 'delivered': return 'Livrée';
       case 'refused': return 'Refusée';
+      case 'cancelled': return 'Annulée';
       default: return status;
     }
   };
@@ -112,7 +123,7 @@ export default function OrderManagement({ user, client }: OrderManagementProps)
     switch (tab) {
       case 'current':
         return orders.filter(order => 
-          !['delivered', 'refused'].includes(order.status)
+          !['delivered', 'refused', 'cancelled'].includes(order.status)
         );
       case 'completed':
         return orders.filter(order => 
@@ -120,7 +131,7 @@ export default function OrderManagement({ user, client }: OrderManagementProps)
         );
       case 'cancelled':
         return orders.filter(order => 
-          ['refused'].includes(order.status)
+          ['refused', 'cancelled'].includes(order.status)
         );
       case 'all':
       default:
@@ -350,6 +361,9 @@ export default function OrderManagement({ user, client }: OrderManagementProps)
                                 <p className="text-blue-200">
                                   {item.quantity} × {item.unit_price.toLocaleString('fr-MA')} MAD
                                 </p>
+                                {item.backordered_quantity > 0 && (
+                                  <p className="text-orange-300">{item.backordered_quantity} en reliquat</p>
+                                )}
                               </div>
                               <p className="text-white font-medium">
                                 {item.total_price.toLocaleString('fr-MA')} MAD
@@ -373,12 +387,19 @@ export default function OrderManagement({ user, client }: OrderManagementProps)
 
                   {/* Actions */}
                   <div className="space-y-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => downloadConfirmation(selectedOrder.id)}
+                      className="w-full border-blue-400 text-blue-200 hover:bg-blue-800/20"
+                    >
+                      📄 Confirmation de commande (PDF)
+                    </Button>
                     {selectedOrder.sage_document_number && (
                       <Button className="w-full bg-gradient-to-r from-blue-600 to-green-600 hover:from-blue-700 hover:to-green-700">
                         📄 Télécharger BL/Facture
                       </Button>
                     )}
-                    {['delivered', 'refused'].includes(selectedOrder.status) && (
+                    {['delivered', 'refused', 'cancelled'].includes(selectedOrder.status) && (
                       <Button 
                         variant="outline" 
                         className="w-full border-blue-400 text-blue-200 hover:bg-blue-800/20"
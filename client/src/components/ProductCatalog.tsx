@@ -7,10 +7,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { trpc } from '@/utils/trpc';
-import type { User, Client, Product } from '../../../server/src/schema';
+import type { PublicUser, Client, Product } from '../../../server/src/schema';
 
 interface ProductCatalogProps {
-  user: User | null;
+  user: PublicUser | null;
   client: Client | null;
 }
 
@@ -61,12 +61,14 @@ export default function ProductCatalog({ user, client }: ProductCatalogProps) {
             // Get stock for this product
             const stockData = await trpc.products.getStock.query({ productId: product.id });
             
-            // Calculate stock by warehouse
+            // Calculate sellable stock by warehouse (on hand minus units reserved by orders)
+            const available = (warehouse: string) =>
+              Math.max(stockData.find(s => s.warehouse === warehouse)?.available || 0, 0);
             const stock = {
-              ibn_tachfine: stockData.find(s => s.warehouse === 'ibn_tachfine')?.quantity || 0,
-              drb_omar: stockData.find(s => s.warehouse === 'drb_omar')?.quantity || 0,
-              la_villette: stockData.find(s => s.warehouse === 'la_villette')?.quantity || 0,
-              total: stockData.reduce((sum, s) => sum + s.quantity, 0)
+              ibn_tachfine: available('ibn_tachfine'),
+              drb_omar: available('drb_omar'),
+              la_villette: available('la_villette'),
+              total: stockData.reduce((sum, s) => sum + Math.max(s.available, 0), 0)
             };
 
             // Get client-specific pricing if user is a client
@@ -0,0 +1,136 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { downloadDocument } from '@/utils/download';
+import type { PublicUser, Quote, QuoteStatus } from '../../../server/src/schema';
+
+interface RepresentativeQuotesProps {
+  user: PublicUser;
+}
+
+const STATUS_LABELS: Record<QuoteStatus, { label: string; className: string }> = {
+  draft: { label: 'Brouillon', className: 'bg-gray-600' },
+  sent: { label: 'Envoyé', className: 'bg-blue-600' },
+  accepted: { label: 'Accepté', className: 'bg-green-600' },
+  rejected: { label: 'Refusé', className: 'bg-red-600' },
+  expired: { label: 'Expiré', className: 'bg-gray-600' },
+  superseded: { label: 'Remplacé', className: 'bg-orange-600' }
+};
+
+// Quotes of the representative, laid out for a phone: the QR code opens full width so the client can scan it in the shop
+export default function RepresentativeQuotes({ user }: RepresentativeQuotesProps) {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [qrQuoteId, setQrQuoteId] = useState<number | null>(null);
+  const [qrImage, setQrImage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadQuotes = async () => {
+      try {
+        setQuotes(await trpc.quotes.getByRepresentative.query({ representativeId: user.id }));
+      } catch (error) {
+        console.error('Erreur lors du chargement des devis:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadQuotes();
+  }, [user.id]);
+
+  const toggleQrCode = async (quoteId: number) => {
+    if (qrQuoteId === quoteId) {
+      setQrQuoteId(null);
+      return;
+    }
+
+    setQrQuoteId(quoteId);
+    setQrImage(null);
+    try {
+      const qrCode = await trpc.quotes.getQrCode.query({ quoteId, format: 'svg' });
+      setQrImage(`data:${qrCode.mime_type};charset=utf-8,${encodeURIComponent(qrCode.data)}`);
+    } catch (error) {
+      console.error('Erreur lors du chargement du QR code:', error);
+      setQrQuoteId(null);
+    }
+  };
+
+  const downloadPdf = async (quoteId: number) => {
+    try {
+      downloadDocument(await trpc.documents.quote.query({ quoteId }));
+    } catch (error) {
+      console.error('Erreur lors du téléchargement du devis:', error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-white">Chargement des devis...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-6 space-y-4 max-w-2xl mx-auto">
+      <h1 className="text-2xl font-bold text-white">Mes Devis</h1>
+
+      {quotes.length === 0 && (
+        <p className="text-blue-200">Aucun devis pour le moment.</p>
+      )}
+
+      {quotes.map((quote) => (
+        <Card key={quote.id} className="bg-white/10 backdrop-blur-sm border-blue-200/20">
+          <CardContent className="pt-4 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="text-white font-semibold">{quote.quote_number}</div>
+                <div className="text-xs text-blue-200">
+                  Valable jusqu'au {quote.expires_at.toLocaleDateString('fr-MA')}
+                </div>
+              </div>
+              <Badge className={STATUS_LABELS[quote.status].className}>{STATUS_LABELS[quote.status].label}</Badge>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-lg font-bold text-white">{quote.total_amount.toLocaleString('fr-MA')} MAD</span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadPdf(quote.id)}
+                  className="border-blue-400 text-blue-200 hover:bg-blue-800/20"
+                >
+                  📄 PDF
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleQrCode(quote.id)}
+                  className="border-blue-400 text-blue-200 hover:bg-blue-800/20"
+                >
+                  {qrQuoteId === quote.id ? 'Masquer le QR code' : '📱 QR code'}
+                </Button>
+              </div>
+            </div>
+
+            {qrQuoteId === quote.id && (
+              <div className="flex flex-col items-center gap-2 p-4 bg-white rounded-lg">
+                {qrImage ? (
+                  <img src={qrImage} alt={`QR code du devis ${quote.quote_number}`} className="w-full max-w-xs aspect-square" />
+                ) : (
+                  <div className="text-slate-600 text-sm">Génération du QR code...</div>
+                )}
+                <p className="text-slate-600 text-xs text-center">
+                  Le client scanne ce code pour ouvrir le devis sur son téléphone.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
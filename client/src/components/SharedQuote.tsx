@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import type { QuoteStatus, SharedQuote as SharedQuoteData } from '../../../server/src/schema';
+
+interface SharedQuoteProps {
+  shareToken: string;
+}
+
+const STATUS_LABELS: Record<QuoteStatus, { label: string; className: string }> = {
+  draft: { label: 'Brouillon', className: 'bg-gray-600' },
+  sent: { label: 'En attente de réponse', className: 'bg-blue-600' },
+  accepted: { label: 'Accepté', className: 'bg-green-600' },
+  rejected: { label: 'Refusé', className: 'bg-red-600' },
+  expired: { label: 'Expiré', className: 'bg-gray-600' },
+  superseded: { label: 'Remplacé par une nouvelle version', className: 'bg-orange-600' }
+};
+
+// Public page behind a quote share link; readable without an account, and the client answers the quote from here
+export default function SharedQuote({ shareToken }: SharedQuoteProps) {
+  const [quote, setQuote] = useState<SharedQuoteData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [hasError, setHasError] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [isResponding, setIsResponding] = useState(false);
+  const [responseError, setResponseError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadQuote = async () => {
+      try {
+        setQuote(await trpc.quotes.getByShareToken.query({ shareToken }));
+      } catch (error) {
+        console.error('Erreur lors du chargement du devis:', error);
+        setHasError(true);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadQuote();
+  }, [shareToken]);
+
+  const respond = async (accept: boolean) => {
+    setResponseError(null);
+    setIsResponding(true);
+    try {
+      setQuote(accept
+        ? await trpc.quotes.acceptByShareToken.mutate({ shareToken })
+        : await trpc.quotes.rejectByShareToken.mutate({ shareToken, reason: rejectionReason.trim() }));
+      setIsRejecting(false);
+    } catch (error) {
+      console.error('Erreur lors de la réponse au devis:', error);
+      const message = error instanceof Error ? error.message : '';
+      setResponseError(
+        /expired/i.test(message)
+          ? 'Ce devis a expiré. Contactez votre représentant Konipa pour une nouvelle version.'
+          : /can no longer be answered/i.test(message)
+            ? 'Ce devis a déjà reçu une réponse.'
+            : 'Votre réponse n\'a pas pu être enregistrée. Veuillez réessayer.'
+      );
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="text-white">Chargement du devis...</div>
+      </div>
+    );
+  }
+
+  if (hasError || !quote) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Card className="bg-white/10 backdrop-blur-sm border-blue-200/20 max-w-md">
+          <CardContent className="pt-6 text-center space-y-2">
+            <div className="text-2xl">📄</div>
+            <h2 className="text-white font-semibold">Devis indisponible</h2>
+            <p className="text-blue-200 text-sm">
+              {hasError
+                ? 'Le devis n\'a pas pu être chargé. Veuillez réessayer plus tard.'
+                : 'Ce lien de devis est invalide ou le devis a expiré. Contactez votre représentant Konipa.'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-white mb-2">Devis {quote.quote_number}</h1>
+        <p className="text-blue-200">{quote.company_name}</p>
+      </div>
+
+      <Card className="bg-white/10 backdrop-blur-sm border-blue-200/20">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <CardTitle className="text-white">Détail du devis</CardTitle>
+              <Badge className={STATUS_LABELS[quote.status].className}>{STATUS_LABELS[quote.status].label}</Badge>
+            </div>
+            <div className="text-xs text-blue-200 text-right">
+              <div>Émis le {quote.created_at.toLocaleDateString('fr-MA')}</div>
+              <div>Valable jusqu'au {quote.expires_at.toLocaleDateString('fr-MA')}</div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="hidden md:grid grid-cols-12 gap-2 text-xs text-blue-200 uppercase">
+            <div className="col-span-6">Article</div>
+            <div className="col-span-2 text-right">Quantité</div>
+            <div className="col-span-2 text-right">Prix unitaire</div>
+            <div className="col-span-2 text-right">Total</div>
+          </div>
+          {quote.items.map((item, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 p-3 rounded-md bg-white/5 border border-blue-200/10 text-sm">
+              <div className="col-span-12 md:col-span-6">
+                <div className="text-white font-medium">{item.designation}</div>
+                <div className="text-xs text-blue-200">
+                  Réf. {item.reference}{item.brand && ` — ${item.brand}`}
+                </div>
+              </div>
+              <div className="col-span-4 md:col-span-2 text-right text-white">{item.quantity}</div>
+              <div className="col-span-4 md:col-span-2 text-right text-blue-100">
+                {item.unit_price.toLocaleString('fr-MA')} MAD
+              </div>
+              <div className="col-span-4 md:col-span-2 text-right text-white font-semibold">
+                {item.total_price.toLocaleString('fr-MA')} MAD
+              </div>
+            </div>
+          ))}
+
+          <Separator className="bg-blue-200/20" />
+
+          <div className="flex justify-between items-center">
+            <span className="text-blue-100 font-medium">Total</span>
+            <span className="text-2xl font-bold text-white">{quote.total_amount.toLocaleString('fr-MA')} MAD</span>
+          </div>
+
+          {quote.status === 'sent' && (
+            <div className="space-y-3 pt-2">
+              {isRejecting ? (
+                <div className="space-y-3 p-4 bg-white/5 rounded-lg">
+                  <Textarea
+                    value={rejectionReason}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setRejectionReason(e.target.value)}
+                    placeholder="Motif du refus (prix, délai, quantités...)"
+                    maxLength={500}
+                    className="bg-white/10 border-blue-200/20 text-white placeholder:text-blue-300"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsRejecting(false)}
+                      disabled={isResponding}
+                      className="border-blue-400 text-blue-200 hover:bg-blue-800/20"
+                    >
+                      Annuler
+                    </Button>
+                    <Button
+                      onClick={() => respond(false)}
+                      disabled={isResponding || !rejectionReason.trim()}
+                      className="bg-red-600 hover:bg-red-700"
+                    >
+                      Confirmer le refus
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsRejecting(true)}
+                    disabled={isResponding}
+                    className="border-blue-400 text-blue-200 hover:bg-blue-800/20"
+                  >
+                    Refuser
+                  </Button>
+                  <Button onClick={() => respond(true)} disabled={isResponding} className="bg-green-600 hover:bg-green-700">
+                    Accepter le devis
+                  </Button>
+                </div>
+              )}
+              {responseError && <p className="text-red-300 text-sm text-right">{responseError}</p>}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
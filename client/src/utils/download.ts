@@ -0,0 +1,12 @@
+import type { DocumentFile } from '../../../server/src/schema';
+
+// Saves a document returned by the server (base64 content) under its own file name
+export function downloadDocument(file: DocumentFile): void {
+  const bytes = Uint8Array.from(atob(file.data), (char) => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.mime_type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -2,9 +2,92 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+interface StoredAuth {
+  token: string | null;
+  refreshToken?: string | null;
+}
+
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Read the tokens persisted by App on login
+function getStoredAuth(): StoredAuth | null {
+  const storedAuth = localStorage.getItem('konipa_auth');
+  if (!storedAuth) return null;
+  try {
+    return JSON.parse(storedAuth) as StoredAuth;
+  } catch {
+    return null;
+  }
+}
+
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[0])) as { exp?: number };
+    return typeof payload.exp === 'number' ? payload.exp : null;
+  } catch {
+    return null;
+  }
+}
+
+// Unauthenticated client used only to exchange refresh tokens
+const refreshClient = createTRPCClient<AppRouter>({
+  links: [
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+    }),
+  ],
+});
+
+let pendingRefresh: Promise<string | null> | null = null;
+
+async function refreshAuthToken(refreshToken: string): Promise<string | null> {
+  try {
+    const tokens = await refreshClient.auth.refresh.mutate({ refresh_token: refreshToken });
+    const current = getStoredAuth();
+    if (current) {
+      localStorage.setItem('konipa_auth', JSON.stringify({
+        ...current,
+        token: tokens.token,
+        refreshToken: tokens.refresh_token
+      }));
+    }
+    return tokens.token;
+  } catch (error) {
+    console.error('Token refresh failed:', error);
+    return null;
+  }
+}
+
+// Concurrent requests share a single refresh so the rotated token is only used once
+async function getAuthToken(): Promise<string | null> {
+  const auth = getStoredAuth();
+  if (!auth?.token) return null;
+
+  const expiry = getTokenExpiry(auth.token);
+  if (expiry === null || expiry - Date.now() > REFRESH_MARGIN_MS || !auth.refreshToken) {
+    return auth.token;
+  }
+
+  if (!pendingRefresh) {
+    pendingRefresh = refreshAuthToken(auth.refreshToken).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      async headers() {
+        const token = await getAuthToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -9,3 +9,6 @@ const pool = new Pool({
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Either the pool-backed client or an open transaction, for helpers that run inside both
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
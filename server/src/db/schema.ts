@@ -8,9 +8,12 @@ import {
   boolean,
   pgEnum,
   varchar,
-  unique
+  unique,
+  uniqueIndex,
+  date,
+  type AnyPgColumn
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // Define enums
 export const userRoleEnum = pgEnum('user_role', [
@@ -29,7 +32,8 @@ export const orderStatusEnum = pgEnum('order_status', [
   'ready',
   'shipped',
   'delivered',
-  'refused'
+  'refused',
+  'cancelled'
 ]);
 
 export const transferStatusEnum = pgEnum('transfer_status', [
@@ -53,6 +57,52 @@ export const carrierEnum = pgEnum('carrier', [
   'baha'
 ]);
 
+export const sageExportStatusEnum = pgEnum('sage_export_status', [
+  'pending',
+  'exported',
+  'failed'
+]);
+
+export const stockMovementTypeEnum = pgEnum('stock_movement_type', [
+  'receipt',
+  'sale',
+  'transfer_out',
+  'transfer_in',
+  'adjustment',
+  'inventory_count'
+]);
+
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', [
+  'draft',
+  'ordered',
+  'partially_received',
+  'received',
+  'cancelled'
+]);
+
+export const inventorySessionStatusEnum = pgEnum('inventory_session_status', [
+  'counting',
+  'review',
+  'posted',
+  'cancelled'
+]);
+
+// Superseded quotes are earlier versions replaced by a revision
+export const quoteStatusEnum = pgEnum('quote_status', [
+  'draft',
+  'sent',
+  'accepted',
+  'rejected',
+  'expired',
+  'superseded'
+]);
+
+export const stockReservationStatusEnum = pgEnum('stock_reservation_status', [
+  'active',
+  'released',
+  'consumed'
+]);
+
 // Users table
 export const usersTable = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -61,6 +111,16 @@ export const usersTable = pgTable('users', {
   role: userRoleEnum('role').notNull(),
   sage_id: varchar('sage_id', { length: 50 }),
   is_active: boolean('is_active').default(true).notNull(),
+  password_changed_at: timestamp('password_changed_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Client groups table (e.g. garages, wholesalers) that price lists can target
+export const clientGroupsTable = pgTable('client_groups', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 100 }).notNull().unique(),
+  description: text('description'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -80,6 +140,7 @@ export const clientsTable = pgTable('clients', {
   payment_due_date: timestamp('payment_due_date'),
   is_blocked: boolean('is_blocked').default(false).notNull(),
   representative_id: integer('representative_id').references(() => usersTable.id),
+  client_group_id: integer('client_group_id').references(() => clientGroupsTable.id),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -120,6 +181,129 @@ export const stockTable = pgTable('stock', {
   uniqueProductWarehouse: unique().on(table.product_id, table.warehouse)
 }));
 
+// Reorder points table (min/max levels of a product at a warehouse)
+export const reorderPointsTable = pgTable('reorder_points', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull().references(() => productsTable.id),
+  warehouse: warehouseEnum('warehouse').notNull(),
+  min_quantity: integer('min_quantity').notNull(),
+  max_quantity: integer('max_quantity'),
+  updated_by: integer('updated_by').references(() => usersTable.id),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  uniqueProductWarehouse: unique().on(table.product_id, table.warehouse)
+}));
+
+// Stock movements table (append-only ledger; stock.quantity is the running balance it produces)
+export const stockMovementsTable = pgTable('stock_movements', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull().references(() => productsTable.id),
+  warehouse: warehouseEnum('warehouse').notNull(),
+  type: stockMovementTypeEnum('type').notNull(),
+  quantity: integer('quantity').notNull(),
+  balance_after: integer('balance_after').notNull(),
+  order_id: integer('order_id').references(() => ordersTable.id),
+  transfer_id: integer('transfer_id').references((): AnyPgColumn => transferRequestsTable.id),
+  purchase_order_id: integer('purchase_order_id').references((): AnyPgColumn => purchaseOrdersTable.id),
+  created_by: integer('created_by').references(() => usersTable.id),
+  note: text('note'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Suppliers table
+export const suppliersTable = pgTable('suppliers', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull().unique(),
+  contact_name: varchar('contact_name', { length: 255 }),
+  email: varchar('email', { length: 255 }),
+  phone: varchar('phone', { length: 20 }),
+  address: text('address'),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Purchase orders table (po_number is derived from the id once inserted; expected_date is a local YYYY-MM-DD day;
+// warehouse is where the goods are expected)
+export const purchaseOrdersTable = pgTable('purchase_orders', {
+  id: serial('id').primaryKey(),
+  po_number: varchar('po_number', { length: 50 }).unique(),
+  supplier_id: integer('supplier_id').notNull().references(() => suppliersTable.id),
+  warehouse: warehouseEnum('warehouse').notNull(),
+  status: purchaseOrderStatusEnum('status').default('draft').notNull(),
+  expected_date: date('expected_date', { mode: 'string' }),
+  total_amount: numeric('total_amount', { precision: 12, scale: 2 }).notNull(),
+  notes: text('notes'),
+  created_by: integer('created_by').references(() => usersTable.id),
+  ordered_at: timestamp('ordered_at'),
+  received_at: timestamp('received_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Purchase order lines table
+export const purchaseOrderLinesTable = pgTable('purchase_order_lines', {
+  id: serial('id').primaryKey(),
+  purchase_order_id: integer('purchase_order_id').notNull().references(() => purchaseOrdersTable.id),
+  product_id: integer('product_id').notNull().references(() => productsTable.id),
+  quantity_ordered: integer('quantity_ordered').notNull(),
+  quantity_received: integer('quantity_received').default(0).notNull(),
+  unit_cost: numeric('unit_cost', { precision: 10, scale: 2 }).notNull(),
+  total_cost: numeric('total_cost', { precision: 12, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Inventory sessions table (a physical count of one warehouse, optionally limited to a category;
+// at most one session per warehouse is counting or in review)
+export const inventorySessionsTable = pgTable('inventory_sessions', {
+  id: serial('id').primaryKey(),
+  warehouse: warehouseEnum('warehouse').notNull(),
+  category: text('category'),
+  status: inventorySessionStatusEnum('status').default('counting').notNull(),
+  opened_by: integer('opened_by').notNull().references(() => usersTable.id),
+  submitted_by: integer('submitted_by').references(() => usersTable.id),
+  submitted_at: timestamp('submitted_at'),
+  posted_by: integer('posted_by').references(() => usersTable.id),
+  posted_at: timestamp('posted_at'),
+  cancelled_by: integer('cancelled_by').references(() => usersTable.id),
+  cancelled_at: timestamp('cancelled_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  uniqueActiveWarehouse: uniqueIndex('inventory_sessions_active_warehouse_idx')
+    .on(table.warehouse)
+    .where(sql`${table.status} in ('counting', 'review')`)
+}));
+
+// Inventory count lines table (system quantity frozen when the session opens, and what was counted)
+export const inventoryCountLinesTable = pgTable('inventory_count_lines', {
+  id: serial('id').primaryKey(),
+  session_id: integer('session_id').notNull().references(() => inventorySessionsTable.id),
+  product_id: integer('product_id').notNull().references(() => productsTable.id),
+  expected_quantity: integer('expected_quantity').notNull(),
+  counted_quantity: integer('counted_quantity'),
+  counted_by: integer('counted_by').references(() => usersTable.id),
+  counted_at: timestamp('counted_at'),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  uniqueSessionProduct: unique().on(table.session_id, table.product_id)
+}));
+
+// Stock reservations table (units held for an order item until it ships or is released)
+export const stockReservationsTable = pgTable('stock_reservations', {
+  id: serial('id').primaryKey(),
+  order_id: integer('order_id').notNull().references(() => ordersTable.id),
+  order_item_id: integer('order_item_id').notNull().references(() => orderItemsTable.id),
+  product_id: integer('product_id').notNull().references(() => productsTable.id),
+  warehouse: warehouseEnum('warehouse').notNull(),
+  quantity: integer('quantity').notNull(),
+  status: stockReservationStatusEnum('status').default('active').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Client product pricing table
 export const clientProductPricingTable = pgTable('client_product_pricing', {
   id: serial('id').primaryKey(),
@@ -134,6 +318,35 @@ export const clientProductPricingTable = pgTable('client_product_pricing', {
   uniqueClientProduct: unique().on(table.client_id, table.product_id)
 }));
 
+// Price lists table (applies to one client, to a client group, or to every client when both are null; a higher priority
+// wins; valid_from/valid_until bound the period during which its rules apply)
+export const priceListsTable = pgTable('price_lists', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  client_id: integer('client_id').references(() => clientsTable.id),
+  client_group_id: integer('client_group_id').references(() => clientGroupsTable.id),
+  priority: integer('priority').default(0).notNull(),
+  valid_from: timestamp('valid_from'),
+  valid_until: timestamp('valid_until'),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Pricing rules table (targets one product, a brand, a category, or every product when all three are null; sets either
+// a fixed unit price or a discount on the base price, from min_quantity units per order line)
+export const pricingRulesTable = pgTable('pricing_rules', {
+  id: serial('id').primaryKey(),
+  price_list_id: integer('price_list_id').notNull().references(() => priceListsTable.id),
+  product_id: integer('product_id').references(() => productsTable.id),
+  brand: varchar('brand', { length: 100 }),
+  category: varchar('category', { length: 100 }),
+  min_quantity: integer('min_quantity').default(1).notNull(),
+  fixed_price: numeric('fixed_price', { precision: 10, scale: 2 }),
+  discount_percentage: numeric('discount_percentage', { precision: 5, scale: 2 }),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Orders table
 export const ordersTable = pgTable('orders', {
   id: serial('id').primaryKey(),
@@ -144,6 +357,8 @@ export const ordersTable = pgTable('orders', {
   total_amount: numeric('total_amount', { precision: 12, scale: 2 }).notNull(),
   carrier: carrierEnum('carrier').notNull(),
   is_grouped: boolean('is_grouped').default(false).notNull(),
+  shipment_group_id: integer('shipment_group_id').references((): AnyPgColumn => shipmentGroupsTable.id),
+  quote_id: integer('quote_id').references((): AnyPgColumn => quotesTable.id), // Set when the order was converted from a quote
   sage_document_number: varchar('sage_document_number', { length: 50 }),
   validated_by: integer('validated_by').references(() => usersTable.id),
   validated_at: timestamp('validated_at'),
@@ -161,21 +376,77 @@ export const orderItemsTable = pgTable('order_items', {
   quantity: integer('quantity').notNull(),
   unit_price: numeric('unit_price', { precision: 10, scale: 2 }).notNull(),
   total_price: numeric('total_price', { precision: 12, scale: 2 }).notNull(),
+  // Units no warehouse could supply once their transfer was cancelled; the order ships without them
+  backordered_quantity: integer('backordered_quantity').default(0).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Shipment groups table (orders of one client and carrier leaving on the same day)
+export const shipmentGroupsTable = pgTable('shipment_groups', {
+  id: serial('id').primaryKey(),
+  client_id: integer('client_id').notNull().references(() => clientsTable.id),
+  carrier: carrierEnum('carrier').notNull(),
+  shipping_date: date('shipping_date', { mode: 'string' }).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  uniqueClientCarrierDate: unique().on(table.client_id, table.carrier, table.shipping_date)
+}));
+
+// Order status history table (one row per status change, including creation)
+export const orderStatusHistoryTable = pgTable('order_status_history', {
+  id: serial('id').primaryKey(),
+  order_id: integer('order_id').notNull().references(() => ordersTable.id),
+  from_status: orderStatusEnum('from_status'),
+  to_status: orderStatusEnum('to_status').notNull(),
+  changed_by: integer('changed_by').references(() => usersTable.id),
+  reason: text('reason'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Sage export outbox table (one row per validated order, retried until Sage accepts it)
+export const sageExportOutboxTable = pgTable('sage_export_outbox', {
+  id: serial('id').primaryKey(),
+  order_id: integer('order_id').notNull().references(() => ordersTable.id).unique(),
+  status: sageExportStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  last_error: text('last_error'),
+  next_attempt_at: timestamp('next_attempt_at').defaultNow().notNull(),
+  exported_at: timestamp('exported_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Order number counters table (one row per year, incremented atomically)
+export const orderNumberCountersTable = pgTable('order_number_counters', {
+  year: integer('year').primaryKey(),
+  last_value: integer('last_value').default(0).notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Quotes table
 export const quotesTable = pgTable('quotes', {
   id: serial('id').primaryKey(),
   client_id: integer('client_id').notNull().references(() => clientsTable.id),
   representative_id: integer('representative_id').notNull().references(() => usersTable.id),
   quote_number: varchar('quote_number', { length: 50 }).notNull().unique(),
+  status: quoteStatusEnum('status').default('draft').notNull(),
+  revision: integer('revision').default(0).notNull(),
+  previous_version_id: integer('previous_version_id').references((): AnyPgColumn => quotesTable.id),
   total_amount: numeric('total_amount', { precision: 12, scale: 2 }).notNull(),
   qr_code: text('qr_code').notNull(),
+  // Quotes are issued with a token from the handler; the default only backfills quotes created before share tokens
+  share_token: varchar('share_token', { length: 64 })
+    .default(sql`replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')`)
+    .notNull()
+    .unique(),
   share_link: text('share_link').notNull(),
   is_converted_to_order: boolean('is_converted_to_order').default(false).notNull(),
   order_id: integer('order_id').references(() => ordersTable.id),
   expires_at: timestamp('expires_at').notNull(),
+  sent_at: timestamp('sent_at'),
+  responded_at: timestamp('responded_at'),
+  rejection_reason: text('rejection_reason'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -188,6 +459,7 @@ export const quoteItemsTable = pgTable('quote_items', {
   quantity: integer('quantity').notNull(),
   unit_price: numeric('unit_price', { precision: 10, scale: 2 }).notNull(),
   total_price: numeric('total_price', { precision: 12, scale: 2 }).notNull(),
+  order_id: integer('order_id').references(() => ordersTable.id), // Set once the line has been converted into an order
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
@@ -200,6 +472,9 @@ export const transferRequestsTable = pgTable('transfer_requests', {
   to_warehouse: warehouseEnum('to_warehouse').notNull(),
   quantity_requested: integer('quantity_requested').notNull(),
   quantity_prepared: integer('quantity_prepared').default(0).notNull(),
+  quantity_received: integer('quantity_received'),
+  reservation_id: integer('reservation_id').references(() => stockReservationsTable.id),
+  backorder_of_id: integer('backorder_of_id').references((): AnyPgColumn => transferRequestsTable.id),
   status: transferStatusEnum('status').default('pending').notNull(),
   requested_by: integer('requested_by').notNull().references(() => usersTable.id),
   prepared_by: integer('prepared_by').references(() => usersTable.id),
@@ -211,6 +486,51 @@ export const transferRequestsTable = pgTable('transfer_requests', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Transfer discrepancies table (recorded when the count on arrival differs from what was shipped)
+export const transferDiscrepanciesTable = pgTable('transfer_discrepancies', {
+  id: serial('id').primaryKey(),
+  transfer_id: integer('transfer_id').notNull().references(() => transferRequestsTable.id),
+  product_id: integer('product_id').notNull().references(() => productsTable.id),
+  quantity_shipped: integer('quantity_shipped').notNull(),
+  quantity_received: integer('quantity_received').notNull(),
+  backorder_transfer_id: integer('backorder_transfer_id').references(() => transferRequestsTable.id),
+  reported_by: integer('reported_by').notNull().references(() => usersTable.id),
+  note: text('note'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Password reset tokens table (only a hash of the emailed token is stored)
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Sessions table (one row per login, holding a hash of the current refresh token)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id),
+  refresh_token_hash: varchar('refresh_token_hash', { length: 64 }).notNull().unique(),
+  previous_refresh_token_hash: varchar('previous_refresh_token_hash', { length: 64 }),
+  user_agent: text('user_agent'),
+  expires_at: timestamp('expires_at').notNull(),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Audit log table
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').references(() => usersTable.id),
+  action: varchar('action', { length: 100 }).notNull(),
+  details: text('details'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Define relations
 export const usersRelations = relations(usersTable, ({ one, many }) => ({
   client: one(clientsTable, {
@@ -223,7 +543,11 @@ export const usersRelations = relations(usersTable, ({ one, many }) => ({
   validatedOrders: many(ordersTable, { relationName: "validated_orders" }),
   transferRequestsRequested: many(transferRequestsTable, { relationName: "requested_transfers" }),
   transferRequestsPrepared: many(transferRequestsTable, { relationName: "prepared_transfers" }),
-  transferRequestsReceived: many(transferRequestsTable, { relationName: "received_transfers" })
+  transferRequestsReceived: many(transferRequestsTable, { relationName: "received_transfers" }),
+  orderStatusChanges: many(orderStatusHistoryTable),
+  passwordResetTokens: many(passwordResetTokensTable),
+  sessions: many(sessionsTable),
+  auditEntries: many(auditLogTable)
 }));
 
 export const clientsRelations = relations(clientsTable, ({ one, many }) => ({
@@ -238,16 +562,25 @@ export const clientsRelations = relations(clientsTable, ({ one, many }) => ({
   }),
   orders: many(ordersTable),
   quotes: many(quotesTable),
-  customPricing: many(clientProductPricingTable)
+  customPricing: many(clientProductPricingTable),
+  clientGroup: one(clientGroupsTable, {
+    fields: [clientsTable.client_group_id],
+    references: [clientGroupsTable.id]
+  }),
+  priceLists: many(priceListsTable),
+  shipmentGroups: many(shipmentGroupsTable)
 }));
 
 export const productsRelations = relations(productsTable, ({ many }) => ({
   substitutes: many(productSubstitutesTable, { relationName: "product_substitutes" }),
   substituteFor: many(productSubstitutesTable, { relationName: "substitute_for" }),
   stock: many(stockTable),
+  stockReservations: many(stockReservationsTable),
+  stockMovements: many(stockMovementsTable),
   orderItems: many(orderItemsTable),
   quoteItems: many(quoteItemsTable),
   customPricing: many(clientProductPricingTable),
+  pricingRules: many(pricingRulesTable),
   transferRequests: many(transferRequestsTable)
 }));
 
@@ -271,6 +604,122 @@ export const stockRelations = relations(stockTable, ({ one }) => ({
   })
 }));
 
+export const reorderPointsRelations = relations(reorderPointsTable, ({ one }) => ({
+  product: one(productsTable, {
+    fields: [reorderPointsTable.product_id],
+    references: [productsTable.id]
+  })
+}));
+
+export const stockMovementsRelations = relations(stockMovementsTable, ({ one }) => ({
+  product: one(productsTable, {
+    fields: [stockMovementsTable.product_id],
+    references: [productsTable.id]
+  }),
+  order: one(ordersTable, {
+    fields: [stockMovementsTable.order_id],
+    references: [ordersTable.id]
+  }),
+  transfer: one(transferRequestsTable, {
+    fields: [stockMovementsTable.transfer_id],
+    references: [transferRequestsTable.id]
+  }),
+  purchaseOrder: one(purchaseOrdersTable, {
+    fields: [stockMovementsTable.purchase_order_id],
+    references: [purchaseOrdersTable.id]
+  }),
+  createdBy: one(usersTable, {
+    fields: [stockMovementsTable.created_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const suppliersRelations = relations(suppliersTable, ({ many }) => ({
+  purchaseOrders: many(purchaseOrdersTable)
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrdersTable, ({ one, many }) => ({
+  supplier: one(suppliersTable, {
+    fields: [purchaseOrdersTable.supplier_id],
+    references: [suppliersTable.id]
+  }),
+  lines: many(purchaseOrderLinesTable)
+}));
+
+export const purchaseOrderLinesRelations = relations(purchaseOrderLinesTable, ({ one }) => ({
+  purchaseOrder: one(purchaseOrdersTable, {
+    fields: [purchaseOrderLinesTable.purchase_order_id],
+    references: [purchaseOrdersTable.id]
+  }),
+  product: one(productsTable, {
+    fields: [purchaseOrderLinesTable.product_id],
+    references: [productsTable.id]
+  })
+}));
+
+export const inventorySessionsRelations = relations(inventorySessionsTable, ({ one, many }) => ({
+  openedBy: one(usersTable, {
+    fields: [inventorySessionsTable.opened_by],
+    references: [usersTable.id]
+  }),
+  lines: many(inventoryCountLinesTable)
+}));
+
+export const inventoryCountLinesRelations = relations(inventoryCountLinesTable, ({ one }) => ({
+  session: one(inventorySessionsTable, {
+    fields: [inventoryCountLinesTable.session_id],
+    references: [inventorySessionsTable.id]
+  }),
+  product: one(productsTable, {
+    fields: [inventoryCountLinesTable.product_id],
+    references: [productsTable.id]
+  })
+}));
+
+export const stockReservationsRelations = relations(stockReservationsTable, ({ one, many }) => ({
+  order: one(ordersTable, {
+    fields: [stockReservationsTable.order_id],
+    references: [ordersTable.id]
+  }),
+  orderItem: one(orderItemsTable, {
+    fields: [stockReservationsTable.order_item_id],
+    references: [orderItemsTable.id]
+  }),
+  product: one(productsTable, {
+    fields: [stockReservationsTable.product_id],
+    references: [productsTable.id]
+  }),
+  transferRequests: many(transferRequestsTable)
+}));
+
+export const clientGroupsRelations = relations(clientGroupsTable, ({ many }) => ({
+  clients: many(clientsTable),
+  priceLists: many(priceListsTable)
+}));
+
+export const priceListsRelations = relations(priceListsTable, ({ one, many }) => ({
+  client: one(clientsTable, {
+    fields: [priceListsTable.client_id],
+    references: [clientsTable.id]
+  }),
+  clientGroup: one(clientGroupsTable, {
+    fields: [priceListsTable.client_group_id],
+    references: [clientGroupsTable.id]
+  }),
+  rules: many(pricingRulesTable)
+}));
+
+export const pricingRulesRelations = relations(pricingRulesTable, ({ one }) => ({
+  priceList: one(priceListsTable, {
+    fields: [pricingRulesTable.price_list_id],
+    references: [priceListsTable.id]
+  }),
+  product: one(productsTable, {
+    fields: [pricingRulesTable.product_id],
+    references: [productsTable.id]
+  })
+}));
+
 export const clientProductPricingRelations = relations(clientProductPricingTable, ({ one }) => ({
   client: one(clientsTable, {
     fields: [clientProductPricingTable.client_id],
@@ -298,6 +747,16 @@ export const ordersRelations = relations(ordersTable, ({ one, many }) => ({
     relationName: "validated_orders"
   }),
   items: many(orderItemsTable),
+  stockReservations: many(stockReservationsTable),
+  statusHistory: many(orderStatusHistoryTable),
+  shipmentGroup: one(shipmentGroupsTable, {
+    fields: [ordersTable.shipment_group_id],
+    references: [shipmentGroupsTable.id]
+  }),
+  sageExport: one(sageExportOutboxTable, {
+    fields: [ordersTable.id],
+    references: [sageExportOutboxTable.order_id]
+  }),
   transferRequests: many(transferRequestsTable),
   quote: one(quotesTable, {
     fields: [ordersTable.id],
@@ -305,7 +764,33 @@ export const ordersRelations = relations(ordersTable, ({ one, many }) => ({
   })
 }));
 
-export const orderItemsRelations = relations(orderItemsTable, ({ one }) => ({
+export const orderStatusHistoryRelations = relations(orderStatusHistoryTable, ({ one }) => ({
+  order: one(ordersTable, {
+    fields: [orderStatusHistoryTable.order_id],
+    references: [ordersTable.id]
+  }),
+  changedBy: one(usersTable, {
+    fields: [orderStatusHistoryTable.changed_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const shipmentGroupsRelations = relations(shipmentGroupsTable, ({ one, many }) => ({
+  client: one(clientsTable, {
+    fields: [shipmentGroupsTable.client_id],
+    references: [clientsTable.id]
+  }),
+  orders: many(ordersTable)
+}));
+
+export const sageExportOutboxRelations = relations(sageExportOutboxTable, ({ one }) => ({
+  order: one(ordersTable, {
+    fields: [sageExportOutboxTable.order_id],
+    references: [ordersTable.id]
+  })
+}));
+
+export const orderItemsRelations = relations(orderItemsTable, ({ one, many }) => ({
   order: one(ordersTable, {
     fields: [orderItemsTable.order_id],
     references: [ordersTable.id]
@@ -313,7 +798,8 @@ export const orderItemsRelations = relations(orderItemsTable, ({ one }) => ({
   product: one(productsTable, {
     fields: [orderItemsTable.product_id],
     references: [productsTable.id]
-  })
+  }),
+  stockReservations: many(stockReservationsTable)
 }));
 
 export const quotesRelations = relations(quotesTable, ({ one, many }) => ({
@@ -330,6 +816,11 @@ export const quotesRelations = relations(quotesTable, ({ one, many }) => ({
     fields: [quotesTable.order_id],
     references: [ordersTable.id]
   }),
+  previousVersion: one(quotesTable, {
+    fields: [quotesTable.previous_version_id],
+    references: [quotesTable.id],
+    relationName: "quote_revisions"
+  }),
   items: many(quoteItemsTable)
 }));
 
@@ -341,10 +832,14 @@ export const quoteItemsRelations = relations(quoteItemsTable, ({ one }) => ({
   product: one(productsTable, {
     fields: [quoteItemsTable.product_id],
     references: [productsTable.id]
+  }),
+  order: one(ordersTable, {
+    fields: [quoteItemsTable.order_id],
+    references: [ordersTable.id]
   })
 }));
 
-export const transferRequestsRelations = relations(transferRequestsTable, ({ one }) => ({
+export const transferRequestsRelations = relations(transferRequestsTable, ({ one, many }) => ({
   order: one(ordersTable, {
     fields: [transferRequestsTable.order_id],
     references: [ordersTable.id]
@@ -353,6 +848,17 @@ export const transferRequestsRelations = relations(transferRequestsTable, ({ one
     fields: [transferRequestsTable.product_id],
     references: [productsTable.id]
   }),
+  reservation: one(stockReservationsTable, {
+    fields: [transferRequestsTable.reservation_id],
+    references: [stockReservationsTable.id]
+  }),
+  backorderOf: one(transferRequestsTable, {
+    fields: [transferRequestsTable.backorder_of_id],
+    references: [transferRequestsTable.id],
+    relationName: "transfer_backorders"
+  }),
+  backorders: many(transferRequestsTable, { relationName: "transfer_backorders" }),
+  discrepancies: many(transferDiscrepanciesTable, { relationName: "transfer_discrepancies" }),
   requestedBy: one(usersTable, {
     fields: [transferRequestsTable.requested_by],
     references: [usersTable.id],
@@ -370,6 +876,47 @@ export const transferRequestsRelations = relations(transferRequestsTable, ({ one
   })
 }));
 
+export const transferDiscrepanciesRelations = relations(transferDiscrepanciesTable, ({ one }) => ({
+  transfer: one(transferRequestsTable, {
+    fields: [transferDiscrepanciesTable.transfer_id],
+    references: [transferRequestsTable.id],
+    relationName: "transfer_discrepancies"
+  }),
+  backorderTransfer: one(transferRequestsTable, {
+    fields: [transferDiscrepanciesTable.backorder_transfer_id],
+    references: [transferRequestsTable.id]
+  }),
+  product: one(productsTable, {
+    fields: [transferDiscrepanciesTable.product_id],
+    references: [productsTable.id]
+  }),
+  reportedBy: one(usersTable, {
+    fields: [transferDiscrepanciesTable.reported_by],
+    references: [usersTable.id]
+  })
+}));
+
+export const passwordResetTokensRelations = relations(passwordResetTokensTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [passwordResetTokensTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [auditLogTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
 // Export all tables for proper query building
 export const tables = {
   users: usersTable,
@@ -377,10 +924,26 @@ export const tables = {
   products: productsTable,
   productSubstitutes: productSubstitutesTable,
   stock: stockTable,
+  stockReservations: stockReservationsTable,
+  stockMovements: stockMovementsTable,
+  reorderPoints: reorderPointsTable,
+  suppliers: suppliersTable,
+  purchaseOrders: purchaseOrdersTable,
+  purchaseOrderLines: purchaseOrderLinesTable,
+  inventorySessions: inventorySessionsTable,
+  inventoryCountLines: inventoryCountLinesTable,
   clientProductPricing: clientProductPricingTable,
   orders: ordersTable,
   orderItems: orderItemsTable,
+  orderStatusHistory: orderStatusHistoryTable,
+  shipmentGroups: shipmentGroupsTable,
+  sageExportOutbox: sageExportOutboxTable,
+  orderNumberCounters: orderNumberCountersTable,
   quotes: quotesTable,
   quoteItems: quoteItemsTable,
-  transferRequests: transferRequestsTable
+  transferRequests: transferRequestsTable,
+  transferDiscrepancies: transferDiscrepanciesTable,
+  passwordResetTokens: passwordResetTokensTable,
+  sessions: sessionsTable,
+  auditLog: auditLogTable
 };
\ No newline at end of file
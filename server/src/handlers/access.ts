@@ -0,0 +1,120 @@
+import { TRPCError } from '@trpc/server';
+import { db } from '../db';
+import { clientsTable, ordersTable, quotesTable } from '../db/schema';
+import { type User, type UserRole } from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Roles that work across all clients
+const backOfficeRoles: UserRole[] = ['accounting', 'counter_ibn_tachfine', 'warehouse_la_villette', 'director_admin'];
+
+export function isBackOffice(user: User): boolean {
+  return backOfficeRoles.includes(user.role);
+}
+
+function forbidden(): TRPCError {
+  return new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this client' });
+}
+
+// Resolve the clients row owned by a client user
+export async function getClientIdForUser(userId: number): Promise<number | null> {
+  try {
+    const clients = await db.select({ id: clientsTable.id })
+      .from(clientsTable)
+      .where(eq(clientsTable.user_id, userId))
+      .execute();
+
+    return clients.length > 0 ? clients[0].id : null;
+  } catch (error) {
+    console.error('Client lookup for user failed:', error);
+    throw error;
+  }
+}
+
+export async function canAccessClient(user: User, clientId: number): Promise<boolean> {
+  if (isBackOffice(user)) {
+    return true;
+  }
+
+  try {
+    if (user.role === 'client') {
+      return (await getClientIdForUser(user.id)) === clientId;
+    }
+
+    if (user.role === 'representative') {
+      const clients = await db.select({ representative_id: clientsTable.representative_id })
+        .from(clientsTable)
+        .where(eq(clientsTable.id, clientId))
+        .execute();
+
+      return clients.length > 0 && clients[0].representative_id === user.id;
+    }
+
+    return false;
+  } catch (error) {
+    console.error('Client access check failed:', error);
+    throw error;
+  }
+}
+
+export async function assertClientAccess(user: User, clientId: number): Promise<void> {
+  if (!(await canAccessClient(user, clientId))) {
+    throw forbidden();
+  }
+}
+
+// Orders are scoped through the client that placed them
+export async function assertOrderAccess(user: User, orderId: number): Promise<void> {
+  if (isBackOffice(user)) {
+    return;
+  }
+
+  try {
+    const orders = await db.select({ client_id: ordersTable.client_id })
+      .from(ordersTable)
+      .where(eq(ordersTable.id, orderId))
+      .execute();
+
+    if (orders.length === 0) {
+      throw forbidden();
+    }
+
+    await assertClientAccess(user, orders[0].client_id);
+  } catch (error) {
+    if (!(error instanceof TRPCError)) {
+      console.error('Order access check failed:', error);
+    }
+    throw error;
+  }
+}
+
+// Quotes are scoped through the client they were made for
+export async function assertQuoteAccess(user: User, quoteId: number): Promise<void> {
+  if (isBackOffice(user)) {
+    return;
+  }
+
+  try {
+    const quotes = await db.select({ client_id: quotesTable.client_id })
+      .from(quotesTable)
+      .where(eq(quotesTable.id, quoteId))
+      .execute();
+
+    if (quotes.length === 0) {
+      throw forbidden();
+    }
+
+    await assertClientAccess(user, quotes[0].client_id);
+  } catch (error) {
+    if (!(error instanceof TRPCError)) {
+      console.error('Quote access check failed:', error);
+    }
+    throw error;
+  }
+}
+
+// Representatives may only query their own portfolio
+export function assertRepresentativeAccess(user: User, representativeId: number): void {
+  if (user.role === 'representative' && user.id !== representativeId) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this representative' });
+  }
+}
@@ -0,0 +1,38 @@
+import { db, type DbExecutor } from '../db';
+import { auditLogTable } from '../db/schema';
+import { type AuditLogEntry } from '../schema';
+import { desc } from 'drizzle-orm';
+
+export async function recordAuditEntry(
+  entry: { userId: number | null; action: string; details?: string | null },
+  executor: DbExecutor = db
+): Promise<AuditLogEntry> {
+  try {
+    const result = await executor.insert(auditLogTable)
+      .values({
+        user_id: entry.userId,
+        action: entry.action,
+        details: entry.details ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Audit entry creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getAuditLog(limit: number = 100): Promise<AuditLogEntry[]> {
+  try {
+    return await db.select()
+      .from(auditLogTable)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(limit)
+      .execute();
+  } catch (error) {
+    console.error('Audit log fetch failed:', error);
+    throw error;
+  }
+}
@@ -1,29 +1,98 @@
 import { db } from '../db';
-import { usersTable, clientsTable } from '../db/schema';
-import { type LoginInput, type AuthResponse, type CreateUserInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { usersTable, clientsTable, passwordResetTokensTable } from '../db/schema';
+import {
+  type LoginInput,
+  type AuthResponse,
+  type CreateUserInput,
+  type User,
+  type PublicUser,
+  type RequestPasswordResetInput,
+  type ConfirmPasswordResetInput,
+  type ChangePasswordInput
+} from '../schema';
+import { eq, and, isNull } from 'drizzle-orm';
 import * as crypto from 'crypto';
+import { recordAuditEntry } from './audit';
+import { createSession, revokeUserSessions } from './sessions';
+import { sendMail, PORTAL_URL } from '../mail';
 
-const JWT_SECRET = process.env['JWT_SECRET'] || 'dev-secret-key';
+// Password hashes are stored as `scrypt$<version>$<N>$<r>$<p>$<salt>$<hash>` (salt and hash base64-encoded).
+// Hashes without this prefix are legacy unsalted SHA-256 hex digests, upgraded on the next successful login.
+const HASH_SCHEME = 'scrypt';
+const HASH_VERSION = 1;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
 
-// Simple password hashing utility
-function hashPassword(password: string): string {
-  return crypto.createHash('sha256').update(password).digest('hex');
+function scrypt(password: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, { ...params, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
 }
 
-function verifyPassword(password: string, hash: string): boolean {
-  const inputHash = crypto.createHash('sha256').update(password).digest('hex');
-  return inputHash === hash;
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return [HASH_SCHEME, HASH_VERSION, N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
 }
 
-function generateToken(userId: number, email: string, role: string): string {
-  // Simple token generation without JWT library
-  const payload = JSON.stringify({ userId, email, role, exp: Date.now() + 24 * 60 * 60 * 1000 });
-  const signature = crypto.createHmac('sha256', JWT_SECRET).update(payload).digest('hex');
-  return Buffer.from(payload).toString('base64') + '.' + signature;
+function isLegacyHash(hash: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(hash);
 }
 
-export async function login(input: LoginInput): Promise<AuthResponse> {
+// True when the stored hash uses an outdated scheme or cost parameters
+function needsRehash(hash: string): boolean {
+  if (isLegacyHash(hash)) {
+    return true;
+  }
+  const [scheme, version, N, r, p] = hash.split('$');
+  return scheme !== HASH_SCHEME
+    || Number(version) !== HASH_VERSION
+    || Number(N) !== SCRYPT_PARAMS.N
+    || Number(r) !== SCRYPT_PARAMS.r
+    || Number(p) !== SCRYPT_PARAMS.p;
+}
+
+// Checked against when the email is unknown, so the response takes as long as for a real account
+const DUMMY_PASSWORD_HASH = [
+  HASH_SCHEME, HASH_VERSION, SCRYPT_PARAMS.N, SCRYPT_PARAMS.r, SCRYPT_PARAMS.p,
+  Buffer.alloc(SALT_LENGTH).toString('base64'), Buffer.alloc(SCRYPT_KEY_LENGTH).toString('base64')
+].join('$');
+
+export function toPublicUser(user: User): PublicUser {
+  const { password_hash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  let expected: Buffer;
+  let actual: Buffer;
+
+  if (isLegacyHash(hash)) {
+    expected = Buffer.from(hash, 'hex');
+    actual = crypto.createHash('sha256').update(password).digest();
+  } else {
+    const [scheme, version, N, r, p, salt, key] = hash.split('$');
+    if (scheme !== HASH_SCHEME || Number(version) !== HASH_VERSION || !salt || !key) {
+      return false;
+    }
+    expected = Buffer.from(key, 'base64');
+    try {
+      actual = await scrypt(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+    } catch {
+      // Unusable cost parameters in the stored hash
+      return false;
+    }
+  }
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export async function login(input: LoginInput, userAgent: string | null = null): Promise<AuthResponse> {
   try {
     // Find user by email
     const users = await db.select()
@@ -32,23 +101,34 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
       .execute();
 
     if (users.length === 0) {
+      await verifyPassword(input.password, DUMMY_PASSWORD_HASH);
       throw new Error('Invalid credentials');
     }
 
     const user = users[0];
 
-    // Check if user is active
+    // Verify password
+    if (!(await verifyPassword(input.password, user.password_hash))) {
+      throw new Error('Invalid credentials');
+    }
+
+    // Only someone holding the password learns that the account is deactivated
     if (!user.is_active) {
       throw new Error('Account is deactivated');
     }
 
-    // Verify password
-    if (!verifyPassword(input.password, user.password_hash)) {
-      throw new Error('Invalid credentials');
+    // Transparently upgrade legacy or outdated hashes now that we know the plain password
+    if (needsRehash(user.password_hash)) {
+      const upgradedHash = await hashPassword(input.password);
+      await db.update(usersTable)
+        .set({ password_hash: upgradedHash, updated_at: new Date() })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+      user.password_hash = upgradedHash;
     }
 
-    // Generate JWT token
-    const token = generateToken(user.id, user.email, user.role);
+    // Open a session: short-lived access token plus a rotating refresh token
+    const { token, refresh_token } = await createSession(user, userAgent);
 
     // If user is a client, fetch client data
     let clientData = null;
@@ -71,7 +151,8 @@ export async function login(input: LoginInput): Promise<AuthResponse> {
 
     return {
       token,
-      user,
+      refresh_token,
+      user: toPublicUser(user),
       client: clientData
     };
   } catch (error) {
@@ -93,7 +174,7 @@ export async function createUser(input: CreateUserInput): Promise<User> {
     }
 
     // Hash password
-    const passwordHash = hashPassword(input.password);
+    const passwordHash = await hashPassword(input.password);
 
     // Insert user record
     const result = await db.insert(usersTable)
@@ -114,12 +195,135 @@ export async function createUser(input: CreateUserInput): Promise<User> {
   }
 }
 
-export async function resetPassword(email: string): Promise<{ success: boolean }> {
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function requestPasswordReset(input: RequestPasswordResetInput): Promise<{ success: boolean }> {
   try {
     // Check if user exists
     const users = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.email, email))
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    // Unknown and deactivated accounts get the same answer so the public
+    // route cannot be used to find out which emails are registered
+    if (users.length === 0 || !users[0].is_active) {
+      return { success: true };
+    }
+
+    const user = users[0];
+
+    // Only the hash is persisted; the plain token only ever travels in the email
+    const resetToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MS);
+
+    await db.transaction(async (tx) => {
+      await tx.insert(passwordResetTokensTable)
+        .values({
+          user_id: user.id,
+          token_hash: hashResetToken(resetToken),
+          expires_at: expiresAt
+        })
+        .execute();
+
+      await recordAuditEntry({
+        userId: user.id,
+        action: 'password_reset_requested',
+        details: `Password reset requested for ${user.email}`
+      }, tx);
+    });
+
+    await sendMail({
+      to: user.email,
+      subject: 'Konipa - Réinitialisation de votre mot de passe',
+      text: [
+        'Une demande de réinitialisation de mot de passe a été effectuée pour votre compte.',
+        `Pour choisir un nouveau mot de passe, ouvrez ce lien avant ${expiresAt.toISOString()} :`,
+        `${PORTAL_URL}/?reset_token=${resetToken}`,
+        "Si vous n'êtes pas à l'origine de cette demande, ignorez cet email."
+      ].join('\n')
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+export async function confirmPasswordReset(input: ConfirmPasswordResetInput): Promise<{ success: boolean }> {
+  try {
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .where(eq(passwordResetTokensTable.token_hash, hashResetToken(input.token)))
+      .execute();
+
+    const resetToken = tokens[0];
+    if (!resetToken || resetToken.used_at !== null || resetToken.expires_at <= new Date()) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    const passwordHash = await hashPassword(input.new_password);
+
+    await db.transaction(async (tx) => {
+      // Consume the token; the used_at guard keeps concurrent confirmations single-use
+      const consumed = await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(passwordResetTokensTable.id, resetToken.id),
+          isNull(passwordResetTokensTable.used_at)
+        ))
+        .returning()
+        .execute();
+
+      if (consumed.length === 0) {
+        throw new Error('Invalid or expired reset token');
+      }
+
+      await tx.update(usersTable)
+        .set({ password_hash: passwordHash, password_changed_at: new Date(), updated_at: new Date() })
+        .where(eq(usersTable.id, resetToken.user_id))
+        .execute();
+
+      // Whoever knew the old password is signed out everywhere
+      await revokeUserSessions(resetToken.user_id, null, tx);
+
+      // Any other outstanding token for this user is now stale
+      await tx.update(passwordResetTokensTable)
+        .set({ used_at: new Date() })
+        .where(and(
+          eq(passwordResetTokensTable.user_id, resetToken.user_id),
+          isNull(passwordResetTokensTable.used_at)
+        ))
+        .execute();
+
+      await recordAuditEntry({
+        userId: resetToken.user_id,
+        action: 'password_reset_completed',
+        details: 'Password changed through reset link'
+      }, tx);
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset confirmation failed:', error);
+    throw error;
+  }
+}
+
+export async function changePassword(
+  userId: number,
+  currentSessionId: number | null,
+  input: ChangePasswordInput
+): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
       .execute();
 
     if (users.length === 0) {
@@ -128,19 +332,36 @@ export async function resetPassword(email: string): Promise<{ success: boolean }
 
     const user = users[0];
 
-    // Generate reset token (in a real app, this would be stored and emailed)
-    const resetToken = crypto.randomBytes(32).toString('hex');
-    
-    // In a real implementation, you would:
-    // 1. Store the reset token with expiration in database
-    // 2. Send email with reset link to the user
-    // 3. Notify director/admin users about the reset request
-    
-    console.log(`Password reset requested for ${email}. Reset token: ${resetToken}`);
+    if (!(await verifyPassword(input.current_password, user.password_hash))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    if (input.current_password === input.new_password) {
+      throw new Error('New password must be different from the current password');
+    }
+
+    const passwordHash = await hashPassword(input.new_password);
+    const changedAt = new Date();
+
+    await db.transaction(async (tx) => {
+      await tx.update(usersTable)
+        .set({ password_hash: passwordHash, password_changed_at: changedAt, updated_at: changedAt })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      // Sign out every other device; the session making the change stays open
+      await revokeUserSessions(user.id, currentSessionId, tx);
+
+      await recordAuditEntry({
+        userId: user.id,
+        action: 'password_changed',
+        details: 'Password changed from the profile page'
+      }, tx);
+    });
 
     return { success: true };
   } catch (error) {
-    console.error('Password reset failed:', error);
+    console.error('Password change failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -67,9 +67,27 @@ export async function createClient(input: CreateClientInput): Promise<Client> {
 }
 
 export async function getClientById(clientId: number): Promise<Client | null> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching client details by ID with user and representative data.
-    return Promise.resolve(null);
+  try {
+    const results = await db.select()
+      .from(clientsTable)
+      .where(eq(clientsTable.id, clientId))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    const client = results[0];
+    return {
+      ...client,
+      credit_limit: parseFloat(client.credit_limit),
+      current_balance: parseFloat(client.current_balance),
+      overdue_amount: parseFloat(client.overdue_amount)
+    };
+  } catch (error) {
+    console.error('Client fetch by ID failed:', error);
+    throw error;
+  }
 }
 
 export async function getClientsByRepresentative(representativeId: number): Promise<Client[]> {
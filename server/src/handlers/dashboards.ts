@@ -5,11 +5,12 @@ import {
   ordersTable, 
   orderItemsTable,
   productsTable,
-  stockTable,
   transferRequestsTable
 } from '../db/schema';
 import { eq, sql, and, gte, desc, count, sum } from 'drizzle-orm';
-import { type UserRole } from '../schema';
+import { type Carrier, type LowStockAlert, type UserRole } from '../schema';
+import { getUpcomingShipmentGroups } from './shipments';
+import { getLowStockAlerts } from './reorder';
 
 export async function getRepresentativeDashboard(representativeId: number): Promise<{
     clients: Array<{ id: number; company_name: string; total_orders: number; last_order_date: Date | null }>;
@@ -192,8 +193,16 @@ export async function getAccountingDashboard(): Promise<{
 
 export async function getCounterDashboard(): Promise<{
     ordersToPreparation: Array<{ id: number; client_name: string; items_count: number; created_at: Date }>;
-    groupedOrders: Array<{ client_id: number; order_count: number; total_amount: number }>;
-    lowStockAlerts: Array<{ product_id: number; reference: string; stock_level: number }>;
+    groupedOrders: Array<{
+        group_id: number;
+        client_id: number;
+        client_name: string;
+        carrier: Carrier;
+        shipping_date: string;
+        order_count: number;
+        total_amount: number;
+    }>;
+    lowStockAlerts: LowStockAlert[];
     pendingTransfers: Array<{ id: number; product_reference: string; quantity: number; from_warehouse: string }>;
 }> {
     try {
@@ -214,39 +223,11 @@ export async function getCounterDashboard(): Promise<{
             .limit(20)
             .execute();
 
-        // Get grouped orders by client (for batch processing)
-        const groupedOrdersQuery = await db
-            .select({
-                client_id: ordersTable.client_id,
-                order_count: sql<number>`COALESCE(COUNT(${ordersTable.id}), 0)`,
-                total_amount: sql<number>`COALESCE(SUM(${ordersTable.total_amount}), 0)`
-            })
-            .from(ordersTable)
-            .where(eq(ordersTable.status, 'validated'))
-            .groupBy(ordersTable.client_id)
-            .having(sql`COUNT(${ordersTable.id}) > 1`)
-            .orderBy(desc(sql`COUNT(${ordersTable.id})`))
-            .execute();
+        // Get today's and upcoming shipment groups (for batch processing)
+        const groupedOrders = await getUpcomingShipmentGroups();
 
-        // Get low stock alerts (stock < 10 items at ibn_tachfine warehouse)
-        const lowStockAlertsQuery = await db
-            .select({
-                product_id: stockTable.product_id,
-                reference: productsTable.reference,
-                stock_level: stockTable.quantity
-            })
-            .from(stockTable)
-            .innerJoin(productsTable, eq(stockTable.product_id, productsTable.id))
-            .where(
-                and(
-                    eq(stockTable.warehouse, 'ibn_tachfine'),
-                    sql`${stockTable.quantity} < 10`,
-                    eq(productsTable.is_active, true)
-                )
-            )
-            .orderBy(stockTable.quantity)
-            .limit(20)
-            .execute();
+        // Get low stock alerts for the sites run by the counter (Ibn Tachfine and Drb Omar)
+        const lowStockAlerts = await getLowStockAlerts(['ibn_tachfine', 'drb_omar']);
 
         // Get pending transfer requests from other warehouses to ibn_tachfine
         const pendingTransfersQuery = await db
@@ -275,16 +256,8 @@ export async function getCounterDashboard(): Promise<{
                 items_count: Number(order.items_count),
                 created_at: order.created_at
             })),
-            groupedOrders: groupedOrdersQuery.map(group => ({
-                client_id: group.client_id,
-                order_count: Number(group.order_count),
-                total_amount: parseFloat(group.total_amount.toString())
-            })),
-            lowStockAlerts: lowStockAlertsQuery.map(alert => ({
-                product_id: alert.product_id,
-                reference: alert.reference,
-                stock_level: alert.stock_level
-            })),
+            groupedOrders,
+            lowStockAlerts,
             pendingTransfers: pendingTransfersQuery.map(transfer => ({
                 id: transfer.id,
                 product_reference: transfer.product_reference,
@@ -301,6 +274,7 @@ export async function getCounterDashboard(): Promise<{
 export async function getWarehouseLaVilletteDashboard(): Promise<{
     transferRequests: Array<{ id: number; product_reference: string; quantity: number; requested_at: Date }>;
     todayTransfers: { prepared: number; shipped: number };
+    lowStockAlerts: LowStockAlert[];
 }> {
     try {
         // Get pending transfer requests to la_villette warehouse
@@ -346,6 +320,9 @@ export async function getWarehouseLaVilletteDashboard(): Promise<{
 
         const todayStats = todayTransfersQuery[0] || { prepared: 0, shipped: 0 };
 
+        // Get low stock alerts for la_villette warehouse
+        const lowStockAlerts = await getLowStockAlerts(['la_villette']);
+
         return {
             transferRequests: transferRequestsQuery.map(request => ({
                 id: request.id,
@@ -356,7 +333,8 @@ export async function getWarehouseLaVilletteDashboard(): Promise<{
             todayTransfers: {
                 prepared: Number(todayStats.prepared),
                 shipped: Number(todayStats.shipped)
-            }
+            },
+            lowStockAlerts
         };
     } catch (error) {
         console.error('Warehouse La Villette dashboard query failed:', error);
@@ -0,0 +1,503 @@
+import { db } from '../db';
+import {
+  quotesTable,
+  quoteItemsTable,
+  ordersTable,
+  orderItemsTable,
+  shipmentGroupsTable,
+  transferRequestsTable,
+  productsTable,
+  clientsTable,
+  usersTable
+} from '../db/schema';
+import { type Carrier, type DocumentFile, type TransferStatus, type Warehouse } from '../schema';
+import { A4_HEIGHT, A4_WIDTH, PdfDocument, textWidth, type PdfColor } from '../pdf';
+import { encodeQrCode } from '../qrcode';
+import { eq, and, asc, notInArray } from 'drizzle-orm';
+
+const KONIPA_BLUE: PdfColor = [0.12, 0.25, 0.55];
+const HEADER_FILL: PdfColor = [0.9, 0.93, 0.98];
+const GREY: PdfColor = [0.45, 0.45, 0.45];
+const RULE: PdfColor = [0.8, 0.8, 0.8];
+const WHITE: PdfColor = [1, 1, 1];
+
+const MARGIN = 40;
+const CONTENT_WIDTH = A4_WIDTH - 2 * MARGIN;
+// Lowest point the content may reach; the footer sits below it
+const CONTENT_BOTTOM = A4_HEIGHT - 60;
+const ROW_HEIGHT = 16;
+
+const WAREHOUSE_LABELS: Record<Warehouse, string> = {
+  ibn_tachfine: 'Ibn Tachfine',
+  drb_omar: 'Derb Omar',
+  la_villette: 'La Villette'
+};
+
+const CARRIER_LABELS: Record<Carrier, string> = {
+  ghazala: 'Ghazala',
+  sh2t: 'SH2T',
+  baha: 'Baha'
+};
+
+const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = {
+  pending: 'En attente',
+  in_preparation: 'En préparation',
+  ready_to_ship: 'Prêt à expédier',
+  shipped: 'Expédié',
+  received: 'Reçu',
+  cancelled: 'Annulé'
+};
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+interface ClientDetails {
+  company_name: string;
+  contact_name: string;
+  address: string | null;
+  city: string | null;
+  phone: string | null;
+}
+
+// "1 234,50 MAD"; formatted by hand so the output does not depend on the ICU data of the runtime
+export function formatAmount(value: number): string {
+  const [integer, decimals] = Math.abs(value).toFixed(2).split('.');
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+  return `${value < 0 ? '-' : ''}${grouped},${decimals} MAD`;
+}
+
+function formatDate(date: Date): string {
+  const day = date.getDate().toString().padStart(2, '0');
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  return `${day}/${month}/${date.getFullYear()}`;
+}
+
+// Shipping dates are stored as YYYY-MM-DD strings
+function formatShippingDate(value: string): string {
+  const [year, month, day] = value.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+// Shortens a value with an ellipsis so it fits in the given width
+function fitText(value: string, width: number, size: number): string {
+  if (textWidth(value, size) <= width) {
+    return value;
+  }
+  let shortened = value;
+  while (shortened.length > 0 && textWidth(shortened + '…', size) > width) {
+    shortened = shortened.slice(0, -1);
+  }
+  return shortened.trimEnd() + '…';
+}
+
+function clientLines(client: ClientDetails): string[] {
+  const lines = [client.company_name, client.contact_name];
+  if (client.address) {
+    lines.push(client.address);
+  }
+  if (client.city) {
+    lines.push(client.city);
+  }
+  if (client.phone) {
+    lines.push(`Tél. : ${client.phone}`);
+  }
+  return lines;
+}
+
+// Konipa page layout: branded header band on every page, content flowing down from `y`, footers written once the
+// page count is known
+class DocumentLayout {
+  readonly pdf: PdfDocument;
+  y = 0;
+
+  constructor(private readonly title: string, private readonly number: string, date: string) {
+    this.pdf = new PdfDocument(`${title} ${number}`);
+    this.drawHeader();
+    this.pdf.text(A4_WIDTH - MARGIN, this.y, `Date : ${date}`, { size: 9, align: 'right' });
+    this.y += 20;
+  }
+
+  private drawHeader(): void {
+    this.pdf.rect(0, 0, A4_WIDTH, 70, KONIPA_BLUE);
+    this.pdf.text(MARGIN, 44, 'KONIPA', { size: 24, bold: true, color: WHITE });
+    this.pdf.text(A4_WIDTH - MARGIN, 36, this.title, { size: 14, bold: true, color: WHITE, align: 'right' });
+    this.pdf.text(A4_WIDTH - MARGIN, 54, `N° ${this.number}`, { size: 10, color: WHITE, align: 'right' });
+    this.y = 92;
+  }
+
+  // Starts a new page when the next `height` points would run into the footer; returns whether it did
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= CONTENT_BOTTOM) {
+      return false;
+    }
+    this.pdf.addPage();
+    this.drawHeader();
+    return true;
+  }
+
+  // Two blocks side by side, e.g. the client on the left and the document details on the right
+  infoBlocks(left: { heading: string; lines: string[] }, right: { heading: string; lines: string[] }): void {
+    const columnWidth = CONTENT_WIDTH / 2 - 10;
+    const heights = [left, right].map(block => 14 + block.lines.length * 13);
+    this.ensureSpace(Math.max(...heights));
+
+    [left, right].forEach((block, index) => {
+      const x = MARGIN + index * (CONTENT_WIDTH / 2 + 10);
+      this.pdf.text(x, this.y, block.heading, { size: 9, bold: true, color: KONIPA_BLUE });
+      block.lines.forEach((line, lineIndex) => {
+        this.pdf.text(x, this.y + 14 + lineIndex * 13, fitText(line, columnWidth, 9), { size: 9 });
+      });
+    });
+    this.y += Math.max(...heights) + 12;
+  }
+
+  private tableHeader(columns: TableColumn[]): void {
+    this.pdf.rect(MARGIN, this.y, CONTENT_WIDTH, 18, HEADER_FILL);
+    this.cells(columns, columns.map(column => column.header), true);
+    this.y += 18;
+  }
+
+  private cells(columns: TableColumn[], values: string[], bold: boolean): void {
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      const value = fitText(values[index], column.width - 8, 9);
+      if (column.align === 'right') {
+        this.pdf.text(x + column.width - 4, this.y + 12, value, { size: 9, bold, align: 'right' });
+      } else {
+        this.pdf.text(x + 4, this.y + 12, value, { size: 9, bold });
+      }
+      x += column.width;
+    });
+  }
+
+  // Rows that do not fit continue on the next page under a repeated column header
+  table(columns: TableColumn[], rows: string[][]): void {
+    this.ensureSpace(18 + ROW_HEIGHT);
+    this.tableHeader(columns);
+    for (const row of rows) {
+      if (this.ensureSpace(ROW_HEIGHT)) {
+        this.tableHeader(columns);
+      }
+      this.cells(columns, row, false);
+      this.y += ROW_HEIGHT;
+      this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, RULE);
+    }
+    this.y += 8;
+  }
+
+  total(label: string, value: string): void {
+    this.ensureSpace(20);
+    this.pdf.text(A4_WIDTH - MARGIN - 120, this.y + 12, label, { size: 11, bold: true, align: 'right' });
+    this.pdf.text(A4_WIDTH - MARGIN, this.y + 12, value, { size: 11, bold: true, align: 'right' });
+    this.y += 28;
+  }
+
+  paragraph(value: string): void {
+    this.ensureSpace(15);
+    this.pdf.text(MARGIN, this.y + 9, fitText(value, CONTENT_WIDTH, 9), { size: 9 });
+    this.y += 15;
+  }
+
+  signatureBoxes(labels: [string, string]): void {
+    const width = CONTENT_WIDTH / 2 - 10;
+    this.ensureSpace(90);
+    this.y += 10;
+    labels.forEach((label, index) => {
+      const x = MARGIN + index * (width + 20);
+      this.pdf.text(x, this.y, label, { size: 9, bold: true });
+      this.pdf.strokeRect(x, this.y + 6, width, 64);
+    });
+    this.y += 80;
+  }
+
+  qrCode(link: string, caption: string): void {
+    const size = 100;
+    this.ensureSpace(size + 10);
+    this.pdf.qrCode(MARGIN, this.y, size, encodeQrCode(link));
+    this.pdf.text(MARGIN + size + 16, this.y + 40, caption, { size: 10, bold: true, color: KONIPA_BLUE });
+    this.pdf.text(MARGIN + size + 16, this.y + 56, fitText(link, CONTENT_WIDTH - size - 16, 7), { size: 7, color: GREY });
+    this.y += size + 10;
+  }
+
+  toFile(filename: string): DocumentFile {
+    const pageCount = this.pdf.pageCount;
+    for (let page = 0; page < pageCount; page++) {
+      this.pdf.goToPage(page);
+      this.pdf.line(MARGIN, A4_HEIGHT - 45, A4_WIDTH - MARGIN, A4_HEIGHT - 45, RULE);
+      this.pdf.text(MARGIN, A4_HEIGHT - 32, `Konipa - ${this.title} ${this.number}`, { size: 8, color: GREY });
+      this.pdf.text(A4_WIDTH - MARGIN, A4_HEIGHT - 32, `Page ${page + 1}/${pageCount}`, { size: 8, color: GREY, align: 'right' });
+    }
+
+    return {
+      filename,
+      mime_type: 'application/pdf',
+      data: this.pdf.toBuffer().toString('base64')
+    };
+  }
+}
+
+const clientColumns = {
+  company_name: clientsTable.company_name,
+  contact_name: clientsTable.contact_name,
+  address: clientsTable.address,
+  city: clientsTable.city,
+  phone: clientsTable.phone
+};
+
+const PRICED_COLUMNS: TableColumn[] = [
+  { header: 'Référence', width: 90 },
+  { header: 'Désignation', width: 205 },
+  { header: 'Qté', width: 50, align: 'right' },
+  { header: 'Prix unitaire', width: 85, align: 'right' },
+  { header: 'Total', width: 85, align: 'right' }
+];
+
+function pricedRow(item: { reference: string; designation: string; quantity: number; unit_price: string; total_price: string }): string[] {
+  return [
+    item.reference,
+    item.designation,
+    item.quantity.toString(),
+    formatAmount(parseFloat(item.unit_price)),
+    formatAmount(parseFloat(item.total_price))
+  ];
+}
+
+// Quote with its lines, total and a QR code leading to the share page
+export async function getQuotePdf(quoteId: number): Promise<DocumentFile> {
+  try {
+    const quotes = await db.select({
+      quote: quotesTable,
+      client: clientColumns,
+      representative_email: usersTable.email
+    })
+      .from(quotesTable)
+      .innerJoin(clientsTable, eq(quotesTable.client_id, clientsTable.id))
+      .innerJoin(usersTable, eq(quotesTable.representative_id, usersTable.id))
+      .where(eq(quotesTable.id, quoteId))
+      .execute();
+
+    if (quotes.length === 0) {
+      throw new Error(`Quote ${quoteId} not found`);
+    }
+
+    const { quote, client, representative_email } = quotes[0];
+    const items = await db.select({
+      reference: productsTable.reference,
+      designation: productsTable.designation,
+      quantity: quoteItemsTable.quantity,
+      unit_price: quoteItemsTable.unit_price,
+      total_price: quoteItemsTable.total_price
+    })
+      .from(quoteItemsTable)
+      .innerJoin(productsTable, eq(quoteItemsTable.product_id, productsTable.id))
+      .where(eq(quoteItemsTable.quote_id, quoteId))
+      .orderBy(asc(quoteItemsTable.id))
+      .execute();
+
+    const layout = new DocumentLayout('DEVIS', quote.quote_number, formatDate(quote.created_at));
+    const details = [
+      `Valable jusqu'au : ${formatDate(quote.expires_at)}`,
+      `Représentant : ${representative_email}`
+    ];
+    if (quote.revision > 0) {
+      details.push(`Révision : ${quote.revision}`);
+    }
+    layout.infoBlocks({ heading: 'Client', lines: clientLines(client) }, { heading: 'Devis', lines: details });
+    layout.table(PRICED_COLUMNS, items.map(pricedRow));
+    layout.total('Total', formatAmount(parseFloat(quote.total_amount)));
+    layout.qrCode(quote.share_link, 'Scannez pour consulter le devis en ligne');
+
+    return layout.toFile(`devis-${quote.quote_number}.pdf`);
+  } catch (error) {
+    console.error('Quote PDF generation failed:', error);
+    throw error;
+  }
+}
+
+export async function getOrderConfirmationPdf(orderId: number): Promise<DocumentFile> {
+  try {
+    const orders = await db.select({
+      order: ordersTable,
+      client: clientColumns,
+      quote_number: quotesTable.quote_number
+    })
+      .from(ordersTable)
+      .innerJoin(clientsTable, eq(ordersTable.client_id, clientsTable.id))
+      .leftJoin(quotesTable, eq(ordersTable.quote_id, quotesTable.id))
+      .where(eq(ordersTable.id, orderId))
+      .execute();
+
+    if (orders.length === 0) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    const { order, client, quote_number } = orders[0];
+    const items = await db.select({
+      reference: productsTable.reference,
+      designation: productsTable.designation,
+      quantity: orderItemsTable.quantity,
+      unit_price: orderItemsTable.unit_price,
+      total_price: orderItemsTable.total_price
+    })
+      .from(orderItemsTable)
+      .innerJoin(productsTable, eq(orderItemsTable.product_id, productsTable.id))
+      .where(eq(orderItemsTable.order_id, orderId))
+      .orderBy(asc(orderItemsTable.id))
+      .execute();
+
+    const layout = new DocumentLayout('CONFIRMATION DE COMMANDE', order.order_number, formatDate(order.created_at));
+    const details = [`Transporteur : ${CARRIER_LABELS[order.carrier]}`];
+    if (quote_number) {
+      details.push(`Devis : ${quote_number}`);
+    }
+    layout.infoBlocks({ heading: 'Client', lines: clientLines(client) }, { heading: 'Commande', lines: details });
+    layout.table(PRICED_COLUMNS, items.map(pricedRow));
+    layout.total('Total', formatAmount(parseFloat(order.total_amount)));
+    layout.paragraph('Merci pour votre commande.');
+
+    return layout.toFile(`commande-${order.order_number}.pdf`);
+  } catch (error) {
+    console.error('Order confirmation PDF generation failed:', error);
+    throw error;
+  }
+}
+
+// Everything leaving together for one client and carrier on a shipping day; quantities only, no prices
+export async function getDeliveryNotePdf(shipmentGroupId: number): Promise<DocumentFile> {
+  try {
+    const groups = await db.select({
+      group: shipmentGroupsTable,
+      client: clientColumns
+    })
+      .from(shipmentGroupsTable)
+      .innerJoin(clientsTable, eq(shipmentGroupsTable.client_id, clientsTable.id))
+      .where(eq(shipmentGroupsTable.id, shipmentGroupId))
+      .execute();
+
+    if (groups.length === 0) {
+      throw new Error(`Shipment group ${shipmentGroupId} not found`);
+    }
+
+    const { group, client } = groups[0];
+    const items = await db.select({
+      order_number: ordersTable.order_number,
+      reference: productsTable.reference,
+      designation: productsTable.designation,
+      quantity: orderItemsTable.quantity
+    })
+      .from(orderItemsTable)
+      .innerJoin(ordersTable, eq(orderItemsTable.order_id, ordersTable.id))
+      .innerJoin(productsTable, eq(orderItemsTable.product_id, productsTable.id))
+      .where(and(
+        eq(ordersTable.shipment_group_id, shipmentGroupId),
+        // Refused or cancelled orders may still point at the group but do not ship
+        notInArray(ordersTable.status, ['refused', 'cancelled'])
+      ))
+      .orderBy(asc(ordersTable.id), asc(orderItemsTable.id))
+      .execute();
+
+    if (items.length === 0) {
+      throw new Error(`Shipment group ${shipmentGroupId} has nothing to deliver`);
+    }
+
+    const number = `BL-${group.shipping_date.replace(/-/g, '')}-${group.id}`;
+    const orderNumbers = [...new Set(items.map(item => item.order_number))];
+    const layout = new DocumentLayout('BON DE LIVRAISON', number, formatShippingDate(group.shipping_date));
+    layout.infoBlocks(
+      { heading: 'Livré à', lines: clientLines(client) },
+      {
+        heading: 'Expédition',
+        lines: [
+          `Transporteur : ${CARRIER_LABELS[group.carrier]}`,
+          `Date d'expédition : ${formatShippingDate(group.shipping_date)}`,
+          `Commandes : ${orderNumbers.length}`
+        ]
+      }
+    );
+    layout.table(
+      [
+        { header: 'Commande', width: 110 },
+        { header: 'Référence', width: 100 },
+        { header: 'Désignation', width: 235 },
+        { header: 'Qté', width: 70, align: 'right' }
+      ],
+      items.map(item => [item.order_number, item.reference, item.designation, item.quantity.toString()])
+    );
+    layout.total('Articles', items.reduce((total, item) => total + item.quantity, 0).toString());
+    layout.signatureBoxes(['Expédié par', 'Reçu par le client (nom, date, signature)']);
+
+    return layout.toFile(`bon-de-livraison-${number}.pdf`);
+  } catch (error) {
+    console.error('Delivery note PDF generation failed:', error);
+    throw error;
+  }
+}
+
+// Slip travelling with the goods between warehouses
+export async function getTransferSlipPdf(transferId: number): Promise<DocumentFile> {
+  try {
+    const transfers = await db.select({
+      transfer: transferRequestsTable,
+      reference: productsTable.reference,
+      designation: productsTable.designation,
+      order_number: ordersTable.order_number,
+      requested_by_email: usersTable.email
+    })
+      .from(transferRequestsTable)
+      .innerJoin(productsTable, eq(transferRequestsTable.product_id, productsTable.id))
+      .innerJoin(ordersTable, eq(transferRequestsTable.order_id, ordersTable.id))
+      .innerJoin(usersTable, eq(transferRequestsTable.requested_by, usersTable.id))
+      .where(eq(transferRequestsTable.id, transferId))
+      .execute();
+
+    if (transfers.length === 0) {
+      throw new Error(`Transfer ${transferId} not found`);
+    }
+
+    const { transfer, reference, designation, order_number, requested_by_email } = transfers[0];
+    const number = `TR-${transfer.id}`;
+    const layout = new DocumentLayout('BON DE TRANSFERT', number, formatDate(transfer.requested_at));
+    layout.infoBlocks(
+      {
+        heading: 'Transfert',
+        lines: [
+          `De : ${WAREHOUSE_LABELS[transfer.from_warehouse]}`,
+          `Vers : ${WAREHOUSE_LABELS[transfer.to_warehouse]}`,
+          `Statut : ${TRANSFER_STATUS_LABELS[transfer.status]}`
+        ]
+      },
+      {
+        heading: 'Demande',
+        lines: [`Commande : ${order_number}`, `Demandé par : ${requested_by_email}`]
+      }
+    );
+    layout.table(
+      [
+        { header: 'Référence', width: 95 },
+        { header: 'Désignation', width: 200 },
+        { header: 'Demandé', width: 70, align: 'right' },
+        { header: 'Préparé', width: 75, align: 'right' },
+        { header: 'Reçu', width: 75, align: 'right' }
+      ],
+      [[
+        reference,
+        designation,
+        transfer.quantity_requested.toString(),
+        transfer.quantity_prepared.toString(),
+        transfer.quantity_received === null ? '-' : transfer.quantity_received.toString()
+      ]]
+    );
+    layout.signatureBoxes([
+      `Préparé à ${WAREHOUSE_LABELS[transfer.from_warehouse]}`,
+      `Reçu à ${WAREHOUSE_LABELS[transfer.to_warehouse]}`
+    ]);
+
+    return layout.toFile(`transfert-${number}.pdf`);
+  } catch (error) {
+    console.error('Transfer slip PDF generation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,402 @@
+import { db, type DbExecutor } from '../db';
+import { inventorySessionsTable, inventoryCountLinesTable, productsTable, stockTable, usersTable } from '../db/schema';
+import {
+  type InventoryCountLine,
+  type InventorySession,
+  type InventorySessionStatus,
+  type InventoryVarianceReport,
+  type OpenInventorySessionInput,
+  type Warehouse
+} from '../schema';
+import { WAREHOUSE_ROLES, recordStockMovement } from './stock';
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm';
+
+// A warehouse is counted by one session at a time so two counts never adjust the same balances;
+// the partial unique index on inventory_sessions enforces it for sessions opened concurrently
+const ACTIVE_STATUSES: InventorySessionStatus[] = ['counting', 'review'];
+const ACTIVE_WAREHOUSE_INDEX = 'inventory_sessions_active_warehouse_idx';
+
+function isActiveWarehouseConflict(error: unknown): boolean {
+  const cause = (error as { cause?: unknown })?.cause ?? error;
+  const { code, constraint } = (cause ?? {}) as { code?: string; constraint?: string };
+  return code === '23505' && constraint === ACTIVE_WAREHOUSE_INDEX;
+}
+
+async function lockSession(executor: DbExecutor, sessionId: number): Promise<InventorySession> {
+  const sessions = await executor.select()
+    .from(inventorySessionsTable)
+    .where(eq(inventorySessionsTable.id, sessionId))
+    .for('update')
+    .execute();
+
+  if (sessions.length === 0) {
+    throw new Error(`Inventory session ${sessionId} not found`);
+  }
+
+  return sessions[0];
+}
+
+// Each site counts its own stock; director_admin may act for any site
+async function assertWarehouseStaff(executor: DbExecutor, userId: number, warehouse: Warehouse): Promise<void> {
+  const users = await executor.select({ role: usersTable.role })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with id ${userId} not found`);
+  }
+
+  const role = users[0].role;
+  if (role !== 'director_admin' && role !== WAREHOUSE_ROLES[warehouse]) {
+    throw new Error(`Role ${role} cannot count stock at ${warehouse}`);
+  }
+}
+
+function assertSessionStatus(session: InventorySession, status: InventorySessionStatus, action: string): void {
+  if (session.status !== status) {
+    throw new Error(`Inventory session ${session.id} is ${session.status} and cannot be ${action}`);
+  }
+}
+
+async function getLines(executor: DbExecutor, sessionId: number): Promise<InventoryCountLine[]> {
+  const results = await executor.select({
+    line: inventoryCountLinesTable,
+    reference: productsTable.reference,
+    designation: productsTable.designation
+  })
+    .from(inventoryCountLinesTable)
+    .innerJoin(productsTable, eq(inventoryCountLinesTable.product_id, productsTable.id))
+    .where(eq(inventoryCountLinesTable.session_id, sessionId))
+    .orderBy(asc(productsTable.reference))
+    .execute();
+
+  return results.map(({ line, reference, designation }) => ({
+    id: line.id,
+    session_id: line.session_id,
+    product_id: line.product_id,
+    reference,
+    designation,
+    expected_quantity: line.expected_quantity,
+    counted_quantity: line.counted_quantity,
+    variance: line.counted_quantity === null ? null : line.counted_quantity - line.expected_quantity,
+    counted_by: line.counted_by,
+    counted_at: line.counted_at
+  }));
+}
+
+// Opens a count and freezes the system quantity of every active product in scope at that moment
+export async function openInventorySession(input: OpenInventorySessionInput, openedBy: number): Promise<InventorySession> {
+  try {
+    return await db.transaction(async (tx) => {
+      await assertWarehouseStaff(tx, openedBy, input.warehouse);
+
+      const active = await tx.select()
+        .from(inventorySessionsTable)
+        .where(and(
+          eq(inventorySessionsTable.warehouse, input.warehouse),
+          inArray(inventorySessionsTable.status, ACTIVE_STATUSES)
+        ))
+        .execute();
+
+      if (active.length > 0) {
+        throw new Error(`An inventory count is already in progress for ${input.warehouse} (session ${active[0].id})`);
+      }
+
+      const products = await tx.select()
+        .from(productsTable)
+        .where(and(
+          eq(productsTable.is_active, true),
+          input.category ? eq(productsTable.category, input.category) : undefined
+        ))
+        .execute();
+
+      if (products.length === 0) {
+        throw new Error(`No active products to count${input.category ? ` in category ${input.category}` : ''}`);
+      }
+
+      const stock = await tx.select()
+        .from(stockTable)
+        .where(and(
+          eq(stockTable.warehouse, input.warehouse),
+          inArray(stockTable.product_id, products.map(product => product.id))
+        ))
+        .execute();
+      const quantities = new Map(stock.map(row => [row.product_id, row.quantity]));
+
+      let sessions: InventorySession[];
+      try {
+        sessions = await tx.insert(inventorySessionsTable)
+          .values({
+            warehouse: input.warehouse,
+            category: input.category ?? null,
+            opened_by: openedBy
+          })
+          .returning()
+          .execute();
+      } catch (error) {
+        if (isActiveWarehouseConflict(error)) {
+          throw new Error(`An inventory count is already in progress for ${input.warehouse}`);
+        }
+        throw error;
+      }
+
+      await tx.insert(inventoryCountLinesTable)
+        .values(products.map(product => ({
+          session_id: sessions[0].id,
+          product_id: product.id,
+          expected_quantity: quantities.get(product.id) ?? 0
+        })))
+        .execute();
+
+      return sessions[0];
+    });
+  } catch (error) {
+    console.error('Inventory session opening failed:', error);
+    throw error;
+  }
+}
+
+export async function getInventorySessions(warehouse?: Warehouse, status?: InventorySessionStatus): Promise<InventorySession[]> {
+  try {
+    return await db.select()
+      .from(inventorySessionsTable)
+      .where(and(
+        warehouse ? eq(inventorySessionsTable.warehouse, warehouse) : undefined,
+        status ? eq(inventorySessionsTable.status, status) : undefined
+      ))
+      .orderBy(desc(inventorySessionsTable.created_at), desc(inventorySessionsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Inventory sessions fetch failed:', error);
+    throw error;
+  }
+}
+
+export async function getInventoryCountLines(sessionId: number): Promise<InventoryCountLine[]> {
+  try {
+    return await getLines(db, sessionId);
+  } catch (error) {
+    console.error('Inventory count lines fetch failed:', error);
+    throw error;
+  }
+}
+
+// Records the quantity counted for a product, replacing any earlier count
+export async function recordInventoryCount(
+  sessionId: number,
+  productId: number,
+  countedQuantity: number,
+  countedBy: number
+): Promise<InventoryCountLine> {
+  try {
+    return await db.transaction(async (tx) => {
+      const session = await lockSession(tx, sessionId);
+      assertSessionStatus(session, 'counting', 'counted');
+      await assertWarehouseStaff(tx, countedBy, session.warehouse);
+
+      const updated = await tx.update(inventoryCountLinesTable)
+        .set({ counted_quantity: countedQuantity, counted_by: countedBy, counted_at: new Date(), updated_at: new Date() })
+        .where(and(
+          eq(inventoryCountLinesTable.session_id, sessionId),
+          eq(inventoryCountLinesTable.product_id, productId)
+        ))
+        .returning()
+        .execute();
+
+      if (updated.length === 0) {
+        throw new Error(`Product ${productId} is not part of inventory session ${sessionId}`);
+      }
+
+      const lines = await getLines(tx, sessionId);
+      return lines.find(line => line.id === updated[0].id)!;
+    });
+  } catch (error) {
+    console.error('Inventory count failed:', error);
+    throw error;
+  }
+}
+
+// Scanner input: each scan of a product label (which carries the reference) adds to what was counted so far
+export async function scanInventoryItem(
+  sessionId: number,
+  code: string,
+  countedBy: number,
+  quantity: number = 1
+): Promise<InventoryCountLine> {
+  try {
+    return await db.transaction(async (tx) => {
+      const session = await lockSession(tx, sessionId);
+      assertSessionStatus(session, 'counting', 'counted');
+      await assertWarehouseStaff(tx, countedBy, session.warehouse);
+
+      const matches = await tx.select({ line: inventoryCountLinesTable })
+        .from(inventoryCountLinesTable)
+        .innerJoin(productsTable, eq(inventoryCountLinesTable.product_id, productsTable.id))
+        .where(and(
+          eq(inventoryCountLinesTable.session_id, sessionId),
+          sql`lower(${productsTable.reference}) = lower(${code.trim()})`
+        ))
+        .execute();
+
+      if (matches.length === 0) {
+        throw new Error(`No product with code ${code.trim()} in inventory session ${sessionId}`);
+      }
+
+      const line = matches[0].line;
+      await tx.update(inventoryCountLinesTable)
+        .set({
+          counted_quantity: (line.counted_quantity ?? 0) + quantity,
+          counted_by: countedBy,
+          counted_at: new Date(),
+          updated_at: new Date()
+        })
+        .where(eq(inventoryCountLinesTable.id, line.id))
+        .execute();
+
+      const lines = await getLines(tx, sessionId);
+      return lines.find(({ id }) => id === line.id)!;
+    });
+  } catch (error) {
+    console.error('Inventory scan failed:', error);
+    throw error;
+  }
+}
+
+// Closes counting so the variances can be reviewed before they are posted
+export async function submitInventorySession(sessionId: number, submittedBy: number): Promise<InventorySession> {
+  try {
+    return await db.transaction(async (tx) => {
+      const session = await lockSession(tx, sessionId);
+      assertSessionStatus(session, 'counting', 'submitted');
+      await assertWarehouseStaff(tx, submittedBy, session.warehouse);
+
+      const lines = await getLines(tx, sessionId);
+      if (lines.every(line => line.counted_quantity === null)) {
+        throw new Error(`Inventory session ${sessionId} has no counted products`);
+      }
+
+      const result = await tx.update(inventorySessionsTable)
+        .set({ status: 'review', submitted_by: submittedBy, submitted_at: new Date(), updated_at: new Date() })
+        .where(eq(inventorySessionsTable.id, sessionId))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Inventory session submission failed:', error);
+    throw error;
+  }
+}
+
+// Books each counted variance against the current balance, so movements made while counting are kept;
+// products left uncounted are not adjusted
+export async function postInventorySession(sessionId: number, postedBy: number): Promise<InventorySession> {
+  try {
+    return await db.transaction(async (tx) => {
+      const session = await lockSession(tx, sessionId);
+      assertSessionStatus(session, 'review', 'posted');
+
+      const lines = await getLines(tx, sessionId);
+      for (const line of lines) {
+        if (line.variance === null || line.variance === 0) {
+          continue;
+        }
+
+        // Sales made while counting may already have taken out part of a counted shortage; the balance stops at zero
+        const stock = await tx.select({ quantity: stockTable.quantity })
+          .from(stockTable)
+          .where(and(eq(stockTable.product_id, line.product_id), eq(stockTable.warehouse, session.warehouse)))
+          .for('update')
+          .execute();
+        const quantity = Math.max(line.variance, -(stock[0]?.quantity ?? 0));
+
+        await recordStockMovement({
+          productId: line.product_id,
+          warehouse: session.warehouse,
+          type: 'inventory_count',
+          quantity,
+          userId: postedBy,
+          note: `Inventory session ${sessionId}`
+        }, tx);
+      }
+
+      const result = await tx.update(inventorySessionsTable)
+        .set({ status: 'posted', posted_by: postedBy, posted_at: new Date(), updated_at: new Date() })
+        .where(eq(inventorySessionsTable.id, sessionId))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Inventory session posting failed:', error);
+    throw error;
+  }
+}
+
+export async function cancelInventorySession(sessionId: number, cancelledBy: number): Promise<InventorySession> {
+  try {
+    return await db.transaction(async (tx) => {
+      const session = await lockSession(tx, sessionId);
+      if (!ACTIVE_STATUSES.includes(session.status)) {
+        throw new Error(`Inventory session ${sessionId} is ${session.status} and cannot be cancelled`);
+      }
+      await assertWarehouseStaff(tx, cancelledBy, session.warehouse);
+
+      const result = await tx.update(inventorySessionsTable)
+        .set({ status: 'cancelled', cancelled_by: cancelledBy, cancelled_at: new Date(), updated_at: new Date() })
+        .where(eq(inventorySessionsTable.id, sessionId))
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Inventory session cancellation failed:', error);
+    throw error;
+  }
+}
+
+// Counted variances valued at base price, for the director's review
+export async function getInventoryVarianceReport(sessionId: number): Promise<InventoryVarianceReport> {
+  try {
+    const sessions = await db.select()
+      .from(inventorySessionsTable)
+      .where(eq(inventorySessionsTable.id, sessionId))
+      .execute();
+
+    if (sessions.length === 0) {
+      throw new Error(`Inventory session ${sessionId} not found`);
+    }
+
+    const lines = await getLines(db, sessionId);
+    const products = await db.select()
+      .from(productsTable)
+      .where(inArray(productsTable.id, lines.map(line => line.product_id)))
+      .execute();
+    const prices = new Map(products.map(product => [product.id, parseFloat(product.base_price)]));
+
+    const reportLines = lines.map(line => ({
+      ...line,
+      variance_value: line.variance === null
+        ? null
+        : parseFloat((line.variance * (prices.get(line.product_id) ?? 0)).toFixed(2))
+    }));
+    const counted = reportLines.filter(line => line.variance !== null);
+
+    return {
+      session: sessions[0],
+      lines: reportLines,
+      counted_lines: counted.length,
+      uncounted_lines: reportLines.length - counted.length,
+      units_over: counted.reduce((sum, line) => sum + Math.max(line.variance!, 0), 0),
+      units_short: counted.reduce((sum, line) => sum + Math.max(-line.variance!, 0), 0),
+      net_variance_value: parseFloat(counted.reduce((sum, line) => sum + line.variance_value!, 0).toFixed(2))
+    };
+  } catch (error) {
+    console.error('Inventory variance report failed:', error);
+    throw error;
+  }
+}
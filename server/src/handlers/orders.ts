@@ -1,86 +1,455 @@
-import { type CreateOrderInput, type Order, type OrderItem, type UpdateOrderStatusInput, type OrderStatus } from '../schema';
-import { db } from '../db';
-import { ordersTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import {
+    type CreateOrderInput,
+    type Order,
+    type OrderDetails,
+    type OrderItem,
+    type OrderStatusHistoryEntry,
+    type PendingValidationPage,
+    type UpdateOrderStatusInput,
+    type OrderStatus,
+    type Carrier,
+    type UserRole
+} from '../schema';
+import { db, type DbExecutor } from '../db';
+import {
+    ordersTable,
+    orderItemsTable,
+    orderStatusHistoryTable,
+    orderNumberCountersTable,
+    shipmentGroupsTable,
+    clientsTable,
+    productsTable,
+    usersTable
+} from '../db/schema';
+import { eq, and, asc, desc, count, inArray, sql } from 'drizzle-orm';
+import { calculateOrderTotal, validateStockLimits } from './pricing';
+import { enqueueSageExport, processSageExport } from './sage';
+import { assignOrderToShipmentGroup, refreshShipmentGroupFlags, formatLocalDate } from './shipments';
+import { reserveOrderStock, releaseOrderReservations, consumeOrderReservations } from './stock';
+import { requestTransfersForOrder, cancelOpenTransfersForOrder, countOpenTransfersForOrder } from './transfers';
 
-export async function createOrder(input: CreateOrderInput): Promise<Order> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is creating new orders with validation of credit limits and stock availability.
-    // Should check client credit limit, verify stock, calculate personalized pricing, and generate order number.
-    return Promise.resolve({
-        id: 1,
-        client_id: input.client_id,
-        representative_id: input.representative_id || null,
-        order_number: 'ORD-001',
-        status: 'submitted',
-        total_amount: 0,
-        carrier: input.carrier,
-        is_grouped: false,
-        sage_document_number: null,
-        validated_by: null,
-        validated_at: null,
-        shipped_at: null,
-        delivered_at: null,
-        created_at: new Date(),
-        updated_at: new Date()
-    });
+// Allowed status changes and the roles that may make them; director_admin may make any allowed change.
+// Orders can be cancelled until they leave the warehouse.
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, UserRole[]>>> = {
+    submitted: {
+        validated: ['accounting'],
+        refused: ['accounting'],
+        cancelled: ['accounting']
+    },
+    validated: {
+        in_preparation: ['counter_ibn_tachfine', 'warehouse_la_villette'],
+        cancelled: ['accounting']
+    },
+    in_preparation: {
+        ready: ['counter_ibn_tachfine', 'warehouse_la_villette'],
+        cancelled: ['accounting']
+    },
+    ready: {
+        shipped: ['counter_ibn_tachfine', 'warehouse_la_villette'],
+        cancelled: ['accounting']
+    },
+    shipped: {
+        delivered: ['counter_ibn_tachfine', 'warehouse_la_villette']
+    },
+    delivered: {},
+    refused: {},
+    cancelled: {}
+};
+
+// Throws when the transition is not in the graph or not open to the given role
+export function assertOrderTransition(from: OrderStatus, to: OrderStatus, role: UserRole): void {
+    const roles = ORDER_STATUS_TRANSITIONS[from][to];
+    if (!roles) {
+        throw new Error(`Invalid order status transition from ${from} to ${to}`);
+    }
+    if (role !== 'director_admin' && !roles.includes(role)) {
+        throw new Error(`Role ${role} cannot change order status from ${from} to ${to}`);
+    }
 }
 
-export async function getOrdersByClient(clientId: number): Promise<Order[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching order history for a specific client.
-    return Promise.resolve([]);
+export async function recordOrderStatusChange(
+    entry: { orderId: number; fromStatus: OrderStatus | null; toStatus: OrderStatus; changedBy: number | null; reason?: string | null },
+    executor: DbExecutor = db
+): Promise<void> {
+    await executor.insert(orderStatusHistoryTable)
+        .values({
+            order_id: entry.orderId,
+            from_status: entry.fromStatus,
+            to_status: entry.toStatus,
+            changed_by: entry.changedBy,
+            reason: entry.reason ?? null
+        })
+        .execute();
 }
 
-export async function getOrderById(orderId: number): Promise<Order | null> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching detailed order information with items and status history.
-    return Promise.resolve(null);
+// Orders are numbered ORD-<year>-<sequence>, the sequence restarting every year
+async function nextOrderNumber(executor: DbExecutor): Promise<string> {
+    const year = new Date().getFullYear();
+
+    // The upsert takes a row lock, so concurrent orders never get the same value
+    const result = await executor.insert(orderNumberCountersTable)
+        .values({ year, last_value: 1 })
+        .onConflictDoUpdate({
+            target: orderNumberCountersTable.year,
+            set: {
+                last_value: sql`${orderNumberCountersTable.last_value} + 1`,
+                updated_at: new Date()
+            }
+        })
+        .returning()
+        .execute();
+
+    return `ORD-${year}-${result[0].last_value.toString().padStart(5, '0')}`;
 }
 
-export async function getOrderItems(orderId: number): Promise<OrderItem[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all items in a specific order.
-    return Promise.resolve([]);
+export interface PricedOrderItems {
+    items: Array<{ productId: number; quantity: number; finalPrice: number; totalPrice: number }>;
+    totalAmount: number;
 }
 
-export async function updateOrderStatus(input: UpdateOrderStatusInput): Promise<Order> {
+// Checks and inserts a submitted order inside the caller's transaction: client standing, product availability,
+// monthly limits and credit, then reserves the stock. `priceItems` sets the line prices once the client is locked.
+export async function placeOrder(
+    tx: DbExecutor,
+    input: { client_id: number; representative_id?: number | null; carrier: Carrier; quote_id?: number | null },
+    items: Array<{ productId: number; quantity: number }>,
+    priceItems: (items: Array<{ productId: number; quantity: number }>) => Promise<PricedOrderItems>,
+    createdBy: number | null = null
+): Promise<typeof ordersTable.$inferSelect> {
+    // Lock the client row so concurrent orders are checked against the same balance
+    const clients = await tx.select()
+        .from(clientsTable)
+        .where(eq(clientsTable.id, input.client_id))
+        .for('update')
+        .execute();
+
+    if (clients.length === 0) {
+        throw new Error(`Client with ID ${input.client_id} not found`);
+    }
+
+    const client = clients[0];
+    if (client.is_blocked) {
+        throw new Error('Client account is blocked');
+    }
+
+    const products = await tx.select()
+        .from(productsTable)
+        .where(inArray(productsTable.id, items.map(item => item.productId)))
+        .execute();
+
+    for (const item of items) {
+        const product = products.find(p => p.id === item.productId);
+        if (!product) {
+            throw new Error(`Product with ID ${item.productId} not found`);
+        }
+        if (!product.is_active) {
+            throw new Error(`Product ${product.reference} is not available`);
+        }
+    }
+
+    const stockLimits = await validateStockLimits(input.client_id, items, tx);
+    if (!stockLimits.isValid) {
+        const violation = stockLimits.violations[0];
+        throw new Error(
+            `Monthly stock limit exceeded for product ${violation.productId}: ` +
+            `requested ${violation.requestedQuantity}, remaining ${violation.remainingLimit}`
+        );
+    }
+
+    const pricing = await priceItems(items);
+
+    const creditFailure = getCreditLimitFailure(client, pricing.totalAmount);
+    if (creditFailure) {
+        throw new Error(creditFailure);
+    }
+
+    const orderResult = await tx.insert(ordersTable)
+        .values({
+            client_id: input.client_id,
+            representative_id: input.representative_id ?? null,
+            quote_id: input.quote_id ?? null,
+            order_number: await nextOrderNumber(tx),
+            status: 'submitted',
+            total_amount: pricing.totalAmount.toString(),
+            carrier: input.carrier
+        })
+        .returning()
+        .execute();
+
+    const orderItems = await tx.insert(orderItemsTable)
+        .values(pricing.items.map(item => ({
+            order_id: orderResult[0].id,
+            product_id: item.productId,
+            quantity: item.quantity,
+            unit_price: item.finalPrice.toFixed(2),
+            total_price: item.totalPrice.toFixed(2)
+        })))
+        .returning()
+        .execute();
+
+    // Hold the units now so two clients cannot buy the same last piece
+    await reserveOrderStock(orderResult[0].id, orderItems, tx);
+
+    await recordOrderStatusChange({
+        orderId: orderResult[0].id,
+        fromStatus: null,
+        toStatus: 'submitted',
+        changedBy: createdBy
+    }, tx);
+
+    return orderResult[0];
+}
+
+export async function createOrder(input: CreateOrderInput, createdBy: number | null = null): Promise<Order> {
     try {
-        // First, verify the order exists
-        const existingOrder = await db.select()
+        if (input.items.length === 0) {
+            throw new Error('Order must contain at least one item');
+        }
+
+        // Merge repeated lines so limits and totals see the full quantity per product
+        const quantities = new Map<number, number>();
+        for (const item of input.items) {
+            quantities.set(item.product_id, (quantities.get(item.product_id) ?? 0) + item.quantity);
+        }
+        const items = Array.from(quantities, ([productId, quantity]) => ({ productId, quantity }));
+
+        const order = await db.transaction(tx =>
+            placeOrder(tx, input, items, orderItems => calculateOrderTotal(input.client_id, orderItems, tx), createdBy)
+        );
+
+        return {
+            ...order,
+            total_amount: parseFloat(order.total_amount)
+        };
+    } catch (error) {
+        console.error('Order creation failed:', error);
+        throw error;
+    }
+}
+
+export async function getOrdersByClient(clientId: number): Promise<Order[]> {
+    try {
+        const results = await db.select()
+            .from(ordersTable)
+            .where(eq(ordersTable.client_id, clientId))
+            .orderBy(desc(ordersTable.created_at))
+            .execute();
+
+        return results.map(order => ({
+            ...order,
+            total_amount: parseFloat(order.total_amount)
+        }));
+    } catch (error) {
+        console.error('Orders fetch by client failed:', error);
+        throw error;
+    }
+}
+
+export async function getOrderById(orderId: number): Promise<OrderDetails | null> {
+    try {
+        const orders = await db.select()
             .from(ordersTable)
-            .where(eq(ordersTable.id, input.order_id))
+            .where(eq(ordersTable.id, orderId))
             .execute();
 
-        if (existingOrder.length === 0) {
-            throw new Error(`Order with id ${input.order_id} not found`);
+        if (orders.length === 0) {
+            return null;
         }
 
-        // Prepare update data with timestamp based on status
-        const updateData: any = {
-            status: input.status,
-            updated_at: new Date()
+        return {
+            ...orders[0],
+            total_amount: parseFloat(orders[0].total_amount),
+            status_history: await getOrderStatusHistory(orderId)
         };
+    } catch (error) {
+        console.error('Order fetch failed:', error);
+        throw error;
+    }
+}
+
+export async function getOrderStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]> {
+    try {
+        return await db.select()
+            .from(orderStatusHistoryTable)
+            .where(eq(orderStatusHistoryTable.order_id, orderId))
+            .orderBy(asc(orderStatusHistoryTable.created_at), asc(orderStatusHistoryTable.id))
+            .execute();
+    } catch (error) {
+        console.error('Order status history fetch failed:', error);
+        throw error;
+    }
+}
+
+export async function getOrderItems(orderId: number): Promise<OrderItem[]> {
+    try {
+        const results = await db.select()
+            .from(orderItemsTable)
+            .where(eq(orderItemsTable.order_id, orderId))
+            .orderBy(asc(orderItemsTable.id))
+            .execute();
+
+        return results.map(item => ({
+            ...item,
+            unit_price: parseFloat(item.unit_price),
+            total_price: parseFloat(item.total_price)
+        }));
+    } catch (error) {
+        console.error('Order items fetch failed:', error);
+        throw error;
+    }
+}
+
+type OrderRow = typeof ordersTable.$inferSelect;
+type ClientRow = typeof clientsTable.$inferSelect;
+
+// Apply an already-authorized status change to a locked order and record it in the history
+async function changeOrderStatus(
+    executor: DbExecutor,
+    order: OrderRow,
+    status: OrderStatus,
+    changedBy: number,
+    reason?: string | null
+): Promise<OrderRow> {
+    // Prepare update data with timestamp based on status
+    const updateData: Partial<typeof ordersTable.$inferInsert> = {
+        status,
+        updated_at: new Date()
+    };
+
+    // Set appropriate timestamp fields based on status; refusals count as accounting decisions too
+    if (status === 'validated' || status === 'refused') {
+        updateData.validated_by = changedBy;
+        updateData.validated_at = new Date();
+    } else if (status === 'shipped') {
+        updateData.shipped_at = new Date();
+    } else if (status === 'delivered') {
+        updateData.delivered_at = new Date();
+    }
+
+    // Validated orders join the day's shipment group for their client and carrier, and units reserved
+    // away from Ibn Tachfine are requested from the other sites
+    if (status === 'validated') {
+        await assignOrderToShipmentGroup(order, new Date(), executor);
+        await requestTransfersForOrder(order.id, changedBy, executor);
+    }
 
-        // Set appropriate timestamp fields based on status
-        if (input.status === 'validated') {
-            updateData.validated_by = input.updated_by;
-            updateData.validated_at = new Date();
-        } else if (input.status === 'shipped') {
-            updateData.shipped_at = new Date();
-        } else if (input.status === 'delivered') {
-            updateData.delivered_at = new Date();
+    // Units still travelling to Ibn Tachfine have to arrive before the order can be picked
+    if (status === 'in_preparation') {
+        const openTransfers = await countOpenTransfersForOrder(order.id, executor);
+        if (openTransfers > 0) {
+            throw new Error(`Order ${order.order_number} is waiting for ${openTransfers} transfer(s) to be received`);
         }
+    }
+
+    if (status === 'refused' || status === 'cancelled') {
+        await releaseOrderReservations(order.id, executor);
+        await cancelOpenTransfersForOrder(order.id, executor);
+    } else if (status === 'shipped') {
+        await consumeOrderReservations(order.id, changedBy, executor);
+    }
 
-        // Update the order
-        const result = await db.update(ordersTable)
-            .set(updateData)
-            .where(eq(ordersTable.id, input.order_id))
-            .returning()
+    // Cancelling a validated order takes its amount back off the client balance and out of its shipment
+    if (status === 'cancelled' && order.status !== 'submitted') {
+        await executor.update(clientsTable)
+            .set({
+                current_balance: sql`${clientsTable.current_balance} - ${order.total_amount}`,
+                updated_at: new Date()
+            })
+            .where(eq(clientsTable.id, order.client_id))
             .execute();
 
+        updateData.shipment_group_id = null;
+        updateData.is_grouped = false;
+    }
+
+    const result = await executor.update(ordersTable)
+        .set(updateData)
+        .where(and(
+            eq(ordersTable.id, order.id),
+            eq(ordersTable.status, order.status)
+        ))
+        .returning()
+        .execute();
+
+    // The orders left behind may no longer share their shipment with anyone
+    if (updateData.shipment_group_id === null && order.shipment_group_id !== null) {
+        await refreshShipmentGroupFlags(order.shipment_group_id, executor);
+    }
+
+    await recordOrderStatusChange({
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: status,
+        changedBy,
+        reason
+    }, executor);
+
+    return result[0];
+}
+
+// Returns why the client cannot take on this amount, or null when the order is covered
+function getCreditCheckFailure(client: ClientRow, orderAmount: number): string | null {
+    if (client.is_blocked) {
+        return 'Client account is blocked';
+    }
+
+    const overdueAmount = parseFloat(client.overdue_amount);
+    if (overdueAmount > 0) {
+        return `Client has overdue payments of ${overdueAmount.toFixed(2)}`;
+    }
+
+    return getCreditLimitFailure(client, orderAmount);
+}
+
+function getCreditLimitFailure(client: ClientRow, orderAmount: number): string | null {
+    const currentBalance = parseFloat(client.current_balance);
+    const creditLimit = parseFloat(client.credit_limit);
+    if (currentBalance + orderAmount > creditLimit) {
+        return `Credit limit exceeded: balance ${currentBalance.toFixed(2)} + order ${orderAmount.toFixed(2)} ` +
+            `> limit ${creditLimit.toFixed(2)}`;
+    }
+
+    return null;
+}
+
+export async function updateOrderStatus(input: UpdateOrderStatusInput): Promise<Order> {
+    // Accounting decisions must go through the credit re-check, balance booking and Sage export
+    if (input.status === 'validated' || input.status === 'refused') {
+        return validateOrder(input.order_id, input.updated_by, input.status === 'validated', input.reason ?? null);
+    }
+
+    try {
+        if (input.status === 'cancelled' && !input.reason) {
+            throw new Error('A reason is required to cancel an order');
+        }
+
+        const users = await db.select()
+            .from(usersTable)
+            .where(eq(usersTable.id, input.updated_by))
+            .execute();
+
+        if (users.length === 0) {
+            throw new Error(`User with id ${input.updated_by} not found`);
+        }
+
+        const updatedOrder = await db.transaction(async (tx) => {
+            const existingOrder = await tx.select()
+                .from(ordersTable)
+                .where(eq(ordersTable.id, input.order_id))
+                .for('update')
+                .execute();
+
+            if (existingOrder.length === 0) {
+                throw new Error(`Order with id ${input.order_id} not found`);
+            }
+
+            const fromStatus = existingOrder[0].status;
+            assertOrderTransition(fromStatus, input.status, users[0].role);
+
+            return changeOrderStatus(tx, existingOrder[0], input.status, input.updated_by, input.reason);
+        });
+
         // Convert numeric fields back to numbers
-        const updatedOrder = result[0];
         return {
             ...updatedOrder,
             total_amount: parseFloat(updatedOrder.total_amount)
@@ -91,11 +460,95 @@ export async function updateOrderStatus(input: UpdateOrderStatusInput): Promise<
     }
 }
 
-export async function validateOrder(orderId: number, validatedBy: number, approve: boolean): Promise<Order> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is approving/refusing orders by accounting team.
-    // Should create Sage document if approved, send notifications.
-    return Promise.resolve({} as Order);
+// Accounting decision on a submitted order; approval re-checks credit, books the amount on the
+// client balance and queues the Sage export
+export async function validateOrder(
+    orderId: number,
+    validatedBy: number,
+    approve: boolean,
+    reason: string | null = null
+): Promise<Order> {
+    try {
+        if (!approve && !reason) {
+            throw new Error('A reason is required to refuse an order');
+        }
+
+        const now = new Date();
+        const users = await db.select()
+            .from(usersTable)
+            .where(eq(usersTable.id, validatedBy))
+            .execute();
+
+        if (users.length === 0) {
+            throw new Error(`User with id ${validatedBy} not found`);
+        }
+
+        const status: OrderStatus = approve ? 'validated' : 'refused';
+
+        let updatedOrder = await db.transaction(async (tx) => {
+            const orders = await tx.select()
+                .from(ordersTable)
+                .where(eq(ordersTable.id, orderId))
+                .for('update')
+                .execute();
+
+            if (orders.length === 0) {
+                throw new Error(`Order with id ${orderId} not found`);
+            }
+
+            const order = orders[0];
+            assertOrderTransition(order.status, status, users[0].role);
+
+            if (approve) {
+                const clients = await tx.select()
+                    .from(clientsTable)
+                    .where(eq(clientsTable.id, order.client_id))
+                    .for('update')
+                    .execute();
+
+                const client = clients[0];
+                const totalAmount = parseFloat(order.total_amount);
+
+                // The client's position may have changed since the order was placed
+                const creditFailure = getCreditCheckFailure(client, totalAmount);
+                if (creditFailure) {
+                    throw new Error(`Credit check failed: ${creditFailure}`);
+                }
+
+                await tx.update(clientsTable)
+                    .set({
+                        current_balance: (parseFloat(client.current_balance) + totalAmount).toFixed(2),
+                        updated_at: new Date()
+                    })
+                    .where(eq(clientsTable.id, client.id))
+                    .execute();
+
+                await enqueueSageExport(order.id, tx, now);
+            }
+
+            return changeOrderStatus(tx, order, status, validatedBy, reason);
+        });
+
+        if (approve) {
+            // The approval stands even if Sage is unreachable; the outbox retries the export later
+            const exported = await processSageExport(orderId, now);
+            if (exported?.status === 'exported') {
+                const refreshed = await db.select()
+                    .from(ordersTable)
+                    .where(eq(ordersTable.id, orderId))
+                    .execute();
+                updatedOrder = refreshed[0];
+            }
+        }
+
+        return {
+            ...updatedOrder,
+            total_amount: parseFloat(updatedOrder.total_amount)
+        };
+    } catch (error) {
+        console.error('Order validation failed:', error);
+        throw error;
+    }
 }
 
 export async function getOrdersForPreparation(warehouse: string): Promise<Order[]> {
@@ -104,15 +557,66 @@ export async function getOrdersForPreparation(warehouse: string): Promise<Order[
     return Promise.resolve([]);
 }
 
+// Orders of a client consolidated into the shipment groups leaving on the given day
 export async function getGroupedOrders(clientId: number, date: Date): Promise<Order[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching orders that should be grouped for same-day delivery.
-    // Should consolidate orders placed before 19:00 for same-day shipping.
-    return Promise.resolve([]);
+    try {
+        const results = await db.select()
+            .from(ordersTable)
+            .innerJoin(shipmentGroupsTable, eq(ordersTable.shipment_group_id, shipmentGroupsTable.id))
+            .where(and(
+                eq(ordersTable.client_id, clientId),
+                eq(shipmentGroupsTable.shipping_date, formatLocalDate(date))
+            ))
+            .orderBy(asc(ordersTable.created_at), asc(ordersTable.id))
+            .execute();
+
+        return results.map(({ orders: order }) => ({
+            ...order,
+            total_amount: parseFloat(order.total_amount)
+        }));
+    } catch (error) {
+        console.error('Grouped orders fetch failed:', error);
+        throw error;
+    }
 }
 
-export async function getPendingOrdersForValidation(): Promise<Order[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching orders waiting for accounting validation.
-    return Promise.resolve([]);
-}
\ No newline at end of file
+// Submitted orders, oldest first, so the accounting queue is worked in arrival order
+export async function getPendingOrdersForValidation(page: number = 1, pageSize: number = 20): Promise<PendingValidationPage> {
+    try {
+        const totalResult = await db.select({ total: count() })
+            .from(ordersTable)
+            .where(eq(ordersTable.status, 'submitted'))
+            .execute();
+
+        const results = await db.select()
+            .from(ordersTable)
+            .innerJoin(clientsTable, eq(ordersTable.client_id, clientsTable.id))
+            .where(eq(ordersTable.status, 'submitted'))
+            .orderBy(asc(ordersTable.created_at), asc(ordersTable.id))
+            .limit(pageSize)
+            .offset((page - 1) * pageSize)
+            .execute();
+
+        return {
+            orders: results.map(({ orders: order, clients: client }) => {
+                const totalAmount = parseFloat(order.total_amount);
+                return {
+                    ...order,
+                    total_amount: totalAmount,
+                    company_name: client.company_name,
+                    credit_limit: parseFloat(client.credit_limit),
+                    current_balance: parseFloat(client.current_balance),
+                    overdue_amount: parseFloat(client.overdue_amount),
+                    is_blocked: client.is_blocked,
+                    passes_credit_check: getCreditCheckFailure(client, totalAmount) === null
+                };
+            }),
+            total: totalResult[0].total,
+            page,
+            page_size: pageSize
+        };
+    } catch (error) {
+        console.error('Pending orders fetch failed:', error);
+        throw error;
+    }
+}
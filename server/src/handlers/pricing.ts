@@ -1,13 +1,26 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { 
   clientProductPricingTable, 
   productsTable, 
   clientsTable, 
   orderItemsTable,
-  ordersTable 
+  ordersTable,
+  clientGroupsTable,
+  priceListsTable,
+  pricingRulesTable
 } from '../db/schema';
-import { type ClientProductPricing } from '../schema';
-import { eq, and, sum, gte } from 'drizzle-orm';
+import {
+  type Client,
+  type ClientGroup,
+  type ClientProductPricing,
+  type CreateClientGroupInput,
+  type CreatePriceListInput,
+  type PriceList,
+  type PriceListWithRules,
+  type PricingRule,
+  type PricingRuleInput
+} from '../schema';
+import { eq, and, or, sum, gte, gt, lte, isNull, inArray, asc, desc } from 'drizzle-orm';
 
 export async function setClientCustomPricing(
     clientId: number,
@@ -126,24 +139,202 @@ export async function getClientCustomPricing(clientId: number): Promise<ClientPr
     }
 }
 
+// Unit price of one order line and what it came from: a negotiated client/product price (customPrice, discountPercentage)
+// or a price list rule (priceListId, pricingRuleId)
+export interface ResolvedPrice {
+    productId: number;
+    quantity: number;
+    basePrice: number;
+    customPrice?: number;
+    discountPercentage?: number;
+    priceListId?: number;
+    pricingRuleId?: number;
+    finalPrice: number;
+    totalPrice: number;
+}
+
+interface PricingContext {
+    customPricing: Map<number, typeof clientProductPricingTable.$inferSelect>;
+    rules: Array<{ rule: typeof pricingRulesTable.$inferSelect; priceList: typeof priceListsTable.$inferSelect }>;
+}
+
+function roundPrice(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+// Negotiated prices of the client, and the rules of every active price list that targets the client, its group or
+// every client at the given time
+async function loadPricingContext(clientId: number, at: Date, executor: DbExecutor): Promise<PricingContext> {
+    const clients = await executor.select({ client_group_id: clientsTable.client_group_id })
+        .from(clientsTable)
+        .where(eq(clientsTable.id, clientId))
+        .execute();
+    const clientGroupId = clients.length > 0 ? clients[0].client_group_id : null;
+
+    const customPricing = await executor.select()
+        .from(clientProductPricingTable)
+        .where(eq(clientProductPricingTable.client_id, clientId))
+        .execute();
+
+    const targets = [
+        eq(priceListsTable.client_id, clientId),
+        and(isNull(priceListsTable.client_id), isNull(priceListsTable.client_group_id))
+    ];
+    if (clientGroupId !== null) {
+        targets.push(eq(priceListsTable.client_group_id, clientGroupId));
+    }
+
+    const rules = await executor.select({ rule: pricingRulesTable, priceList: priceListsTable })
+        .from(pricingRulesTable)
+        .innerJoin(priceListsTable, eq(pricingRulesTable.price_list_id, priceListsTable.id))
+        .where(and(
+            eq(priceListsTable.is_active, true),
+            or(isNull(priceListsTable.valid_from), lte(priceListsTable.valid_from, at)),
+            or(isNull(priceListsTable.valid_until), gt(priceListsTable.valid_until, at)),
+            or(...targets)
+        ))
+        .execute();
+
+    return {
+        customPricing: new Map(customPricing.map(pricing => [pricing.product_id, pricing])),
+        rules
+    };
+}
+
+function matchesLabel(expected: string | null, actual: string | null): boolean {
+    return expected === null || (actual !== null && expected.trim().toLowerCase() === actual.trim().toLowerCase());
+}
+
+function ruleMatches(
+    rule: typeof pricingRulesTable.$inferSelect,
+    product: typeof productsTable.$inferSelect,
+    quantity: number
+): boolean {
+    if (quantity < rule.min_quantity) {
+        return false;
+    }
+    if (rule.product_id !== null) {
+        return rule.product_id === product.id;
+    }
+    return matchesLabel(rule.brand, product.brand) && matchesLabel(rule.category, product.category);
+}
+
+// Lists for the client itself rank above lists for its group, which rank above lists for every client
+function targetRank(priceList: typeof priceListsTable.$inferSelect): number {
+    return priceList.client_id !== null ? 2 : priceList.client_group_id !== null ? 1 : 0;
+}
+
+// Product rules rank above rules on a brand and a category, then on either, then on every product
+function scopeRank(rule: typeof pricingRulesTable.$inferSelect): number {
+    if (rule.product_id !== null) {
+        return 3;
+    }
+    return (rule.brand !== null ? 1 : 0) + (rule.category !== null ? 1 : 0);
+}
+
+function discounted(basePrice: number, discountPercentage: number): number {
+    return roundPrice(basePrice * (1 - discountPercentage / 100));
+}
+
+// Precedence: a negotiated client/product price, then the matching price list rules ranked by list priority, list
+// target, rule scope and quantity break (the highest threshold reached), the lowest price settling any tie; the base
+// price when nothing applies
+function resolvePrice(
+    product: typeof productsTable.$inferSelect,
+    quantity: number,
+    context: PricingContext
+): ResolvedPrice {
+    const basePrice = parseFloat(product.base_price);
+    const line = (finalPrice: number, source: Partial<ResolvedPrice> = {}): ResolvedPrice => ({
+        productId: product.id,
+        quantity,
+        basePrice,
+        ...source,
+        finalPrice,
+        totalPrice: roundPrice(finalPrice * quantity)
+    });
+
+    const custom = context.customPricing.get(product.id);
+    if (custom) {
+        const customPrice = parseFloat(custom.custom_price);
+        const discountPercentage = parseFloat(custom.discount_percentage);
+
+        // Use custom price if available, otherwise apply discount to base price
+        if (customPrice > 0) {
+            return line(customPrice, { customPrice, discountPercentage });
+        }
+        if (discountPercentage > 0) {
+            return line(discounted(basePrice, discountPercentage), { customPrice, discountPercentage });
+        }
+    }
+
+    const candidates = context.rules
+        .filter(({ rule }) => ruleMatches(rule, product, quantity))
+        .map(({ rule, priceList }) => ({
+            rule,
+            priceList,
+            price: rule.fixed_price !== null
+                ? parseFloat(rule.fixed_price)
+                : discounted(basePrice, parseFloat(rule.discount_percentage ?? '0'))
+        }))
+        .sort((a, b) =>
+            b.priceList.priority - a.priceList.priority ||
+            targetRank(b.priceList) - targetRank(a.priceList) ||
+            scopeRank(b.rule) - scopeRank(a.rule) ||
+            b.rule.min_quantity - a.rule.min_quantity ||
+            a.price - b.price
+        );
+
+    if (candidates.length === 0) {
+        return line(basePrice);
+    }
+
+    const { rule, priceList, price } = candidates[0];
+    return line(price, {
+        customPrice: rule.fixed_price !== null ? price : undefined,
+        discountPercentage: rule.discount_percentage !== null ? parseFloat(rule.discount_percentage) : undefined,
+        priceListId: priceList.id,
+        pricingRuleId: rule.id
+    });
+}
+
+// Price of a single product for a client; unknown clients get the prices that apply to every client
+export async function getClientUnitPrice(
+    clientId: number,
+    productId: number,
+    quantity: number = 1,
+    at: Date = new Date(),
+    executor: DbExecutor = db
+): Promise<ResolvedPrice> {
+    try {
+        const products = await executor.select()
+            .from(productsTable)
+            .where(eq(productsTable.id, productId))
+            .execute();
+
+        if (products.length === 0) {
+            throw new Error(`Product with ID ${productId} not found`);
+        }
+
+        return resolvePrice(products[0], quantity, await loadPricingContext(clientId, at, executor));
+    } catch (error) {
+        console.error('Client unit price resolution failed:', error);
+        throw error;
+    }
+}
+
 export async function calculateOrderTotal(
     clientId: number,
-    items: Array<{ productId: number; quantity: number }>
+    items: Array<{ productId: number; quantity: number }>,
+    executor: DbExecutor = db,
+    at: Date = new Date()
 ): Promise<{
-    items: Array<{
-        productId: number;
-        quantity: number;
-        basePrice: number;
-        customPrice?: number;
-        discountPercentage?: number;
-        finalPrice: number;
-        totalPrice: number;
-    }>;
+    items: ResolvedPrice[];
     totalAmount: number;
 }> {
     try {
         // Verify client exists
-        const client = await db.select()
+        const client = await executor.select()
             .from(clientsTable)
             .where(eq(clientsTable.id, clientId))
             .limit(1)
@@ -153,62 +344,27 @@ export async function calculateOrderTotal(
             throw new Error(`Client with ID ${clientId} not found`);
         }
 
+        const products = items.length > 0
+            ? await executor.select()
+                .from(productsTable)
+                .where(inArray(productsTable.id, items.map(item => item.productId)))
+                .execute()
+            : [];
+        const productsById = new Map(products.map(product => [product.id, product]));
+        const context = await loadPricingContext(clientId, at, executor);
+
         const calculatedItems = [];
         let totalAmount = 0;
 
         for (const item of items) {
-            // Get product base price
-            const product = await db.select()
-                .from(productsTable)
-                .where(eq(productsTable.id, item.productId))
-                .limit(1)
-                .execute();
-            
-            if (product.length === 0) {
+            const product = productsById.get(item.productId);
+            if (!product) {
                 throw new Error(`Product with ID ${item.productId} not found`);
             }
 
-            const basePrice = parseFloat(product[0].base_price);
-
-            // Get custom pricing if it exists
-            const customPricing = await db.select()
-                .from(clientProductPricingTable)
-                .where(and(
-                    eq(clientProductPricingTable.client_id, clientId),
-                    eq(clientProductPricingTable.product_id, item.productId)
-                ))
-                .limit(1)
-                .execute();
-
-            let finalPrice = basePrice;
-            let customPrice: number | undefined;
-            let discountPercentage: number | undefined;
-
-            if (customPricing.length > 0) {
-                customPrice = parseFloat(customPricing[0].custom_price);
-                discountPercentage = parseFloat(customPricing[0].discount_percentage);
-                
-                // Use custom price if available, otherwise apply discount to base price
-                if (customPrice > 0) {
-                    finalPrice = customPrice;
-                } else if (discountPercentage > 0) {
-                    finalPrice = basePrice * (1 - discountPercentage / 100);
-                }
-            }
-
-            const totalPrice = finalPrice * item.quantity;
-
-            calculatedItems.push({
-                productId: item.productId,
-                quantity: item.quantity,
-                basePrice,
-                customPrice,
-                discountPercentage,
-                finalPrice,
-                totalPrice
-            });
-
-            totalAmount += totalPrice;
+            const price = resolvePrice(product, item.quantity, context);
+            calculatedItems.push(price);
+            totalAmount += price.totalPrice;
         }
 
         return {
@@ -223,7 +379,8 @@ export async function calculateOrderTotal(
 
 export async function validateStockLimits(
     clientId: number,
-    items: Array<{ productId: number; quantity: number }>
+    items: Array<{ productId: number; quantity: number }>,
+    executor: DbExecutor = db
 ): Promise<{
     isValid: boolean;
     violations: Array<{
@@ -235,7 +392,7 @@ export async function validateStockLimits(
 }> {
     try {
         // Verify client exists
-        const client = await db.select()
+        const client = await executor.select()
             .from(clientsTable)
             .where(eq(clientsTable.id, clientId))
             .limit(1)
@@ -253,7 +410,7 @@ export async function validateStockLimits(
 
         for (const item of items) {
             // Get stock limit for this product
-            const customPricing = await db.select()
+            const customPricing = await executor.select()
                 .from(clientProductPricingTable)
                 .where(and(
                     eq(clientProductPricingTable.client_id, clientId),
@@ -266,7 +423,7 @@ export async function validateStockLimits(
                 const monthlyLimit = customPricing[0].stock_limit_monthly;
 
                 // Calculate current month's usage
-                const currentUsage = await db.select({
+                const currentUsage = await executor.select({
                     totalQuantity: sum(orderItemsTable.quantity)
                 })
                 .from(orderItemsTable)
@@ -300,4 +457,276 @@ export async function validateStockLimits(
         console.error('Validate stock limits failed:', error);
         throw error;
     }
-}
\ No newline at end of file
+}
+
+function toPricingRule(rule: typeof pricingRulesTable.$inferSelect): PricingRule {
+    return {
+        ...rule,
+        fixed_price: rule.fixed_price !== null ? parseFloat(rule.fixed_price) : null,
+        discount_percentage: rule.discount_percentage !== null ? parseFloat(rule.discount_percentage) : null
+    };
+}
+
+export async function createClientGroup(input: CreateClientGroupInput): Promise<ClientGroup> {
+    try {
+        const existing = await db.select({ id: clientGroupsTable.id })
+            .from(clientGroupsTable)
+            .where(eq(clientGroupsTable.name, input.name))
+            .execute();
+
+        if (existing.length > 0) {
+            throw new Error(`Client group ${input.name} already exists`);
+        }
+
+        const inserted = await db.insert(clientGroupsTable)
+            .values({
+                name: input.name,
+                description: input.description ?? null
+            })
+            .returning()
+            .execute();
+
+        return inserted[0];
+    } catch (error) {
+        console.error('Client group creation failed:', error);
+        throw error;
+    }
+}
+
+export async function getClientGroups(): Promise<ClientGroup[]> {
+    try {
+        return await db.select()
+            .from(clientGroupsTable)
+            .orderBy(asc(clientGroupsTable.name))
+            .execute();
+    } catch (error) {
+        console.error('Client groups fetch failed:', error);
+        throw error;
+    }
+}
+
+// Moves a client into a group, or out of any group with null
+export async function assignClientGroup(clientId: number, clientGroupId: number | null): Promise<Client> {
+    try {
+        if (clientGroupId !== null) {
+            const groups = await db.select({ id: clientGroupsTable.id })
+                .from(clientGroupsTable)
+                .where(eq(clientGroupsTable.id, clientGroupId))
+                .execute();
+
+            if (groups.length === 0) {
+                throw new Error(`Client group ${clientGroupId} not found`);
+            }
+        }
+
+        const updated = await db.update(clientsTable)
+            .set({ client_group_id: clientGroupId, updated_at: new Date() })
+            .where(eq(clientsTable.id, clientId))
+            .returning()
+            .execute();
+
+        if (updated.length === 0) {
+            throw new Error(`Client with ID ${clientId} not found`);
+        }
+
+        const client = updated[0];
+        return {
+            ...client,
+            credit_limit: parseFloat(client.credit_limit),
+            current_balance: parseFloat(client.current_balance),
+            overdue_amount: parseFloat(client.overdue_amount)
+        };
+    } catch (error) {
+        console.error('Client group assignment failed:', error);
+        throw error;
+    }
+}
+
+async function insertPricingRule(
+    priceListId: number,
+    rule: PricingRuleInput,
+    executor: DbExecutor
+): Promise<PricingRule> {
+    const productId = rule.product_id ?? null;
+    const brand = rule.brand ?? null;
+    const category = rule.category ?? null;
+    const fixedPrice = rule.fixed_price ?? null;
+    const discountPercentage = rule.discount_percentage ?? null;
+
+    if (productId !== null && (brand !== null || category !== null)) {
+        throw new Error('A product pricing rule cannot also target a brand or a category');
+    }
+    if ((fixedPrice === null) === (discountPercentage === null)) {
+        throw new Error('A pricing rule sets either a fixed price or a discount percentage');
+    }
+
+    if (productId !== null) {
+        const products = await executor.select({ id: productsTable.id })
+            .from(productsTable)
+            .where(eq(productsTable.id, productId))
+            .execute();
+
+        if (products.length === 0) {
+            throw new Error(`Product with ID ${productId} not found`);
+        }
+    }
+
+    const inserted = await executor.insert(pricingRulesTable)
+        .values({
+            price_list_id: priceListId,
+            product_id: productId,
+            brand,
+            category,
+            min_quantity: rule.min_quantity,
+            fixed_price: fixedPrice !== null ? fixedPrice.toFixed(2) : null,
+            discount_percentage: discountPercentage !== null ? discountPercentage.toFixed(2) : null
+        })
+        .returning()
+        .execute();
+
+    return toPricingRule(inserted[0]);
+}
+
+export async function createPriceList(input: CreatePriceListInput): Promise<PriceListWithRules> {
+    try {
+        const clientId = input.client_id ?? null;
+        const clientGroupId = input.client_group_id ?? null;
+        const validFrom = input.valid_from ?? null;
+        const validUntil = input.valid_until ?? null;
+
+        if (clientId !== null && clientGroupId !== null) {
+            throw new Error('A price list targets either a client or a client group, not both');
+        }
+        if (validFrom !== null && validUntil !== null && validUntil <= validFrom) {
+            throw new Error('A price list must end after it starts');
+        }
+
+        return await db.transaction(async (tx) => {
+            if (clientId !== null) {
+                const clients = await tx.select({ id: clientsTable.id })
+                    .from(clientsTable)
+                    .where(eq(clientsTable.id, clientId))
+                    .execute();
+
+                if (clients.length === 0) {
+                    throw new Error(`Client with ID ${clientId} not found`);
+                }
+            }
+
+            if (clientGroupId !== null) {
+                const groups = await tx.select({ id: clientGroupsTable.id })
+                    .from(clientGroupsTable)
+                    .where(eq(clientGroupsTable.id, clientGroupId))
+                    .execute();
+
+                if (groups.length === 0) {
+                    throw new Error(`Client group ${clientGroupId} not found`);
+                }
+            }
+
+            const inserted = await tx.insert(priceListsTable)
+                .values({
+                    name: input.name,
+                    client_id: clientId,
+                    client_group_id: clientGroupId,
+                    priority: input.priority,
+                    valid_from: validFrom,
+                    valid_until: validUntil
+                })
+                .returning()
+                .execute();
+
+            const rules = [];
+            for (const rule of input.rules) {
+                rules.push(await insertPricingRule(inserted[0].id, rule, tx));
+            }
+
+            return { ...inserted[0], rules };
+        });
+    } catch (error) {
+        console.error('Price list creation failed:', error);
+        throw error;
+    }
+}
+
+export async function addPricingRule(priceListId: number, rule: PricingRuleInput): Promise<PricingRule> {
+    try {
+        const priceLists = await db.select({ id: priceListsTable.id })
+            .from(priceListsTable)
+            .where(eq(priceListsTable.id, priceListId))
+            .execute();
+
+        if (priceLists.length === 0) {
+            throw new Error(`Price list ${priceListId} not found`);
+        }
+
+        return await insertPricingRule(priceListId, rule, db);
+    } catch (error) {
+        console.error('Pricing rule creation failed:', error);
+        throw error;
+    }
+}
+
+export async function removePricingRule(ruleId: number): Promise<{ success: boolean }> {
+    try {
+        const deleted = await db.delete(pricingRulesTable)
+            .where(eq(pricingRulesTable.id, ruleId))
+            .returning({ id: pricingRulesTable.id })
+            .execute();
+
+        if (deleted.length === 0) {
+            throw new Error(`Pricing rule ${ruleId} not found`);
+        }
+
+        return { success: true };
+    } catch (error) {
+        console.error('Pricing rule removal failed:', error);
+        throw error;
+    }
+}
+
+// Inactive lists are kept for reference but no longer apply
+export async function setPriceListActive(priceListId: number, isActive: boolean): Promise<PriceList> {
+    try {
+        const updated = await db.update(priceListsTable)
+            .set({ is_active: isActive, updated_at: new Date() })
+            .where(eq(priceListsTable.id, priceListId))
+            .returning()
+            .execute();
+
+        if (updated.length === 0) {
+            throw new Error(`Price list ${priceListId} not found`);
+        }
+
+        return updated[0];
+    } catch (error) {
+        console.error('Price list update failed:', error);
+        throw error;
+    }
+}
+
+// Every price list with its rules, highest priority first
+export async function getPriceLists(): Promise<PriceListWithRules[]> {
+    try {
+        const priceLists = await db.select()
+            .from(priceListsTable)
+            .orderBy(desc(priceListsTable.priority), asc(priceListsTable.id))
+            .execute();
+
+        const rules = priceLists.length > 0
+            ? await db.select()
+                .from(pricingRulesTable)
+                .where(inArray(pricingRulesTable.price_list_id, priceLists.map(priceList => priceList.id)))
+                .orderBy(asc(pricingRulesTable.id))
+                .execute()
+            : [];
+
+        return priceLists.map(priceList => ({
+            ...priceList,
+            rules: rules.filter(rule => rule.price_list_id === priceList.id).map(toPricingRule)
+        }));
+    } catch (error) {
+        console.error('Price lists fetch failed:', error);
+        throw error;
+    }
+}
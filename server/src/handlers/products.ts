@@ -2,17 +2,19 @@ import { db } from '../db';
 import { 
   productsTable, 
   stockTable, 
-  productSubstitutesTable, 
-  clientProductPricingTable 
+  productSubstitutesTable
 } from '../db/schema';
 import { 
   type CreateProductInput, 
   type Product, 
   type ProductSubstitute, 
   type Stock, 
+  type StockLevel,
   type Warehouse 
 } from '../schema';
 import { eq, and, or, like, ilike, desc, asc, SQL } from 'drizzle-orm';
+import { getReservedQuantities, setStockQuantity, stockKey } from './stock';
+import { getClientUnitPrice, type ResolvedPrice } from './pricing';
 
 export async function createProduct(input: CreateProductInput): Promise<Product> {
   try {
@@ -124,7 +126,8 @@ export async function getProductById(productId: number): Promise<Product | null>
   }
 }
 
-export async function getProductStock(productId: number): Promise<Stock[]> {
+// On-hand quantity per warehouse, with the units held by orders and what is left to sell
+export async function getProductStock(productId: number): Promise<StockLevel[]> {
   try {
     // Verify product exists and is active
     const product = await getProductById(productId);
@@ -138,7 +141,16 @@ export async function getProductStock(productId: number): Promise<Stock[]> {
       .orderBy(asc(stockTable.warehouse))
       .execute();
 
-    return results;
+    const reserved = await getReservedQuantities([productId]);
+
+    return results.map(stock => {
+      const reservedQuantity = reserved.get(stockKey(productId, stock.warehouse)) ?? 0;
+      return {
+        ...stock,
+        reserved: reservedQuantity,
+        available: stock.quantity - reservedQuantity
+      };
+    });
   } catch (error) {
     console.error('Product stock fetch failed:', error);
     throw error;
@@ -167,7 +179,13 @@ export async function getProductSubstitutes(productId: number): Promise<ProductS
   }
 }
 
-export async function updateProductStock(productId: number, warehouse: Warehouse, quantity: number): Promise<Stock> {
+// Sets the counted quantity of a warehouse; the difference is booked as an adjustment in the stock ledger
+export async function updateProductStock(
+  productId: number,
+  warehouse: Warehouse,
+  quantity: number,
+  userId: number | null = null
+): Promise<Stock> {
   try {
     // Verify product exists and is active
     const product = await getProductById(productId);
@@ -175,55 +193,32 @@ export async function updateProductStock(productId: number, warehouse: Warehouse
       throw new Error(`Product with ID ${productId} not found or inactive`);
     }
 
-    // Check if stock record exists
-    const existingStock = await db.select()
-      .from(stockTable)
-      .where(and(
-        eq(stockTable.product_id, productId),
-        eq(stockTable.warehouse, warehouse)
-      ))
-      .execute();
-
-    let result;
-    
-    if (existingStock.length > 0) {
-      // Update existing stock
-      result = await db.update(stockTable)
-        .set({
-          quantity,
-          updated_at: new Date()
-        })
+    return await db.transaction(async (tx) => {
+      await setStockQuantity({
+        productId,
+        warehouse,
+        type: 'adjustment',
+        countedQuantity: quantity,
+        userId
+      }, tx);
+
+      const result = await tx.select()
+        .from(stockTable)
         .where(and(
           eq(stockTable.product_id, productId),
           eq(stockTable.warehouse, warehouse)
         ))
-        .returning()
         .execute();
-    } else {
-      // Insert new stock record
-      result = await db.insert(stockTable)
-        .values({
-          product_id: productId,
-          warehouse,
-          quantity
-        })
-        .returning()
-        .execute();
-    }
 
-    return result[0];
+      return result[0];
+    });
   } catch (error) {
     console.error('Product stock update failed:', error);
     throw error;
   }
 }
 
-export async function getProductPriceForClient(productId: number, clientId: number): Promise<{
-  basePrice: number;
-  customPrice?: number;
-  discountPercentage?: number;
-  finalPrice: number;
-}> {
+export async function getProductPriceForClient(productId: number, clientId: number, quantity: number = 1): Promise<ResolvedPrice> {
   try {
     // Get product base price
     const product = await getProductById(productId);
@@ -231,35 +226,8 @@ export async function getProductPriceForClient(productId: number, clientId: numb
       throw new Error(`Product with ID ${productId} not found or inactive`);
     }
 
-    // Check for custom pricing
-    const customPricing = await db.select()
-      .from(clientProductPricingTable)
-      .where(and(
-        eq(clientProductPricingTable.client_id, clientId),
-        eq(clientProductPricingTable.product_id, productId)
-      ))
-      .execute();
-
-    const basePrice = product.base_price;
-
-    if (customPricing.length > 0) {
-      const pricing = customPricing[0];
-      const customPrice = parseFloat(pricing.custom_price);
-      const discountPercentage = parseFloat(pricing.discount_percentage);
-      
-      return {
-        basePrice,
-        customPrice,
-        discountPercentage,
-        finalPrice: customPrice
-      };
-    }
-
-    // No custom pricing, return base price
-    return {
-      basePrice,
-      finalPrice: basePrice
-    };
+    // Same rules as order and quote pricing
+    return await getClientUnitPrice(clientId, productId, quantity);
   } catch (error) {
     console.error('Product price calculation failed:', error);
     throw error;
@@ -0,0 +1,344 @@
+import { db, type DbExecutor } from '../db';
+import { suppliersTable, purchaseOrdersTable, purchaseOrderLinesTable, productsTable } from '../db/schema';
+import {
+  type CreatePurchaseOrderInput,
+  type CreateSupplierInput,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseOrderStatus,
+  type PurchaseOrderWithLines,
+  type ReceivePurchaseOrderInput,
+  type Supplier,
+  type Warehouse
+} from '../schema';
+import { recordStockMovement, stockKey } from './stock';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+
+// Statuses a purchase order may be moved to by hand; receipts drive partially_received and received
+const PURCHASE_ORDER_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['ordered', 'cancelled'],
+  ordered: ['cancelled'],
+  // Cancelling a partly received order closes the outstanding balance
+  partially_received: ['cancelled'],
+  received: [],
+  cancelled: []
+};
+
+// Orders placed with the supplier whose goods have not all arrived yet
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['ordered', 'partially_received'];
+
+function toPurchaseOrder(order: typeof purchaseOrdersTable.$inferSelect): PurchaseOrder {
+  return {
+    ...order,
+    total_amount: parseFloat(order.total_amount)
+  };
+}
+
+function toPurchaseOrderLine(line: typeof purchaseOrderLinesTable.$inferSelect): PurchaseOrderLine {
+  return {
+    ...line,
+    unit_cost: parseFloat(line.unit_cost),
+    total_cost: parseFloat(line.total_cost)
+  };
+}
+
+async function withLines(executor: DbExecutor, orders: Array<typeof purchaseOrdersTable.$inferSelect>): Promise<PurchaseOrderWithLines[]> {
+  if (orders.length === 0) {
+    return [];
+  }
+
+  const lines = await executor.select()
+    .from(purchaseOrderLinesTable)
+    .where(inArray(purchaseOrderLinesTable.purchase_order_id, orders.map(order => order.id)))
+    .orderBy(asc(purchaseOrderLinesTable.id))
+    .execute();
+
+  return orders.map(order => ({
+    ...toPurchaseOrder(order),
+    lines: lines.filter(line => line.purchase_order_id === order.id).map(toPurchaseOrderLine)
+  }));
+}
+
+export async function createSupplier(input: CreateSupplierInput): Promise<Supplier> {
+  try {
+    const result = await db.insert(suppliersTable)
+      .values({
+        name: input.name,
+        contact_name: input.contact_name ?? null,
+        email: input.email ?? null,
+        phone: input.phone ?? null,
+        address: input.address ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Supplier creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getSuppliers(includeInactive: boolean = false): Promise<Supplier[]> {
+  try {
+    return await db.select()
+      .from(suppliersTable)
+      .where(includeInactive ? undefined : eq(suppliersTable.is_active, true))
+      .orderBy(asc(suppliersTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Suppliers fetch failed:', error);
+    throw error;
+  }
+}
+
+// Purchase orders start as drafts and are numbered PO-<year>-<id>
+export async function createPurchaseOrder(input: CreatePurchaseOrderInput, createdBy: number | null = null): Promise<PurchaseOrderWithLines> {
+  try {
+    if (input.items.length === 0) {
+      throw new Error('Purchase order must contain at least one item');
+    }
+
+    const suppliers = await db.select()
+      .from(suppliersTable)
+      .where(eq(suppliersTable.id, input.supplier_id))
+      .execute();
+
+    if (suppliers.length === 0) {
+      throw new Error(`Supplier ${input.supplier_id} not found`);
+    }
+    if (!suppliers[0].is_active) {
+      throw new Error(`Supplier ${suppliers[0].name} is inactive`);
+    }
+
+    const productIds = [...new Set(input.items.map(item => item.product_id))];
+    const products = await db.select()
+      .from(productsTable)
+      .where(inArray(productsTable.id, productIds))
+      .execute();
+
+    const missing = productIds.find(productId => !products.some(product => product.id === productId));
+    if (missing !== undefined) {
+      throw new Error(`Product with ID ${missing} not found`);
+    }
+
+    const totalAmount = input.items.reduce((sum, item) => sum + item.quantity * item.unit_cost, 0);
+
+    return await db.transaction(async (tx) => {
+      const inserted = await tx.insert(purchaseOrdersTable)
+        .values({
+          supplier_id: input.supplier_id,
+          warehouse: input.warehouse,
+          expected_date: input.expected_date ?? null,
+          total_amount: totalAmount.toFixed(2),
+          notes: input.notes ?? null,
+          created_by: createdBy
+        })
+        .returning()
+        .execute();
+
+      const orders = await tx.update(purchaseOrdersTable)
+        .set({ po_number: `PO-${inserted[0].created_at.getFullYear()}-${inserted[0].id.toString().padStart(5, '0')}` })
+        .where(eq(purchaseOrdersTable.id, inserted[0].id))
+        .returning()
+        .execute();
+
+      await tx.insert(purchaseOrderLinesTable)
+        .values(input.items.map(item => ({
+          purchase_order_id: inserted[0].id,
+          product_id: item.product_id,
+          quantity_ordered: item.quantity,
+          unit_cost: item.unit_cost.toFixed(2),
+          total_cost: (item.quantity * item.unit_cost).toFixed(2)
+        })))
+        .execute();
+
+      return (await withLines(tx, orders))[0];
+    });
+  } catch (error) {
+    console.error('Purchase order creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getPurchaseOrders(filters?: {
+  status?: PurchaseOrderStatus;
+  supplierId?: number;
+  warehouse?: Warehouse;
+}): Promise<PurchaseOrderWithLines[]> {
+  try {
+    const orders = await db.select()
+      .from(purchaseOrdersTable)
+      .where(and(
+        filters?.status ? eq(purchaseOrdersTable.status, filters.status) : undefined,
+        filters?.supplierId !== undefined ? eq(purchaseOrdersTable.supplier_id, filters.supplierId) : undefined,
+        filters?.warehouse ? eq(purchaseOrdersTable.warehouse, filters.warehouse) : undefined
+      ))
+      .orderBy(desc(purchaseOrdersTable.created_at), desc(purchaseOrdersTable.id))
+      .execute();
+
+    return await withLines(db, orders);
+  } catch (error) {
+    console.error('Purchase orders fetch failed:', error);
+    throw error;
+  }
+}
+
+export async function getPurchaseOrderById(purchaseOrderId: number): Promise<PurchaseOrderWithLines | null> {
+  try {
+    const orders = await db.select()
+      .from(purchaseOrdersTable)
+      .where(eq(purchaseOrdersTable.id, purchaseOrderId))
+      .execute();
+
+    return (await withLines(db, orders))[0] ?? null;
+  } catch (error) {
+    console.error('Purchase order fetch failed:', error);
+    throw error;
+  }
+}
+
+export async function updatePurchaseOrderStatus(purchaseOrderId: number, status: PurchaseOrderStatus): Promise<PurchaseOrder> {
+  try {
+    if (status === 'partially_received' || status === 'received') {
+      throw new Error('Purchase orders are received by recording a goods receipt');
+    }
+
+    return await db.transaction(async (tx) => {
+      const orders = await tx.select()
+        .from(purchaseOrdersTable)
+        .where(eq(purchaseOrdersTable.id, purchaseOrderId))
+        .for('update')
+        .execute();
+
+      if (orders.length === 0) {
+        throw new Error(`Purchase order ${purchaseOrderId} not found`);
+      }
+
+      const order = orders[0];
+      if (!PURCHASE_ORDER_STATUS_TRANSITIONS[order.status].includes(status)) {
+        throw new Error(`Invalid purchase order status transition from ${order.status} to ${status}`);
+      }
+
+      const result = await tx.update(purchaseOrdersTable)
+        .set({
+          status,
+          ...(status === 'ordered' ? { ordered_at: new Date() } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(purchaseOrdersTable.id, purchaseOrderId))
+        .returning()
+        .execute();
+
+      return toPurchaseOrder(result[0]);
+    });
+  } catch (error) {
+    console.error('Purchase order status update failed:', error);
+    throw error;
+  }
+}
+
+// Books the delivered units into stock; a delivery may cover only part of the order and may be
+// unloaded at another warehouse than the one the order was placed for
+export async function receivePurchaseOrder(
+  input: ReceivePurchaseOrderInput,
+  receivedBy: number | null = null
+): Promise<PurchaseOrderWithLines> {
+  try {
+    return await db.transaction(async (tx) => {
+      const orders = await tx.select()
+        .from(purchaseOrdersTable)
+        .where(eq(purchaseOrdersTable.id, input.purchase_order_id))
+        .for('update')
+        .execute();
+
+      if (orders.length === 0) {
+        throw new Error(`Purchase order ${input.purchase_order_id} not found`);
+      }
+
+      const order = orders[0];
+      if (!OPEN_STATUSES.includes(order.status)) {
+        throw new Error(`Purchase order ${order.po_number} is ${order.status} and cannot be received`);
+      }
+
+      const lines = await tx.select()
+        .from(purchaseOrderLinesTable)
+        .where(eq(purchaseOrderLinesTable.purchase_order_id, order.id))
+        .execute();
+      const warehouse = input.warehouse ?? order.warehouse;
+
+      for (const receipt of input.lines) {
+        const line = lines.find(({ id }) => id === receipt.line_id);
+        if (!line) {
+          throw new Error(`Line ${receipt.line_id} does not belong to purchase order ${order.po_number}`);
+        }
+
+        const outstanding = line.quantity_ordered - line.quantity_received;
+        if (receipt.quantity > outstanding) {
+          throw new Error(`Received quantity ${receipt.quantity} exceeds the ${outstanding} units outstanding on line ${line.id}`);
+        }
+
+        line.quantity_received += receipt.quantity;
+        await tx.update(purchaseOrderLinesTable)
+          .set({ quantity_received: line.quantity_received, updated_at: new Date() })
+          .where(eq(purchaseOrderLinesTable.id, line.id))
+          .execute();
+
+        await recordStockMovement({
+          productId: line.product_id,
+          warehouse,
+          type: 'receipt',
+          quantity: receipt.quantity,
+          purchaseOrderId: order.id,
+          userId: receivedBy,
+          note: `Purchase order ${order.po_number}`
+        }, tx);
+      }
+
+      const complete = lines.every(line => line.quantity_received === line.quantity_ordered);
+      const updated = await tx.update(purchaseOrdersTable)
+        .set({
+          status: complete ? 'received' : 'partially_received',
+          received_at: complete ? new Date() : null,
+          updated_at: new Date()
+        })
+        .where(eq(purchaseOrdersTable.id, order.id))
+        .returning()
+        .execute();
+
+      return (await withLines(tx, updated))[0];
+    });
+  } catch (error) {
+    console.error('Purchase order receipt failed:', error);
+    throw error;
+  }
+}
+
+// Units ordered from suppliers and not yet received, keyed by stockKey(product, warehouse)
+export async function getOnOrderQuantities(productIds: number[], executor: DbExecutor = db): Promise<Map<string, number>> {
+  const onOrder = new Map<string, number>();
+  if (productIds.length === 0) {
+    return onOrder;
+  }
+
+  const results = await executor.select({
+    product_id: purchaseOrderLinesTable.product_id,
+    warehouse: purchaseOrdersTable.warehouse,
+    quantity_ordered: purchaseOrderLinesTable.quantity_ordered,
+    quantity_received: purchaseOrderLinesTable.quantity_received
+  })
+    .from(purchaseOrderLinesTable)
+    .innerJoin(purchaseOrdersTable, eq(purchaseOrderLinesTable.purchase_order_id, purchaseOrdersTable.id))
+    .where(and(
+      inArray(purchaseOrderLinesTable.product_id, productIds),
+      inArray(purchaseOrdersTable.status, OPEN_STATUSES)
+    ))
+    .execute();
+
+  for (const row of results) {
+    const key = stockKey(row.product_id, row.warehouse);
+    onOrder.set(key, (onOrder.get(key) ?? 0) + row.quantity_ordered - row.quantity_received);
+  }
+
+  return onOrder;
+}
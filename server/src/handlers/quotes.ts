@@ -1,9 +1,32 @@
-import { db } from '../db';
-import { quotesTable, quoteItemsTable, productsTable, clientsTable, usersTable, clientProductPricingTable } from '../db/schema';
-import { type CreateQuoteInput, type Quote, type QuoteItem } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import { quotesTable, quoteItemsTable, productsTable, clientsTable, usersTable } from '../db/schema';
+import {
+  type Carrier,
+  type CreateQuoteInput,
+  type Order,
+  type Quote,
+  type QuoteItem,
+  type QuoteQrCode,
+  type QrCodeFormat,
+  type QuoteStatus,
+  type SharedQuote,
+  type UpdateQuoteInput
+} from '../schema';
+import { PORTAL_URL, sendMail } from '../mail';
+import { encodeQrCode, renderQrPng, renderQrSvg } from '../qrcode';
+import { calculateOrderTotal } from './pricing';
+import { placeOrder } from './orders';
+import { eq, and, asc, desc, gt, lte, ne, inArray } from 'drizzle-orm';
 import { randomBytes } from 'crypto';
 
+const DAY = 24 * 60 * 60 * 1000;
+
+// Quotes that may still be ordered; expired ones are repriced on conversion
+const CONVERTIBLE_STATUSES: QuoteStatus[] = ['sent', 'accepted', 'expired'];
+
+// Quotes that can be replaced by a new version: drafts are edited in place and accepted quotes are final
+const REVISABLE_STATUSES: QuoteStatus[] = ['sent', 'rejected', 'expired'];
+
 // Generate a unique quote number
 function generateQuoteNumber(): string {
   const timestamp = Date.now().toString().slice(-8);
@@ -11,9 +34,9 @@ function generateQuoteNumber(): string {
   return `QUO-${timestamp}-${random}`;
 }
 
-// Generate QR code data (simplified for this implementation)
-function generateQRCode(quoteId: number, shareToken: string): string {
-  return `QUOTE:${quoteId}:${shareToken}`;
+// QR code of the share link as SVG markup, printed on the quote so it can be scanned in the shop
+function generateQRCode(shareLink: string): string {
+  return renderQrSvg(encodeQrCode(shareLink));
 }
 
 // Generate share token
@@ -21,6 +44,50 @@ function generateShareToken(): string {
   return randomBytes(32).toString('hex');
 }
 
+// Prices quote lines at the client's custom price, or the product base price without one
+async function priceQuoteItems(
+  clientId: number,
+  items: Array<{ product_id: number; quantity: number }>,
+  at: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<{
+  items: Array<{ product_id: number; quantity: number; unit_price: number; total_price: number }>;
+  totalAmount: number;
+}> {
+  for (const item of items) {
+    const product = await executor.select({ id: productsTable.id })
+      .from(productsTable)
+      .where(and(
+        eq(productsTable.id, item.product_id),
+        eq(productsTable.is_active, true)
+      ))
+      .limit(1)
+      .execute();
+
+    if (product.length === 0) {
+      throw new Error(`Product with ID ${item.product_id} not found or inactive`);
+    }
+  }
+
+  // Quotes are priced by the same rules as orders
+  const pricing = await calculateOrderTotal(
+    clientId,
+    items.map(item => ({ productId: item.product_id, quantity: item.quantity })),
+    executor,
+    at
+  );
+
+  return {
+    items: pricing.items.map(item => ({
+      product_id: item.productId,
+      quantity: item.quantity,
+      unit_price: item.finalPrice,
+      total_price: item.totalPrice
+    })),
+    totalAmount: pricing.totalAmount
+  };
+}
+
 export async function createQuote(input: CreateQuoteInput): Promise<Quote> {
   try {
     // Validate that client exists
@@ -49,54 +116,12 @@ export async function createQuote(input: CreateQuoteInput): Promise<Quote> {
     }
 
     // Validate that all products exist and calculate total amount
-    let totalAmount = 0;
-    const validatedItems = [];
-
-    for (const item of input.items) {
-      // Get product details
-      const product = await db.select()
-        .from(productsTable)
-        .where(and(
-          eq(productsTable.id, item.product_id),
-          eq(productsTable.is_active, true)
-        ))
-        .limit(1)
-        .execute();
-
-      if (product.length === 0) {
-        throw new Error(`Product with ID ${item.product_id} not found or inactive`);
-      }
-
-      // Check for custom pricing for this client-product combination
-      const customPricing = await db.select()
-        .from(clientProductPricingTable)
-        .where(and(
-          eq(clientProductPricingTable.client_id, input.client_id),
-          eq(clientProductPricingTable.product_id, item.product_id)
-        ))
-        .limit(1)
-        .execute();
-
-      // Use custom price if available, otherwise use base price
-      const unitPrice = customPricing.length > 0 
-        ? parseFloat(customPricing[0].custom_price)
-        : parseFloat(product[0].base_price);
-
-      const itemTotal = unitPrice * item.quantity;
-      totalAmount += itemTotal;
-
-      validatedItems.push({
-        product_id: item.product_id,
-        quantity: item.quantity,
-        unit_price: unitPrice,
-        total_price: itemTotal
-      });
-    }
+    const { items: validatedItems, totalAmount } = await priceQuoteItems(input.client_id, input.items);
 
     // Generate quote details
     const quoteNumber = generateQuoteNumber();
     const shareToken = generateShareToken();
-    const shareLink = `https://portal.konipa.com/quotes/share/${shareToken}`;
+    const shareLink = `${PORTAL_URL}/quotes/share/${shareToken}`;
     const expiresAt = new Date(Date.now() + (input.expires_in_days * 24 * 60 * 60 * 1000));
 
     // Create quote record
@@ -106,7 +131,8 @@ export async function createQuote(input: CreateQuoteInput): Promise<Quote> {
         representative_id: input.representative_id,
         quote_number: quoteNumber,
         total_amount: totalAmount.toString(),
-        qr_code: '', // Will be updated after we have the quote ID
+        qr_code: generateQRCode(shareLink),
+        share_token: shareToken,
         share_link: shareLink,
         is_converted_to_order: false,
         order_id: null,
@@ -117,15 +143,6 @@ export async function createQuote(input: CreateQuoteInput): Promise<Quote> {
 
     const quote = quoteResult[0];
 
-    // Generate QR code with actual quote ID
-    const qrCode = generateQRCode(quote.id, shareToken);
-    
-    // Update quote with QR code
-    await db.update(quotesTable)
-      .set({ qr_code: qrCode })
-      .where(eq(quotesTable.id, quote.id))
-      .execute();
-
     // Create quote items
     for (const item of validatedItems) {
       await db.insert(quoteItemsTable)
@@ -142,8 +159,7 @@ export async function createQuote(input: CreateQuoteInput): Promise<Quote> {
     // Return the complete quote with proper numeric conversion
     return {
       ...quote,
-      total_amount: parseFloat(quote.total_amount),
-      qr_code: qrCode
+      total_amount: parseFloat(quote.total_amount)
     };
   } catch (error) {
     console.error('Quote creation failed:', error);
@@ -151,41 +167,486 @@ export async function createQuote(input: CreateQuoteInput): Promise<Quote> {
   }
 }
 
+function toQuote(quote: typeof quotesTable.$inferSelect): Quote {
+  return {
+    ...quote,
+    total_amount: parseFloat(quote.total_amount)
+  };
+}
+
 export async function getQuoteById(quoteId: number): Promise<Quote | null> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching quote details by ID.
-    return Promise.resolve(null);
+  try {
+    const quotes = await db.select()
+      .from(quotesTable)
+      .where(eq(quotesTable.id, quoteId))
+      .execute();
+
+    return quotes.length > 0 ? toQuote(quotes[0]) : null;
+  } catch (error) {
+    console.error('Quote fetch failed:', error);
+    throw error;
+  }
 }
 
-export async function getQuoteByShareToken(shareToken: string): Promise<Quote | null> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching quotes via public share link for client access.
-    return Promise.resolve(null);
+// Public lookup behind the share link: unknown tokens, unsent drafts and expired quotes all read as "no quote", and only the
+// quote content is returned (no client account, representative or order data)
+export async function getQuoteByShareToken(shareToken: string, now: Date = new Date()): Promise<SharedQuote | null> {
+  try {
+    const quotes = await db.select({
+      id: quotesTable.id,
+      quote_number: quotesTable.quote_number,
+      status: quotesTable.status,
+      company_name: clientsTable.company_name,
+      total_amount: quotesTable.total_amount,
+      expires_at: quotesTable.expires_at,
+      created_at: quotesTable.created_at
+    })
+      .from(quotesTable)
+      .innerJoin(clientsTable, eq(quotesTable.client_id, clientsTable.id))
+      .where(and(
+        eq(quotesTable.share_token, shareToken),
+        ne(quotesTable.status, 'draft'),
+        gt(quotesTable.expires_at, now)
+      ))
+      .execute();
+
+    if (quotes.length === 0) {
+      return null;
+    }
+
+    const { id, ...quote } = quotes[0];
+    const items = await db.select({
+      reference: productsTable.reference,
+      designation: productsTable.designation,
+      brand: productsTable.brand,
+      quantity: quoteItemsTable.quantity,
+      unit_price: quoteItemsTable.unit_price,
+      total_price: quoteItemsTable.total_price
+    })
+      .from(quoteItemsTable)
+      .innerJoin(productsTable, eq(quoteItemsTable.product_id, productsTable.id))
+      .where(eq(quoteItemsTable.quote_id, id))
+      .orderBy(asc(quoteItemsTable.id))
+      .execute();
+
+    return {
+      ...quote,
+      total_amount: parseFloat(quote.total_amount),
+      items: items.map(item => ({
+        ...item,
+        unit_price: parseFloat(item.unit_price),
+        total_price: parseFloat(item.total_price)
+      }))
+    };
+  } catch (error) {
+    console.error('Shared quote fetch failed:', error);
+    throw error;
+  }
 }
 
 export async function getQuoteItems(quoteId: number): Promise<QuoteItem[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all items in a specific quote.
-    return Promise.resolve([]);
+  try {
+    const items = await db.select()
+      .from(quoteItemsTable)
+      .where(eq(quoteItemsTable.quote_id, quoteId))
+      .orderBy(asc(quoteItemsTable.id))
+      .execute();
+
+    return items.map(item => ({
+      ...item,
+      unit_price: parseFloat(item.unit_price),
+      total_price: parseFloat(item.total_price)
+    }));
+  } catch (error) {
+    console.error('Quote items fetch failed:', error);
+    throw error;
+  }
+}
+
+// Scannable image of the share link, rendered on demand; PNG data is base64 encoded
+export async function getQuoteQrCode(quoteId: number, format: QrCodeFormat = 'svg'): Promise<QuoteQrCode> {
+  try {
+    const quotes = await db.select({ share_link: quotesTable.share_link })
+      .from(quotesTable)
+      .where(eq(quotesTable.id, quoteId))
+      .execute();
+
+    if (quotes.length === 0) {
+      throw new Error(`Quote ${quoteId} not found`);
+    }
+
+    const qr = encodeQrCode(quotes[0].share_link);
+    return format === 'png'
+      ? { format, mime_type: 'image/png', data: renderQrPng(qr).toString('base64') }
+      : { format, mime_type: 'image/svg+xml', data: renderQrSvg(qr) };
+  } catch (error) {
+    console.error('Quote QR code generation failed:', error);
+    throw error;
+  }
+}
+
+async function lockQuote(executor: DbExecutor, quoteId: number): Promise<typeof quotesTable.$inferSelect> {
+  const quotes = await executor.select()
+    .from(quotesTable)
+    .where(eq(quotesTable.id, quoteId))
+    .for('update')
+    .execute();
+
+  if (quotes.length === 0) {
+    throw new Error(`Quote ${quoteId} not found`);
+  }
+
+  return quotes[0];
+}
+
+// Replaces the lines of a draft at the client's current prices, optionally restarting its validity
+export async function updateQuote(input: UpdateQuoteInput, now: Date = new Date()): Promise<Quote> {
+  try {
+    return await db.transaction(async (tx) => {
+      const quote = await lockQuote(tx, input.quote_id);
+      if (quote.status !== 'draft') {
+        throw new Error(`Quote ${quote.quote_number} is ${quote.status} and cannot be edited`);
+      }
+
+      const { items, totalAmount } = await priceQuoteItems(quote.client_id, input.items, now, tx);
+
+      await tx.delete(quoteItemsTable)
+        .where(eq(quoteItemsTable.quote_id, quote.id))
+        .execute();
+
+      await tx.insert(quoteItemsTable)
+        .values(items.map(item => ({
+          quote_id: quote.id,
+          product_id: item.product_id,
+          quantity: item.quantity,
+          unit_price: item.unit_price.toString(),
+          total_price: item.total_price.toString()
+        })))
+        .execute();
+
+      const updated = await tx.update(quotesTable)
+        .set({
+          total_amount: totalAmount.toString(),
+          ...(input.expires_in_days !== undefined ? { expires_at: new Date(now.getTime() + input.expires_in_days * DAY) } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(quotesTable.id, quote.id))
+        .returning()
+        .execute();
+
+      return toQuote(updated[0]);
+    });
+  } catch (error) {
+    console.error('Quote update failed:', error);
+    throw error;
+  }
+}
+
+// Issues a draft to the client, who receives the share link to accept or reject it
+export async function sendQuote(quoteId: number, now: Date = new Date()): Promise<Quote> {
+  try {
+    const quote = await db.transaction(async (tx) => {
+      const quote = await lockQuote(tx, quoteId);
+      if (quote.status !== 'draft') {
+        throw new Error(`Quote ${quote.quote_number} is ${quote.status} and cannot be sent`);
+      }
+      if (quote.expires_at <= now) {
+        throw new Error(`Quote ${quote.quote_number} expired on ${quote.expires_at.toISOString()}; extend its validity before sending it`);
+      }
+
+      const updated = await tx.update(quotesTable)
+        .set({ status: 'sent', sent_at: now, updated_at: new Date() })
+        .where(eq(quotesTable.id, quote.id))
+        .returning()
+        .execute();
+
+      return updated[0];
+    });
+
+    const recipients = await db.select({ email: usersTable.email })
+      .from(clientsTable)
+      .innerJoin(usersTable, eq(clientsTable.user_id, usersTable.id))
+      .where(eq(clientsTable.id, quote.client_id))
+      .execute();
+
+    if (recipients.length > 0) {
+      await sendMail({
+        to: recipients[0].email,
+        subject: `Konipa - Devis ${quote.quote_number}`,
+        text: [
+          'Votre représentant Konipa vous a adressé un devis.',
+          `Consultez-le, puis acceptez-le ou refusez-le avant le ${quote.expires_at.toISOString().slice(0, 10)} :`,
+          quote.share_link
+        ].join('\n')
+      });
+    }
+
+    return toQuote(quote);
+  } catch (error) {
+    console.error('Quote sending failed:', error);
+    throw error;
+  }
+}
+
+// The client answers a sent quote from its share link; only the shared view is returned
+async function respondToSharedQuote(
+  shareToken: string,
+  status: 'accepted' | 'rejected',
+  reason: string | null,
+  now: Date
+): Promise<SharedQuote> {
+  await db.transaction(async (tx) => {
+    const quotes = await tx.select()
+      .from(quotesTable)
+      .where(and(
+        eq(quotesTable.share_token, shareToken),
+        ne(quotesTable.status, 'draft')
+      ))
+      .for('update')
+      .execute();
+
+    if (quotes.length === 0) {
+      throw new Error('Quote not found');
+    }
+
+    const quote = quotes[0];
+    if (quote.status !== 'sent') {
+      throw new Error(`Quote ${quote.quote_number} is ${quote.status} and can no longer be answered`);
+    }
+    if (quote.expires_at <= now) {
+      throw new Error(`Quote ${quote.quote_number} has expired`);
+    }
+
+    await tx.update(quotesTable)
+      .set({ status, responded_at: now, rejection_reason: reason, updated_at: new Date() })
+      .where(eq(quotesTable.id, quote.id))
+      .execute();
+  });
+
+  return (await getQuoteByShareToken(shareToken, now))!;
 }
 
-export async function convertQuoteToOrder(quoteId: number, carrier: string): Promise<{ quote: Quote; order: any }> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is converting approved quotes into orders with traceability.
-    return Promise.resolve({
-        quote: {} as Quote,
-        order: {}
+export async function acceptSharedQuote(shareToken: string, now: Date = new Date()): Promise<SharedQuote> {
+  try {
+    return await respondToSharedQuote(shareToken, 'accepted', null, now);
+  } catch (error) {
+    console.error('Quote acceptance failed:', error);
+    throw error;
+  }
+}
+
+export async function rejectSharedQuote(shareToken: string, reason: string, now: Date = new Date()): Promise<SharedQuote> {
+  try {
+    return await respondToSharedQuote(shareToken, 'rejected', reason, now);
+  } catch (error) {
+    console.error('Quote rejection failed:', error);
+    throw error;
+  }
+}
+
+// Creates the next version of a quote as a draft with the same lines and validity period. It keeps the quote
+// number with an -R<n> suffix; the previous version is kept as superseded.
+export async function reviseQuote(quoteId: number, now: Date = new Date()): Promise<Quote> {
+  try {
+    return await db.transaction(async (tx) => {
+      const quote = await lockQuote(tx, quoteId);
+      if (!REVISABLE_STATUSES.includes(quote.status)) {
+        throw new Error(`Quote ${quote.quote_number} is ${quote.status} and cannot be revised`);
+      }
+
+      const lines = await tx.select()
+        .from(quoteItemsTable)
+        .where(eq(quoteItemsTable.quote_id, quote.id))
+        .orderBy(asc(quoteItemsTable.id))
+        .execute();
+
+      if (lines.some(line => line.order_id !== null)) {
+        throw new Error(`Quote ${quote.quote_number} has been partly ordered and cannot be revised`);
+      }
+
+      const revision = quote.revision + 1;
+      const shareToken = generateShareToken();
+      const shareLink = `${PORTAL_URL}/quotes/share/${shareToken}`;
+      const validity = quote.expires_at.getTime() - quote.created_at.getTime();
+
+      const inserted = await tx.insert(quotesTable)
+        .values({
+          client_id: quote.client_id,
+          representative_id: quote.representative_id,
+          quote_number: `${quote.quote_number.replace(/-R\d+$/, '')}-R${revision}`,
+          revision,
+          previous_version_id: quote.id,
+          total_amount: quote.total_amount,
+          qr_code: generateQRCode(shareLink),
+          share_token: shareToken,
+          share_link: shareLink,
+          expires_at: new Date(now.getTime() + validity)
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(quoteItemsTable)
+        .values(lines.map(line => ({
+          quote_id: inserted[0].id,
+          product_id: line.product_id,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          total_price: line.total_price
+        })))
+        .execute();
+
+      await tx.update(quotesTable)
+        .set({ status: 'superseded', updated_at: new Date() })
+        .where(eq(quotesTable.id, quote.id))
+        .execute();
+
+      return toQuote(inserted[0]);
     });
+  } catch (error) {
+    console.error('Quote revision failed:', error);
+    throw error;
+  }
+}
+
+// Scheduled job: sent quotes past their validity date are closed as expired
+export async function expireQuotes(now: Date = new Date()): Promise<{ expired: number }> {
+  try {
+    const expired = await db.update(quotesTable)
+      .set({ status: 'expired', updated_at: new Date() })
+      .where(and(
+        eq(quotesTable.status, 'sent'),
+        lte(quotesTable.expires_at, now)
+      ))
+      .returning({ id: quotesTable.id })
+      .execute();
+
+    return { expired: expired.length };
+  } catch (error) {
+    console.error('Quote expiry failed:', error);
+    throw error;
+  }
+}
+
+// Turns the selected open lines of a quote (all of them by default) into a submitted order. Lines keep their quoted
+// price while the quote is valid and are repriced at the client's current prices once it has expired; credit, monthly
+// limits and stock reservation are checked as for any order. Unselected lines stay open on the quote for later.
+export async function convertQuoteToOrder(
+  quoteId: number,
+  carrier: Carrier,
+  itemIds?: number[],
+  convertedBy: number | null = null,
+  now: Date = new Date()
+): Promise<{ quote: Quote; order: Order }> {
+  try {
+    return await db.transaction(async (tx) => {
+      const quote = await lockQuote(tx, quoteId);
+      if (quote.is_converted_to_order) {
+        throw new Error(`Quote ${quote.quote_number} has already been converted to an order`);
+      }
+      if (!CONVERTIBLE_STATUSES.includes(quote.status)) {
+        throw new Error(`Quote ${quote.quote_number} is ${quote.status} and cannot be converted to an order`);
+      }
+
+      const lines = await tx.select()
+        .from(quoteItemsTable)
+        .where(eq(quoteItemsTable.quote_id, quote.id))
+        .orderBy(asc(quoteItemsTable.id))
+        .execute();
+
+      const selected = itemIds === undefined
+        ? lines.filter(line => line.order_id === null)
+        : [...new Set(itemIds)].map(itemId => {
+          const line = lines.find(({ id }) => id === itemId);
+          if (!line) {
+            throw new Error(`Item ${itemId} does not belong to quote ${quote.quote_number}`);
+          }
+          if (line.order_id !== null) {
+            throw new Error(`Item ${itemId} of quote ${quote.quote_number} has already been converted to an order`);
+          }
+          return line;
+        });
+
+      if (selected.length === 0) {
+        throw new Error('Select at least one quote item to convert');
+      }
+
+      const isExpired = quote.status === 'expired' || quote.expires_at <= now;
+      const items = selected.map(line => ({ productId: line.product_id, quantity: line.quantity }));
+
+      const order = await placeOrder(tx, {
+        client_id: quote.client_id,
+        representative_id: quote.representative_id,
+        carrier,
+        quote_id: quote.id
+      }, items, async (orderItems) => {
+        if (isExpired) {
+          return calculateOrderTotal(quote.client_id, orderItems, tx, now);
+        }
+
+        const priced = selected.map(line => ({
+          productId: line.product_id,
+          quantity: line.quantity,
+          finalPrice: parseFloat(line.unit_price),
+          totalPrice: parseFloat(line.total_price)
+        }));
+        return { items: priced, totalAmount: priced.reduce((sum, item) => sum + item.totalPrice, 0) };
+      }, convertedBy);
+
+      await tx.update(quoteItemsTable)
+        .set({ order_id: order.id })
+        .where(inArray(quoteItemsTable.id, selected.map(line => line.id)))
+        .execute();
+
+      // The quote is closed once its last open line has been ordered
+      const isFullyConverted = lines.every(line => line.order_id !== null || selected.includes(line));
+      const updated = await tx.update(quotesTable)
+        .set({
+          ...(isFullyConverted ? { is_converted_to_order: true, order_id: order.id } : {}),
+          // Ordering a sent quote accepts it
+          ...(quote.status === 'sent' && !isExpired ? { status: 'accepted' as const, responded_at: now } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(quotesTable.id, quote.id))
+        .returning()
+        .execute();
+
+      return {
+        quote: toQuote(updated[0]),
+        order: { ...order, total_amount: parseFloat(order.total_amount) }
+      };
+    });
+  } catch (error) {
+    console.error('Quote conversion failed:', error);
+    throw error;
+  }
 }
 
 export async function getQuotesByRepresentative(representativeId: number): Promise<Quote[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all quotes created by a specific representative.
-    return Promise.resolve([]);
+  try {
+    const quotes = await db.select()
+      .from(quotesTable)
+      .where(eq(quotesTable.representative_id, representativeId))
+      .orderBy(desc(quotesTable.created_at), desc(quotesTable.id))
+      .execute();
+
+    return quotes.map(toQuote);
+  } catch (error) {
+    console.error('Representative quotes fetch failed:', error);
+    throw error;
+  }
 }
 
 export async function getQuotesByClient(clientId: number): Promise<Quote[]> {
-    // This is a placeholder declaration! Real code should be implemented here.
-    // The goal of this handler is fetching all quotes for a specific client.
-    return Promise.resolve([]);
-}
\ No newline at end of file
+  try {
+    const quotes = await db.select()
+      .from(quotesTable)
+      .where(eq(quotesTable.client_id, clientId))
+      .orderBy(desc(quotesTable.created_at), desc(quotesTable.id))
+      .execute();
+
+    return quotes.map(toQuote);
+  } catch (error) {
+    console.error('Client quotes fetch failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,190 @@
+import { db } from '../db';
+import { reorderPointsTable, stockTable, productsTable, orderItemsTable, ordersTable } from '../db/schema';
+import { type LowStockAlert, type ReorderPoint, type SetReorderPointInput, type Warehouse } from '../schema';
+import { FULFILLING_WAREHOUSE, getReservedQuantities, stockKey } from './stock';
+import { getOnOrderQuantities } from './purchasing';
+import { eq, and, gte, lt, inArray, notInArray, sql } from 'drizzle-orm';
+
+// Products without a configured reorder point alert below this many available units
+export const DEFAULT_MIN_QUANTITY = 10;
+
+// Sales velocity is measured over this many days, and a reorder without a maximum level covers as many days of sales
+export const SALES_WINDOW_DAYS = 30;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export async function setReorderPoint(input: SetReorderPointInput, updatedBy: number | null = null): Promise<ReorderPoint> {
+  try {
+    const maxQuantity = input.max_quantity ?? null;
+    if (maxQuantity !== null && maxQuantity < input.min_quantity) {
+      throw new Error(`Maximum level ${maxQuantity} is below the minimum level ${input.min_quantity}`);
+    }
+
+    const products = await db.select()
+      .from(productsTable)
+      .where(eq(productsTable.id, input.product_id))
+      .execute();
+
+    if (products.length === 0) {
+      throw new Error(`Product with ID ${input.product_id} not found`);
+    }
+
+    const values = {
+      min_quantity: input.min_quantity,
+      max_quantity: maxQuantity,
+      updated_by: updatedBy,
+      updated_at: new Date()
+    };
+
+    const result = await db.insert(reorderPointsTable)
+      .values({ product_id: input.product_id, warehouse: input.warehouse, ...values })
+      .onConflictDoUpdate({ target: [reorderPointsTable.product_id, reorderPointsTable.warehouse], set: values })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Reorder point update failed:', error);
+    throw error;
+  }
+}
+
+export async function getReorderPoints(productId?: number, warehouse?: Warehouse): Promise<ReorderPoint[]> {
+  try {
+    return await db.select()
+      .from(reorderPointsTable)
+      .where(and(
+        productId !== undefined ? eq(reorderPointsTable.product_id, productId) : undefined,
+        warehouse ? eq(reorderPointsTable.warehouse, warehouse) : undefined
+      ))
+      .orderBy(reorderPointsTable.product_id, reorderPointsTable.warehouse)
+      .execute();
+  } catch (error) {
+    console.error('Reorder points fetch failed:', error);
+    throw error;
+  }
+}
+
+// Average units ordered per day over the `days` days before `now`, refused and cancelled orders excluded. Sales are
+// keyed to the fulfilling warehouse that ships them; the other sites only restock it through transfers
+export async function getSalesVelocity(
+  productIds: number[],
+  days: number = SALES_WINDOW_DAYS,
+  now: Date = new Date()
+): Promise<Map<string, number>> {
+  const velocity = new Map<string, number>();
+  if (productIds.length === 0) {
+    return velocity;
+  }
+
+  const results = await db.select({
+    product_id: orderItemsTable.product_id,
+    quantity: sql<number>`COALESCE(SUM(${orderItemsTable.quantity}), 0)::int`
+  })
+    .from(orderItemsTable)
+    .innerJoin(ordersTable, eq(orderItemsTable.order_id, ordersTable.id))
+    .where(and(
+      inArray(orderItemsTable.product_id, productIds),
+      gte(ordersTable.created_at, new Date(now.getTime() - days * DAY)),
+      lt(ordersTable.created_at, now),
+      notInArray(ordersTable.status, ['refused', 'cancelled'])
+    ))
+    .groupBy(orderItemsTable.product_id)
+    .execute();
+
+  for (const row of results) {
+    velocity.set(stockKey(row.product_id, FULFILLING_WAREHOUSE), Number(row.quantity) / days);
+  }
+
+  return velocity;
+}
+
+// Active products whose available stock (on hand minus reservations) fell below their minimum level, lowest first.
+// The suggestion refills up to the maximum level, or without one, to the minimum plus a window of recent sales,
+// counting units already ordered from suppliers.
+export async function getLowStockAlerts(
+  warehouses: Warehouse[],
+  limit: number = 20,
+  now: Date = new Date()
+): Promise<LowStockAlert[]> {
+  try {
+    const stock = await db.select({
+      product: productsTable,
+      warehouse: stockTable.warehouse,
+      quantity: stockTable.quantity
+    })
+      .from(stockTable)
+      .innerJoin(productsTable, eq(stockTable.product_id, productsTable.id))
+      .where(and(
+        inArray(stockTable.warehouse, warehouses),
+        eq(productsTable.is_active, true)
+      ))
+      .execute();
+
+    const points = await db.select({
+      product: productsTable,
+      point: reorderPointsTable
+    })
+      .from(reorderPointsTable)
+      .innerJoin(productsTable, eq(reorderPointsTable.product_id, productsTable.id))
+      .where(and(
+        inArray(reorderPointsTable.warehouse, warehouses),
+        eq(productsTable.is_active, true)
+      ))
+      .execute();
+
+    // A configured level also covers warehouses that have never held the product
+    const candidates = new Map<string, {
+      product: typeof productsTable.$inferSelect;
+      warehouse: Warehouse;
+      quantity: number;
+      point: ReorderPoint | null;
+    }>();
+    for (const row of stock) {
+      candidates.set(stockKey(row.product.id, row.warehouse), { ...row, point: null });
+    }
+    for (const { product, point } of points) {
+      const key = stockKey(product.id, point.warehouse);
+      candidates.set(key, { product, warehouse: point.warehouse, quantity: candidates.get(key)?.quantity ?? 0, point });
+    }
+
+    const productIds = [...new Set([...candidates.values()].map(candidate => candidate.product.id))];
+    const reserved = await getReservedQuantities(productIds);
+    const velocity = await getSalesVelocity(productIds, SALES_WINDOW_DAYS, now);
+    const onOrder = await getOnOrderQuantities(productIds);
+
+    const alerts: LowStockAlert[] = [];
+    for (const [key, { product, warehouse, quantity, point }] of candidates) {
+      const minQuantity = point?.min_quantity ?? DEFAULT_MIN_QUANTITY;
+      const available = quantity - (reserved.get(key) ?? 0);
+      if (available >= minQuantity) {
+        continue;
+      }
+
+      const dailySales = velocity.get(key) ?? 0;
+      const target = point?.max_quantity ?? minQuantity + Math.ceil(dailySales * SALES_WINDOW_DAYS);
+      const ordered = onOrder.get(key) ?? 0;
+
+      alerts.push({
+        product_id: product.id,
+        reference: product.reference,
+        designation: product.designation,
+        warehouse,
+        stock_level: quantity,
+        available,
+        min_quantity: minQuantity,
+        max_quantity: point?.max_quantity ?? null,
+        daily_sales: parseFloat(dailySales.toFixed(2)),
+        on_order: ordered,
+        suggested_quantity: Math.max(target - available - ordered, 0)
+      });
+    }
+
+    return alerts
+      .sort((a, b) => a.available - b.available || a.reference.localeCompare(b.reference))
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Low stock alerts query failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,219 @@
+import { db, type DbExecutor } from '../db';
+import {
+  sageExportOutboxTable,
+  ordersTable,
+  orderItemsTable,
+  clientsTable,
+  productsTable,
+  usersTable
+} from '../db/schema';
+import { type SageExport, type SageExportStatus } from '../schema';
+import { getSageAdapter, type SageOrderDocument } from '../sage';
+import { eq, and, asc, lte, ne } from 'drizzle-orm';
+
+export const SAGE_EXPORT_MAX_ATTEMPTS = 8;
+
+// While an export is in flight its row is pushed out of reach of other outbox runs
+const SAGE_EXPORT_LEASE_MS = 5 * 60 * 1000;
+
+// 1, 2, 4 ... minutes between attempts, capped at one hour
+function retryDelayMs(attempts: number): number {
+  return Math.min(60, 2 ** (attempts - 1)) * 60 * 1000;
+}
+
+// Due times are stamped with the application clock, the one processSageExport compares them against
+export async function enqueueSageExport(orderId: number, executor: DbExecutor = db, now: Date = new Date()): Promise<void> {
+  try {
+    await executor.insert(sageExportOutboxTable)
+      .values({ order_id: orderId, next_attempt_at: now })
+      .onConflictDoNothing({ target: sageExportOutboxTable.order_id })
+      .execute();
+  } catch (error) {
+    console.error('Sage export enqueue failed:', error);
+    throw error;
+  }
+}
+
+export async function buildSageOrderDocument(orderId: number): Promise<SageOrderDocument> {
+  const orders = await db.select()
+    .from(ordersTable)
+    .innerJoin(clientsTable, eq(ordersTable.client_id, clientsTable.id))
+    .innerJoin(usersTable, eq(clientsTable.user_id, usersTable.id))
+    .where(eq(ordersTable.id, orderId))
+    .execute();
+
+  if (orders.length === 0) {
+    throw new Error(`Order with id ${orderId} not found`);
+  }
+
+  const { orders: order, clients: client, users: clientUser } = orders[0];
+  if (!clientUser.sage_id) {
+    throw new Error(`Client ${client.company_name} has no Sage id`);
+  }
+
+  const items = await db.select()
+    .from(orderItemsTable)
+    .innerJoin(productsTable, eq(orderItemsTable.product_id, productsTable.id))
+    .where(eq(orderItemsTable.order_id, orderId))
+    .orderBy(asc(orderItemsTable.id))
+    .execute();
+
+  return {
+    order_number: order.order_number,
+    order_date: order.validated_at ?? order.created_at,
+    client_code: clientUser.sage_id,
+    client_name: client.company_name,
+    carrier: order.carrier,
+    total_amount: parseFloat(order.total_amount),
+    lines: items.map(({ order_items: item, products: product }) => ({
+      product_code: product.reference,
+      designation: product.designation,
+      quantity: item.quantity,
+      unit_price: parseFloat(item.unit_price),
+      total_price: parseFloat(item.total_price)
+    }))
+  };
+}
+
+// Exports one queued order; failures are recorded on the outbox row rather than thrown
+export async function processSageExport(orderId: number, now: Date = new Date()): Promise<SageExport | null> {
+  try {
+    const claimed = await db.update(sageExportOutboxTable)
+      .set({
+        next_attempt_at: new Date(now.getTime() + SAGE_EXPORT_LEASE_MS),
+        updated_at: now
+      })
+      .where(and(
+        eq(sageExportOutboxTable.order_id, orderId),
+        eq(sageExportOutboxTable.status, 'pending'),
+        lte(sageExportOutboxTable.next_attempt_at, now)
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      return null;
+    }
+
+    const entry = claimed[0];
+    const attempts = entry.attempts + 1;
+
+    try {
+      const document = await buildSageOrderDocument(orderId);
+      const result = await getSageAdapter().exportOrder(document);
+
+      return await db.transaction(async (tx) => {
+        await tx.update(ordersTable)
+          .set({ sage_document_number: result.document_number, updated_at: new Date() })
+          .where(eq(ordersTable.id, orderId))
+          .execute();
+
+        const exported = await tx.update(sageExportOutboxTable)
+          .set({
+            status: 'exported',
+            attempts,
+            last_error: null,
+            exported_at: new Date(),
+            updated_at: new Date()
+          })
+          .where(eq(sageExportOutboxTable.id, entry.id))
+          .returning()
+          .execute();
+
+        return exported[0];
+      });
+    } catch (exportError) {
+      const message = exportError instanceof Error ? exportError.message : String(exportError);
+      console.error(`Sage export of order ${orderId} failed (attempt ${attempts}):`, message);
+
+      const failed = await db.update(sageExportOutboxTable)
+        .set({
+          status: attempts >= SAGE_EXPORT_MAX_ATTEMPTS ? 'failed' : 'pending',
+          attempts,
+          last_error: message,
+          next_attempt_at: new Date(now.getTime() + retryDelayMs(attempts)),
+          updated_at: new Date()
+        })
+        .where(eq(sageExportOutboxTable.id, entry.id))
+        .returning()
+        .execute();
+
+      return failed[0];
+    }
+  } catch (error) {
+    console.error('Sage export processing failed:', error);
+    throw error;
+  }
+}
+
+// Retries every pending export whose next attempt is due
+export async function processSageOutbox(limit: number = 50, now: Date = new Date()): Promise<{ exported: number; failed: number }> {
+  try {
+    const due = await db.select()
+      .from(sageExportOutboxTable)
+      .where(and(
+        eq(sageExportOutboxTable.status, 'pending'),
+        lte(sageExportOutboxTable.next_attempt_at, now)
+      ))
+      .orderBy(asc(sageExportOutboxTable.next_attempt_at), asc(sageExportOutboxTable.id))
+      .limit(limit)
+      .execute();
+
+    let exported = 0;
+    let failed = 0;
+    for (const entry of due) {
+      const result = await processSageExport(entry.order_id, now);
+      if (result?.status === 'exported') {
+        exported++;
+      } else if (result) {
+        failed++;
+      }
+    }
+
+    return { exported, failed };
+  } catch (error) {
+    console.error('Sage outbox processing failed:', error);
+    throw error;
+  }
+}
+
+export async function getSageExports(status?: SageExportStatus): Promise<SageExport[]> {
+  try {
+    return await db.select()
+      .from(sageExportOutboxTable)
+      .where(status ? eq(sageExportOutboxTable.status, status) : undefined)
+      .orderBy(asc(sageExportOutboxTable.created_at), asc(sageExportOutboxTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Sage exports fetch failed:', error);
+    throw error;
+  }
+}
+
+// Exports a queued order right away, e.g. once the client's Sage id has been fixed
+export async function retrySageExport(orderId: number): Promise<SageExport | null> {
+  try {
+    const result = await db.update(sageExportOutboxTable)
+      .set({
+        status: 'pending',
+        attempts: 0,
+        next_attempt_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(and(
+        eq(sageExportOutboxTable.order_id, orderId),
+        ne(sageExportOutboxTable.status, 'exported')
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`No pending Sage export for order ${orderId}`);
+    }
+
+    return await processSageExport(orderId);
+  } catch (error) {
+    console.error('Sage export retry failed:', error);
+    throw error;
+  }
+}
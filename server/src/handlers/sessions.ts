@@ -0,0 +1,281 @@
+import { db, type DbExecutor } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type RefreshSessionInput, type Session, type User, type PublicUser } from '../schema';
+import { eq, and, isNull, gt, ne, desc, type SQL } from 'drizzle-orm';
+import * as crypto from 'crypto';
+import { recordAuditEntry } from './audit';
+
+const JWT_SECRET = process.env['JWT_SECRET'] || 'dev-secret-key';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface TokenPayload {
+  userId: number;
+  email: string;
+  role: string;
+  sid: number;
+  iat: number;
+  exp: number;
+}
+
+export interface SessionTokens {
+  token: string;
+  refresh_token: string;
+}
+
+function generateToken(userId: number, email: string, role: string, sessionId: number): string {
+  // Simple token generation without JWT library
+  const payload = JSON.stringify({ userId, email, role, sid: sessionId, iat: Date.now(), exp: Date.now() + ACCESS_TOKEN_TTL_MS });
+  const signature = crypto.createHmac('sha256', JWT_SECRET).update(payload).digest('hex');
+  return Buffer.from(payload).toString('base64') + '.' + signature;
+}
+
+// Returns the token payload when the signature is valid and the token has not expired
+export function verifyToken(token: string): TokenPayload | null {
+  const [payloadBase64, signature] = token.split('.');
+  if (!payloadBase64 || !signature) {
+    return null;
+  }
+
+  const payload = Buffer.from(payloadBase64, 'base64').toString('utf-8');
+  const expectedSignature = crypto.createHmac('sha256', JWT_SECRET).update(payload).digest('hex');
+
+  const provided = Buffer.from(signature, 'hex');
+  const expected = Buffer.from(expectedSignature, 'hex');
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(payload) as TokenPayload;
+    if (typeof decoded.userId !== 'number' || typeof decoded.sid !== 'number'
+      || typeof decoded.exp !== 'number' || decoded.exp <= Date.now()) {
+      return null;
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateRefreshToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function activeSessionCondition(): SQL {
+  return and(
+    isNull(sessionsTable.revoked_at),
+    gt(sessionsTable.expires_at, new Date())
+  )!;
+}
+
+export async function createSession(user: User, userAgent: string | null = null): Promise<SessionTokens> {
+  try {
+    const refreshToken = generateRefreshToken();
+
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        refresh_token_hash: hashRefreshToken(refreshToken),
+        user_agent: userAgent,
+        expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+      })
+      .returning()
+      .execute();
+
+    return {
+      token: generateToken(user.id, user.email, user.role, result[0].id),
+      refresh_token: refreshToken
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+// Looks up the session behind an access token; null once revoked or expired
+export async function getActiveSession(sessionId: number, userId: number): Promise<typeof sessionsTable.$inferSelect | null> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        activeSessionCondition()
+      ))
+      .execute();
+
+    return sessions[0] ?? null;
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function refreshSession(input: RefreshSessionInput): Promise<SessionTokens> {
+  try {
+    const tokenHash = hashRefreshToken(input.refresh_token);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.refresh_token_hash, tokenHash))
+      .execute();
+
+    if (sessions.length === 0) {
+      // A rotated-out token coming back means it was copied: kill that session
+      const reused = await db.update(sessionsTable)
+        .set({ revoked_at: new Date() })
+        .where(and(
+          eq(sessionsTable.previous_refresh_token_hash, tokenHash),
+          isNull(sessionsTable.revoked_at)
+        ))
+        .returning()
+        .execute();
+
+      if (reused.length > 0) {
+        await recordAuditEntry({
+          userId: reused[0].user_id,
+          action: 'session_revoked',
+          details: `Session ${reused[0].id} revoked after refresh token reuse`
+        });
+      }
+
+      throw new Error('Invalid refresh token');
+    }
+
+    const session = sessions[0];
+    if (session.revoked_at !== null || session.expires_at <= new Date()) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, session.user_id))
+      .execute();
+
+    const user = users[0];
+    if (!user || !user.is_active) {
+      throw new Error('Account is deactivated');
+    }
+
+    // Rotate: the presented token stops working as soon as the new one is issued
+    const refreshToken = generateRefreshToken();
+    const rotated = await db.update(sessionsTable)
+      .set({
+        refresh_token_hash: hashRefreshToken(refreshToken),
+        previous_refresh_token_hash: tokenHash,
+        last_used_at: new Date()
+      })
+      .where(and(
+        eq(sessionsTable.id, session.id),
+        eq(sessionsTable.refresh_token_hash, tokenHash)
+      ))
+      .returning()
+      .execute();
+
+    if (rotated.length === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    return {
+      token: generateToken(user.id, user.email, user.role, session.id),
+      refresh_token: refreshToken
+    };
+  } catch (error) {
+    console.error('Session refresh failed:', error);
+    throw error;
+  }
+}
+
+export async function listSessions(userId: number, currentSessionId: number | null): Promise<Session[]> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        activeSessionCondition()
+      ))
+      .orderBy(desc(sessionsTable.last_used_at))
+      .execute();
+
+    return sessions.map(session => ({
+      id: session.id,
+      user_id: session.user_id,
+      user_agent: session.user_agent,
+      expires_at: session.expires_at,
+      last_used_at: session.last_used_at,
+      revoked_at: session.revoked_at,
+      created_at: session.created_at,
+      is_current: session.id === currentSessionId
+    }));
+  } catch (error) {
+    console.error('Session listing failed:', error);
+    throw error;
+  }
+}
+
+// Users revoke their own sessions; director_admin may revoke anyone's
+export async function revokeSession(sessionId: number, revokedBy: PublicUser): Promise<{ success: boolean }> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.id, sessionId))
+      .execute();
+
+    const session = sessions[0];
+    if (!session || (session.user_id !== revokedBy.id && revokedBy.role !== 'director_admin')) {
+      throw new Error(`Session with id ${sessionId} not found`);
+    }
+
+    if (session.revoked_at === null) {
+      await db.update(sessionsTable)
+        .set({ revoked_at: new Date() })
+        .where(eq(sessionsTable.id, sessionId))
+        .execute();
+
+      await recordAuditEntry({
+        userId: revokedBy.id,
+        action: 'session_revoked',
+        details: `Session ${sessionId} of user ${session.user_id} revoked`
+      });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+// Revoke every open session of a user, optionally keeping the caller's own
+export async function revokeUserSessions(
+  userId: number,
+  exceptSessionId: number | null = null,
+  executor: DbExecutor = db
+): Promise<number> {
+  try {
+    const conditions: SQL[] = [
+      eq(sessionsTable.user_id, userId),
+      isNull(sessionsTable.revoked_at)
+    ];
+    if (exceptSessionId !== null) {
+      conditions.push(ne(sessionsTable.id, exceptSessionId));
+    }
+
+    const revoked = await executor.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(...conditions))
+      .returning()
+      .execute();
+
+    return revoked.length;
+  } catch (error) {
+    console.error('User session revocation failed:', error);
+    throw error;
+  }
+}
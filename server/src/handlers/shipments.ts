@@ -0,0 +1,139 @@
+import { db, type DbExecutor } from '../db';
+import { shipmentGroupsTable, ordersTable, clientsTable } from '../db/schema';
+import { type Carrier, type ShipmentGroup } from '../schema';
+import { eq, and, asc, gte, isNull, count, sum, sql } from 'drizzle-orm';
+
+// Orders placed from this local hour on ship the next day
+export const SHIPMENT_CUTOFF_HOUR = 19;
+
+export function formatLocalDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Day an order placed at the given time leaves the warehouse
+export function getShippingDate(at: Date): string {
+  if (at.getHours() < SHIPMENT_CUTOFF_HOUR) {
+    return formatLocalDate(at);
+  }
+  const nextDay = new Date(at.getFullYear(), at.getMonth(), at.getDate() + 1);
+  return formatLocalDate(nextDay);
+}
+
+// Flags every order of a group with more than one order as is_grouped, and clears the flag
+// once the group is down to a single order
+export async function refreshShipmentGroupFlags(groupId: number, executor: DbExecutor = db): Promise<void> {
+  const members = await executor.select({ total: count() })
+    .from(ordersTable)
+    .where(eq(ordersTable.shipment_group_id, groupId))
+    .execute();
+
+  await executor.update(ordersTable)
+    .set({ is_grouped: members[0].total > 1 })
+    .where(eq(ordersTable.shipment_group_id, groupId))
+    .execute();
+}
+
+// Puts a validated order in its client/carrier group for the day it was placed for; an order
+// validated after that day has gone ships with the groups of the validation day
+export async function assignOrderToShipmentGroup(
+  order: { id: number; client_id: number; carrier: Carrier; created_at: Date },
+  at: Date = new Date(),
+  executor: DbExecutor = db
+): Promise<ShipmentGroup> {
+  try {
+    const placedFor = getShippingDate(order.created_at);
+    const validationDay = formatLocalDate(at);
+    const shippingDate = placedFor > validationDay ? placedFor : validationDay;
+
+    // Upsert so concurrent validations for the same client end up in the same group
+    const groups = await executor.insert(shipmentGroupsTable)
+      .values({
+        client_id: order.client_id,
+        carrier: order.carrier,
+        shipping_date: shippingDate
+      })
+      .onConflictDoUpdate({
+        target: [shipmentGroupsTable.client_id, shipmentGroupsTable.carrier, shipmentGroupsTable.shipping_date],
+        set: { updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    const group = groups[0];
+
+    await executor.update(ordersTable)
+      .set({ shipment_group_id: group.id, updated_at: new Date() })
+      .where(eq(ordersTable.id, order.id))
+      .execute();
+
+    await refreshShipmentGroupFlags(group.id, executor);
+
+    return group;
+  } catch (error) {
+    console.error('Shipment group assignment failed:', error);
+    throw error;
+  }
+}
+
+// Catches up on validated orders that have no group yet, grouping them as of now
+export async function groupValidatedOrders(now: Date = new Date()): Promise<{ grouped: number }> {
+  try {
+    const ungrouped = await db.select()
+      .from(ordersTable)
+      .where(and(
+        eq(ordersTable.status, 'validated'),
+        isNull(ordersTable.shipment_group_id)
+      ))
+      .orderBy(asc(ordersTable.validated_at), asc(ordersTable.id))
+      .execute();
+
+    for (const order of ungrouped) {
+      await db.transaction(tx => assignOrderToShipmentGroup(order, now, tx));
+    }
+
+    return { grouped: ungrouped.length };
+  } catch (error) {
+    console.error('Order grouping failed:', error);
+    throw error;
+  }
+}
+
+// Groups leaving on or after the given day, with their order count and value
+export async function getUpcomingShipmentGroups(from: Date = new Date()): Promise<Array<{
+  group_id: number;
+  client_id: number;
+  client_name: string;
+  carrier: Carrier;
+  shipping_date: string;
+  order_count: number;
+  total_amount: number;
+}>> {
+  try {
+    const results = await db.select({
+      group_id: shipmentGroupsTable.id,
+      client_id: shipmentGroupsTable.client_id,
+      client_name: clientsTable.company_name,
+      carrier: shipmentGroupsTable.carrier,
+      shipping_date: shipmentGroupsTable.shipping_date,
+      order_count: count(ordersTable.id),
+      total_amount: sum(ordersTable.total_amount)
+    })
+      .from(shipmentGroupsTable)
+      .innerJoin(clientsTable, eq(shipmentGroupsTable.client_id, clientsTable.id))
+      .innerJoin(ordersTable, eq(ordersTable.shipment_group_id, shipmentGroupsTable.id))
+      .where(gte(shipmentGroupsTable.shipping_date, formatLocalDate(from)))
+      .groupBy(shipmentGroupsTable.id, clientsTable.company_name)
+      .orderBy(asc(shipmentGroupsTable.shipping_date), sql`count(${ordersTable.id}) desc`, asc(shipmentGroupsTable.id))
+      .execute();
+
+    return results.map(group => ({
+      ...group,
+      total_amount: parseFloat(group.total_amount ?? '0')
+    }));
+  } catch (error) {
+    console.error('Shipment groups fetch failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,299 @@
+import { db, type DbExecutor } from '../db';
+import { stockTable, stockReservationsTable, stockMovementsTable, productsTable } from '../db/schema';
+import { type StockMovement, type StockMovementType, type StockReservation, type UserRole, type Warehouse } from '../schema';
+import { eq, and, inArray, desc, sql } from 'drizzle-orm';
+
+// Orders are served from the Ibn Tachfine counter; the other sites top it up through transfers
+export const FULFILLING_WAREHOUSE: Warehouse = 'ibn_tachfine';
+
+const SOURCE_WAREHOUSES: Warehouse[] = ['drb_omar', 'la_villette'];
+
+// Staff role running each site; Drb Omar has no accounts of its own and is handled by the Ibn Tachfine counter
+export const WAREHOUSE_ROLES: Record<Warehouse, UserRole> = {
+  ibn_tachfine: 'counter_ibn_tachfine',
+  drb_omar: 'counter_ibn_tachfine',
+  la_villette: 'warehouse_la_villette'
+};
+
+export function stockKey(productId: number, warehouse: Warehouse): string {
+  return `${productId}:${warehouse}`;
+}
+
+// Units held by active reservations, keyed by stockKey(product, warehouse)
+export async function getReservedQuantities(
+  productIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<string, number>> {
+  const reserved = new Map<string, number>();
+  if (productIds.length === 0) {
+    return reserved;
+  }
+
+  const results = await executor.select({
+    product_id: stockReservationsTable.product_id,
+    warehouse: stockReservationsTable.warehouse,
+    quantity: sql<number>`COALESCE(SUM(${stockReservationsTable.quantity}), 0)::int`
+  })
+    .from(stockReservationsTable)
+    .where(and(
+      inArray(stockReservationsTable.product_id, productIds),
+      eq(stockReservationsTable.status, 'active')
+    ))
+    .groupBy(stockReservationsTable.product_id, stockReservationsTable.warehouse)
+    .execute();
+
+  for (const row of results) {
+    reserved.set(stockKey(row.product_id, row.warehouse), Number(row.quantity));
+  }
+
+  return reserved;
+}
+
+// Holds stock for every item of an order at Ibn Tachfine, taking any shortfall from the sites with the
+// most units available and skipping any excluded site; throws when the warehouses together cannot cover a line
+export async function reserveOrderStock(
+  orderId: number,
+  items: Array<{ id: number; product_id: number; quantity: number }>,
+  executor: DbExecutor = db,
+  excludedWarehouses: Warehouse[] = []
+): Promise<StockReservation[]> {
+  try {
+    const productIds = [...new Set(items.map(item => item.product_id))];
+
+    // Lock the stock rows so concurrent orders cannot reserve the same units
+    const stock = await executor.select()
+      .from(stockTable)
+      .where(inArray(stockTable.product_id, productIds))
+      .for('update')
+      .execute();
+
+    const reserved = await getReservedQuantities(productIds, executor);
+    const available = new Map<string, number>();
+    for (const row of stock) {
+      const key = stockKey(row.product_id, row.warehouse);
+      available.set(key, row.quantity - (reserved.get(key) ?? 0));
+    }
+
+    const reservations: Array<typeof stockReservationsTable.$inferInsert> = [];
+    for (const item of items) {
+      let remaining = item.quantity;
+
+      const sources = [...SOURCE_WAREHOUSES].sort((a, b) =>
+        (available.get(stockKey(item.product_id, b)) ?? 0) - (available.get(stockKey(item.product_id, a)) ?? 0)
+      );
+
+      for (const warehouse of [FULFILLING_WAREHOUSE, ...sources].filter(candidate => !excludedWarehouses.includes(candidate))) {
+        const key = stockKey(item.product_id, warehouse);
+        const quantity = Math.min(remaining, Math.max(available.get(key) ?? 0, 0));
+        if (quantity === 0) {
+          continue;
+        }
+
+        reservations.push({
+          order_id: orderId,
+          order_item_id: item.id,
+          product_id: item.product_id,
+          warehouse,
+          quantity
+        });
+        available.set(key, (available.get(key) ?? 0) - quantity);
+        remaining -= quantity;
+
+        if (remaining === 0) {
+          break;
+        }
+      }
+
+      if (remaining > 0) {
+        const products = await executor.select()
+          .from(productsTable)
+          .where(eq(productsTable.id, item.product_id))
+          .execute();
+
+        throw new Error(
+          `Insufficient stock for product ${products[0]?.reference ?? item.product_id}: ` +
+          `requested ${item.quantity}, available ${item.quantity - remaining}`
+        );
+      }
+    }
+
+    return await executor.insert(stockReservationsTable)
+      .values(reservations)
+      .returning()
+      .execute();
+  } catch (error) {
+    console.error('Stock reservation failed:', error);
+    throw error;
+  }
+}
+
+// Gives the units of a refused or cancelled order back to the available stock
+export async function releaseOrderReservations(orderId: number, executor: DbExecutor = db): Promise<number> {
+  try {
+    const released = await executor.update(stockReservationsTable)
+      .set({ status: 'released', updated_at: new Date() })
+      .where(and(
+        eq(stockReservationsTable.order_id, orderId),
+        eq(stockReservationsTable.status, 'active')
+      ))
+      .returning()
+      .execute();
+
+    return released.length;
+  } catch (error) {
+    console.error('Stock reservation release failed:', error);
+    throw error;
+  }
+}
+
+// Once the order has left, the reserved units come off the on-hand quantity of their warehouse
+export async function consumeOrderReservations(
+  orderId: number,
+  userId: number | null = null,
+  executor: DbExecutor = db
+): Promise<number> {
+  try {
+    const consumed = await executor.update(stockReservationsTable)
+      .set({ status: 'consumed', updated_at: new Date() })
+      .where(and(
+        eq(stockReservationsTable.order_id, orderId),
+        eq(stockReservationsTable.status, 'active')
+      ))
+      .returning()
+      .execute();
+
+    for (const reservation of consumed) {
+      await recordStockMovement({
+        productId: reservation.product_id,
+        warehouse: reservation.warehouse,
+        type: 'sale',
+        quantity: -reservation.quantity,
+        orderId,
+        userId
+      }, executor);
+    }
+
+    return consumed.length;
+  } catch (error) {
+    console.error('Stock reservation consumption failed:', error);
+    throw error;
+  }
+}
+
+export interface StockMovementInput {
+  productId: number;
+  warehouse: Warehouse;
+  type: StockMovementType;
+  orderId?: number | null;
+  transferId?: number | null;
+  purchaseOrderId?: number | null;
+  userId?: number | null;
+  note?: string | null;
+}
+
+// Locks the balance row of a product at a warehouse, creating an empty one on first use
+async function lockStockRow(executor: DbExecutor, productId: number, warehouse: Warehouse) {
+  await executor.insert(stockTable)
+    .values({ product_id: productId, warehouse, quantity: 0 })
+    .onConflictDoNothing({ target: [stockTable.product_id, stockTable.warehouse] })
+    .execute();
+
+  const rows = await executor.select()
+    .from(stockTable)
+    .where(and(
+      eq(stockTable.product_id, productId),
+      eq(stockTable.warehouse, warehouse)
+    ))
+    .for('update')
+    .execute();
+
+  return rows[0];
+}
+
+// Appends one ledger entry and moves the balance with it; returns null when nothing changed. A movement
+// taking out more than is on hand is rejected so the ledger never books less than what really moved
+async function applyStockMovement(
+  executor: DbExecutor,
+  input: StockMovementInput,
+  nextBalance: (current: number) => number
+): Promise<StockMovement | null> {
+  const stock = await lockStockRow(executor, input.productId, input.warehouse);
+  const balance = nextBalance(stock.quantity);
+  const quantity = balance - stock.quantity;
+  if (quantity === 0) {
+    return null;
+  }
+  if (balance < 0) {
+    throw new Error(
+      `Insufficient stock of product ${input.productId} at ${input.warehouse}: ` +
+      `on hand ${stock.quantity}, movement ${quantity}`
+    );
+  }
+
+  await executor.update(stockTable)
+    .set({ quantity: balance, updated_at: new Date() })
+    .where(eq(stockTable.id, stock.id))
+    .execute();
+
+  const result = await executor.insert(stockMovementsTable)
+    .values({
+      product_id: input.productId,
+      warehouse: input.warehouse,
+      type: input.type,
+      quantity,
+      balance_after: balance,
+      order_id: input.orderId ?? null,
+      transfer_id: input.transferId ?? null,
+      purchase_order_id: input.purchaseOrderId ?? null,
+      created_by: input.userId ?? null,
+      note: input.note ?? null
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+// Moves stock in (positive quantity) or out (negative quantity) of a warehouse
+export async function recordStockMovement(
+  input: StockMovementInput & { quantity: number },
+  executor: DbExecutor = db
+): Promise<StockMovement | null> {
+  try {
+    return await applyStockMovement(executor, input, current => current + input.quantity);
+  } catch (error) {
+    console.error('Stock movement failed:', error);
+    throw error;
+  }
+}
+
+// Brings a warehouse to a counted quantity, booking the difference as one movement
+export async function setStockQuantity(
+  input: StockMovementInput & { countedQuantity: number },
+  executor: DbExecutor = db
+): Promise<StockMovement | null> {
+  try {
+    return await applyStockMovement(executor, input, () => input.countedQuantity);
+  } catch (error) {
+    console.error('Stock count booking failed:', error);
+    throw error;
+  }
+}
+
+// Ledger entries of a product, newest first, optionally for one warehouse
+export async function getStockHistory(productId: number, warehouse?: Warehouse, limit: number = 100): Promise<StockMovement[]> {
+  try {
+    return await db.select()
+      .from(stockMovementsTable)
+      .where(and(
+        eq(stockMovementsTable.product_id, productId),
+        warehouse ? eq(stockMovementsTable.warehouse, warehouse) : undefined
+      ))
+      .orderBy(desc(stockMovementsTable.created_at), desc(stockMovementsTable.id))
+      .limit(limit)
+      .execute();
+  } catch (error) {
+    console.error('Stock history fetch failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,22 @@
-import { db } from '../db';
-import { transferRequestsTable, stockTable, ordersTable, productsTable, usersTable } from '../db/schema';
-import { type TransferRequest, type TransferStatus } from '../schema';
-import { eq, and, or, SQL } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db';
+import {
+    transferRequestsTable,
+    stockReservationsTable,
+    transferDiscrepanciesTable,
+    ordersTable,
+    orderItemsTable,
+    productsTable,
+    usersTable
+} from '../db/schema';
+import {
+    type TransferDiscrepancy,
+    type TransferRequest,
+    type TransferStatus,
+    type UserRole,
+    type Warehouse
+} from '../schema';
+import { eq, and, ne, asc, desc, inArray, isNotNull, notInArray, sql, SQL } from 'drizzle-orm';
+import { FULFILLING_WAREHOUSE, WAREHOUSE_ROLES, recordStockMovement, reserveOrderStock } from './stock';
 
 export async function createTransferRequest(
     orderId: number,
@@ -66,6 +81,93 @@ export async function createTransferRequest(
     }
 }
 
+// Brings the units an order holds at Drb Omar or La Villette over to Ibn Tachfine, one transfer per
+// reservation; reservations that already have a transfer are skipped
+export async function requestTransfersForOrder(
+    orderId: number,
+    requestedBy: number,
+    executor: DbExecutor = db
+): Promise<TransferRequest[]> {
+    try {
+        const requested = executor.select({ id: transferRequestsTable.reservation_id })
+            .from(transferRequestsTable)
+            .where(and(
+                isNotNull(transferRequestsTable.reservation_id),
+                ne(transferRequestsTable.status, 'cancelled')
+            ));
+
+        const reservations = await executor.select()
+            .from(stockReservationsTable)
+            .where(and(
+                eq(stockReservationsTable.order_id, orderId),
+                eq(stockReservationsTable.status, 'active'),
+                ne(stockReservationsTable.warehouse, FULFILLING_WAREHOUSE),
+                notInArray(stockReservationsTable.id, requested)
+            ))
+            .orderBy(asc(stockReservationsTable.id))
+            .execute();
+
+        if (reservations.length === 0) {
+            return [];
+        }
+
+        const results = await executor.insert(transferRequestsTable)
+            .values(reservations.map(reservation => ({
+                order_id: orderId,
+                product_id: reservation.product_id,
+                from_warehouse: reservation.warehouse,
+                to_warehouse: FULFILLING_WAREHOUSE,
+                quantity_requested: reservation.quantity,
+                reservation_id: reservation.id,
+                requested_by: requestedBy
+            })))
+            .returning()
+            .execute();
+
+        return results.map(result => ({
+            ...result,
+            requested_at: result.requested_at || result.created_at
+        }));
+    } catch (error) {
+        console.error('Automatic transfer request creation failed:', error);
+        throw error;
+    }
+}
+
+// Drops the transfers of a cancelled order that have not left the source warehouse yet
+export async function cancelOpenTransfersForOrder(orderId: number, executor: DbExecutor = db): Promise<number> {
+    try {
+        const cancelled = await executor.update(transferRequestsTable)
+            .set({ status: 'cancelled', updated_at: new Date() })
+            .where(and(
+                eq(transferRequestsTable.order_id, orderId),
+                inArray(transferRequestsTable.status, ['pending', 'in_preparation', 'ready_to_ship'])
+            ))
+            .returning()
+            .execute();
+
+        return cancelled.length;
+    } catch (error) {
+        console.error('Transfer cancellation failed:', error);
+        throw error;
+    }
+}
+
+// Automatic transfers of an order that have not been received yet; the order cannot be prepared before
+// they arrive, or the units would leave both the source and Ibn Tachfine
+export async function countOpenTransfersForOrder(orderId: number, executor: DbExecutor = db): Promise<number> {
+    const open = await executor.select({ id: transferRequestsTable.id })
+        .from(transferRequestsTable)
+        .where(and(
+            eq(transferRequestsTable.order_id, orderId),
+            isNotNull(transferRequestsTable.reservation_id),
+            inArray(transferRequestsTable.status, ['pending', 'in_preparation', 'ready_to_ship', 'shipped'])
+        ))
+        .execute();
+
+    return open.length;
+}
+
 export async function getTransferRequestsForWarehouse(warehouse: string): Promise<TransferRequest[]> {
     try {
         const results = await db.select()
@@ -83,6 +185,39 @@ export async function getTransferRequestsForWarehouse(warehouse: string): Promis
     }
 }
 
+// Status changes made through updateTransferRequestStatus; received is only reached through
+// confirmTransferReception, and transfers can be cancelled until they leave the source warehouse
+const TRANSFER_STATUS_TRANSITIONS: Record<TransferStatus, TransferStatus[]> = {
+    pending: ['in_preparation', 'cancelled'],
+    in_preparation: ['ready_to_ship', 'cancelled'],
+    ready_to_ship: ['shipped', 'cancelled'],
+    shipped: [],
+    received: [],
+    cancelled: []
+};
+
+type TransferRow = typeof transferRequestsTable.$inferSelect;
+
+// The source warehouse prepares and ships, the destination receives, either side may cancel;
+// director_admin may act for any site
+function assertTransferRole(transfer: TransferRow, status: TransferStatus, role: UserRole): void {
+    if (role === 'director_admin') {
+        return;
+    }
+
+    const sourceRole = WAREHOUSE_ROLES[transfer.from_warehouse];
+    const destinationRole = WAREHOUSE_ROLES[transfer.to_warehouse];
+    const allowed = status === 'received'
+        ? role === destinationRole
+        : status === 'cancelled'
+            ? role === sourceRole || role === destinationRole
+            : role === sourceRole;
+
+    if (!allowed) {
+        throw new Error(`Role ${role} cannot change transfer status from ${transfer.status} to ${status}`);
+    }
+}
+
 export async function updateTransferRequestStatus(
     transferId: number,
     status: TransferStatus,
@@ -90,53 +225,81 @@ export async function updateTransferRequestStatus(
     quantityPrepared?: number
 ): Promise<TransferRequest> {
     try {
-        // Verify transfer request exists
-        const existingTransfer = await db.select()
-            .from(transferRequestsTable)
-            .where(eq(transferRequestsTable.id, transferId))
-            .execute();
+        const updatedTransfer = await db.transaction(async (tx) => {
+            // Verify transfer request exists
+            const existingTransfer = await tx.select()
+                .from(transferRequestsTable)
+                .where(eq(transferRequestsTable.id, transferId))
+                .for('update')
+                .execute();
 
-        if (existingTransfer.length === 0) {
-            throw new Error(`Transfer request with id ${transferId} not found`);
-        }
+            if (existingTransfer.length === 0) {
+                throw new Error(`Transfer request with id ${transferId} not found`);
+            }
 
-        // Verify user exists
-        const userExists = await db.select({ id: usersTable.id })
-            .from(usersTable)
-            .where(eq(usersTable.id, updatedBy))
-            .execute();
+            // Verify user exists
+            const users = await tx.select({ id: usersTable.id, role: usersTable.role })
+                .from(usersTable)
+                .where(eq(usersTable.id, updatedBy))
+                .execute();
 
-        if (userExists.length === 0) {
-            throw new Error(`User with id ${updatedBy} not found`);
-        }
+            if (users.length === 0) {
+                throw new Error(`User with id ${updatedBy} not found`);
+            }
 
-        // Prepare update values
-        const updateValues: any = {
-            status: status,
-            updated_at: new Date()
-        };
+            const transfer = existingTransfer[0];
+            if (status === 'received') {
+                throw new Error('Transfers are received by confirming the reception count');
+            }
+            if (!TRANSFER_STATUS_TRANSITIONS[transfer.status].includes(status)) {
+                throw new Error(`Invalid transfer status transition from ${transfer.status} to ${status}`);
+            }
+            assertTransferRole(transfer, status, users[0].role);
 
-        // Set appropriate fields based on status
-        if (status === 'in_preparation' || status === 'ready_to_ship') {
-            updateValues.prepared_by = updatedBy;
-            updateValues.prepared_at = new Date();
-            if (quantityPrepared !== undefined) {
-                updateValues.quantity_prepared = quantityPrepared;
+            // Preparation may come up short of the request, never over it
+            if (quantityPrepared !== undefined && quantityPrepared > transfer.quantity_requested) {
+                throw new Error(
+                    `Prepared quantity ${quantityPrepared} exceeds requested quantity ${transfer.quantity_requested}`
+                );
             }
-        } else if (status === 'shipped') {
-            if (quantityPrepared !== undefined) {
-                updateValues.quantity_prepared = quantityPrepared;
+            if (status === 'shipped' && (quantityPrepared ?? transfer.quantity_prepared) === 0) {
+                throw new Error(`Transfer request ${transferId} has nothing prepared to ship`);
             }
-        }
 
-        // Update transfer request
-        const result = await db.update(transferRequestsTable)
-            .set(updateValues)
-            .where(eq(transferRequestsTable.id, transferId))
-            .returning()
-            .execute();
+            // Prepare update values
+            const updateValues: Partial<typeof transferRequestsTable.$inferInsert> = {
+                status: status,
+                updated_at: new Date()
+            };
+
+            // Set appropriate fields based on status. Cancelled transfers have not left the source, so
+            // on-hand stock is untouched; the order they were supplying is re-supplied from another site.
+            if (status === 'in_preparation' || status === 'ready_to_ship') {
+                updateValues.prepared_by = updatedBy;
+                updateValues.prepared_at = new Date();
+                if (quantityPrepared !== undefined) {
+                    updateValues.quantity_prepared = quantityPrepared;
+                }
+            } else if (status === 'shipped') {
+                if (quantityPrepared !== undefined) {
+                    updateValues.quantity_prepared = quantityPrepared;
+                }
+            }
+
+            // Update transfer request
+            const result = await tx.update(transferRequestsTable)
+                .set(updateValues)
+                .where(eq(transferRequestsTable.id, transferId))
+                .returning()
+                .execute();
+
+            if (status === 'cancelled') {
+                await resupplyReservation(tx, transfer, updatedBy);
+            }
+
+            return result[0];
+        });
 
-        const updatedTransfer = result[0];
         return {
             ...updatedTransfer,
             requested_at: updatedTransfer.requested_at || updatedTransfer.created_at
@@ -147,6 +310,60 @@ export async function updateTransferRequestStatus(
     }
 }
 
+// Moves the units a cancelled automatic transfer was bringing over to another site and requests them
+// from there; when no other warehouse can cover them the order line is back-ordered and the order goes
+// on with the units it holds
+async function resupplyReservation(executor: DbExecutor, transfer: TransferRow, requestedBy: number): Promise<void> {
+    if (transfer.reservation_id === null) {
+        return;
+    }
+
+    const orders = await executor.select({ status: ordersTable.status })
+        .from(ordersTable)
+        .where(eq(ordersTable.id, transfer.order_id))
+        .execute();
+
+    if (orders[0]?.status !== 'validated') {
+        return;
+    }
+
+    const reservations = await executor.update(stockReservationsTable)
+        .set({ status: 'released', updated_at: new Date() })
+        .where(and(
+            eq(stockReservationsTable.id, transfer.reservation_id),
+            eq(stockReservationsTable.status, 'active'),
+            eq(stockReservationsTable.warehouse, transfer.from_warehouse)
+        ))
+        .returning()
+        .execute();
+
+    if (reservations.length === 0) {
+        return;
+    }
+
+    const reservation = reservations[0];
+    try {
+        // Savepoint, so a failed re-supply leaves the cancellation itself intact
+        await executor.transaction(async (savepoint) => {
+            await reserveOrderStock(transfer.order_id, [{
+                id: reservation.order_item_id,
+                product_id: reservation.product_id,
+                quantity: reservation.quantity
+            }], savepoint, [transfer.from_warehouse]);
+            await requestTransfersForOrder(transfer.order_id, requestedBy, savepoint);
+        });
+    } catch (error) {
+        if (!(error instanceof Error) || !error.message.startsWith('Insufficient stock')) {
+            throw error;
+        }
+
+        await executor.update(orderItemsTable)
+            .set({ backordered_quantity: sql`${orderItemsTable.backordered_quantity} + ${reservation.quantity}` })
+            .where(eq(orderItemsTable.id, reservation.order_item_id))
+            .execute();
+    }
+}
+
 export async function getTransferRequestsByOrder(orderId: number): Promise<TransferRequest[]> {
     try {
         const results = await db.select()
@@ -164,99 +381,126 @@ export async function getTransferRequestsByOrder(orderId: number): Promise<Trans
     }
 }
 
+// Books the count made on arrival: the source loses what was shipped, the destination gains what was
+// counted, any shortfall is recorded as a discrepancy and whatever is still owed goes out again as a
+// backorder. A count above what was shipped is rejected so no units are booked that never left the source.
 export async function confirmTransferReception(
     transferId: number,
     receivedBy: number,
-    quantityReceived: number
+    quantityReceived: number,
+    note: string | null = null
 ): Promise<TransferRequest> {
     try {
-        // Verify transfer request exists and is in 'shipped' status
-        const existingTransfer = await db.select()
-            .from(transferRequestsTable)
-            .where(eq(transferRequestsTable.id, transferId))
-            .execute();
-
-        if (existingTransfer.length === 0) {
-            throw new Error(`Transfer request with id ${transferId} not found`);
-        }
-
-        const transfer = existingTransfer[0];
-        if (transfer.status !== 'shipped') {
-            throw new Error(`Transfer request must be in 'shipped' status to be received. Current status: ${transfer.status}`);
+        if (quantityReceived < 0) {
+            throw new Error('Received quantity cannot be negative');
         }
 
         // Verify user exists
-        const userExists = await db.select({ id: usersTable.id })
+        const userExists = await db.select({ id: usersTable.id, role: usersTable.role })
             .from(usersTable)
             .where(eq(usersTable.id, receivedBy))
             .execute();
 
-        if (userExists.length === 0) {
-            throw new Error(`User with id ${receivedBy} not found`);
-        }
+        const updatedTransfer = await db.transaction(async (tx) => {
+            // Verify transfer request exists and is in 'shipped' status
+            const existingTransfer = await tx.select()
+                .from(transferRequestsTable)
+                .where(eq(transferRequestsTable.id, transferId))
+                .for('update')
+                .execute();
 
-        // Update transfer request to received status
-        const transferResult = await db.update(transferRequestsTable)
-            .set({
-                status: 'received',
-                received_by: receivedBy,
-                received_at: new Date(),
-                updated_at: new Date()
-            })
-            .where(eq(transferRequestsTable.id, transferId))
-            .returning()
-            .execute();
+            if (existingTransfer.length === 0) {
+                throw new Error(`Transfer request with id ${transferId} not found`);
+            }
 
-        // Update stock levels at destination warehouse
-        const existingStock = await db.select()
-            .from(stockTable)
-            .where(and(
-                eq(stockTable.product_id, transfer.product_id),
-                eq(stockTable.warehouse, transfer.to_warehouse)
-            ))
-            .execute();
+            const transfer = existingTransfer[0];
+            if (transfer.status !== 'shipped') {
+                throw new Error(`Transfer request must be in 'shipped' status to be received. Current status: ${transfer.status}`);
+            }
 
-        if (existingStock.length > 0) {
-            // Update existing stock
-            await db.update(stockTable)
-                .set({
-                    quantity: existingStock[0].quantity + quantityReceived,
-                    updated_at: new Date()
-                })
-                .where(eq(stockTable.id, existingStock[0].id))
-                .execute();
-        } else {
-            // Create new stock entry
-            await db.insert(stockTable)
-                .values({
-                    product_id: transfer.product_id,
-                    warehouse: transfer.to_warehouse,
-                    quantity: quantityReceived
-                })
-                .execute();
-        }
+            if (userExists.length === 0) {
+                throw new Error(`User with id ${receivedBy} not found`);
+            }
+            assertTransferRole(transfer, 'received', userExists[0].role);
 
-        // Update stock levels at source warehouse (reduce quantity)
-        const sourceStock = await db.select()
-            .from(stockTable)
-            .where(and(
-                eq(stockTable.product_id, transfer.product_id),
-                eq(stockTable.warehouse, transfer.from_warehouse)
-            ))
-            .execute();
+            const quantityShipped = transfer.quantity_prepared;
+            if (quantityReceived > quantityShipped) {
+                throw new Error(`Received quantity ${quantityReceived} exceeds shipped quantity ${quantityShipped}`);
+            }
 
-        if (sourceStock.length > 0) {
-            const newQuantity = Math.max(0, sourceStock[0].quantity - quantityReceived);
-            await db.update(stockTable)
+            // Update transfer request to received status
+            const transferResult = await tx.update(transferRequestsTable)
                 .set({
-                    quantity: newQuantity,
+                    status: 'received',
+                    quantity_received: quantityReceived,
+                    received_by: receivedBy,
+                    received_at: new Date(),
                     updated_at: new Date()
                 })
-                .where(eq(stockTable.id, sourceStock[0].id))
+                .where(eq(transferRequestsTable.id, transferId))
+                .returning()
                 .execute();
-        }
 
-        const updatedTransfer = transferResult[0];
+            const movement = {
+                productId: transfer.product_id,
+                orderId: transfer.order_id,
+                transferId: transfer.id,
+                userId: receivedBy
+            };
+            await recordStockMovement({
+                ...movement,
+                warehouse: transfer.to_warehouse,
+                type: 'transfer_in',
+                quantity: quantityReceived
+            }, tx);
+            await recordStockMovement({
+                ...movement,
+                warehouse: transfer.from_warehouse,
+                type: 'transfer_out',
+                quantity: -quantityShipped
+            }, tx);
+
+            if (transfer.reservation_id !== null) {
+                await moveReservation(tx, transfer.reservation_id, transfer.to_warehouse, quantityReceived);
+            }
+
+            // Whatever did not arrive is requested again from the same site
+            let backorder: typeof transferRequestsTable.$inferSelect | null = null;
+            const remainder = transfer.quantity_requested - quantityReceived;
+            if (remainder > 0) {
+                const backorderResult = await tx.insert(transferRequestsTable)
+                    .values({
+                        order_id: transfer.order_id,
+                        product_id: transfer.product_id,
+                        from_warehouse: transfer.from_warehouse,
+                        to_warehouse: transfer.to_warehouse,
+                        quantity_requested: remainder,
+                        reservation_id: transfer.reservation_id,
+                        backorder_of_id: transfer.id,
+                        requested_by: transfer.requested_by
+                    })
+                    .returning()
+                    .execute();
+                backorder = backorderResult[0];
+            }
+
+            if (quantityReceived !== quantityShipped) {
+                await tx.insert(transferDiscrepanciesTable)
+                    .values({
+                        transfer_id: transfer.id,
+                        product_id: transfer.product_id,
+                        quantity_shipped: quantityShipped,
+                        quantity_received: quantityReceived,
+                        backorder_transfer_id: backorder?.id ?? null,
+                        reported_by: receivedBy,
+                        note
+                    })
+                    .execute();
+            }
+
+            return transferResult[0];
+        });
+
         return {
             ...updatedTransfer,
             requested_at: updatedTransfer.requested_at || updatedTransfer.created_at
@@ -267,17 +511,72 @@ export async function confirmTransferReception(
     }
 }
 
+// Moves the received units of an order's reservation to the destination; the rest stays at the source
+// for the backorder
+async function moveReservation(executor: DbExecutor, reservationId: number, warehouse: Warehouse, quantity: number): Promise<void> {
+    const reservations = await executor.select()
+        .from(stockReservationsTable)
+        .where(and(
+            eq(stockReservationsTable.id, reservationId),
+            eq(stockReservationsTable.status, 'active')
+        ))
+        .execute();
+
+    if (reservations.length === 0 || quantity === 0) {
+        return;
+    }
+
+    const reservation = reservations[0];
+    if (quantity >= reservation.quantity) {
+        await executor.update(stockReservationsTable)
+            .set({ warehouse, updated_at: new Date() })
+            .where(eq(stockReservationsTable.id, reservation.id))
+            .execute();
+        return;
+    }
+
+    await executor.update(stockReservationsTable)
+        .set({ quantity: reservation.quantity - quantity, updated_at: new Date() })
+        .where(eq(stockReservationsTable.id, reservation.id))
+        .execute();
+
+    await executor.insert(stockReservationsTable)
+        .values({
+            order_id: reservation.order_id,
+            order_item_id: reservation.order_item_id,
+            product_id: reservation.product_id,
+            warehouse,
+            quantity
+        })
+        .execute();
+}
+
+export async function getTransferDiscrepancies(orderId?: number): Promise<TransferDiscrepancy[]> {
+    try {
+        const results = await db.select({ discrepancy: transferDiscrepanciesTable })
+            .from(transferDiscrepanciesTable)
+            .innerJoin(transferRequestsTable, eq(transferDiscrepanciesTable.transfer_id, transferRequestsTable.id))
+            .where(orderId !== undefined ? eq(transferRequestsTable.order_id, orderId) : undefined)
+            .orderBy(desc(transferDiscrepanciesTable.created_at), desc(transferDiscrepanciesTable.id))
+            .execute();
+
+        return results.map(result => result.discrepancy);
+    } catch (error) {
+        console.error('Failed to fetch transfer discrepancies:', error);
+        throw error;
+    }
+}
+
+// Everything still on its way to Ibn Tachfine, including transfers raised automatically for validated orders
 export async function getPendingTransferRequestsForIbnTachfine(): Promise<TransferRequest[]> {
     try {
         const results = await db.select()
             .from(transferRequestsTable)
             .where(and(
                 eq(transferRequestsTable.to_warehouse, 'ibn_tachfine'),
-                or(
-                    eq(transferRequestsTable.status, 'shipped'),
-                    eq(transferRequestsTable.status, 'ready_to_ship')
-                )
+                inArray(transferRequestsTable.status, ['pending', 'in_preparation', 'ready_to_ship', 'shipped'])
             ))
+            .orderBy(asc(transferRequestsTable.requested_at), asc(transferRequestsTable.id))
             .execute();
 
         return results.map(result => ({
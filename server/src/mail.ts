@@ -0,0 +1,29 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Default transport until an SMTP provider is configured. Only the envelope is logged: bodies carry
+// reset links and quote share links, which must not end up in the server log.
+export const consoleMailTransport: MailTransport = {
+  async send(message) {
+    console.warn(`No mail transport configured, dropped "${message.subject}" to ${message.to}`);
+  }
+};
+
+let transport: MailTransport = consoleMailTransport;
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
+
+export const PORTAL_URL = process.env['PORTAL_URL'] || 'https://portal.konipa.com';
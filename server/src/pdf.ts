@@ -0,0 +1,207 @@
+import { type QrCode } from './qrcode';
+
+// Minimal PDF 1.4 writer for the generated documents: A4 pages, the standard Helvetica fonts and filled shapes.
+// Content streams are left uncompressed so the text of a document can be read back from the file.
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+}
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const BLACK: PdfColor = [0, 0, 0];
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126; bold glyphs are close enough for alignment
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+// WinAnsiEncoding matches Latin-1 from 0xA0; these are the characters it places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‹': 0x8b, 'Œ': 0x8c, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99, '›': 0x9b, 'œ': 0x9c
+};
+
+function toWinAnsi(value: string): number[] {
+  return Array.from(value, (char) => {
+    const code = char.codePointAt(0) as number;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      return WIN_ANSI_EXTRAS[char];
+    }
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      return code;
+    }
+    // Narrow and other Unicode spaces, as produced by French number formatting
+    if (/\s/.test(char)) {
+      return 0x20;
+    }
+    return 0x3f;
+  });
+}
+
+// PDF literal string; bytes outside printable ASCII are written as octal escapes
+function pdfString(value: string): string {
+  return '(' + toWinAnsi(value).map((byte) => {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      return '\\' + String.fromCharCode(byte);
+    }
+    if (byte < 0x20 || byte > 0x7e) {
+      return '\\' + byte.toString(8).padStart(3, '0');
+    }
+    return String.fromCharCode(byte);
+  }).join('') + ')';
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOperands(color: PdfColor): string {
+  return color.map(component => num(component)).join(' ');
+}
+
+export function textWidth(value: string, size: number): number {
+  let width = 0;
+  for (const char of value) {
+    // Accented letters take the width of their base letter
+    const code = char.normalize('NFD').charCodeAt(0);
+    width += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return width * size / 1000;
+}
+
+// Positions are given from the top-left corner of the page, in points
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private current = -1;
+
+  constructor(private readonly title: string) {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Switches back to an earlier page, e.g. to write footers once the page count is known
+  goToPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Page ${index + 1} does not exist`);
+    }
+    this.current = index;
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const width = textWidth(value, size);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+
+    this.pages[this.current].push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${num(size)} Tf ${colorOperands(options.color ?? BLACK)} rg ` +
+      `${num(left)} ${num(A4_HEIGHT - y)} Td ${pdfString(value)} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    this.pages[this.current].push(
+      `${colorOperands(fill)} rg ${num(x)} ${num(A4_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`
+    );
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number, color: PdfColor = BLACK, lineWidth: number = 0.5): void {
+    this.pages[this.current].push(
+      `${colorOperands(color)} RG ${num(lineWidth)} w ${num(x)} ${num(A4_HEIGHT - y - height)} ${num(width)} ${num(height)} re S`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = BLACK, lineWidth: number = 0.5): void {
+    this.pages[this.current].push(
+      `${colorOperands(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(A4_HEIGHT - y1)} m ${num(x2)} ${num(A4_HEIGHT - y2)} l S`
+    );
+  }
+
+  // Draws the modules as vector squares, so the code stays sharp when printed; size excludes the quiet zone
+  qrCode(x: number, y: number, size: number, qr: QrCode): void {
+    const moduleSize = size / qr.size;
+    const operations: string[] = [];
+    qr.modules.forEach((row, my) => {
+      row.forEach((dark, mx) => {
+        if (dark) {
+          operations.push(`${num(x + mx * moduleSize)} ${num(A4_HEIGHT - y - (my + 1) * moduleSize)} ${num(moduleSize)} ${num(moduleSize)} re`);
+        }
+      });
+    });
+    this.pages[this.current].push(`0 0 0 rg ${operations.join(' ')} f`);
+  }
+
+  toBuffer(createdAt: Date = new Date()): Buffer {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+    const pageObject = (index: number) => 6 + index * 2;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    const timestamp = createdAt.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    objects[5] = `<< /Title ${pdfString(this.title)} /Producer (Konipa) /CreationDate (D:${timestamp}Z) >>`;
+
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects[pageObject(i)] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObject(i) + 1} 0 R >>`;
+      objects[pageObject(i) + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
+
+// Reads back, in drawing order, the text written by PdfDocument; used to check the content of generated documents
+export function extractPdfText(pdf: Buffer): string[] {
+  const decode = Object.fromEntries(Object.entries(WIN_ANSI_EXTRAS).map(([char, byte]) => [byte, char]));
+  const source = pdf.toString('latin1');
+  const strings: string[] = [];
+
+  for (const match of source.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)) {
+    const bytes = match[1].replace(/\\([0-7]{3}|.)/g, (_, escaped: string) =>
+      escaped.length === 3 ? String.fromCharCode(parseInt(escaped, 8)) : escaped
+    );
+    strings.push(Array.from(bytes, char => decode[char.charCodeAt(0)] ?? char).join(''));
+  }
+
+  return strings;
+}
@@ -0,0 +1,509 @@
+import { deflateSync } from 'zlib';
+
+// QR code encoder (ISO/IEC 18004) for byte-mode text, rendered to SVG or PNG without any external service
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  size: number;
+  mask: number;
+  // modules[y][x], true for a dark module
+  modules: boolean[][];
+}
+
+export interface QrRenderOptions {
+  // Pixels per module (PNG) or user units per module (SVG)
+  moduleSize?: number;
+  // Light border around the symbol, in modules; scanners expect at least 4
+  margin?: number;
+}
+
+// Error correction codewords per block and number of blocks, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+// Level indicator written in the format information
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+// Modules left for data and error correction once the function patterns are drawn
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function getDataCodewords(version: number, level: QrErrorCorrectionLevel): number {
+  return Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * ERROR_CORRECTION_BLOCKS[level][version];
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position);
+  }
+  return positions;
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+// Byte-mode segment with terminator and padding, filling the data capacity of the version
+function encodeData(bytes: Uint8Array, version: number, level: QrErrorCorrectionLevel): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacity = getDataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+// Splits the data into blocks, appends their error correction and interleaves the result
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrectionLevel): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - rawCodewords % blockCount;
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlockCount) {
+      // Placeholder so every block has the same length while interleaving
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function applyMask(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return (x * y) % 2 + (x * y) % 3 === 0;
+    case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+    default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0;
+  }
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly level: QrErrorCorrectionLevel) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = getAlignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // The three corners hold the finder patterns
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignment(x, y);
+        }
+      });
+    });
+
+    // Reserve the format and version areas; their final bits are written once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  // Finder pattern with its light separator, clipped at the symbol edge
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.level] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, getBit(bits, i));
+    }
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, getBit(bits, i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    }
+    // Always dark
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {
+      return;
+    }
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + i % 3;
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Places the codewords in the zigzag of two-module columns, right to left, skipping the vertical timing pattern
+  drawCodewords(codewords: number[]): void {
+    let index = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && index < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[index >>> 3], 7 - (index & 7));
+            index++;
+          }
+        }
+      }
+    }
+  }
+
+  // Masking is its own inverse, so applying the same mask twice restores the data
+  toggleMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && applyMask(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  // Penalty score of the four rules of the standard; the mask with the lowest score is kept
+  penalty(): number {
+    const size = this.size;
+    const at = (x: number, y: number, vertical: boolean) => vertical ? this.modules[x][y] : this.modules[y][x];
+    let score = 0;
+
+    for (const vertical of [false, true]) {
+      for (let line = 0; line < size; line++) {
+        // Runs of five or more modules of the same colour
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+          if (i < size && at(i, line, vertical) === at(i - 1, line, vertical)) {
+            run++;
+          } else {
+            if (run >= 5) {
+              score += run - 2;
+            }
+            run = 1;
+          }
+        }
+
+        // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+        for (let i = 0; i + 11 <= size; i++) {
+          const pattern = Array.from({ length: 11 }, (_, k) => at(i + k, line, vertical));
+          const core = [true, false, true, true, true, false, true];
+          const matchesBefore = pattern.slice(0, 4).every(dark => !dark) && core.every((dark, k) => pattern[4 + k] === dark);
+          const matchesAfter = core.every((dark, k) => pattern[k] === dark) && pattern.slice(7).every(dark => !dark);
+          if (matchesBefore || matchesAfter) {
+            score += 40;
+          }
+        }
+      }
+    }
+
+    // 2x2 blocks of the same colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const colour = this.modules[y][x];
+        if (colour === this.modules[y][x + 1] && colour === this.modules[y + 1][x] && colour === this.modules[y + 1][x + 1]) {
+          score += 3;
+        }
+      }
+    }
+
+    // Balance of dark and light modules, per 5% away from half
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+    return score;
+  }
+}
+
+// Encodes text (as UTF-8) in the smallest version that fits; the mask is chosen by penalty unless given
+export function encodeQrCode(text: string, level: QrErrorCorrectionLevel = 'M', mask?: number): QrCode {
+  if (mask !== undefined && (!Number.isInteger(mask) || mask < 0 || mask > 7)) {
+    throw new Error(`Invalid QR code mask ${mask}`);
+  }
+
+  const bytes = new TextEncoder().encode(text);
+
+  let version = MIN_VERSION;
+  for (; version <= MAX_VERSION; version++) {
+    const requiredBits = 4 + (version <= 9 ? 8 : 16) + bytes.length * 8;
+    if (requiredBits <= getDataCodewords(version, level) * 8) {
+      break;
+    }
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Text of ${bytes.length} bytes is too long for a QR code`);
+  }
+
+  const matrix = new QrMatrix(version, level);
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version, level), version, level));
+
+  let chosenMask = mask ?? 0;
+  if (mask === undefined) {
+    let lowestPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      matrix.toggleMask(candidate);
+      matrix.drawFormatBits(candidate);
+      const penalty = matrix.penalty();
+      if (penalty < lowestPenalty) {
+        lowestPenalty = penalty;
+        chosenMask = candidate;
+      }
+      matrix.toggleMask(candidate);
+    }
+  }
+
+  matrix.toggleMask(chosenMask);
+  matrix.drawFormatBits(chosenMask);
+
+  return { version, size: matrix.size, mask: chosenMask, modules: matrix.modules };
+}
+
+export function renderQrSvg(qr: QrCode, options: QrRenderOptions = {}): string {
+  const moduleSize = options.moduleSize ?? 4;
+  const margin = options.margin ?? 4;
+  const dimension = qr.size + margin * 2;
+
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+      }
+    });
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${dimension * moduleSize}" height="${dimension * moduleSize}" ` +
+    `viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/><path fill="#000000" d="${path.join('')}"/></svg>`;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// 8-bit greyscale PNG, one unfiltered scanline per pixel row
+export function renderQrPng(qr: QrCode, options: QrRenderOptions = {}): Buffer {
+  const moduleSize = options.moduleSize ?? 8;
+  const margin = options.margin ?? 4;
+  const dimension = (qr.size + margin * 2) * moduleSize;
+
+  const raw = Buffer.alloc((dimension + 1) * dimension, 0xff);
+  for (let py = 0; py < dimension; py++) {
+    const rowStart = py * (dimension + 1);
+    raw[rowStart] = 0;
+    const y = Math.floor(py / moduleSize) - margin;
+    for (let px = 0; px < dimension; px++) {
+      const x = Math.floor(px / moduleSize) - margin;
+      if (y >= 0 && y < qr.size && x >= 0 && x < qr.size && qr.modules[y][x]) {
+        raw[rowStart + 1 + px] = 0;
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(dimension, 0);
+  header.writeUInt32BE(dimension, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // greyscale
+  header[10] = 0; // deflate
+  header[11] = 0; // adaptive filtering
+  header[12] = 0; // no interlace
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
@@ -0,0 +1,780 @@
+// Import schemas
+import {
+  loginInputSchema,
+  createUserInputSchema,
+  createClientInputSchema,
+  createProductInputSchema,
+  createOrderInputSchema,
+  createQuoteInputSchema,
+  updateQuoteInputSchema,
+  qrCodeFormatSchema,
+  updateOrderStatusInputSchema,
+  updateStockInputSchema,
+  userRoleSchema,
+  orderStatusSchema,
+  transferStatusSchema,
+  warehouseSchema,
+  carrierSchema,
+  sageExportStatusSchema,
+  requestPasswordResetInputSchema,
+  confirmPasswordResetInputSchema,
+  changePasswordInputSchema,
+  refreshSessionInputSchema,
+  revokeSessionInputSchema,
+  setReorderPointInputSchema,
+  createSupplierInputSchema,
+  createPurchaseOrderInputSchema,
+  receivePurchaseOrderInputSchema,
+  purchaseOrderStatusSchema,
+  openInventorySessionInputSchema,
+  inventorySessionStatusSchema,
+  createClientGroupInputSchema,
+  createPriceListInputSchema,
+  pricingRuleInputSchema
+} from './schema';
+
+// Import handlers
+import { login, createUser, requestPasswordReset, confirmPasswordReset, changePassword, toPublicUser } from './handlers/auth';
+import { refreshSession, listSessions, revokeSession } from './handlers/sessions';
+import { getAuditLog } from './handlers/audit';
+import { groupValidatedOrders } from './handlers/shipments';
+import { getSageExports, retrySageExport, processSageOutbox } from './handlers/sage';
+import { 
+  createClient, 
+  getClientById, 
+  getClientsByRepresentative, 
+  updateClientCreditStatus,
+  getClientDashboardData 
+} from './handlers/clients';
+import { 
+  createProduct, 
+  getProducts, 
+  getProductById, 
+  getProductStock, 
+  getProductSubstitutes,
+  updateProductStock,
+  getProductPriceForClient 
+} from './handlers/products';
+import { getStockHistory } from './handlers/stock';
+import { setReorderPoint, getReorderPoints, getLowStockAlerts } from './handlers/reorder';
+import {
+  createSupplier,
+  getSuppliers,
+  createPurchaseOrder,
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  updatePurchaseOrderStatus,
+  receivePurchaseOrder
+} from './handlers/purchasing';
+import {
+  openInventorySession,
+  getInventorySessions,
+  getInventoryCountLines,
+  recordInventoryCount,
+  scanInventoryItem,
+  submitInventorySession,
+  postInventorySession,
+  cancelInventorySession,
+  getInventoryVarianceReport
+} from './handlers/inventory';
+import { 
+  createOrder, 
+  getOrdersByClient, 
+  getOrderById, 
+  getOrderItems,
+  updateOrderStatus,
+  validateOrder,
+  getOrdersForPreparation,
+  getGroupedOrders,
+  getPendingOrdersForValidation 
+} from './handlers/orders';
+import { 
+  createQuote, 
+  getQuoteById, 
+  getQuoteByShareToken, 
+  getQuoteItems,
+  getQuoteQrCode,
+  updateQuote,
+  sendQuote,
+  acceptSharedQuote,
+  rejectSharedQuote,
+  reviseQuote,
+  convertQuoteToOrder,
+  getQuotesByRepresentative,
+  getQuotesByClient 
+} from './handlers/quotes';
+import { 
+  createTransferRequest, 
+  getTransferRequestsForWarehouse, 
+  updateTransferRequestStatus,
+  getTransferRequestsByOrder,
+  confirmTransferReception,
+  getPendingTransferRequestsForIbnTachfine,
+  getTransferDiscrepancies
+} from './handlers/transfers';
+import { 
+  getRepresentativeDashboard, 
+  getAccountingDashboard, 
+  getCounterDashboard,
+  getWarehouseLaVilletteDashboard,
+  getDirectorDashboard 
+} from './handlers/dashboards';
+import { 
+  setClientCustomPricing, 
+  getClientCustomPricing, 
+  calculateOrderTotal,
+  validateStockLimits,
+  createClientGroup,
+  getClientGroups,
+  assignClientGroup,
+  createPriceList,
+  addPricingRule,
+  removePricingRule,
+  setPriceListActive,
+  getPriceLists
+} from './handlers/pricing';
+import { getQuotePdf, getOrderConfirmationPdf, getDeliveryNotePdf, getTransferSlipPdf } from './handlers/documents';
+import { assertClientAccess, assertOrderAccess, assertQuoteAccess, assertRepresentativeAccess } from './handlers/access';
+import {
+  router,
+  publicProcedure,
+  authedProcedure,
+  roleProcedure,
+  clientProcedure,
+  representativeProcedure,
+  accountingProcedure,
+  counterProcedure,
+  warehouseProcedure,
+  directorProcedure
+} from './trpc';
+
+import { z } from 'zod';
+
+// Procedures shared by several roles
+const salesProcedure = roleProcedure('client', 'representative', 'accounting');
+const stockProcedure = roleProcedure('counter_ibn_tachfine', 'warehouse_la_villette');
+const logisticsProcedure = roleProcedure('accounting', 'counter_ibn_tachfine', 'warehouse_la_villette');
+
+export const appRouter = router({
+  // Health check
+  healthcheck: publicProcedure.query(() => {
+    return { status: 'ok', timestamp: new Date().toISOString() };
+  }),
+
+  // Authentication routes
+  auth: router({
+    login: publicProcedure
+      .input(loginInputSchema)
+      .mutation(({ ctx, input }) => login(input, ctx.userAgent ?? null)),
+    
+    refresh: publicProcedure
+      .input(refreshSessionInputSchema)
+      .mutation(({ input }) => refreshSession(input)),
+    
+    logout: authedProcedure
+      .mutation(({ ctx }) => ctx.sessionId ? revokeSession(ctx.sessionId, ctx.user) : { success: true }),
+    
+    listSessions: authedProcedure
+      .query(({ ctx }) => listSessions(ctx.user.id, ctx.sessionId)),
+    
+    revokeSession: authedProcedure
+      .input(revokeSessionInputSchema)
+      .mutation(({ ctx, input }) => revokeSession(input.session_id, ctx.user)),
+    
+    createUser: directorProcedure
+      .input(createUserInputSchema)
+      .mutation(async ({ input }) => toPublicUser(await createUser(input))),
+    
+    requestPasswordReset: publicProcedure
+      .input(requestPasswordResetInputSchema)
+      .mutation(({ input }) => requestPasswordReset(input)),
+    
+    confirmPasswordReset: publicProcedure
+      .input(confirmPasswordResetInputSchema)
+      .mutation(({ input }) => confirmPasswordReset(input)),
+    
+    changePassword: authedProcedure
+      .input(changePasswordInputSchema)
+      .mutation(({ ctx, input }) => changePassword(ctx.user.id, ctx.sessionId, input))
+  }),
+
+  // Audit trail routes
+  audit: router({
+    getEntries: directorProcedure
+      .input(z.object({ limit: z.number().int().positive().max(500).optional() }).optional())
+      .query(({ input }) => getAuditLog(input?.limit))
+  }),
+
+  // Client management routes
+  clients: router({
+    create: roleProcedure('representative')
+      .input(createClientInputSchema)
+      .mutation(({ input }) => createClient(input)),
+    
+    getById: roleProcedure('client', 'representative', 'accounting')
+      .input(z.object({ clientId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return getClientById(input.clientId);
+      }),
+    
+    getByRepresentative: roleProcedure('representative', 'accounting')
+      .input(z.object({ representativeId: z.number() }))
+      .query(({ ctx, input }) => {
+        assertRepresentativeAccess(ctx.user, input.representativeId);
+        return getClientsByRepresentative(input.representativeId);
+      }),
+    
+    updateCreditStatus: accountingProcedure
+      .input(z.object({
+        clientId: z.number(),
+        isBlocked: z.boolean()
+      }))
+      .mutation(({ ctx, input }) => updateClientCreditStatus(input.clientId, input.isBlocked, ctx.user.id)),
+    
+    getDashboardData: salesProcedure
+      .input(z.object({ clientId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return getClientDashboardData(input.clientId);
+      })
+  }),
+
+  // Product management routes
+  products: router({
+    create: directorProcedure
+      .input(createProductInputSchema)
+      .mutation(({ input }) => createProduct(input)),
+    
+    getAll: authedProcedure
+      .input(z.object({
+        search: z.string().optional(),
+        category: z.string().optional(),
+        brand: z.string().optional(),
+        vehicleModel: z.string().optional()
+      }).optional())
+      .query(({ input }) => getProducts(input)),
+    
+    getById: authedProcedure
+      .input(z.object({ productId: z.number() }))
+      .query(({ input }) => getProductById(input.productId)),
+    
+    getStock: authedProcedure
+      .input(z.object({ productId: z.number() }))
+      .query(({ input }) => getProductStock(input.productId)),
+    
+    getSubstitutes: authedProcedure
+      .input(z.object({ productId: z.number() }))
+      .query(({ input }) => getProductSubstitutes(input.productId)),
+    
+    updateStock: stockProcedure
+      .input(updateStockInputSchema)
+      .mutation(({ ctx, input }) => updateProductStock(input.product_id, input.warehouse, input.quantity, ctx.user.id)),
+
+    getStockHistory: logisticsProcedure
+      .input(z.object({
+        productId: z.number(),
+        warehouse: warehouseSchema.optional(),
+        limit: z.number().int().min(1).max(500).optional()
+      }))
+      .query(({ input }) => getStockHistory(input.productId, input.warehouse, input.limit)),
+
+    setReorderPoint: stockProcedure
+      .input(setReorderPointInputSchema)
+      .mutation(({ ctx, input }) => setReorderPoint(input, ctx.user.id)),
+
+    getReorderPoints: logisticsProcedure
+      .input(z.object({
+        productId: z.number().optional(),
+        warehouse: warehouseSchema.optional()
+      }).optional())
+      .query(({ input }) => getReorderPoints(input?.productId, input?.warehouse)),
+
+    getLowStockAlerts: logisticsProcedure
+      .input(z.object({
+        warehouse: warehouseSchema.optional(),
+        limit: z.number().int().min(1).max(500).optional()
+      }).optional())
+      .query(({ input }) => getLowStockAlerts(
+        input?.warehouse ? [input.warehouse] : [...warehouseSchema.options],
+        input?.limit
+      )),
+    
+    getPriceForClient: salesProcedure
+      .input(z.object({
+        productId: z.number(),
+        clientId: z.number(),
+        quantity: z.number().int().positive().default(1)
+      }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return getProductPriceForClient(input.productId, input.clientId, input.quantity);
+      })
+  }),
+
+  // Order management routes
+  orders: router({
+    create: roleProcedure('client', 'representative')
+      .input(createOrderInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.client_id);
+        return createOrder(input, ctx.user.id);
+      }),
+    
+    getByClient: salesProcedure
+      .input(z.object({ clientId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return getOrdersByClient(input.clientId);
+      }),
+    
+    getById: authedProcedure
+      .input(z.object({ orderId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertOrderAccess(ctx.user, input.orderId);
+        return getOrderById(input.orderId);
+      }),
+    
+    getItems: authedProcedure
+      .input(z.object({ orderId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertOrderAccess(ctx.user, input.orderId);
+        return getOrderItems(input.orderId);
+      }),
+    
+    updateStatus: logisticsProcedure
+      .input(updateOrderStatusInputSchema)
+      .mutation(({ ctx, input }) => updateOrderStatus({ ...input, updated_by: ctx.user.id })),
+    
+    validate: accountingProcedure
+      .input(z.object({
+        orderId: z.number(),
+        approve: z.boolean(),
+        reason: z.string().trim().min(1).max(500).optional()
+      }))
+      .mutation(({ ctx, input }) => validateOrder(input.orderId, ctx.user.id, input.approve, input.reason ?? null)),
+    
+    getForPreparation: stockProcedure
+      .input(z.object({ warehouse: z.string() }))
+      .query(({ input }) => getOrdersForPreparation(input.warehouse)),
+    
+    getGrouped: counterProcedure
+      .input(z.object({
+        clientId: z.number(),
+        date: z.coerce.date()
+      }))
+      .query(({ input }) => getGroupedOrders(input.clientId, input.date)),
+
+    groupValidated: counterProcedure
+      .mutation(() => groupValidatedOrders()),
+    
+    getPendingValidation: accountingProcedure
+      .input(z.object({
+        page: z.number().int().positive().optional(),
+        pageSize: z.number().int().positive().max(100).optional()
+      }).optional())
+      .query(({ input }) => getPendingOrdersForValidation(input?.page, input?.pageSize))
+  }),
+
+  // Quote management routes
+  quotes: router({
+    create: representativeProcedure
+      .input(createQuoteInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.client_id);
+        return createQuote(
+          ctx.user.role === 'representative' ? { ...input, representative_id: ctx.user.id } : input
+        );
+      }),
+    
+    getById: roleProcedure('client', 'representative')
+      .input(z.object({ quoteId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quoteId);
+        return getQuoteById(input.quoteId);
+      }),
+    
+    getQrCode: roleProcedure('client', 'representative')
+      .input(z.object({
+        quoteId: z.number(),
+        format: qrCodeFormatSchema.default('svg')
+      }))
+      .query(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quoteId);
+        return getQuoteQrCode(input.quoteId, input.format);
+      }),
+    
+    update: representativeProcedure
+      .input(updateQuoteInputSchema)
+      .mutation(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quote_id);
+        return updateQuote(input);
+      }),
+    
+    send: representativeProcedure
+      .input(z.object({ quoteId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quoteId);
+        return sendQuote(input.quoteId);
+      }),
+    
+    revise: representativeProcedure
+      .input(z.object({ quoteId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quoteId);
+        return reviseQuote(input.quoteId);
+      }),
+    
+    getByShareToken: publicProcedure
+      .input(z.object({ shareToken: z.string().min(1).max(64) }))
+      .query(({ input }) => getQuoteByShareToken(input.shareToken)),
+    
+    // The client answers from the share link, without an account
+    acceptByShareToken: publicProcedure
+      .input(z.object({ shareToken: z.string().min(1).max(64) }))
+      .mutation(({ input }) => acceptSharedQuote(input.shareToken)),
+    
+    rejectByShareToken: publicProcedure
+      .input(z.object({
+        shareToken: z.string().min(1).max(64),
+        reason: z.string().trim().min(1).max(500)
+      }))
+      .mutation(({ input }) => rejectSharedQuote(input.shareToken, input.reason)),
+    
+    getItems: roleProcedure('client', 'representative')
+      .input(z.object({ quoteId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quoteId);
+        return getQuoteItems(input.quoteId);
+      }),
+    
+    convertToOrder: roleProcedure('client', 'representative')
+      .input(z.object({
+        quoteId: z.number(),
+        carrier: carrierSchema,
+        // Lines to order now; the others stay open on the quote
+        itemIds: z.array(z.number()).min(1).optional()
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quoteId);
+        return convertQuoteToOrder(input.quoteId, input.carrier, input.itemIds, ctx.user.id);
+      }),
+    
+    getByRepresentative: representativeProcedure
+      .input(z.object({ representativeId: z.number() }))
+      .query(({ ctx, input }) => {
+        assertRepresentativeAccess(ctx.user, input.representativeId);
+        return getQuotesByRepresentative(input.representativeId);
+      }),
+    
+    getByClient: roleProcedure('client', 'representative')
+      .input(z.object({ clientId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return getQuotesByClient(input.clientId);
+      })
+  }),
+
+  // Transfer management routes
+  transfers: router({
+    createRequest: counterProcedure
+      .input(z.object({
+        orderId: z.number(),
+        productId: z.number(),
+        fromWarehouse: warehouseSchema,
+        toWarehouse: warehouseSchema,
+        quantity: z.number().int().positive()
+      }))
+      .mutation(({ ctx, input }) => createTransferRequest(
+        input.orderId,
+        input.productId,
+        input.fromWarehouse,
+        input.toWarehouse,
+        input.quantity,
+        ctx.user.id
+      )),
+    
+    getForWarehouse: stockProcedure
+      .input(z.object({ warehouse: warehouseSchema }))
+      .query(({ input }) => getTransferRequestsForWarehouse(input.warehouse)),
+    
+    updateStatus: stockProcedure
+      .input(z.object({
+        transferId: z.number(),
+        status: transferStatusSchema,
+        quantityPrepared: z.number().int().nonnegative().optional()
+      }))
+      .mutation(({ ctx, input }) => updateTransferRequestStatus(
+        input.transferId,
+        input.status,
+        ctx.user.id,
+        input.quantityPrepared
+      )),
+    
+    getByOrder: logisticsProcedure
+      .input(z.object({ orderId: z.number() }))
+      .query(({ input }) => getTransferRequestsByOrder(input.orderId)),
+    
+    confirmReception: stockProcedure
+      .input(z.object({
+        transferId: z.number(),
+        quantityReceived: z.number().int().nonnegative(),
+        note: z.string().trim().min(1).max(500).optional()
+      }))
+      .mutation(({ ctx, input }) => confirmTransferReception(
+        input.transferId,
+        ctx.user.id,
+        input.quantityReceived,
+        input.note ?? null
+      )),
+
+    getDiscrepancies: logisticsProcedure
+      .input(z.object({ orderId: z.number().optional() }).optional())
+      .query(({ input }) => getTransferDiscrepancies(input?.orderId)),
+    
+    getPendingForIbnTachfine: counterProcedure
+      .query(() => getPendingTransferRequestsForIbnTachfine())
+  }),
+
+  // Supplier and purchase order routes
+  purchasing: router({
+    createSupplier: directorProcedure
+      .input(createSupplierInputSchema)
+      .mutation(({ input }) => createSupplier(input)),
+
+    getSuppliers: logisticsProcedure
+      .input(z.object({ includeInactive: z.boolean().optional() }).optional())
+      .query(({ input }) => getSuppliers(input?.includeInactive)),
+
+    createOrder: directorProcedure
+      .input(createPurchaseOrderInputSchema)
+      .mutation(({ ctx, input }) => createPurchaseOrder(input, ctx.user.id)),
+
+    getOrders: logisticsProcedure
+      .input(z.object({
+        status: purchaseOrderStatusSchema.optional(),
+        supplierId: z.number().optional(),
+        warehouse: warehouseSchema.optional()
+      }).optional())
+      .query(({ input }) => getPurchaseOrders(input)),
+
+    getOrderById: logisticsProcedure
+      .input(z.object({ purchaseOrderId: z.number() }))
+      .query(({ input }) => getPurchaseOrderById(input.purchaseOrderId)),
+
+    updateStatus: directorProcedure
+      .input(z.object({
+        purchaseOrderId: z.number(),
+        status: purchaseOrderStatusSchema
+      }))
+      .mutation(({ input }) => updatePurchaseOrderStatus(input.purchaseOrderId, input.status)),
+
+    receive: stockProcedure
+      .input(receivePurchaseOrderInputSchema)
+      .mutation(({ ctx, input }) => receivePurchaseOrder(input, ctx.user.id))
+  }),
+
+  // Physical inventory count routes
+  inventory: router({
+    open: stockProcedure
+      .input(openInventorySessionInputSchema)
+      .mutation(({ ctx, input }) => openInventorySession(input, ctx.user.id)),
+
+    getSessions: stockProcedure
+      .input(z.object({
+        warehouse: warehouseSchema.optional(),
+        status: inventorySessionStatusSchema.optional()
+      }).optional())
+      .query(({ input }) => getInventorySessions(input?.warehouse, input?.status)),
+
+    getLines: stockProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .query(({ input }) => getInventoryCountLines(input.sessionId)),
+
+    recordCount: stockProcedure
+      .input(z.object({
+        sessionId: z.number(),
+        productId: z.number(),
+        countedQuantity: z.number().int().nonnegative()
+      }))
+      .mutation(({ ctx, input }) => recordInventoryCount(input.sessionId, input.productId, input.countedQuantity, ctx.user.id)),
+
+    scan: stockProcedure
+      .input(z.object({
+        sessionId: z.number(),
+        code: z.string().trim().min(1).max(100),
+        quantity: z.number().int().positive().optional()
+      }))
+      .mutation(({ ctx, input }) => scanInventoryItem(input.sessionId, input.code, ctx.user.id, input.quantity)),
+
+    submit: stockProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(({ ctx, input }) => submitInventorySession(input.sessionId, ctx.user.id)),
+
+    cancel: stockProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(({ ctx, input }) => cancelInventorySession(input.sessionId, ctx.user.id)),
+
+    post: directorProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .mutation(({ ctx, input }) => postInventorySession(input.sessionId, ctx.user.id)),
+
+    getVarianceReport: directorProcedure
+      .input(z.object({ sessionId: z.number() }))
+      .query(({ input }) => getInventoryVarianceReport(input.sessionId))
+  }),
+
+  // Dashboard routes
+  dashboards: router({
+    representative: representativeProcedure
+      .input(z.object({ representativeId: z.number() }))
+      .query(({ ctx, input }) => {
+        assertRepresentativeAccess(ctx.user, input.representativeId);
+        return getRepresentativeDashboard(input.representativeId);
+      }),
+    
+    accounting: accountingProcedure
+      .query(() => getAccountingDashboard()),
+    
+    counter: counterProcedure
+      .query(() => getCounterDashboard()),
+    
+    warehouseLaVillette: warehouseProcedure
+      .query(() => getWarehouseLaVilletteDashboard()),
+    
+    director: directorProcedure
+      .query(() => getDirectorDashboard())
+  }),
+
+  // Pricing management routes
+  pricing: router({
+    setCustomPricing: directorProcedure
+      .input(z.object({
+        clientId: z.number(),
+        productId: z.number(),
+        customPrice: z.number().positive(),
+        discountPercentage: z.number().min(0).max(100),
+        stockLimitMonthly: z.number().int().positive().optional()
+      }))
+      .mutation(({ input }) => setClientCustomPricing(
+        input.clientId,
+        input.productId,
+        input.customPrice,
+        input.discountPercentage,
+        input.stockLimitMonthly
+      )),
+    
+    getClientCustomPricing: salesProcedure
+      .input(z.object({ clientId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return getClientCustomPricing(input.clientId);
+      }),
+    
+    calculateOrderTotal: salesProcedure
+      .input(z.object({
+        clientId: z.number(),
+        items: z.array(z.object({
+          productId: z.number(),
+          quantity: z.number().int().positive()
+        }))
+      }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return calculateOrderTotal(input.clientId, input.items);
+      }),
+    
+    validateStockLimits: salesProcedure
+      .input(z.object({
+        clientId: z.number(),
+        items: z.array(z.object({
+          productId: z.number(),
+          quantity: z.number().int().positive()
+        }))
+      }))
+      .query(async ({ ctx, input }) => {
+        await assertClientAccess(ctx.user, input.clientId);
+        return validateStockLimits(input.clientId, input.items);
+      }),
+
+    createClientGroup: directorProcedure
+      .input(createClientGroupInputSchema)
+      .mutation(({ input }) => createClientGroup(input)),
+
+    getClientGroups: accountingProcedure
+      .query(() => getClientGroups()),
+
+    assignClientGroup: directorProcedure
+      .input(z.object({
+        clientId: z.number(),
+        clientGroupId: z.number().nullable()
+      }))
+      .mutation(({ input }) => assignClientGroup(input.clientId, input.clientGroupId)),
+
+    createPriceList: directorProcedure
+      .input(createPriceListInputSchema)
+      .mutation(({ input }) => createPriceList(input)),
+
+    addRule: directorProcedure
+      .input(z.object({
+        priceListId: z.number(),
+        rule: pricingRuleInputSchema
+      }))
+      .mutation(({ input }) => addPricingRule(input.priceListId, input.rule)),
+
+    removeRule: directorProcedure
+      .input(z.object({ ruleId: z.number() }))
+      .mutation(({ input }) => removePricingRule(input.ruleId)),
+
+    setPriceListActive: directorProcedure
+      .input(z.object({
+        priceListId: z.number(),
+        isActive: z.boolean()
+      }))
+      .mutation(({ input }) => setPriceListActive(input.priceListId, input.isActive)),
+
+    getPriceLists: accountingProcedure
+      .query(() => getPriceLists())
+  }),
+
+  // Generated PDF documents, returned base64-encoded
+  documents: router({
+    quote: roleProcedure('client', 'representative')
+      .input(z.object({ quoteId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertQuoteAccess(ctx.user, input.quoteId);
+        return getQuotePdf(input.quoteId);
+      }),
+
+    orderConfirmation: authedProcedure
+      .input(z.object({ orderId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await assertOrderAccess(ctx.user, input.orderId);
+        return getOrderConfirmationPdf(input.orderId);
+      }),
+
+    deliveryNote: logisticsProcedure
+      .input(z.object({ shipmentGroupId: z.number() }))
+      .query(({ input }) => getDeliveryNotePdf(input.shipmentGroupId)),
+
+    transferSlip: stockProcedure
+      .input(z.object({ transferId: z.number() }))
+      .query(({ input }) => getTransferSlipPdf(input.transferId))
+  }),
+
+  // Sage ERP export routes
+  sage: router({
+    getExports: accountingProcedure
+      .input(z.object({ status: sageExportStatusSchema.optional() }).optional())
+      .query(({ input }) => getSageExports(input?.status)),
+
+    retryExport: accountingProcedure
+      .input(z.object({ orderId: z.number() }))
+      .mutation(({ input }) => retrySageExport(input.orderId)),
+
+    processOutbox: directorProcedure
+      .mutation(() => processSageOutbox())
+  })
+});
+
+export type AppRouter = typeof appRouter;
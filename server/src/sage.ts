@@ -0,0 +1,101 @@
+import { mkdir, rename, writeFile } from 'fs/promises';
+import * as path from 'path';
+
+export interface SageOrderLine {
+  product_code: string;
+  designation: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface SageOrderDocument {
+  order_number: string;
+  order_date: Date;
+  client_code: string;
+  client_name: string;
+  carrier: string;
+  total_amount: number;
+  lines: SageOrderLine[];
+}
+
+export interface SageExportResult {
+  document_number: string;
+}
+
+export interface SageAdapter {
+  exportOrder(document: SageOrderDocument): Promise<SageExportResult>;
+}
+
+// Sage import fields are semicolon separated; strip separators and line breaks from free text
+function field(value: string): string {
+  return value.replace(/\s*[;\r\n]+\s*/g, ' ').trim();
+}
+
+function formatDate(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}${month}${day}`;
+}
+
+// One "E" header line followed by one "L" line per product, CRLF terminated for the Sage import tool
+export function formatSageOrderDocument(documentNumber: string, document: SageOrderDocument): string {
+  const header = [
+    'E',
+    documentNumber,
+    field(document.order_number),
+    formatDate(document.order_date),
+    field(document.client_code),
+    field(document.client_name),
+    field(document.carrier),
+    document.total_amount.toFixed(2)
+  ].join(';');
+
+  const lines = document.lines.map(line => [
+    'L',
+    documentNumber,
+    field(line.product_code),
+    field(line.designation),
+    line.quantity.toString(),
+    line.unit_price.toFixed(2),
+    line.total_price.toFixed(2)
+  ].join(';'));
+
+  return [header, ...lines].map(line => `${line}\r\n`).join('');
+}
+
+// Writes one import file per order into a folder watched by the Sage import job
+export function createFileSageAdapter(directory: string): SageAdapter {
+  return {
+    async exportOrder(document) {
+      const documentNumber = `BC${document.order_number.replace(/^ORD-/, '').replace(/-/g, '')}`;
+      const target = path.join(directory, `${documentNumber}.txt`);
+
+      await mkdir(directory, { recursive: true });
+      // Write then rename so the import job never picks up a half-written file
+      await writeFile(`${target}.tmp`, formatSageOrderDocument(documentNumber, document), 'latin1');
+      await rename(`${target}.tmp`, target);
+
+      return { document_number: documentNumber };
+    }
+  };
+}
+
+// Without an export folder, exports stay queued in the outbox until one is configured
+export const unconfiguredSageAdapter: SageAdapter = {
+  async exportOrder() {
+    throw new Error('Sage export is not configured (set SAGE_EXPORT_DIR)');
+  }
+};
+
+let adapter: SageAdapter = process.env['SAGE_EXPORT_DIR']
+  ? createFileSageAdapter(process.env['SAGE_EXPORT_DIR'])
+  : unconfiguredSageAdapter;
+
+export function setSageAdapter(next: SageAdapter): void {
+  adapter = next;
+}
+
+export function getSageAdapter(): SageAdapter {
+  return adapter;
+}
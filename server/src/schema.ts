@@ -20,7 +20,8 @@ export const orderStatusSchema = z.enum([
   'ready',
   'shipped',
   'delivered',
-  'refused'
+  'refused',
+  'cancelled'
 ]);
 
 export type OrderStatus = z.infer<typeof orderStatusSchema>;
@@ -55,6 +56,15 @@ export const carrierSchema = z.enum([
 
 export type Carrier = z.infer<typeof carrierSchema>;
 
+// Sage export status enum
+export const sageExportStatusSchema = z.enum([
+  'pending',
+  'exported',
+  'failed'
+]);
+
+export type SageExportStatus = z.infer<typeof sageExportStatusSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -63,12 +73,18 @@ export const userSchema = z.object({
   role: userRoleSchema,
   sage_id: z.string().nullable(),
   is_active: z.boolean(),
+  password_changed_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// A user as the API hands it out, without the password hash
+export const publicUserSchema = userSchema.omit({ password_hash: true });
+
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
 // Client schema
 export const clientSchema = z.object({
   id: z.number(),
@@ -84,6 +100,7 @@ export const clientSchema = z.object({
   payment_due_date: z.coerce.date().nullable(),
   is_blocked: z.boolean(),
   representative_id: z.number().nullable(),
+  client_group_id: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -128,6 +145,211 @@ export const stockSchema = z.object({
 
 export type Stock = z.infer<typeof stockSchema>;
 
+// Stock level schema (on-hand quantity with what active reservations hold back)
+export const stockLevelSchema = stockSchema.extend({
+  reserved: z.number().int().nonnegative(),
+  available: z.number().int()
+});
+
+export type StockLevel = z.infer<typeof stockLevelSchema>;
+
+// Reorder point schema
+export const reorderPointSchema = z.object({
+  id: z.number(),
+  product_id: z.number(),
+  warehouse: warehouseSchema,
+  min_quantity: z.number().int(),
+  max_quantity: z.number().int().nullable(),
+  updated_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ReorderPoint = z.infer<typeof reorderPointSchema>;
+
+// Low stock alert schema, with the units already on order and the quantity suggested to bring the warehouse
+// back to its target level
+export const lowStockAlertSchema = z.object({
+  product_id: z.number(),
+  reference: z.string(),
+  designation: z.string(),
+  warehouse: warehouseSchema,
+  stock_level: z.number().int(),
+  available: z.number().int(),
+  min_quantity: z.number().int(),
+  max_quantity: z.number().int().nullable(),
+  daily_sales: z.number(),
+  on_order: z.number().int(),
+  suggested_quantity: z.number().int()
+});
+
+export type LowStockAlert = z.infer<typeof lowStockAlertSchema>;
+
+// Stock movement type enum
+export const stockMovementTypeSchema = z.enum([
+  'receipt',
+  'sale',
+  'transfer_out',
+  'transfer_in',
+  'adjustment',
+  'inventory_count'
+]);
+
+export type StockMovementType = z.infer<typeof stockMovementTypeSchema>;
+
+// Stock movement schema (quantity is signed: positive in, negative out)
+export const stockMovementSchema = z.object({
+  id: z.number(),
+  product_id: z.number(),
+  warehouse: warehouseSchema,
+  type: stockMovementTypeSchema,
+  quantity: z.number().int(),
+  balance_after: z.number().int().nonnegative(),
+  order_id: z.number().nullable(),
+  transfer_id: z.number().nullable(),
+  purchase_order_id: z.number().nullable(),
+  created_by: z.number().nullable(),
+  note: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type StockMovement = z.infer<typeof stockMovementSchema>;
+
+// Supplier schema
+export const supplierSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  contact_name: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Supplier = z.infer<typeof supplierSchema>;
+
+// Purchase order status enum
+export const purchaseOrderStatusSchema = z.enum(['draft', 'ordered', 'partially_received', 'received', 'cancelled']);
+
+export type PurchaseOrderStatus = z.infer<typeof purchaseOrderStatusSchema>;
+
+// Purchase order line schema
+export const purchaseOrderLineSchema = z.object({
+  id: z.number(),
+  purchase_order_id: z.number(),
+  product_id: z.number(),
+  quantity_ordered: z.number().int(),
+  quantity_received: z.number().int(),
+  unit_cost: z.number(),
+  total_cost: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PurchaseOrderLine = z.infer<typeof purchaseOrderLineSchema>;
+
+// Purchase order schema (expected_date is a local YYYY-MM-DD day)
+export const purchaseOrderSchema = z.object({
+  id: z.number(),
+  po_number: z.string().nullable(),
+  supplier_id: z.number(),
+  warehouse: warehouseSchema,
+  status: purchaseOrderStatusSchema,
+  expected_date: z.string().nullable(),
+  total_amount: z.number(),
+  notes: z.string().nullable(),
+  created_by: z.number().nullable(),
+  ordered_at: z.coerce.date().nullable(),
+  received_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PurchaseOrder = z.infer<typeof purchaseOrderSchema>;
+
+export const purchaseOrderWithLinesSchema = purchaseOrderSchema.extend({
+  lines: z.array(purchaseOrderLineSchema)
+});
+
+export type PurchaseOrderWithLines = z.infer<typeof purchaseOrderWithLinesSchema>;
+
+// Inventory session status enum
+export const inventorySessionStatusSchema = z.enum(['counting', 'review', 'posted', 'cancelled']);
+
+export type InventorySessionStatus = z.infer<typeof inventorySessionStatusSchema>;
+
+// Inventory session schema
+export const inventorySessionSchema = z.object({
+  id: z.number(),
+  warehouse: warehouseSchema,
+  category: z.string().nullable(),
+  status: inventorySessionStatusSchema,
+  opened_by: z.number(),
+  submitted_by: z.number().nullable(),
+  submitted_at: z.coerce.date().nullable(),
+  posted_by: z.number().nullable(),
+  posted_at: z.coerce.date().nullable(),
+  cancelled_by: z.number().nullable(),
+  cancelled_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type InventorySession = z.infer<typeof inventorySessionSchema>;
+
+// Inventory count line schema, with the variance once the product has been counted
+export const inventoryCountLineSchema = z.object({
+  id: z.number(),
+  session_id: z.number(),
+  product_id: z.number(),
+  reference: z.string(),
+  designation: z.string(),
+  expected_quantity: z.number().int(),
+  counted_quantity: z.number().int().nonnegative().nullable(),
+  variance: z.number().int().nullable(),
+  counted_by: z.number().nullable(),
+  counted_at: z.coerce.date().nullable()
+});
+
+export type InventoryCountLine = z.infer<typeof inventoryCountLineSchema>;
+
+// Inventory variance report schema (valued at base price)
+export const inventoryVarianceReportSchema = z.object({
+  session: inventorySessionSchema,
+  lines: z.array(inventoryCountLineSchema.extend({
+    variance_value: z.number().nullable()
+  })),
+  counted_lines: z.number().int(),
+  uncounted_lines: z.number().int(),
+  units_over: z.number().int(),
+  units_short: z.number().int(),
+  net_variance_value: z.number()
+});
+
+export type InventoryVarianceReport = z.infer<typeof inventoryVarianceReportSchema>;
+
+// Stock reservation status enum
+export const stockReservationStatusSchema = z.enum(['active', 'released', 'consumed']);
+
+export type StockReservationStatus = z.infer<typeof stockReservationStatusSchema>;
+
+// Stock reservation schema
+export const stockReservationSchema = z.object({
+  id: z.number(),
+  order_id: z.number(),
+  order_item_id: z.number(),
+  product_id: z.number(),
+  warehouse: warehouseSchema,
+  quantity: z.number().int().positive(),
+  status: stockReservationStatusSchema,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type StockReservation = z.infer<typeof stockReservationSchema>;
+
 // Client product pricing schema
 export const clientProductPricingSchema = z.object({
   id: z.number(),
@@ -142,6 +364,53 @@ export const clientProductPricingSchema = z.object({
 
 export type ClientProductPricing = z.infer<typeof clientProductPricingSchema>;
 
+export const clientGroupSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ClientGroup = z.infer<typeof clientGroupSchema>;
+
+// Pricing rule: no product, brand or category means every product; exactly one of fixed_price and discount_percentage is set
+export const pricingRuleSchema = z.object({
+  id: z.number(),
+  price_list_id: z.number(),
+  product_id: z.number().nullable(),
+  brand: z.string().nullable(),
+  category: z.string().nullable(),
+  min_quantity: z.number().int(),
+  fixed_price: z.number().nullable(),
+  discount_percentage: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type PricingRule = z.infer<typeof pricingRuleSchema>;
+
+// Price list: no client and no client group means every client
+export const priceListSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  client_id: z.number().nullable(),
+  client_group_id: z.number().nullable(),
+  priority: z.number().int(),
+  valid_from: z.coerce.date().nullable(),
+  valid_until: z.coerce.date().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PriceList = z.infer<typeof priceListSchema>;
+
+export const priceListWithRulesSchema = priceListSchema.extend({
+  rules: z.array(pricingRuleSchema)
+});
+
+export type PriceListWithRules = z.infer<typeof priceListWithRulesSchema>;
+
 // Order schema
 export const orderSchema = z.object({
   id: z.number(),
@@ -152,6 +421,8 @@ export const orderSchema = z.object({
   total_amount: z.number(),
   carrier: carrierSchema,
   is_grouped: z.boolean(),
+  shipment_group_id: z.number().nullable(),
+  quote_id: z.number().nullable(),
   sage_document_number: z.string().nullable(),
   validated_by: z.number().nullable(),
   validated_at: z.coerce.date().nullable(),
@@ -171,23 +442,88 @@ export const orderItemSchema = z.object({
   quantity: z.number().int().positive(),
   unit_price: z.number(),
   total_price: z.number(),
+  backordered_quantity: z.number().int().nonnegative(),
   created_at: z.coerce.date()
 });
 
 export type OrderItem = z.infer<typeof orderItemSchema>;
 
-// Quote schema
+// Shipment group schema (shipping_date is a local YYYY-MM-DD day)
+export const shipmentGroupSchema = z.object({
+  id: z.number(),
+  client_id: z.number(),
+  carrier: carrierSchema,
+  shipping_date: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ShipmentGroup = z.infer<typeof shipmentGroupSchema>;
+
+// Order status history schema (from_status is null for the creation entry)
+export const orderStatusHistoryEntrySchema = z.object({
+  id: z.number(),
+  order_id: z.number(),
+  from_status: orderStatusSchema.nullable(),
+  to_status: orderStatusSchema,
+  changed_by: z.number().nullable(),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type OrderStatusHistoryEntry = z.infer<typeof orderStatusHistoryEntrySchema>;
+
+// Order with its status history, oldest entry first
+export const orderDetailsSchema = orderSchema.extend({
+  status_history: z.array(orderStatusHistoryEntrySchema)
+});
+
+export type OrderDetails = z.infer<typeof orderDetailsSchema>;
+
+// Order awaiting accounting validation, with the client's credit position
+export const pendingValidationOrderSchema = orderSchema.extend({
+  company_name: z.string(),
+  credit_limit: z.number(),
+  current_balance: z.number(),
+  overdue_amount: z.number(),
+  is_blocked: z.boolean(),
+  passes_credit_check: z.boolean()
+});
+
+export type PendingValidationOrder = z.infer<typeof pendingValidationOrderSchema>;
+
+export const pendingValidationPageSchema = z.object({
+  orders: z.array(pendingValidationOrderSchema),
+  total: z.number().int(),
+  page: z.number().int(),
+  page_size: z.number().int()
+});
+
+export type PendingValidationPage = z.infer<typeof pendingValidationPageSchema>;
+
+export const quoteStatusSchema = z.enum(['draft', 'sent', 'accepted', 'rejected', 'expired', 'superseded']);
+
+export type QuoteStatus = z.infer<typeof quoteStatusSchema>;
+
+// Quote schema; revisions keep the quote number with an -R<n> suffix and point to the version they replace
 export const quoteSchema = z.object({
   id: z.number(),
   client_id: z.number(),
   representative_id: z.number(),
   quote_number: z.string(),
+  status: quoteStatusSchema,
+  revision: z.number().int(),
+  previous_version_id: z.number().nullable(),
   total_amount: z.number(),
   qr_code: z.string(),
+  share_token: z.string(),
   share_link: z.string(),
   is_converted_to_order: z.boolean(),
   order_id: z.number().nullable(),
   expires_at: z.coerce.date(),
+  sent_at: z.coerce.date().nullable(),
+  responded_at: z.coerce.date().nullable(),
+  rejection_reason: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -202,11 +538,45 @@ export const quoteItemSchema = z.object({
   quantity: z.number().int().positive(),
   unit_price: z.number(),
   total_price: z.number(),
+  order_id: z.number().nullable(),
   created_at: z.coerce.date()
 });
 
 export type QuoteItem = z.infer<typeof quoteItemSchema>;
 
+export const qrCodeFormatSchema = z.enum(['svg', 'png']);
+
+export type QrCodeFormat = z.infer<typeof qrCodeFormatSchema>;
+
+// QR code of a quote share link: SVG markup, or base64-encoded PNG
+export const quoteQrCodeSchema = z.object({
+  format: qrCodeFormatSchema,
+  mime_type: z.string(),
+  data: z.string()
+});
+
+export type QuoteQrCode = z.infer<typeof quoteQrCodeSchema>;
+
+// Quote as shown on its public share page: only what the recipient needs to read it
+export const sharedQuoteSchema = z.object({
+  quote_number: z.string(),
+  status: quoteStatusSchema,
+  company_name: z.string(),
+  total_amount: z.number(),
+  expires_at: z.coerce.date(),
+  created_at: z.coerce.date(),
+  items: z.array(z.object({
+    reference: z.string(),
+    designation: z.string(),
+    brand: z.string().nullable(),
+    quantity: z.number().int(),
+    unit_price: z.number(),
+    total_price: z.number()
+  }))
+});
+
+export type SharedQuote = z.infer<typeof sharedQuoteSchema>;
+
 // Transfer request schema
 export const transferRequestSchema = z.object({
   id: z.number(),
@@ -216,6 +586,9 @@ export const transferRequestSchema = z.object({
   to_warehouse: warehouseSchema,
   quantity_requested: z.number().int().positive(),
   quantity_prepared: z.number().int().nonnegative(),
+  quantity_received: z.number().int().nonnegative().nullable(),
+  reservation_id: z.number().nullable(),
+  backorder_of_id: z.number().nullable(),
   status: transferStatusSchema,
   requested_by: z.number(),
   prepared_by: z.number().nullable(),
@@ -229,6 +602,61 @@ export const transferRequestSchema = z.object({
 
 export type TransferRequest = z.infer<typeof transferRequestSchema>;
 
+// Transfer discrepancy schema
+export const transferDiscrepancySchema = z.object({
+  id: z.number(),
+  transfer_id: z.number(),
+  product_id: z.number(),
+  quantity_shipped: z.number().int().nonnegative(),
+  quantity_received: z.number().int().nonnegative(),
+  backorder_transfer_id: z.number().nullable(),
+  reported_by: z.number(),
+  note: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type TransferDiscrepancy = z.infer<typeof transferDiscrepancySchema>;
+
+// Sage export outbox entry schema
+export const sageExportSchema = z.object({
+  id: z.number(),
+  order_id: z.number(),
+  status: sageExportStatusSchema,
+  attempts: z.number().int(),
+  last_error: z.string().nullable(),
+  next_attempt_at: z.coerce.date(),
+  exported_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type SageExport = z.infer<typeof sageExportSchema>;
+
+// Session schema (refresh token hashes are never exposed)
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  user_agent: z.string().nullable(),
+  expires_at: z.coerce.date(),
+  last_used_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  is_current: z.boolean()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+// Audit log entry schema
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  action: z.string(),
+  details: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
 // Input schemas for creating entities
 export const createUserInputSchema = z.object({
   email: z.string().email(),
@@ -252,6 +680,36 @@ export const createClientInputSchema = z.object({
 
 export type CreateClientInput = z.infer<typeof createClientInputSchema>;
 
+export const createClientGroupInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(1000).nullable().optional()
+});
+
+export type CreateClientGroupInput = z.infer<typeof createClientGroupInputSchema>;
+
+export const pricingRuleInputSchema = z.object({
+  product_id: z.number().nullable().optional(),
+  brand: z.string().trim().min(1).max(100).nullable().optional(),
+  category: z.string().trim().min(1).max(100).nullable().optional(),
+  min_quantity: z.number().int().positive().default(1),
+  fixed_price: z.number().positive().nullable().optional(),
+  discount_percentage: z.number().positive().max(100).nullable().optional()
+});
+
+export type PricingRuleInput = z.infer<typeof pricingRuleInputSchema>;
+
+export const createPriceListInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  client_id: z.number().nullable().optional(),
+  client_group_id: z.number().nullable().optional(),
+  priority: z.number().int().default(0),
+  valid_from: z.coerce.date().nullable().optional(),
+  valid_until: z.coerce.date().nullable().optional(),
+  rules: z.array(pricingRuleInputSchema).default([])
+});
+
+export type CreatePriceListInput = z.infer<typeof createPriceListInputSchema>;
+
 export const createProductInputSchema = z.object({
   reference: z.string(),
   designation: z.string(),
@@ -287,11 +745,24 @@ export const createQuoteInputSchema = z.object({
 
 export type CreateQuoteInput = z.infer<typeof createQuoteInputSchema>;
 
+// Drafts can be edited until they are sent; the items replace the current lines
+export const updateQuoteInputSchema = z.object({
+  quote_id: z.number(),
+  items: z.array(z.object({
+    product_id: z.number(),
+    quantity: z.number().int().positive()
+  })).min(1),
+  expires_in_days: z.number().int().positive().optional()
+});
+
+export type UpdateQuoteInput = z.infer<typeof updateQuoteInputSchema>;
+
 // Update schemas
 export const updateOrderStatusInputSchema = z.object({
   order_id: z.number(),
   status: orderStatusSchema,
-  updated_by: z.number()
+  updated_by: z.number(),
+  reason: z.string().trim().min(1).max(500).optional()
 });
 
 export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusInputSchema>;
@@ -304,6 +775,58 @@ export const updateStockInputSchema = z.object({
 
 export type UpdateStockInput = z.infer<typeof updateStockInputSchema>;
 
+export const setReorderPointInputSchema = z.object({
+  product_id: z.number(),
+  warehouse: warehouseSchema,
+  min_quantity: z.number().int().nonnegative(),
+  max_quantity: z.number().int().positive().nullable().optional()
+});
+
+export type SetReorderPointInput = z.infer<typeof setReorderPointInputSchema>;
+
+export const createSupplierInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  contact_name: z.string().trim().min(1).max(255).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(20).nullable().optional(),
+  address: z.string().nullable().optional()
+});
+
+export type CreateSupplierInput = z.infer<typeof createSupplierInputSchema>;
+
+export const createPurchaseOrderInputSchema = z.object({
+  supplier_id: z.number(),
+  warehouse: warehouseSchema,
+  expected_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+  items: z.array(z.object({
+    product_id: z.number(),
+    quantity: z.number().int().positive(),
+    unit_cost: z.number().nonnegative()
+  }))
+});
+
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderInputSchema>;
+
+export const receivePurchaseOrderInputSchema = z.object({
+  purchase_order_id: z.number(),
+  // Defaults to the warehouse the order was placed for
+  warehouse: warehouseSchema.optional(),
+  lines: z.array(z.object({
+    line_id: z.number(),
+    quantity: z.number().int().positive()
+  })).min(1)
+});
+
+export type ReceivePurchaseOrderInput = z.infer<typeof receivePurchaseOrderInputSchema>;
+
+export const openInventorySessionInputSchema = z.object({
+  warehouse: warehouseSchema,
+  category: z.string().trim().min(1).optional()
+});
+
+export type OpenInventorySessionInput = z.infer<typeof openInventorySessionInputSchema>;
+
 // Authentication schemas
 export const loginInputSchema = z.object({
   email: z.string().email(),
@@ -314,8 +837,58 @@ export type LoginInput = z.infer<typeof loginInputSchema>;
 
 export const authResponseSchema = z.object({
   token: z.string(),
-  user: userSchema,
+  refresh_token: z.string(),
+  user: publicUserSchema,
   client: clientSchema.nullable().optional()
 });
 
-export type AuthResponse = z.infer<typeof authResponseSchema>;
\ No newline at end of file
+export type AuthResponse = z.infer<typeof authResponseSchema>;
+
+// Policy for passwords chosen by users themselves
+export const passwordPolicySchema = z.string()
+  .min(8, 'Password must be at least 8 characters long')
+  .max(128, 'Password must be at most 128 characters long')
+  .regex(/[a-z]/, 'Password must contain a lowercase letter')
+  .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+  .regex(/[0-9]/, 'Password must contain a digit');
+
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: passwordPolicySchema
+});
+
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const confirmPasswordResetInputSchema = z.object({
+  token: z.string().min(1),
+  new_password: passwordPolicySchema
+});
+
+export type ConfirmPasswordResetInput = z.infer<typeof confirmPasswordResetInputSchema>;
+
+export const refreshSessionInputSchema = z.object({
+  refresh_token: z.string().min(1)
+});
+
+export type RefreshSessionInput = z.infer<typeof refreshSessionInputSchema>;
+
+export const revokeSessionInputSchema = z.object({
+  session_id: z.number()
+});
+
+export type RevokeSessionInput = z.infer<typeof revokeSessionInputSchema>;
+
+// Generated document, base64-encoded so it can travel through tRPC
+export const documentFileSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  data: z.string()
+});
+
+export type DocumentFile = z.infer<typeof documentFileSchema>;
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, ordersTable, clientProductPricingTable, productsTable } from '../db/schema';
+import { type User } from '../schema';
+import { canAccessClient, getClientIdForUser } from '../handlers/access';
+import { appRouter } from '../router';
+import { createCallerFactory } from '../trpc';
+
+const createCaller = createCallerFactory(appRouter);
+
+async function createUserWithRole(email: string, role: User['role']): Promise<User> {
+  const result = await db.insert(usersTable)
+    .values({ email, password_hash: 'hashed_password', role })
+    .returning()
+    .execute();
+  return result[0];
+}
+
+async function createTestData() {
+  const repA = await createUserWithRole('rep.a@test.com', 'representative');
+  const repB = await createUserWithRole('rep.b@test.com', 'representative');
+  const clientUserA = await createUserWithRole('client.a@test.com', 'client');
+  const clientUserB = await createUserWithRole('client.b@test.com', 'client');
+  const accounting = await createUserWithRole('accounting@test.com', 'accounting');
+
+  const clients = await db.insert(clientsTable)
+    .values([
+      { user_id: clientUserA.id, company_name: 'Garage A', contact_name: 'Ali', credit_limit: '10000.00', representative_id: repA.id },
+      { user_id: clientUserB.id, company_name: 'Garage B', contact_name: 'Badr', credit_limit: '20000.00', representative_id: repB.id }
+    ])
+    .returning()
+    .execute();
+
+  const orders = await db.insert(ordersTable)
+    .values([
+      { client_id: clients[0].id, order_number: 'ORD-A-1', total_amount: '100.00', carrier: 'ghazala' },
+      { client_id: clients[1].id, order_number: 'ORD-B-1', total_amount: '200.00', carrier: 'sh2t' }
+    ])
+    .returning()
+    .execute();
+
+  const product = await db.insert(productsTable)
+    .values({ reference: 'FLT-001', designation: 'Oil filter', base_price: '50.00' })
+    .returning()
+    .execute();
+
+  await db.insert(clientProductPricingTable)
+    .values({ client_id: clients[1].id, product_id: product[0].id, custom_price: '45.00', discount_percentage: '10.00' })
+    .execute();
+
+  return {
+    repA,
+    repB,
+    clientUserA,
+    clientUserB,
+    accounting,
+    clientA: clients[0],
+    clientB: clients[1],
+    orderA: orders[0],
+    orderB: orders[1]
+  };
+}
+
+describe('row-level access', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('canAccessClient', () => {
+    it('should pin client users to their own client record', async () => {
+      const { clientUserA, clientA, clientB } = await createTestData();
+
+      expect(await getClientIdForUser(clientUserA.id)).toEqual(clientA.id);
+      expect(await canAccessClient(clientUserA, clientA.id)).toBe(true);
+      expect(await canAccessClient(clientUserA, clientB.id)).toBe(false);
+    });
+
+    it('should limit representatives to their assigned clients', async () => {
+      const { repA, clientA, clientB } = await createTestData();
+
+      expect(await canAccessClient(repA, clientA.id)).toBe(true);
+      expect(await canAccessClient(repA, clientB.id)).toBe(false);
+    });
+
+    it('should let back-office roles see every client', async () => {
+      const { accounting, clientA, clientB } = await createTestData();
+
+      expect(await canAccessClient(accounting, clientA.id)).toBe(true);
+      expect(await canAccessClient(accounting, clientB.id)).toBe(true);
+    });
+
+    it('should deny unknown clients to scoped roles', async () => {
+      const { repA, clientUserA } = await createTestData();
+
+      expect(await canAccessClient(repA, 99999)).toBe(false);
+      expect(await canAccessClient(clientUserA, 99999)).toBe(false);
+    });
+  });
+
+  describe('client users', () => {
+    it('should read their own records', async () => {
+      const { clientUserA, clientA, orderA } = await createTestData();
+      const caller = createCaller({ user: clientUserA });
+
+      const client = await caller.clients.getById({ clientId: clientA.id });
+      const orders = await caller.orders.getByClient({ clientId: clientA.id });
+
+      expect(client?.company_name).toEqual('Garage A');
+      expect(typeof client?.credit_limit).toBe('number');
+      expect(orders).toHaveLength(1);
+      expect(orders[0].id).toEqual(orderA.id);
+    });
+
+    it('should be forbidden from other clients records', async () => {
+      const { clientUserA, clientB, orderB } = await createTestData();
+      const caller = createCaller({ user: clientUserA });
+
+      await expect(caller.clients.getById({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.orders.getByClient({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.quotes.getByClient({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.pricing.getClientCustomPricing({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.clients.getDashboardData({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.orders.getById({ orderId: orderB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.orders.getItems({ orderId: orderB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should be forbidden from ordering on behalf of another client', async () => {
+      const { clientUserA, clientB } = await createTestData();
+      const caller = createCaller({ user: clientUserA });
+
+      await expect(caller.orders.create({
+        client_id: clientB.id,
+        carrier: 'ghazala',
+        items: []
+      })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('representatives', () => {
+    it('should read records of their assigned clients', async () => {
+      const { repA, clientA } = await createTestData();
+      const caller = createCaller({ user: repA });
+
+      const client = await caller.clients.getById({ clientId: clientA.id });
+
+      expect(client?.id).toEqual(clientA.id);
+    });
+
+    it('should be forbidden from clients of other representatives', async () => {
+      const { repA, repB, clientB, orderB } = await createTestData();
+      const caller = createCaller({ user: repA });
+
+      await expect(caller.clients.getById({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.orders.getByClient({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.pricing.getClientCustomPricing({ clientId: clientB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.orders.getById({ orderId: orderB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.clients.getByRepresentative({ representativeId: repB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.dashboards.representative({ representativeId: repB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      await expect(caller.quotes.create({
+        client_id: clientB.id,
+        representative_id: repA.id,
+        items: [],
+        expires_in_days: 30
+      })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should sign quotes with their own id', async () => {
+      const { repA, repB, clientA } = await createTestData();
+      const caller = createCaller({ user: repA });
+
+      const quote = await caller.quotes.create({
+        client_id: clientA.id,
+        representative_id: repB.id,
+        items: [],
+        expires_in_days: 30
+      });
+
+      expect(quote.representative_id).toEqual(repA.id);
+    });
+  });
+
+  describe('back-office roles', () => {
+    it('should see every client', async () => {
+      const { accounting, clientA, clientB } = await createTestData();
+      const caller = createCaller({ user: accounting });
+
+      const clientResultA = await caller.clients.getById({ clientId: clientA.id });
+      const clientResultB = await caller.clients.getById({ clientId: clientB.id });
+      const pricing = await caller.pricing.getClientCustomPricing({ clientId: clientB.id });
+
+      expect(clientResultA?.id).toEqual(clientA.id);
+      expect(clientResultB?.id).toEqual(clientB.id);
+      expect(pricing).toHaveLength(1);
+      expect(pricing[0].custom_price).toEqual(45);
+    });
+  });
+});
@@ -1,10 +1,13 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, clientsTable } from '../db/schema';
+import { usersTable, clientsTable, passwordResetTokensTable } from '../db/schema';
 import { type LoginInput, type CreateUserInput } from '../schema';
-import { login, createUser, resetPassword } from '../handlers/auth';
+import { login, createUser, requestPasswordReset, confirmPasswordReset, changePassword } from '../handlers/auth';
+import { getAuditLog } from '../handlers/audit';
+import { setMailTransport, consoleMailTransport, type MailMessage } from '../mail';
 import { eq } from 'drizzle-orm';
+import { createHash } from 'crypto';
 
 const JWT_SECRET = process.env['JWT_SECRET'] || 'dev-secret-key';
 
@@ -91,7 +94,14 @@ describe('Auth Handlers', () => {
 
       // Password should be hashed, not stored in plain text
       expect(result.password_hash).not.toEqual(testUserInput.password);
-      expect(result.password_hash).toHaveLength(64); // SHA256 hex length
+      expect(result.password_hash).toMatch(/^scrypt\$1\$16384\$8\$1\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$/);
+    });
+
+    it('should salt hashes so equal passwords produce different hashes', async () => {
+      const first = await createUser(testUserInput);
+      const second = await createUser({ ...testUserInput, email: 'other@example.com' });
+
+      expect(first.password_hash).not.toEqual(second.password_hash);
     });
   });
 
@@ -109,6 +119,7 @@ describe('Auth Handlers', () => {
       expect(result.user.email).toEqual(testLoginInput.email);
       expect(result.user.role).toEqual('representative');
       expect(result.user.is_active).toBe(true);
+      expect(result.user).not.toHaveProperty('password_hash');
       expect(result.client).toBeNull(); // Not a client user
     });
 
@@ -150,6 +161,70 @@ describe('Auth Handlers', () => {
       await expect(login(testLoginInput)).rejects.toThrow(/account is deactivated/i);
     });
 
+    it('should not reveal a deactivated account to a wrong password', async () => {
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.email, testUserInput.email))
+        .execute();
+
+      await expect(login({ email: testUserInput.email, password: 'wrongpassword' })).rejects.toThrow(/invalid credentials/i);
+    });
+
+    it('should upgrade a legacy SHA-256 hash on successful login', async () => {
+      const legacyHash = createHash('sha256').update('legacypass').digest('hex');
+      await db.insert(usersTable)
+        .values({
+          email: 'legacy@example.com',
+          password_hash: legacyHash,
+          role: 'accounting'
+        })
+        .execute();
+
+      const result = await login({ email: 'legacy@example.com', password: 'legacypass' });
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, 'legacy@example.com'))
+        .execute();
+
+      expect(result.user.email).toEqual('legacy@example.com');
+      expect(users[0].password_hash).not.toEqual(legacyHash);
+      expect(users[0].password_hash).toStartWith('scrypt$1$');
+
+      // The upgraded hash keeps working
+      const secondLogin = await login({ email: 'legacy@example.com', password: 'legacypass' });
+      expect(secondLogin.user.id).toEqual(result.user.id);
+    });
+
+    it('should not upgrade a legacy hash when the password is wrong', async () => {
+      const legacyHash = createHash('sha256').update('legacypass').digest('hex');
+      await db.insert(usersTable)
+        .values({
+          email: 'legacy@example.com',
+          password_hash: legacyHash,
+          role: 'accounting'
+        })
+        .execute();
+
+      await expect(login({ email: 'legacy@example.com', password: 'wrong' })).rejects.toThrow(/invalid credentials/i);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.email, 'legacy@example.com'))
+        .execute();
+
+      expect(users[0].password_hash).toEqual(legacyHash);
+    });
+
+    it('should reject a corrupted password hash', async () => {
+      await db.update(usersTable)
+        .set({ password_hash: 'scrypt$1$garbage' })
+        .where(eq(usersTable.email, testUserInput.email))
+        .execute();
+
+      await expect(login(testLoginInput)).rejects.toThrow(/invalid credentials/i);
+    });
+
     it('should include client data for client users', async () => {
       // Create client user
       const clientUser = await createUser(testClientUserInput);
@@ -203,27 +278,209 @@ describe('Auth Handlers', () => {
     });
   });
 
-  describe('resetPassword', () => {
+  describe('password reset', () => {
+    let sentMail: MailMessage[];
+
+    // Pull the plain token out of the emailed link
+    function tokenFromMail(message: MailMessage): string {
+      const match = message.text.match(/reset_token=([0-9a-f]+)/);
+      if (!match) throw new Error('No reset link in email');
+      return match[1];
+    }
+
     beforeEach(async () => {
+      sentMail = [];
+      setMailTransport({ send: async (message) => { sentMail.push(message); } });
       await createUser(testUserInput);
     });
 
-    it('should initiate password reset for existing user', async () => {
-      const result = await resetPassword(testUserInput.email);
+    afterEach(() => {
+      setMailTransport(consoleMailTransport);
+    });
+
+    it('should store a hashed token and email the reset link', async () => {
+      const result = await requestPasswordReset({ email: testUserInput.email });
 
       expect(result.success).toBe(true);
+      expect(sentMail).toHaveLength(1);
+      expect(sentMail[0].to).toEqual(testUserInput.email);
+
+      const token = tokenFromMail(sentMail[0]);
+      const tokens = await db.select().from(passwordResetTokensTable).execute();
+
+      expect(tokens).toHaveLength(1);
+      expect(tokens[0].token_hash).not.toEqual(token);
+      expect(tokens[0].token_hash).toEqual(createHash('sha256').update(token).digest('hex'));
+      expect(tokens[0].used_at).toBeNull();
+      expect(tokens[0].expires_at.getTime()).toBeGreaterThan(Date.now());
     });
 
-    it('should throw error for non-existent user', async () => {
-      await expect(resetPassword('nonexistent@example.com')).rejects.toThrow(/user not found/i);
+    it('should record an audit entry for the director', async () => {
+      await requestPasswordReset({ email: testUserInput.email });
+
+      const entries = await getAuditLog();
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].action).toEqual('password_reset_requested');
+      expect(entries[0].details).toContain(testUserInput.email);
+    });
+
+    it('should keep the reset link out of the server log without a mail transport', async () => {
+      setMailTransport(consoleMailTransport);
+      const warn = spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        await requestPasswordReset({ email: testUserInput.email });
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(String(warn.mock.calls[0][0])).toContain(testUserInput.email);
+        expect(String(warn.mock.calls[0][0])).not.toContain('reset_token');
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should answer the same way for an unknown email without sending mail', async () => {
+      const result = await requestPasswordReset({ email: 'nonexistent@example.com' });
+
+      expect(result).toEqual({ success: true });
+      expect(sentMail).toHaveLength(0);
+      expect(await db.select().from(passwordResetTokensTable).execute()).toHaveLength(0);
+    });
+
+    it('should answer the same way for a deactivated account without sending mail', async () => {
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.email, testUserInput.email))
+        .execute();
+
+      const result = await requestPasswordReset({ email: testUserInput.email });
+
+      expect(result).toEqual({ success: true });
+      expect(sentMail).toHaveLength(0);
+      expect(await db.select().from(passwordResetTokensTable).execute()).toHaveLength(0);
+      expect(await getAuditLog()).toHaveLength(0);
     });
 
     it('should handle multiple reset requests', async () => {
-      const result1 = await resetPassword(testUserInput.email);
-      const result2 = await resetPassword(testUserInput.email);
+      const result1 = await requestPasswordReset({ email: testUserInput.email });
+      const result2 = await requestPasswordReset({ email: testUserInput.email });
 
       expect(result1.success).toBe(true);
       expect(result2.success).toBe(true);
+      expect(sentMail).toHaveLength(2);
+    });
+
+    it('should change the password with a valid token', async () => {
+      await requestPasswordReset({ email: testUserInput.email });
+      const token = tokenFromMail(sentMail[0]);
+
+      const result = await confirmPasswordReset({ token, new_password: 'NewPassword456' });
+
+      expect(result.success).toBe(true);
+      await expect(login(testLoginInput)).rejects.toThrow(/invalid credentials/i);
+      const loginResult = await login({ email: testUserInput.email, password: 'NewPassword456' });
+      expect(loginResult.user.email).toEqual(testUserInput.email);
+
+      const entries = await getAuditLog();
+      expect(entries.map(entry => entry.action)).toContain('password_reset_completed');
+    });
+
+    it('should only accept a token once', async () => {
+      await requestPasswordReset({ email: testUserInput.email });
+      const token = tokenFromMail(sentMail[0]);
+
+      await confirmPasswordReset({ token, new_password: 'NewPassword456' });
+
+      await expect(confirmPasswordReset({ token, new_password: 'Another789x' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should invalidate other outstanding tokens once one is used', async () => {
+      await requestPasswordReset({ email: testUserInput.email });
+      await requestPasswordReset({ email: testUserInput.email });
+      const firstToken = tokenFromMail(sentMail[0]);
+      const secondToken = tokenFromMail(sentMail[1]);
+
+      await confirmPasswordReset({ token: secondToken, new_password: 'NewPassword456' });
+
+      await expect(confirmPasswordReset({ token: firstToken, new_password: 'Another789x' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an expired token', async () => {
+      await requestPasswordReset({ email: testUserInput.email });
+      const token = tokenFromMail(sentMail[0]);
+
+      await db.update(passwordResetTokensTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(confirmPasswordReset({ token, new_password: 'NewPassword456' })).rejects.toThrow(/invalid or expired/i);
+    });
+
+    it('should reject an unknown token', async () => {
+      await expect(confirmPasswordReset({ token: 'deadbeef', new_password: 'NewPassword456' })).rejects.toThrow(/invalid or expired/i);
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should change the password when the current one is correct', async () => {
+      const user = await createUser(testUserInput);
+
+      const result = await changePassword(user.id, null, {
+        current_password: testUserInput.password,
+        new_password: 'Stronger2024'
+      });
+
+      expect(result.success).toBe(true);
+      await expect(login(testLoginInput)).rejects.toThrow(/invalid credentials/i);
+      const loginResult = await login({ email: testUserInput.email, password: 'Stronger2024' });
+      expect(loginResult.user.id).toEqual(user.id);
+    });
+
+    it('should record when the password changed', async () => {
+      const user = await createUser(testUserInput);
+      expect(user.password_changed_at).toBeNull();
+
+      await changePassword(user.id, null, {
+        current_password: testUserInput.password,
+        new_password: 'Stronger2024'
+      });
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      expect(users[0].password_changed_at).toBeInstanceOf(Date);
+
+      const entries = await getAuditLog();
+      expect(entries[0].action).toEqual('password_changed');
+      expect(entries[0].user_id).toEqual(user.id);
+    });
+
+    it('should reject a wrong current password', async () => {
+      const user = await createUser(testUserInput);
+
+      await expect(changePassword(user.id, null, {
+        current_password: 'wrongpassword',
+        new_password: 'Stronger2024'
+      })).rejects.toThrow(/current password is incorrect/i);
+    });
+
+    it('should reject reusing the current password', async () => {
+      const user = await createUser({ ...testUserInput, password: 'Stronger2024' });
+
+      await expect(changePassword(user.id, null, {
+        current_password: 'Stronger2024',
+        new_password: 'Stronger2024'
+      })).rejects.toThrow(/must be different/i);
+    });
+
+    it('should throw error for non-existent user', async () => {
+      await expect(changePassword(99999, null, {
+        current_password: 'password123',
+        new_password: 'Stronger2024'
+      })).rejects.toThrow(/user not found/i);
     });
   });
 
@@ -270,7 +527,7 @@ describe('Auth Handlers', () => {
       expect(loginResult.user.id).toEqual(user.id);
 
       // Reset password should work
-      const resetResult = await resetPassword(testUserInput.email);
+      const resetResult = await requestPasswordReset({ email: testUserInput.email });
       expect(resetResult.success).toBe(true);
     });
   });
@@ -3,7 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { clientsTable, usersTable } from '../db/schema';
 import { type CreateClientInput } from '../schema';
-import { createClient } from '../handlers/clients';
+import { createClient, getClientById } from '../handlers/clients';
 import { eq } from 'drizzle-orm';
 
 // Test input with all required fields
@@ -207,4 +207,42 @@ describe('createClient', () => {
     expect(result.address).toEqual('123 Rue de l\'Église, Bâtiment A');
     expect(result.city).toEqual('Saint-Étienne');
   });
-});
\ No newline at end of file
+});
+
+describe('getClientById', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await db.insert(usersTable).values({
+      email: 'client@test.com',
+      password_hash: 'hashed_password',
+      role: 'client'
+    }).execute();
+
+    await db.insert(usersTable).values({
+      email: 'rep@test.com',
+      password_hash: 'hashed_password',
+      role: 'representative'
+    }).execute();
+  });
+
+  it('should return the client with numeric fields converted', async () => {
+    const created = await createClient(testInput);
+
+    const result = await getClientById(created.id);
+
+    expect(result).not.toBeNull();
+    expect(result?.id).toEqual(created.id);
+    expect(result?.company_name).toEqual('Test Company Ltd');
+    expect(result?.credit_limit).toEqual(50000);
+    expect(typeof result?.current_balance).toBe('number');
+    expect(typeof result?.overdue_amount).toBe('number');
+  });
+
+  it('should return null for a non-existent client', async () => {
+    const result = await getClientById(99999);
+
+    expect(result).toBeNull();
+  });
+});
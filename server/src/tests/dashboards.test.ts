@@ -462,6 +462,7 @@ describe('Dashboard Handlers', () => {
       expect(result.transferRequests).toHaveLength(0);
       expect(result.todayTransfers.prepared).toEqual(0);
       expect(result.todayTransfers.shipped).toEqual(0);
+      expect(result.lowStockAlerts).toHaveLength(0);
     });
   });
 
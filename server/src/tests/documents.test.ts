@@ -0,0 +1,331 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  usersTable,
+  clientsTable,
+  productsTable,
+  quotesTable,
+  quoteItemsTable,
+  ordersTable,
+  orderItemsTable,
+  shipmentGroupsTable,
+  transferRequestsTable
+} from '../db/schema';
+import { type DocumentFile } from '../schema';
+import {
+  formatAmount,
+  getQuotePdf,
+  getOrderConfirmationPdf,
+  getDeliveryNotePdf,
+  getTransferSlipPdf
+} from '../handlers/documents';
+import { PdfDocument, extractPdfText } from '../pdf';
+import { appRouter } from '../router';
+import { createCallerFactory } from '../trpc';
+
+function decode(file: DocumentFile): Buffer {
+  return Buffer.from(file.data, 'base64');
+}
+
+describe('PdfDocument', () => {
+  it('should write a PDF whose cross-reference table points at each object', () => {
+    const pdf = new PdfDocument('Essai');
+    pdf.text(40, 40, 'Première page');
+    pdf.addPage();
+    pdf.text(40, 40, 'Pièce (réf. 12) \\ 15 €');
+    const buffer = pdf.toBuffer(new Date('2024-03-05T10:00:00Z'));
+    const source = buffer.toString('latin1');
+
+    expect(source.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(source.endsWith('%%EOF\n')).toBe(true);
+    expect(source).toContain('/Count 2');
+    expect(source).toContain('/CreationDate (D:20240305100000Z)');
+
+    const startxref = parseInt(source.match(/startxref\n(\d+)/)![1]);
+    expect(source.slice(startxref, startxref + 4)).toEqual('xref');
+    const offsets = [...source.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => parseInt(match[1]));
+    offsets.forEach((offset, index) => {
+      expect(source.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+
+    expect(extractPdfText(buffer)).toEqual(['Première page', 'Pièce (réf. 12) \\ 15 €']);
+  });
+
+  it('should refuse to switch to a page that does not exist', () => {
+    expect(() => new PdfDocument('Essai').goToPage(1)).toThrow(/page 2 does not exist/i);
+  });
+});
+
+describe('formatAmount', () => {
+  it('should group thousands and use a decimal comma', () => {
+    expect(formatAmount(1234.5)).toEqual('1 234,50 MAD');
+    expect(formatAmount(1234567)).toEqual('1 234 567,00 MAD');
+    expect(formatAmount(99.99)).toEqual('99,99 MAD');
+    expect(formatAmount(-12)).toEqual('-12,00 MAD');
+  });
+});
+
+describe('document PDFs', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let clientUserId: number;
+  let representativeId: number;
+  let counterId: number;
+  let clientId: number;
+  let brakeId: number;
+  let filterId: number;
+
+  const setupTestData = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'garage@client.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'rep@konipa.com', password_hash: 'hashed_password', role: 'representative' },
+        { email: 'counter@konipa.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' }
+      ])
+      .returning()
+      .execute();
+    [clientUserId, representativeId, counterId] = users.map(user => user.id);
+
+    const clientResult = await db.insert(clientsTable)
+      .values({
+        user_id: clientUserId,
+        company_name: 'Garage Atlas',
+        contact_name: 'Karim Benali',
+        phone: '0522000000',
+        address: '12 rue de Fès',
+        city: 'Casablanca',
+        credit_limit: '50000.00',
+        representative_id: representativeId
+      })
+      .returning()
+      .execute();
+    clientId = clientResult[0].id;
+
+    const products = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Plaquettes de frein avant', base_price: '450.00' },
+        { reference: 'FLT-002', designation: 'Filtre à huile', base_price: '85.50' }
+      ])
+      .returning()
+      .execute();
+    [brakeId, filterId] = products.map(product => product.id);
+  };
+
+  const createQuote = async () => {
+    const quoteResult = await db.insert(quotesTable)
+      .values({
+        client_id: clientId,
+        representative_id: representativeId,
+        quote_number: 'DEV-2024-0001',
+        status: 'sent',
+        total_amount: '3070.50',
+        qr_code: '<svg/>',
+        share_token: 'a1'.repeat(32),
+        share_link: `https://portal.konipa.com/quotes/share/${'a1'.repeat(32)}`,
+        expires_at: new Date(2024, 3, 4),
+        created_at: new Date(2024, 2, 5)
+      })
+      .returning()
+      .execute();
+
+    await db.insert(quoteItemsTable)
+      .values([
+        { quote_id: quoteResult[0].id, product_id: brakeId, quantity: 6, unit_price: '450.00', total_price: '2700.00' },
+        { quote_id: quoteResult[0].id, product_id: filterId, quantity: 3, unit_price: '123.50', total_price: '370.50' }
+      ])
+      .execute();
+
+    return quoteResult[0];
+  };
+
+  const createOrder = async (orderNumber: string, values: { shipment_group_id?: number; status?: 'validated' | 'cancelled' } = {}) => {
+    const orderResult = await db.insert(ordersTable)
+      .values({
+        client_id: clientId,
+        order_number: orderNumber,
+        total_amount: '2785.50',
+        carrier: 'sh2t',
+        status: values.status ?? 'validated',
+        shipment_group_id: values.shipment_group_id ?? null,
+        created_at: new Date(2024, 2, 6)
+      })
+      .returning()
+      .execute();
+
+    await db.insert(orderItemsTable)
+      .values([
+        { order_id: orderResult[0].id, product_id: brakeId, quantity: 6, unit_price: '450.00', total_price: '2700.00' },
+        { order_id: orderResult[0].id, product_id: filterId, quantity: 1, unit_price: '85.50', total_price: '85.50' }
+      ])
+      .execute();
+
+    return orderResult[0];
+  };
+
+  const createShipmentGroup = async () => {
+    const groupResult = await db.insert(shipmentGroupsTable)
+      .values({ client_id: clientId, carrier: 'sh2t', shipping_date: '2024-03-07' })
+      .returning()
+      .execute();
+    return groupResult[0];
+  };
+
+  it('should render a quote with its lines, total and share QR code', async () => {
+    await setupTestData();
+    const quote = await createQuote();
+
+    const file = await getQuotePdf(quote.id);
+    const pdf = decode(file);
+    const text = extractPdfText(pdf);
+
+    expect(file.filename).toEqual('devis-DEV-2024-0001.pdf');
+    expect(file.mime_type).toEqual('application/pdf');
+    expect(pdf.subarray(0, 8).toString('latin1')).toEqual('%PDF-1.4');
+    expect(text).toEqual(expect.arrayContaining([
+      'KONIPA', 'DEVIS', 'N° DEV-2024-0001', 'Date : 05/03/2024',
+      'Garage Atlas', 'Karim Benali', '12 rue de Fès', 'Casablanca',
+      "Valable jusqu'au : 04/04/2024", 'Représentant : rep@konipa.com',
+      'BRK-001', 'Plaquettes de frein avant', '6', '450,00 MAD', '2 700,00 MAD',
+      'FLT-002', 'Filtre à huile', '123,50 MAD', '370,50 MAD',
+      'Total', '3 070,50 MAD',
+      'Scannez pour consulter le devis en ligne', quote.share_link,
+      'Page 1/1'
+    ]));
+    // The QR code is drawn as vector modules
+    expect(pdf.toString('latin1')).toMatch(/0 0 0 rg (?:[\d.]+ [\d.]+ [\d.]+ [\d.]+ re ){100,}f/);
+  });
+
+  it('should continue long tables on new pages with the column headers repeated', async () => {
+    await setupTestData();
+    const quote = await createQuote();
+    await db.insert(quoteItemsTable)
+      .values(Array.from({ length: 60 }, () => ({
+        quote_id: quote.id, product_id: filterId, quantity: 1, unit_price: '85.50', total_price: '85.50'
+      })))
+      .execute();
+
+    const text = extractPdfText(decode(await getQuotePdf(quote.id)));
+
+    expect(text).toContain('Page 1/2');
+    expect(text).toContain('Page 2/2');
+    expect(text.filter(value => value === 'Désignation')).toHaveLength(2);
+    expect(text.filter(value => value === 'KONIPA')).toHaveLength(2);
+    expect(text.filter(value => value === 'FLT-002')).toHaveLength(61);
+  });
+
+  it('should render an order confirmation with its prices and origin quote', async () => {
+    await setupTestData();
+    const quote = await createQuote();
+    const order = await createOrder('CMD-2024-0042');
+    await db.update(ordersTable).set({ quote_id: quote.id }).execute();
+
+    const file = await getOrderConfirmationPdf(order.id);
+    const text = extractPdfText(decode(file));
+
+    expect(file.filename).toEqual('commande-CMD-2024-0042.pdf');
+    expect(text).toEqual(expect.arrayContaining([
+      'CONFIRMATION DE COMMANDE', 'N° CMD-2024-0042', 'Date : 06/03/2024', 'Garage Atlas',
+      'Transporteur : SH2T', 'Devis : DEV-2024-0001',
+      'Plaquettes de frein avant', '2 700,00 MAD', 'Filtre à huile', '85,50 MAD', '2 785,50 MAD'
+    ]));
+  });
+
+  it('should list the shipped orders of a group on the delivery note without prices', async () => {
+    await setupTestData();
+    const group = await createShipmentGroup();
+    await createOrder('CMD-2024-0042', { shipment_group_id: group.id });
+    await createOrder('CMD-2024-0043', { shipment_group_id: group.id });
+    await createOrder('CMD-2024-0044', { shipment_group_id: group.id, status: 'cancelled' });
+
+    const file = await getDeliveryNotePdf(group.id);
+    const text = extractPdfText(decode(file));
+
+    expect(file.filename).toEqual(`bon-de-livraison-BL-20240307-${group.id}.pdf`);
+    expect(text).toEqual(expect.arrayContaining([
+      'BON DE LIVRAISON', `N° BL-20240307-${group.id}`, 'Date : 07/03/2024',
+      'Transporteur : SH2T', 'Commandes : 2', 'CMD-2024-0042', 'CMD-2024-0043',
+      'Articles', '14', 'Expédié par', 'Reçu par le client (nom, date, signature)'
+    ]));
+    expect(text).not.toContain('CMD-2024-0044');
+    expect(text.some(value => value.endsWith('MAD'))).toBe(false);
+  });
+
+  it('should refuse a delivery note for a group with nothing left to ship', async () => {
+    await setupTestData();
+    const group = await createShipmentGroup();
+    await createOrder('CMD-2024-0044', { shipment_group_id: group.id, status: 'cancelled' });
+
+    await expect(getDeliveryNotePdf(group.id)).rejects.toThrow(/has nothing to deliver/i);
+  });
+
+  it('should render a transfer slip with the warehouses and quantities', async () => {
+    await setupTestData();
+    const order = await createOrder('CMD-2024-0042');
+    const transferResult = await db.insert(transferRequestsTable)
+      .values({
+        order_id: order.id,
+        product_id: brakeId,
+        from_warehouse: 'la_villette',
+        to_warehouse: 'ibn_tachfine',
+        quantity_requested: 6,
+        quantity_prepared: 4,
+        status: 'shipped',
+        requested_by: counterId,
+        requested_at: new Date(2024, 2, 6)
+      })
+      .returning()
+      .execute();
+    const transfer = transferResult[0];
+
+    const file = await getTransferSlipPdf(transfer.id);
+    const text = extractPdfText(decode(file));
+
+    expect(file.filename).toEqual(`transfert-TR-${transfer.id}.pdf`);
+    expect(text).toEqual(expect.arrayContaining([
+      'BON DE TRANSFERT', `N° TR-${transfer.id}`, 'Date : 06/03/2024',
+      'De : La Villette', 'Vers : Ibn Tachfine', 'Statut : Expédié',
+      'Commande : CMD-2024-0042', 'Demandé par : counter@konipa.com',
+      'BRK-001', 'Plaquettes de frein avant', '6', '4', '-',
+      'Préparé à La Villette', 'Reçu à Ibn Tachfine'
+    ]));
+  });
+
+  it('should report unknown documents', async () => {
+    await expect(getQuotePdf(999)).rejects.toThrow(/quote 999 not found/i);
+    await expect(getOrderConfirmationPdf(999)).rejects.toThrow(/order 999 not found/i);
+    await expect(getDeliveryNotePdf(999)).rejects.toThrow(/shipment group 999 not found/i);
+    await expect(getTransferSlipPdf(999)).rejects.toThrow(/transfer 999 not found/i);
+  });
+
+  it('should only hand quote and order documents to the client they belong to', async () => {
+    await setupTestData();
+    const quote = await createQuote();
+    const order = await createOrder('CMD-2024-0042');
+    const otherUser = await db.insert(usersTable)
+      .values({ email: 'other@client.com', password_hash: 'hashed_password', role: 'client' })
+      .returning()
+      .execute();
+    await db.insert(clientsTable)
+      .values({ user_id: otherUser[0].id, company_name: 'Other Garage', contact_name: 'Other', credit_limit: '1000.00' })
+      .execute();
+
+    const createCaller = createCallerFactory(appRouter);
+    const asUser = async (id: number) => {
+      const users = await db.select().from(usersTable).execute();
+      return createCaller({ user: users.find(user => user.id === id)! });
+    };
+
+    const owner = await asUser(clientUserId);
+    expect((await owner.documents.quote({ quoteId: quote.id })).filename).toEqual('devis-DEV-2024-0001.pdf');
+    expect((await owner.documents.orderConfirmation({ orderId: order.id })).filename).toEqual('commande-CMD-2024-0042.pdf');
+
+    const other = await asUser(otherUser[0].id);
+    await expect(other.documents.quote({ quoteId: quote.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(other.documents.orderConfirmation({ orderId: order.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const representative = await asUser(representativeId);
+    expect((await representative.documents.quote({ quoteId: quote.id })).mime_type).toEqual('application/pdf');
+  });
+});
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, productsTable, stockTable, inventorySessionsTable } from '../db/schema';
+import { type Warehouse } from '../schema';
+import {
+  openInventorySession,
+  getInventorySessions,
+  getInventoryCountLines,
+  recordInventoryCount,
+  scanInventoryItem,
+  submitInventorySession,
+  postInventorySession,
+  cancelInventorySession,
+  getInventoryVarianceReport
+} from '../handlers/inventory';
+import { getStockHistory, recordStockMovement } from '../handlers/stock';
+import { and, eq } from 'drizzle-orm';
+
+describe('inventory count sessions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestData() {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' },
+        { email: 'director@example.com', password_hash: 'hashed_password', role: 'director_admin' },
+        { email: 'villette@example.com', password_hash: 'hashed_password', role: 'warehouse_la_villette' }
+      ])
+      .returning()
+      .execute();
+
+    const productResult = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Brake pad', category: 'Freinage', base_price: '100.00' },
+        { reference: 'BRK-002', designation: 'Brake disc', category: 'Freinage', base_price: '250.00' },
+        { reference: 'FLT-001', designation: 'Oil filter', category: 'Filtration', base_price: '25.50' },
+        { reference: 'OLD-001', designation: 'Discontinued', category: 'Freinage', base_price: '10.00', is_active: false }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(stockTable)
+      .values([
+        { product_id: productResult[0].id, warehouse: 'ibn_tachfine', quantity: 10 },
+        { product_id: productResult[1].id, warehouse: 'ibn_tachfine', quantity: 4 },
+        { product_id: productResult[2].id, warehouse: 'ibn_tachfine', quantity: 20 },
+        { product_id: productResult[0].id, warehouse: 'la_villette', quantity: 7 }
+      ])
+      .execute();
+
+    return {
+      counter: userResult[0],
+      director: userResult[1],
+      villette: userResult[2],
+      pads: productResult[0],
+      discs: productResult[1],
+      filters: productResult[2]
+    };
+  }
+
+  async function getQuantity(productId: number, warehouse: Warehouse) {
+    const rows = await db.select()
+      .from(stockTable)
+      .where(and(eq(stockTable.product_id, productId), eq(stockTable.warehouse, warehouse)))
+      .execute();
+    return rows[0]?.quantity ?? 0;
+  }
+
+  it('should freeze the system quantities of the products in scope when a session opens', async () => {
+    const { counter, pads, discs } = await createTestData();
+
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine', category: 'Freinage' }, counter.id);
+
+    expect(session).toMatchObject({ warehouse: 'ibn_tachfine', category: 'Freinage', status: 'counting', opened_by: counter.id });
+
+    await recordStockMovement({ productId: pads.id, warehouse: 'ibn_tachfine', type: 'receipt', quantity: 5 });
+
+    const lines = await getInventoryCountLines(session.id);
+    expect(lines.map(({ product_id, expected_quantity, counted_quantity }) => ({ product_id, expected_quantity, counted_quantity }))).toEqual([
+      { product_id: pads.id, expected_quantity: 10, counted_quantity: null },
+      { product_id: discs.id, expected_quantity: 4, counted_quantity: null }
+    ]);
+  });
+
+  it('should count one session per warehouse at a time', async () => {
+    const { counter, villette } = await createTestData();
+
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id);
+
+    await expect(openInventorySession({ warehouse: 'ibn_tachfine', category: 'Filtration' }, counter.id))
+      .rejects.toThrow(/already in progress for ibn_tachfine/i);
+    expect((await openInventorySession({ warehouse: 'la_villette' }, villette.id)).status).toEqual('counting');
+
+    const cancelled = await cancelInventorySession(session.id, counter.id);
+    expect(cancelled).toMatchObject({ status: 'cancelled', cancelled_by: counter.id });
+    expect(cancelled.cancelled_at).toBeInstanceOf(Date);
+    expect((await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id)).status).toEqual('counting');
+    expect(await getInventorySessions('ibn_tachfine', 'cancelled')).toHaveLength(1);
+  });
+
+  it('should keep each site to its own sessions', async () => {
+    const { counter, director, villette, pads } = await createTestData();
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id);
+
+    await expect(openInventorySession({ warehouse: 'la_villette' }, counter.id))
+      .rejects.toThrow(/role counter_ibn_tachfine cannot count stock at la_villette/i);
+    await expect(recordInventoryCount(session.id, pads.id, 8, villette.id))
+      .rejects.toThrow(/role warehouse_la_villette cannot count stock at ibn_tachfine/i);
+    await expect(scanInventoryItem(session.id, 'BRK-001', villette.id)).rejects.toThrow(/cannot count stock at ibn_tachfine/i);
+    await expect(cancelInventorySession(session.id, villette.id)).rejects.toThrow(/cannot count stock at ibn_tachfine/i);
+
+    await recordInventoryCount(session.id, pads.id, 8, director.id);
+    await expect(submitInventorySession(session.id, villette.id)).rejects.toThrow(/cannot count stock at ibn_tachfine/i);
+    expect((await submitInventorySession(session.id, counter.id)).status).toEqual('review');
+  });
+
+  it('should hold one active session per warehouse at the database level', async () => {
+    const { counter } = await createTestData();
+    await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id);
+
+    // A session opened concurrently gets past the check but not the partial unique index
+    await expect(db.insert(inventorySessionsTable)
+      .values({ warehouse: 'ibn_tachfine', status: 'review', opened_by: counter.id })
+      .execute()).rejects.toMatchObject({ code: '23505', constraint: 'inventory_sessions_active_warehouse_idx' });
+
+    await db.insert(inventorySessionsTable)
+      .values({ warehouse: 'ibn_tachfine', status: 'posted', opened_by: counter.id })
+      .execute();
+    expect(await getInventorySessions('ibn_tachfine')).toHaveLength(2);
+  });
+
+  it('should record manual counts and add up barcode scans', async () => {
+    const { counter, pads, filters } = await createTestData();
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id);
+
+    const counted = await recordInventoryCount(session.id, pads.id, 8, counter.id);
+    expect(counted).toMatchObject({ reference: 'BRK-001', expected_quantity: 10, counted_quantity: 8, variance: -2, counted_by: counter.id });
+
+    await scanInventoryItem(session.id, 'flt-001', counter.id);
+    await scanInventoryItem(session.id, ' FLT-001 ', counter.id);
+    const scanned = await scanInventoryItem(session.id, 'FLT-001', counter.id, 20);
+    expect(scanned).toMatchObject({ product_id: filters.id, counted_quantity: 22, variance: 2 });
+
+    expect((await recordInventoryCount(session.id, pads.id, 10, counter.id)).variance).toEqual(0);
+
+    await expect(scanInventoryItem(session.id, 'UNKNOWN', counter.id)).rejects.toThrow(/no product with code UNKNOWN/i);
+  });
+
+  it('should stop counting once the session is submitted for review', async () => {
+    const { counter, pads } = await createTestData();
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id);
+
+    await expect(submitInventorySession(session.id, counter.id)).rejects.toThrow(/has no counted products/i);
+
+    await recordInventoryCount(session.id, pads.id, 9, counter.id);
+    const submitted = await submitInventorySession(session.id, counter.id);
+
+    expect(submitted).toMatchObject({ status: 'review', submitted_by: counter.id });
+    await expect(recordInventoryCount(session.id, pads.id, 8, counter.id)).rejects.toThrow(/is review and cannot be counted/i);
+    await expect(postInventorySession(99999, counter.id)).rejects.toThrow(/inventory session 99999 not found/i);
+  });
+
+  it('should post counted variances on top of the movements made while counting', async () => {
+    const { counter, director, pads, discs, filters } = await createTestData();
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id);
+
+    await recordInventoryCount(session.id, pads.id, 7, counter.id);
+    await recordInventoryCount(session.id, discs.id, 4, counter.id);
+    // A sale leaves the shelf while the count is running; the missing units are still counted as a loss of 3
+    await recordStockMovement({ productId: pads.id, warehouse: 'ibn_tachfine', type: 'sale', quantity: -2 });
+    await submitInventorySession(session.id, counter.id);
+
+    await expect(postInventorySession(session.id, director.id)).resolves.toMatchObject({ status: 'posted', posted_by: director.id });
+
+    expect(await getQuantity(pads.id, 'ibn_tachfine')).toEqual(5);
+    expect(await getQuantity(discs.id, 'ibn_tachfine')).toEqual(4);
+    expect(await getQuantity(filters.id, 'ibn_tachfine')).toEqual(20);
+    expect(await getQuantity(pads.id, 'la_villette')).toEqual(7);
+
+    const history = await getStockHistory(pads.id, 'ibn_tachfine');
+    expect(history[0]).toMatchObject({
+      type: 'inventory_count',
+      quantity: -3,
+      balance_after: 5,
+      created_by: director.id,
+      note: `Inventory session ${session.id}`
+    });
+
+    await expect(postInventorySession(session.id, director.id)).rejects.toThrow(/is posted and cannot be posted/i);
+    await expect(cancelInventorySession(session.id, director.id)).rejects.toThrow(/is posted and cannot be cancelled/i);
+  });
+
+  it('should stop the balance at zero when sales during the count took out part of the shortage', async () => {
+    const { counter, director, pads } = await createTestData();
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine', category: 'Freinage' }, counter.id);
+
+    await recordInventoryCount(session.id, pads.id, 3, counter.id);
+    await recordStockMovement({ productId: pads.id, warehouse: 'ibn_tachfine', type: 'sale', quantity: -8 });
+    await submitInventorySession(session.id, counter.id);
+
+    await expect(postInventorySession(session.id, director.id)).resolves.toMatchObject({ status: 'posted' });
+
+    expect(await getQuantity(pads.id, 'ibn_tachfine')).toEqual(0);
+    const history = await getStockHistory(pads.id, 'ibn_tachfine');
+    expect(history[0]).toMatchObject({ type: 'inventory_count', quantity: -2, balance_after: 0 });
+  });
+
+  it('should value the variances for the director report', async () => {
+    const { counter, pads, discs, filters } = await createTestData();
+    const session = await openInventorySession({ warehouse: 'ibn_tachfine' }, counter.id);
+
+    await recordInventoryCount(session.id, pads.id, 7, counter.id);
+    await recordInventoryCount(session.id, filters.id, 22, counter.id);
+
+    const report = await getInventoryVarianceReport(session.id);
+
+    expect(report.session.id).toEqual(session.id);
+    expect(report.lines.map(({ product_id, variance, variance_value }) => ({ product_id, variance, variance_value }))).toEqual([
+      { product_id: pads.id, variance: -3, variance_value: -300 },
+      { product_id: discs.id, variance: null, variance_value: null },
+      { product_id: filters.id, variance: 2, variance_value: 51 }
+    ]);
+    expect(report).toMatchObject({
+      counted_lines: 2,
+      uncounted_lines: 1,
+      units_over: 2,
+      units_short: 3,
+      net_variance_value: -249
+    });
+  });
+});
@@ -1,9 +1,27 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, clientsTable, ordersTable } from '../db/schema';
-import { type UpdateOrderStatusInput } from '../schema';
-import { updateOrderStatus } from '../handlers/orders';
+import {
+  usersTable,
+  clientsTable,
+  ordersTable,
+  orderItemsTable,
+  productsTable,
+  clientProductPricingTable,
+  stockTable,
+  sageExportOutboxTable
+} from '../db/schema';
+import { type CreateOrderInput, type OrderStatus, type UpdateOrderStatusInput } from '../schema';
+import {
+  createOrder,
+  updateOrderStatus,
+  getOrdersByClient,
+  getOrderById,
+  getOrderItems,
+  getOrderStatusHistory,
+  validateOrder,
+  getPendingOrdersForValidation
+} from '../handlers/orders';
 import { eq } from 'drizzle-orm';
 
 describe('updateOrderStatus', () => {
@@ -40,17 +58,18 @@ describe('updateOrderStatus', () => {
 
     const client = clientResult[0];
 
-    // Create a representative
-    const repResult = await db.insert(usersTable)
-      .values({
-        email: 'rep@example.com',
-        password_hash: 'hashed_password',
-        role: 'representative'
-      })
+    // Create a representative and the back-office staff moving orders along
+    const staffResult = await db.insert(usersTable)
+      .values([
+        { email: 'rep@example.com', password_hash: 'hashed_password', role: 'representative' },
+        { email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' },
+        { email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' },
+        { email: 'director@example.com', password_hash: 'hashed_password', role: 'director_admin' }
+      ])
       .returning()
       .execute();
 
-    const representative = repResult[0];
+    const [representative, accountant, counter, director] = staffResult;
 
     // Create an order
     const orderResult = await db.insert(ordersTable)
@@ -70,24 +89,35 @@ describe('updateOrderStatus', () => {
       user,
       client,
       representative,
+      accountant,
+      counter,
+      director,
       order: orderResult[0]
     };
   }
 
+  // Move an order straight to a status without going through the state machine
+  async function setStatus(orderId: number, status: OrderStatus) {
+    await db.update(ordersTable)
+      .set({ status })
+      .where(eq(ordersTable.id, orderId))
+      .execute();
+  }
+
   it('should update order status to validated', async () => {
-    const { order, representative } = await createTestData();
+    const { order, accountant } = await createTestData();
 
     const input: UpdateOrderStatusInput = {
       order_id: order.id,
       status: 'validated',
-      updated_by: representative.id
+      updated_by: accountant.id
     };
 
     const result = await updateOrderStatus(input);
 
     expect(result.id).toEqual(order.id);
     expect(result.status).toEqual('validated');
-    expect(result.validated_by).toEqual(representative.id);
+    expect(result.validated_by).toEqual(accountant.id);
     expect(result.validated_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
     expect(result.total_amount).toEqual(500.00);
@@ -95,15 +125,14 @@ describe('updateOrderStatus', () => {
   });
 
   it('should update order status to shipped with timestamp', async () => {
-    const { order, representative } = await createTestData();
+    const { order, counter } = await createTestData();
+    await setStatus(order.id, 'ready');
 
-    const input: UpdateOrderStatusInput = {
+    const result = await updateOrderStatus({
       order_id: order.id,
       status: 'shipped',
-      updated_by: representative.id
-    };
-
-    const result = await updateOrderStatus(input);
+      updated_by: counter.id
+    });
 
     expect(result.status).toEqual('shipped');
     expect(result.shipped_at).toBeInstanceOf(Date);
@@ -112,15 +141,14 @@ describe('updateOrderStatus', () => {
   });
 
   it('should update order status to delivered with timestamp', async () => {
-    const { order, representative } = await createTestData();
+    const { order, counter } = await createTestData();
+    await setStatus(order.id, 'shipped');
 
-    const input: UpdateOrderStatusInput = {
+    const result = await updateOrderStatus({
       order_id: order.id,
       status: 'delivered',
-      updated_by: representative.id
-    };
-
-    const result = await updateOrderStatus(input);
+      updated_by: counter.id
+    });
 
     expect(result.status).toEqual('delivered');
     expect(result.delivered_at).toBeInstanceOf(Date);
@@ -128,15 +156,14 @@ describe('updateOrderStatus', () => {
   });
 
   it('should update order status to in_preparation without special timestamps', async () => {
-    const { order, representative } = await createTestData();
+    const { order, counter } = await createTestData();
+    await setStatus(order.id, 'validated');
 
-    const input: UpdateOrderStatusInput = {
+    const result = await updateOrderStatus({
       order_id: order.id,
       status: 'in_preparation',
-      updated_by: representative.id
-    };
-
-    const result = await updateOrderStatus(input);
+      updated_by: counter.id
+    });
 
     expect(result.status).toEqual('in_preparation');
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -147,15 +174,13 @@ describe('updateOrderStatus', () => {
   });
 
   it('should save updated order to database', async () => {
-    const { order, representative } = await createTestData();
+    const { order, accountant } = await createTestData();
 
-    const input: UpdateOrderStatusInput = {
+    await updateOrderStatus({
       order_id: order.id,
       status: 'validated',
-      updated_by: representative.id
-    };
-
-    await updateOrderStatus(input);
+      updated_by: accountant.id
+    });
 
     // Verify the order was updated in the database
     const orders = await db.select()
@@ -165,47 +190,141 @@ describe('updateOrderStatus', () => {
 
     expect(orders).toHaveLength(1);
     expect(orders[0].status).toEqual('validated');
-    expect(orders[0].validated_by).toEqual(representative.id);
+    expect(orders[0].validated_by).toEqual(accountant.id);
     expect(orders[0].validated_at).toBeInstanceOf(Date);
     expect(orders[0].updated_at).toBeInstanceOf(Date);
   });
 
-  it('should handle all valid order statuses', async () => {
-    const { order, representative } = await createTestData();
-
-    const validStatuses = [
-      'submitted',
-      'validated', 
-      'in_preparation',
-      'ready',
-      'shipped',
-      'delivered',
-      'refused'
-    ] as const;
+  it('should walk the full lifecycle and record every change', async () => {
+    const { order, accountant, counter } = await createTestData();
 
-    for (const status of validStatuses) {
-      const input: UpdateOrderStatusInput = {
-        order_id: order.id,
-        status: status,
-        updated_by: representative.id
-      };
+    const steps: Array<[OrderStatus, number]> = [
+      ['validated', accountant.id],
+      ['in_preparation', counter.id],
+      ['ready', counter.id],
+      ['shipped', counter.id],
+      ['delivered', counter.id]
+    ];
 
-      const result = await updateOrderStatus(input);
+    for (const [status, userId] of steps) {
+      const result = await updateOrderStatus({ order_id: order.id, status, updated_by: userId });
       expect(result.status).toEqual(status);
-      expect(result.updated_at).toBeInstanceOf(Date);
     }
+
+    const history = await getOrderStatusHistory(order.id);
+
+    expect(history.map(entry => [entry.from_status, entry.to_status])).toEqual([
+      ['submitted', 'validated'],
+      ['validated', 'in_preparation'],
+      ['in_preparation', 'ready'],
+      ['ready', 'shipped'],
+      ['shipped', 'delivered']
+    ]);
+    expect(history[0].changed_by).toEqual(accountant.id);
+    expect(history[4].changed_by).toEqual(counter.id);
+    expect(history[4].created_at).toBeInstanceOf(Date);
   });
 
-  it('should preserve other order fields when updating status', async () => {
-    const { order, representative } = await createTestData();
+  it('should reject transitions outside the graph', async () => {
+    const { order, counter, director } = await createTestData();
+    await setStatus(order.id, 'delivered');
 
-    const input: UpdateOrderStatusInput = {
+    await expect(updateOrderStatus({ order_id: order.id, status: 'submitted', updated_by: director.id }))
+      .rejects.toThrow(/invalid order status transition from delivered to submitted/i);
+
+    await setStatus(order.id, 'validated');
+    await expect(updateOrderStatus({ order_id: order.id, status: 'shipped', updated_by: counter.id }))
+      .rejects.toThrow(/invalid order status transition from validated to shipped/i);
+
+    await setStatus(order.id, 'refused');
+    await expect(updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: director.id }))
+      .rejects.toThrow(/invalid order status transition/i);
+
+    expect(await getOrderStatusHistory(order.id)).toHaveLength(0);
+  });
+
+  it('should enforce role permissions per transition', async () => {
+    const { order, representative, accountant, counter } = await createTestData();
+
+    await expect(updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: counter.id }))
+      .rejects.toThrow(/role counter_ibn_tachfine cannot change order status from submitted to validated/i);
+    await expect(updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: representative.id }))
+      .rejects.toThrow(/role representative cannot/i);
+
+    await setStatus(order.id, 'validated');
+    await expect(updateOrderStatus({ order_id: order.id, status: 'in_preparation', updated_by: accountant.id }))
+      .rejects.toThrow(/role accounting cannot/i);
+
+    const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, order.id)).execute();
+    expect(orders[0].status).toEqual('validated');
+  });
+
+  it('should let director_admin make any allowed transition', async () => {
+    const { order, director } = await createTestData();
+
+    const validated = await updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: director.id });
+    const inPreparation = await updateOrderStatus({ order_id: order.id, status: 'in_preparation', updated_by: director.id });
+
+    expect(validated.validated_by).toEqual(director.id);
+    expect(inPreparation.status).toEqual('in_preparation');
+  });
+
+  it('should require and record a reason when refusing', async () => {
+    const { order, accountant } = await createTestData();
+
+    await expect(updateOrderStatus({ order_id: order.id, status: 'refused', updated_by: accountant.id }))
+      .rejects.toThrow(/reason is required/i);
+
+    const result = await updateOrderStatus({
       order_id: order.id,
-      status: 'ready',
-      updated_by: representative.id
-    };
+      status: 'refused',
+      updated_by: accountant.id,
+      reason: 'Outstanding invoices'
+    });
 
-    const result = await updateOrderStatus(input);
+    expect(result.status).toEqual('refused');
+
+    const history = await getOrderStatusHistory(order.id);
+    expect(history).toHaveLength(1);
+    expect(history[0].reason).toEqual('Outstanding invoices');
+  });
+
+  it('should run accounting decisions through the credit check and balance booking', async () => {
+    const { order, client, accountant } = await createTestData();
+    await db.update(clientsTable)
+      .set({ overdue_amount: '300.00' })
+      .where(eq(clientsTable.id, client.id))
+      .execute();
+
+    await expect(updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: accountant.id }))
+      .rejects.toThrow(/credit check failed: client has overdue payments/i);
+
+    await db.update(clientsTable)
+      .set({ overdue_amount: '0.00' })
+      .where(eq(clientsTable.id, client.id))
+      .execute();
+
+    await updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: accountant.id });
+
+    let clients = await db.select().from(clientsTable).where(eq(clientsTable.id, client.id)).execute();
+    const exports = await db.select().from(sageExportOutboxTable).where(eq(sageExportOutboxTable.order_id, order.id)).execute();
+    expect(parseFloat(clients[0].current_balance)).toEqual(500);
+    expect(exports).toHaveLength(1);
+
+    await updateOrderStatus({ order_id: order.id, status: 'cancelled', updated_by: accountant.id, reason: 'Client request' });
+
+    clients = await db.select().from(clientsTable).where(eq(clientsTable.id, client.id)).execute();
+    expect(parseFloat(clients[0].current_balance)).toEqual(0);
+  });
+
+  it('should preserve other order fields when updating status', async () => {
+    const { order, accountant } = await createTestData();
+
+    const result = await updateOrderStatus({
+      order_id: order.id,
+      status: 'validated',
+      updated_by: accountant.id
+    });
 
     expect(result.client_id).toEqual(order.client_id);
     expect(result.representative_id).toEqual(order.representative_id);
@@ -217,10 +336,12 @@ describe('updateOrderStatus', () => {
   });
 
   it('should throw error for non-existent order', async () => {
+    const { accountant } = await createTestData();
+
     const input: UpdateOrderStatusInput = {
       order_id: 99999,
       status: 'validated',
-      updated_by: 1
+      updated_by: accountant.id
     };
 
     await expect(updateOrderStatus(input))
@@ -228,27 +349,594 @@ describe('updateOrderStatus', () => {
       .toThrow(/Order with id 99999 not found/i);
   });
 
-  it('should handle multiple status updates correctly', async () => {
-    const { order, representative } = await createTestData();
+  it('should throw error for non-existent user', async () => {
+    const { order } = await createTestData();
 
-    // First update to validated
-    await updateOrderStatus({
-      order_id: order.id,
-      status: 'validated',
-      updated_by: representative.id
-    });
+    await expect(updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: 99999 }))
+      .rejects
+      .toThrow(/User with id 99999 not found/i);
+  });
+
+  it('should keep earlier timestamps across status updates', async () => {
+    const { order, accountant, counter } = await createTestData();
+
+    await updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: accountant.id });
+    await setStatus(order.id, 'ready');
 
-    // Then update to shipped
     const finalResult = await updateOrderStatus({
       order_id: order.id,
       status: 'shipped',
-      updated_by: representative.id
+      updated_by: counter.id
     });
 
     expect(finalResult.status).toEqual('shipped');
-    expect(finalResult.validated_by).toEqual(representative.id);
+    expect(finalResult.validated_by).toEqual(accountant.id);
     expect(finalResult.validated_at).toBeInstanceOf(Date);
     expect(finalResult.shipped_at).toBeInstanceOf(Date);
     expect(finalResult.updated_at).toBeInstanceOf(Date);
   });
-});
\ No newline at end of file
+});
+
+describe('getOrderById', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the order with its status history', async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'client@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ user_id: userResult[0].id, company_name: 'Company', contact_name: 'Contact', credit_limit: '1000.00' })
+      .returning()
+      .execute();
+
+    const productResult = await db.insert(productsTable)
+      .values({ reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' })
+      .returning()
+      .execute();
+
+    await db.insert(stockTable)
+      .values({ product_id: productResult[0].id, warehouse: 'ibn_tachfine', quantity: 10 })
+      .execute();
+
+    const order = await createOrder({
+      client_id: clientResult[0].id,
+      carrier: 'ghazala',
+      items: [{ product_id: productResult[0].id, quantity: 2 }]
+    }, userResult[0].id);
+    await updateOrderStatus({ order_id: order.id, status: 'validated', updated_by: userResult[1].id });
+
+    const result = await getOrderById(order.id);
+
+    expect(result).not.toBeNull();
+    expect(result!.status).toEqual('validated');
+    expect(result!.total_amount).toEqual(200);
+    expect(result!.status_history).toHaveLength(2);
+    expect(result!.status_history[0]).toMatchObject({ from_status: null, to_status: 'submitted', changed_by: userResult[0].id });
+    expect(result!.status_history[1]).toMatchObject({ from_status: 'submitted', to_status: 'validated', changed_by: userResult[1].id });
+
+    const items = await getOrderItems(order.id);
+    expect(items).toHaveLength(1);
+    expect(items[0].unit_price).toEqual(100);
+    expect(items[0].total_price).toEqual(200);
+  });
+
+  it('should return null for non-existent order', async () => {
+    expect(await getOrderById(99999)).toBeNull();
+    expect(await getOrderItems(99999)).toEqual([]);
+  });
+});
+
+describe('getOrdersByClient', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return only the orders of the given client, newest first', async () => {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'a@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'b@example.com', password_hash: 'hashed_password', role: 'client' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values([
+        { user_id: userResult[0].id, company_name: 'Company A', contact_name: 'A', credit_limit: '1000.00' },
+        { user_id: userResult[1].id, company_name: 'Company B', contact_name: 'B', credit_limit: '1000.00' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(ordersTable)
+      .values([
+        { client_id: clientResult[0].id, order_number: 'ORD-A-1', total_amount: '100.00', carrier: 'ghazala', created_at: new Date('2024-01-01') },
+        { client_id: clientResult[0].id, order_number: 'ORD-A-2', total_amount: '250.50', carrier: 'baha', created_at: new Date('2024-02-01') },
+        { client_id: clientResult[1].id, order_number: 'ORD-B-1', total_amount: '75.00', carrier: 'sh2t' }
+      ])
+      .execute();
+
+    const result = await getOrdersByClient(clientResult[0].id);
+
+    expect(result).toHaveLength(2);
+    expect(result[0].order_number).toEqual('ORD-A-2');
+    expect(result[1].order_number).toEqual('ORD-A-1');
+    expect(result[0].total_amount).toEqual(250.5);
+    expect(typeof result[0].total_amount).toBe('number');
+  });
+});
+
+describe('createOrder', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestData(clientValues: { credit_limit?: string; current_balance?: string; is_blocked?: boolean } = {}) {
+    const userResult = await db.insert(usersTable)
+      .values({
+        email: 'client@example.com',
+        password_hash: 'hashed_password',
+        role: 'client'
+      })
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({
+        user_id: userResult[0].id,
+        company_name: 'Test Company',
+        contact_name: 'John Doe',
+        credit_limit: clientValues.credit_limit ?? '10000.00',
+        current_balance: clientValues.current_balance ?? '0.00',
+        is_blocked: clientValues.is_blocked ?? false
+      })
+      .returning()
+      .execute();
+
+    const productResult = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' },
+        { reference: 'FLT-002', designation: 'Oil filter', base_price: '25.50' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(stockTable)
+      .values(productResult.map(product => ({ product_id: product.id, warehouse: 'ibn_tachfine' as const, quantity: 100 })))
+      .execute();
+
+    return {
+      client: clientResult[0],
+      brakePad: productResult[0],
+      oilFilter: productResult[1]
+    };
+  }
+
+  it('should persist the order and its items', async () => {
+    const { client, brakePad, oilFilter } = await createTestData();
+
+    const input: CreateOrderInput = {
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [
+        { product_id: brakePad.id, quantity: 2 },
+        { product_id: oilFilter.id, quantity: 4 }
+      ]
+    };
+
+    const result = await createOrder(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.client_id).toEqual(client.id);
+    expect(result.representative_id).toBeNull();
+    expect(result.status).toEqual('submitted');
+    expect(result.carrier).toEqual('ghazala');
+    expect(result.total_amount).toEqual(302);
+    expect(typeof result.total_amount).toBe('number');
+
+    const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, result.id)).execute();
+    expect(orders).toHaveLength(1);
+    expect(parseFloat(orders[0].total_amount)).toEqual(302);
+
+    const items = await db.select().from(orderItemsTable).where(eq(orderItemsTable.order_id, result.id)).execute();
+    expect(items).toHaveLength(2);
+    const brakeItem = items.find(item => item.product_id === brakePad.id)!;
+    expect(brakeItem.quantity).toEqual(2);
+    expect(parseFloat(brakeItem.unit_price)).toEqual(100);
+    expect(parseFloat(brakeItem.total_price)).toEqual(200);
+  });
+
+  it('should apply client custom pricing', async () => {
+    const { client, brakePad, oilFilter } = await createTestData();
+
+    await db.insert(clientProductPricingTable)
+      .values([
+        { client_id: client.id, product_id: brakePad.id, custom_price: '80.00', discount_percentage: '0' },
+        { client_id: client.id, product_id: oilFilter.id, custom_price: '0', discount_percentage: '10' }
+      ])
+      .execute();
+
+    const result = await createOrder({
+      client_id: client.id,
+      carrier: 'baha',
+      items: [
+        { product_id: brakePad.id, quantity: 1 },
+        { product_id: oilFilter.id, quantity: 2 }
+      ]
+    });
+
+    // 80 + 2 * (25.50 - 10%)
+    expect(result.total_amount).toEqual(125.9);
+
+    const items = await db.select().from(orderItemsTable).where(eq(orderItemsTable.order_id, result.id)).execute();
+    expect(parseFloat(items.find(item => item.product_id === oilFilter.id)!.unit_price)).toEqual(22.95);
+  });
+
+  it('should merge repeated lines of the same product', async () => {
+    const { client, brakePad } = await createTestData();
+
+    const result = await createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [
+        { product_id: brakePad.id, quantity: 1 },
+        { product_id: brakePad.id, quantity: 3 }
+      ]
+    });
+
+    const items = await db.select().from(orderItemsTable).where(eq(orderItemsTable.order_id, result.id)).execute();
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toEqual(4);
+    expect(result.total_amount).toEqual(400);
+  });
+
+  it('should keep the representative on the order', async () => {
+    const { client, brakePad } = await createTestData();
+    const repResult = await db.insert(usersTable)
+      .values({ email: 'rep@example.com', password_hash: 'hashed_password', role: 'representative' })
+      .returning()
+      .execute();
+
+    const result = await createOrder({
+      client_id: client.id,
+      representative_id: repResult[0].id,
+      carrier: 'sh2t',
+      items: [{ product_id: brakePad.id, quantity: 1 }]
+    });
+
+    expect(result.representative_id).toEqual(repResult[0].id);
+  });
+
+  it('should generate unique sequential order numbers', async () => {
+    const { client, brakePad } = await createTestData();
+    const year = new Date().getFullYear();
+
+    const first = await createOrder({ client_id: client.id, carrier: 'ghazala', items: [{ product_id: brakePad.id, quantity: 1 }] });
+    const second = await createOrder({ client_id: client.id, carrier: 'ghazala', items: [{ product_id: brakePad.id, quantity: 1 }] });
+
+    expect(first.order_number).toEqual(`ORD-${year}-00001`);
+    expect(second.order_number).toEqual(`ORD-${year}-00002`);
+  });
+
+  it('should not consume an order number when the order is rejected', async () => {
+    const { client, brakePad } = await createTestData({ credit_limit: '150.00' });
+    const year = new Date().getFullYear();
+
+    await expect(createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [{ product_id: brakePad.id, quantity: 2 }]
+    })).rejects.toThrow(/credit limit/i);
+
+    const result = await createOrder({ client_id: client.id, carrier: 'ghazala', items: [{ product_id: brakePad.id, quantity: 1 }] });
+
+    expect(result.order_number).toEqual(`ORD-${year}-00001`);
+  });
+
+  it('should reject blocked clients', async () => {
+    const { client, brakePad } = await createTestData({ is_blocked: true });
+
+    await expect(createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [{ product_id: brakePad.id, quantity: 1 }]
+    })).rejects.toThrow(/blocked/i);
+
+    expect(await db.select().from(ordersTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject orders that exceed the credit limit', async () => {
+    const { client, brakePad } = await createTestData({ credit_limit: '1000.00', current_balance: '850.00' });
+
+    await expect(createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [{ product_id: brakePad.id, quantity: 2 }]
+    })).rejects.toThrow(/credit limit exceeded/i);
+
+    expect(await db.select().from(ordersTable).execute()).toHaveLength(0);
+    expect(await db.select().from(orderItemsTable).execute()).toHaveLength(0);
+  });
+
+  it('should accept orders that reach the credit limit exactly', async () => {
+    const { client, brakePad } = await createTestData({ credit_limit: '1000.00', current_balance: '800.00' });
+
+    const result = await createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [{ product_id: brakePad.id, quantity: 2 }]
+    });
+
+    expect(result.total_amount).toEqual(200);
+  });
+
+  it('should reject orders over the monthly stock limit', async () => {
+    const { client, brakePad } = await createTestData();
+
+    await db.insert(clientProductPricingTable)
+      .values({ client_id: client.id, product_id: brakePad.id, custom_price: '0', discount_percentage: '0', stock_limit_monthly: 5 })
+      .execute();
+
+    await createOrder({ client_id: client.id, carrier: 'ghazala', items: [{ product_id: brakePad.id, quantity: 3 }] });
+
+    await expect(createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [{ product_id: brakePad.id, quantity: 3 }]
+    })).rejects.toThrow(/monthly stock limit exceeded.*remaining 2/i);
+
+    expect(await db.select().from(ordersTable).execute()).toHaveLength(1);
+  });
+
+  it('should reject unknown and inactive products', async () => {
+    const { client, brakePad } = await createTestData();
+
+    await expect(createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [{ product_id: 99999, quantity: 1 }]
+    })).rejects.toThrow(/product with id 99999 not found/i);
+
+    await db.update(productsTable)
+      .set({ is_active: false })
+      .where(eq(productsTable.id, brakePad.id))
+      .execute();
+
+    await expect(createOrder({
+      client_id: client.id,
+      carrier: 'ghazala',
+      items: [{ product_id: brakePad.id, quantity: 1 }]
+    })).rejects.toThrow(/BRK-001 is not available/i);
+  });
+
+  it('should reject unknown clients and empty orders', async () => {
+    const { client } = await createTestData();
+
+    await expect(createOrder({ client_id: 99999, carrier: 'ghazala', items: [{ product_id: 1, quantity: 1 }] }))
+      .rejects.toThrow(/client with id 99999 not found/i);
+
+    await expect(createOrder({ client_id: client.id, carrier: 'ghazala', items: [] }))
+      .rejects.toThrow(/at least one item/i);
+  });
+});
+
+describe('validateOrder', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestData(clientValues: { credit_limit?: string; current_balance?: string; overdue_amount?: string } = {}) {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'client@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' },
+        { email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({
+        user_id: userResult[0].id,
+        company_name: 'Test Company',
+        contact_name: 'John Doe',
+        credit_limit: clientValues.credit_limit ?? '1000.00',
+        current_balance: clientValues.current_balance ?? '0.00',
+        overdue_amount: clientValues.overdue_amount ?? '0.00'
+      })
+      .returning()
+      .execute();
+
+    const orderResult = await db.insert(ordersTable)
+      .values({
+        client_id: clientResult[0].id,
+        order_number: 'ORD-2024-00001',
+        total_amount: '400.00',
+        carrier: 'ghazala'
+      })
+      .returning()
+      .execute();
+
+    return {
+      client: clientResult[0],
+      accountant: userResult[1],
+      counter: userResult[2],
+      order: orderResult[0]
+    };
+  }
+
+  async function getClientBalance(clientId: number) {
+    const clients = await db.select().from(clientsTable).where(eq(clientsTable.id, clientId)).execute();
+    return parseFloat(clients[0].current_balance);
+  }
+
+  it('should approve the order and book it on the client balance', async () => {
+    const { client, accountant, order } = await createTestData({ current_balance: '100.00' });
+
+    const result = await validateOrder(order.id, accountant.id, true);
+
+    expect(result.status).toEqual('validated');
+    expect(result.validated_by).toEqual(accountant.id);
+    expect(result.validated_at).toBeInstanceOf(Date);
+    expect(result.total_amount).toEqual(400);
+    expect(await getClientBalance(client.id)).toEqual(500);
+
+    const history = await getOrderStatusHistory(order.id);
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({ from_status: 'submitted', to_status: 'validated', changed_by: accountant.id });
+  });
+
+  it('should refuse the order with a reason and leave the balance untouched', async () => {
+    const { client, accountant, order } = await createTestData();
+
+    const result = await validateOrder(order.id, accountant.id, false, 'Missing purchase order reference');
+
+    expect(result.status).toEqual('refused');
+    expect(result.validated_by).toEqual(accountant.id);
+    expect(await getClientBalance(client.id)).toEqual(0);
+
+    const history = await getOrderStatusHistory(order.id);
+    expect(history[0].to_status).toEqual('refused');
+    expect(history[0].reason).toEqual('Missing purchase order reference');
+  });
+
+  it('should require a reason to refuse', async () => {
+    const { accountant, order } = await createTestData();
+
+    await expect(validateOrder(order.id, accountant.id, false)).rejects.toThrow(/reason is required/i);
+
+    const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, order.id)).execute();
+    expect(orders[0].status).toEqual('submitted');
+  });
+
+  it('should fail approval when the credit limit would be exceeded', async () => {
+    const { client, accountant, order } = await createTestData({ current_balance: '700.00' });
+
+    await expect(validateOrder(order.id, accountant.id, true)).rejects.toThrow(/credit check failed: credit limit exceeded/i);
+
+    expect(await getClientBalance(client.id)).toEqual(700);
+    expect(await getOrderStatusHistory(order.id)).toHaveLength(0);
+  });
+
+  it('should fail approval when the client has overdue payments', async () => {
+    const { accountant, order } = await createTestData({ overdue_amount: '50.00' });
+
+    await expect(validateOrder(order.id, accountant.id, true)).rejects.toThrow(/overdue payments of 50.00/i);
+  });
+
+  it('should fail approval when the client has been blocked since ordering', async () => {
+    const { client, accountant, order } = await createTestData();
+
+    await db.update(clientsTable).set({ is_blocked: true }).where(eq(clientsTable.id, client.id)).execute();
+
+    await expect(validateOrder(order.id, accountant.id, true)).rejects.toThrow(/blocked/i);
+  });
+
+  it('should still allow refusing when the credit check fails', async () => {
+    const { accountant, order } = await createTestData({ overdue_amount: '50.00' });
+
+    const result = await validateOrder(order.id, accountant.id, false, 'Overdue payments');
+
+    expect(result.status).toEqual('refused');
+  });
+
+  it('should only decide on submitted orders', async () => {
+    const { accountant, order } = await createTestData();
+
+    await validateOrder(order.id, accountant.id, true);
+
+    await expect(validateOrder(order.id, accountant.id, true)).rejects.toThrow(/invalid order status transition from validated to validated/i);
+    await expect(validateOrder(order.id, accountant.id, false, 'Too late')).rejects.toThrow(/invalid order status transition/i);
+  });
+
+  it('should reject non-accounting staff', async () => {
+    const { counter, order } = await createTestData();
+
+    await expect(validateOrder(order.id, counter.id, true)).rejects.toThrow(/role counter_ibn_tachfine cannot/i);
+  });
+
+  it('should throw error for non-existent order', async () => {
+    const { accountant } = await createTestData();
+
+    await expect(validateOrder(99999, accountant.id, true)).rejects.toThrow(/Order with id 99999 not found/i);
+  });
+});
+
+describe('getPendingOrdersForValidation', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestData() {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'a@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'b@example.com', password_hash: 'hashed_password', role: 'client' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values([
+        { user_id: userResult[0].id, company_name: 'Company A', contact_name: 'A', credit_limit: '1000.00' },
+        { user_id: userResult[1].id, company_name: 'Company B', contact_name: 'B', credit_limit: '1000.00', overdue_amount: '20.00' }
+      ])
+      .returning()
+      .execute();
+
+    const [clientA, clientB] = clientResult;
+
+    await db.insert(ordersTable)
+      .values([
+        { client_id: clientA.id, order_number: 'ORD-3', total_amount: '100.00', carrier: 'ghazala', created_at: new Date('2024-03-03') },
+        { client_id: clientB.id, order_number: 'ORD-1', total_amount: '50.00', carrier: 'baha', created_at: new Date('2024-03-01') },
+        { client_id: clientA.id, order_number: 'ORD-2', total_amount: '1500.00', carrier: 'sh2t', created_at: new Date('2024-03-02') },
+        { client_id: clientA.id, order_number: 'ORD-V', total_amount: '10.00', carrier: 'ghazala', status: 'validated', created_at: new Date('2024-02-01') }
+      ])
+      .execute();
+
+    return { clientA, clientB };
+  }
+
+  it('should list submitted orders oldest first with the client credit position', async () => {
+    const { clientB } = await createTestData();
+
+    const result = await getPendingOrdersForValidation();
+
+    expect(result.total).toEqual(3);
+    expect(result.page).toEqual(1);
+    expect(result.page_size).toEqual(20);
+    expect(result.orders.map(order => order.order_number)).toEqual(['ORD-1', 'ORD-2', 'ORD-3']);
+
+    const [overdue, overLimit, covered] = result.orders;
+    expect(overdue.client_id).toEqual(clientB.id);
+    expect(overdue.company_name).toEqual('Company B');
+    expect(overdue.overdue_amount).toEqual(20);
+    expect(overdue.passes_credit_check).toBe(false);
+    expect(overLimit.total_amount).toEqual(1500);
+    expect(overLimit.passes_credit_check).toBe(false);
+    expect(covered.credit_limit).toEqual(1000);
+    expect(covered.passes_credit_check).toBe(true);
+  });
+
+  it('should paginate the queue', async () => {
+    await createTestData();
+
+    const firstPage = await getPendingOrdersForValidation(1, 2);
+    const secondPage = await getPendingOrdersForValidation(2, 2);
+
+    expect(firstPage.total).toEqual(3);
+    expect(firstPage.orders.map(order => order.order_number)).toEqual(['ORD-1', 'ORD-2']);
+    expect(secondPage.orders.map(order => order.order_number)).toEqual(['ORD-3']);
+    expect(secondPage.page).toEqual(2);
+  });
+
+  it('should return an empty page when nothing is pending', async () => {
+    const result = await getPendingOrdersForValidation();
+
+    expect(result.orders).toEqual([]);
+    expect(result.total).toEqual(0);
+  });
+});
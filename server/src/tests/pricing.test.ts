@@ -7,14 +7,25 @@ import {
   productsTable, 
   clientProductPricingTable,
   ordersTable,
-  orderItemsTable 
+  orderItemsTable,
+  priceListsTable
 } from '../db/schema';
 import { 
   setClientCustomPricing, 
   getClientCustomPricing,
   calculateOrderTotal,
-  validateStockLimits 
+  validateStockLimits,
+  createClientGroup,
+  getClientGroups,
+  assignClientGroup,
+  createPriceList,
+  addPricingRule,
+  removePricingRule,
+  setPriceListActive,
+  getPriceLists
 } from '../handlers/pricing';
+import { getProductPriceForClient } from '../handlers/products';
+import { createQuote } from '../handlers/quotes';
 import { eq } from 'drizzle-orm';
 
 describe('Pricing handlers', () => {
@@ -367,4 +378,202 @@ describe('Pricing handlers', () => {
       ).rejects.toThrow(/Client with ID 99999 not found/i);
     });
   });
-});
\ No newline at end of file
+});
+describe('Pricing rules engine', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let clientId: number;
+  let otherClientId: number;
+  let representativeId: number;
+  let brakePadId: number;
+  let brakeDiscId: number;
+  let oilFilterId: number;
+
+  const price = async (productId: number, quantity: number = 1, forClient: number = clientId, at?: Date) => {
+    const result = await calculateOrderTotal(forClient, [{ productId, quantity }], undefined, at);
+    return result.items[0];
+  };
+
+  beforeEach(async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'garage@client.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'other@client.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'rep@company.com', password_hash: 'hashed_password', role: 'representative' }
+      ])
+      .returning()
+      .execute();
+    representativeId = users[2].id;
+
+    const clients = await db.insert(clientsTable)
+      .values([
+        { user_id: users[0].id, company_name: 'Garage', contact_name: 'Contact', credit_limit: '10000', representative_id: representativeId },
+        { user_id: users[1].id, company_name: 'Other', contact_name: 'Contact', credit_limit: '10000' }
+      ])
+      .returning()
+      .execute();
+    [clientId, otherClientId] = clients.map(client => client.id);
+
+    const products = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-PAD', designation: 'Brake pads', brand: 'Bosch', category: 'Freinage', base_price: '100.00' },
+        { reference: 'BRK-DISC', designation: 'Brake disc', brand: 'Valeo', category: 'Freinage', base_price: '200.00' },
+        { reference: 'OIL-FLT', designation: 'Oil filter', brand: 'Bosch', category: 'Filtration', base_price: '50.00' }
+      ])
+      .returning()
+      .execute();
+    [brakePadId, brakeDiscId, oilFilterId] = products.map(product => product.id);
+  });
+
+  it('should apply brand and category discounts from a price list for every client', async () => {
+    await createPriceList({
+      name: 'Promo printemps',
+      priority: 0,
+      rules: [
+        { brand: 'bosch', min_quantity: 1, discount_percentage: 10 },
+        { category: 'Freinage', min_quantity: 1, discount_percentage: 5 }
+      ]
+    });
+
+    const pad = await price(brakePadId);
+    expect(pad.finalPrice).toEqual(90); // Bosch and Freinage rules tie on scope: the lower price wins
+    expect(pad.discountPercentage).toEqual(10);
+    expect(pad.priceListId).toBeDefined();
+    expect((await price(brakeDiscId)).finalPrice).toEqual(190);
+    expect((await price(oilFilterId, 1, otherClientId)).finalPrice).toEqual(45);
+  });
+
+  it('should apply the highest quantity break reached by the line', async () => {
+    await createPriceList({
+      name: 'Volume',
+      priority: 0,
+      rules: [
+        { product_id: brakePadId, min_quantity: 10, discount_percentage: 5 },
+        { product_id: brakePadId, min_quantity: 50, discount_percentage: 12.5 },
+        { product_id: brakePadId, min_quantity: 100, fixed_price: 80 }
+      ]
+    });
+
+    expect((await price(brakePadId, 9)).finalPrice).toEqual(100);
+    expect((await price(brakePadId, 10)).finalPrice).toEqual(95);
+    expect((await price(brakePadId, 75)).totalPrice).toEqual(6562.5);
+    const hundred = await price(brakePadId, 100);
+    expect(hundred.finalPrice).toEqual(80);
+    expect(hundred.customPrice).toEqual(80);
+  });
+
+  it('should rank rules by list priority, then client over group over everyone, then product over brand', async () => {
+    const group = await createClientGroup({ name: 'Garages' });
+    await assignClientGroup(clientId, group.id);
+
+    await createPriceList({ name: 'Tous', priority: 0, rules: [{ product_id: brakePadId, min_quantity: 1, fixed_price: 70 }] });
+    await createPriceList({ name: 'Garages', client_group_id: group.id, priority: 0, rules: [{ brand: 'Bosch', min_quantity: 1, fixed_price: 85 }] });
+    expect((await price(brakePadId)).finalPrice).toEqual(85);
+    expect((await price(brakePadId, 1, otherClientId)).finalPrice).toEqual(70);
+
+    await createPriceList({ name: 'Client', client_id: clientId, priority: 0, rules: [{ min_quantity: 1, discount_percentage: 2 }] });
+    expect((await price(brakePadId)).finalPrice).toEqual(98);
+
+    await createPriceList({ name: 'Destockage', priority: 10, rules: [{ brand: 'Bosch', min_quantity: 1, fixed_price: 60 }] });
+    expect((await price(brakePadId)).finalPrice).toEqual(60);
+    expect((await price(brakeDiscId)).finalPrice).toEqual(196);
+  });
+
+  it('should keep negotiated client prices above every price list', async () => {
+    await createPriceList({ name: 'Destockage', priority: 10, rules: [{ min_quantity: 1, discount_percentage: 50 }] });
+    await setClientCustomPricing(clientId, brakePadId, 95, 0);
+    await db.insert(clientProductPricingTable)
+      .values({ client_id: clientId, product_id: oilFilterId, custom_price: '0', discount_percentage: '0', stock_limit_monthly: 10 })
+      .execute();
+
+    const pad = await price(brakePadId);
+    expect(pad.finalPrice).toEqual(95);
+    expect(pad.priceListId).toBeUndefined();
+    // A row that only carries a monthly limit does not set a price
+    expect((await price(oilFilterId)).finalPrice).toEqual(25);
+  });
+
+  it('should only apply active price lists within their validity period', async () => {
+    const list = await createPriceList({
+      name: 'Ramadan',
+      priority: 0,
+      valid_from: new Date('2024-03-10T00:00:00Z'),
+      valid_until: new Date('2024-04-10T00:00:00Z'),
+      rules: [{ min_quantity: 1, discount_percentage: 20 }]
+    });
+
+    expect((await price(brakePadId, 1, clientId, new Date('2024-03-09T23:59:00Z'))).finalPrice).toEqual(100);
+    expect((await price(brakePadId, 1, clientId, new Date('2024-03-20T00:00:00Z'))).finalPrice).toEqual(80);
+    expect((await price(brakePadId, 1, clientId, new Date('2024-04-10T00:00:00Z'))).finalPrice).toEqual(100);
+
+    await setPriceListActive(list.id, false);
+    expect((await price(brakePadId, 1, clientId, new Date('2024-03-20T00:00:00Z'))).finalPrice).toEqual(100);
+  });
+
+  it('should price product lookups and quotes with the same rules as orders', async () => {
+    await createPriceList({
+      name: 'Volume',
+      priority: 0,
+      rules: [
+        { brand: 'Bosch', min_quantity: 1, discount_percentage: 10 },
+        { product_id: brakePadId, min_quantity: 20, fixed_price: 75 }
+      ]
+    });
+
+    expect((await getProductPriceForClient(brakePadId, clientId)).finalPrice).toEqual(90);
+    expect((await getProductPriceForClient(brakePadId, clientId, 20)).finalPrice).toEqual(75);
+
+    const quote = await createQuote({
+      client_id: clientId,
+      representative_id: representativeId,
+      items: [{ product_id: brakePadId, quantity: 20 }, { product_id: oilFilterId, quantity: 2 }],
+      expires_in_days: 30
+    });
+    expect(quote.total_amount).toEqual(1590); // 20 * 75 + 2 * 45
+  });
+
+  it('should validate price lists and rules', async () => {
+    const group = await createClientGroup({ name: 'Grossistes', description: 'Revendeurs' });
+
+    await expect(createPriceList({ name: 'Both', client_id: clientId, client_group_id: group.id, priority: 0, rules: [] }))
+      .rejects.toThrow(/either a client or a client group/i);
+    await expect(createPriceList({
+      name: 'Backwards', priority: 0, rules: [],
+      valid_from: new Date('2024-05-01'), valid_until: new Date('2024-04-01')
+    })).rejects.toThrow(/must end after it starts/i);
+    await expect(createPriceList({ name: 'Unknown', client_group_id: 999, priority: 0, rules: [] }))
+      .rejects.toThrow(/client group 999 not found/i);
+    await expect(createPriceList({ name: 'Mixed', priority: 0, rules: [{ product_id: brakePadId, brand: 'Bosch', min_quantity: 1, discount_percentage: 5 }] }))
+      .rejects.toThrow(/cannot also target a brand or a category/i);
+    await expect(createPriceList({ name: 'Neither', priority: 0, rules: [{ brand: 'Bosch', min_quantity: 1 }] }))
+      .rejects.toThrow(/either a fixed price or a discount percentage/i);
+    await expect(createClientGroup({ name: 'Grossistes' })).rejects.toThrow(/already exists/i);
+
+    // A failing rule leaves no half-created list behind
+    expect(await db.select().from(priceListsTable).execute()).toHaveLength(0);
+  });
+
+  it('should manage groups, lists and rules', async () => {
+    const group = await createClientGroup({ name: 'Garages' });
+    expect(await getClientGroups()).toEqual([group]);
+    expect((await assignClientGroup(clientId, group.id)).client_group_id).toEqual(group.id);
+    expect((await assignClientGroup(clientId, null)).client_group_id).toBeNull();
+    await expect(assignClientGroup(clientId, 999)).rejects.toThrow(/client group 999 not found/i);
+
+    const low = await createPriceList({ name: 'Low', priority: 1, rules: [] });
+    const high = await createPriceList({ name: 'High', priority: 5, rules: [{ category: 'Freinage', min_quantity: 1, fixed_price: 150 }] });
+    const rule = await addPricingRule(low.id, { brand: 'Valeo', min_quantity: 5, discount_percentage: 7.5 });
+    expect(rule).toMatchObject({ price_list_id: low.id, brand: 'Valeo', product_id: null, min_quantity: 5, fixed_price: null, discount_percentage: 7.5 });
+
+    const lists = await getPriceLists();
+    expect(lists.map(list => list.name)).toEqual(['High', 'Low']);
+    expect(lists[0].rules[0]).toMatchObject({ category: 'Freinage', fixed_price: 150 });
+    expect(lists[1].rules).toHaveLength(1);
+
+    expect(await removePricingRule(rule.id)).toEqual({ success: true });
+    await expect(removePricingRule(rule.id)).rejects.toThrow(/pricing rule \d+ not found/i);
+    await expect(addPricingRule(999, { min_quantity: 1, fixed_price: 10 })).rejects.toThrow(/price list 999 not found/i);
+    expect((await setPriceListActive(high.id, false)).is_active).toBe(false);
+  });
+});
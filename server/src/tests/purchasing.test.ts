@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, productsTable, stockTable, suppliersTable } from '../db/schema';
+import { type Warehouse } from '../schema';
+import {
+  createSupplier,
+  getSuppliers,
+  createPurchaseOrder,
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  updatePurchaseOrderStatus,
+  receivePurchaseOrder,
+  getOnOrderQuantities
+} from '../handlers/purchasing';
+import { getStockHistory, stockKey } from '../handlers/stock';
+import { getLowStockAlerts, setReorderPoint } from '../handlers/reorder';
+import { and, eq } from 'drizzle-orm';
+
+describe('purchase orders', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestData() {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'director@example.com', password_hash: 'hashed_password', role: 'director_admin' },
+        { email: 'warehouse@example.com', password_hash: 'hashed_password', role: 'warehouse_la_villette' }
+      ])
+      .returning()
+      .execute();
+
+    const productResult = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' },
+        { reference: 'FLT-001', designation: 'Oil filter', base_price: '25.00' }
+      ])
+      .returning()
+      .execute();
+
+    const supplier = await createSupplier({ name: 'Bosch Maroc', contact_name: 'Youssef', email: 'orders@bosch.example.com' });
+
+    return {
+      director: userResult[0],
+      storekeeper: userResult[1],
+      pads: productResult[0],
+      filters: productResult[1],
+      supplier
+    };
+  }
+
+  async function getQuantity(productId: number, warehouse: Warehouse) {
+    const rows = await db.select()
+      .from(stockTable)
+      .where(and(eq(stockTable.product_id, productId), eq(stockTable.warehouse, warehouse)))
+      .execute();
+    return rows[0]?.quantity ?? 0;
+  }
+
+  it('should create a numbered draft order with its lines and total', async () => {
+    const { director, pads, filters, supplier } = await createTestData();
+
+    const order = await createPurchaseOrder({
+      supplier_id: supplier.id,
+      warehouse: 'la_villette',
+      expected_date: '2024-03-20',
+      items: [
+        { product_id: pads.id, quantity: 10, unit_cost: 60 },
+        { product_id: filters.id, quantity: 40, unit_cost: 12.5 }
+      ]
+    }, director.id);
+
+    expect(order).toMatchObject({
+      supplier_id: supplier.id,
+      warehouse: 'la_villette',
+      status: 'draft',
+      expected_date: '2024-03-20',
+      total_amount: 1100,
+      created_by: director.id
+    });
+    expect(order.po_number).toMatch(new RegExp(`^PO-\\d{4}-${order.id.toString().padStart(5, '0')}$`));
+    expect(order.lines.map(({ product_id, quantity_ordered, quantity_received, total_cost }) => ({
+      product_id, quantity_ordered, quantity_received, total_cost
+    }))).toEqual([
+      { product_id: pads.id, quantity_ordered: 10, quantity_received: 0, total_cost: 600 },
+      { product_id: filters.id, quantity_ordered: 40, quantity_received: 0, total_cost: 500 }
+    ]);
+    expect(await getPurchaseOrderById(order.id)).toEqual(order);
+  });
+
+  it('should reject orders without lines, from unknown or inactive suppliers', async () => {
+    const { pads, supplier } = await createTestData();
+    const items = [{ product_id: pads.id, quantity: 1, unit_cost: 10 }];
+
+    await expect(createPurchaseOrder({ supplier_id: supplier.id, warehouse: 'ibn_tachfine', items: [] }))
+      .rejects.toThrow(/at least one item/i);
+    await expect(createPurchaseOrder({ supplier_id: 99999, warehouse: 'ibn_tachfine', items }))
+      .rejects.toThrow(/supplier 99999 not found/i);
+    await expect(createPurchaseOrder({ supplier_id: supplier.id, warehouse: 'ibn_tachfine', items: [{ ...items[0], product_id: 99999 }] }))
+      .rejects.toThrow(/product with id 99999 not found/i);
+
+    await db.update(suppliersTable).set({ is_active: false }).where(eq(suppliersTable.id, supplier.id)).execute();
+    expect(await getSuppliers()).toHaveLength(0);
+    expect(await getSuppliers(true)).toHaveLength(1);
+    await expect(createPurchaseOrder({ supplier_id: supplier.id, warehouse: 'ibn_tachfine', items }))
+      .rejects.toThrow(/supplier Bosch Maroc is inactive/i);
+  });
+
+  it('should only receive goods once the order has been placed', async () => {
+    const { pads, supplier } = await createTestData();
+    const order = await createPurchaseOrder({
+      supplier_id: supplier.id,
+      warehouse: 'ibn_tachfine',
+      items: [{ product_id: pads.id, quantity: 5, unit_cost: 60 }]
+    });
+    const lines = [{ line_id: order.lines[0].id, quantity: 5 }];
+
+    await expect(receivePurchaseOrder({ purchase_order_id: order.id, lines })).rejects.toThrow(/is draft and cannot be received/i);
+    await expect(updatePurchaseOrderStatus(order.id, 'received')).rejects.toThrow(/recording a goods receipt/i);
+
+    const placed = await updatePurchaseOrderStatus(order.id, 'ordered');
+    expect(placed.status).toEqual('ordered');
+    expect(placed.ordered_at).toBeInstanceOf(Date);
+    await expect(updatePurchaseOrderStatus(order.id, 'draft')).rejects.toThrow(/invalid purchase order status transition from ordered to draft/i);
+
+    await updatePurchaseOrderStatus(order.id, 'cancelled');
+    await expect(receivePurchaseOrder({ purchase_order_id: order.id, lines })).rejects.toThrow(/is cancelled and cannot be received/i);
+  });
+
+  it('should book partial receipts into stock until the order is complete', async () => {
+    const { storekeeper, pads, filters, supplier } = await createTestData();
+    const order = await createPurchaseOrder({
+      supplier_id: supplier.id,
+      warehouse: 'la_villette',
+      items: [
+        { product_id: pads.id, quantity: 10, unit_cost: 60 },
+        { product_id: filters.id, quantity: 40, unit_cost: 12.5 }
+      ]
+    });
+    await updatePurchaseOrderStatus(order.id, 'ordered');
+    const [padsLine, filtersLine] = order.lines;
+
+    const partial = await receivePurchaseOrder({
+      purchase_order_id: order.id,
+      lines: [{ line_id: padsLine.id, quantity: 4 }, { line_id: filtersLine.id, quantity: 40 }]
+    }, storekeeper.id);
+
+    expect(partial.status).toEqual('partially_received');
+    expect(partial.received_at).toBeNull();
+    expect(partial.lines.map(line => line.quantity_received)).toEqual([4, 40]);
+    expect(await getQuantity(pads.id, 'la_villette')).toEqual(4);
+    expect(await getQuantity(filters.id, 'la_villette')).toEqual(40);
+
+    const onOrder = await getOnOrderQuantities([pads.id, filters.id]);
+    expect(onOrder.get(stockKey(pads.id, 'la_villette'))).toEqual(6);
+    expect(onOrder.get(stockKey(filters.id, 'la_villette'))).toEqual(0);
+
+    await expect(receivePurchaseOrder({ purchase_order_id: order.id, lines: [{ line_id: padsLine.id, quantity: 7 }] }))
+      .rejects.toThrow(/received quantity 7 exceeds the 6 units outstanding/i);
+
+    // The rest arrives at Ibn Tachfine instead
+    const complete = await receivePurchaseOrder({
+      purchase_order_id: order.id,
+      warehouse: 'ibn_tachfine',
+      lines: [{ line_id: padsLine.id, quantity: 6 }]
+    }, storekeeper.id);
+
+    expect(complete.status).toEqual('received');
+    expect(complete.received_at).toBeInstanceOf(Date);
+    expect(await getQuantity(pads.id, 'ibn_tachfine')).toEqual(6);
+    expect((await getOnOrderQuantities([pads.id])).get(stockKey(pads.id, 'la_villette'))).toBeUndefined();
+
+    const history = await getStockHistory(pads.id);
+    expect(history.map(({ warehouse, type, quantity, purchase_order_id, created_by }) => ({
+      warehouse, type, quantity, purchase_order_id, created_by
+    }))).toEqual([
+      { warehouse: 'ibn_tachfine', type: 'receipt', quantity: 6, purchase_order_id: order.id, created_by: storekeeper.id },
+      { warehouse: 'la_villette', type: 'receipt', quantity: 4, purchase_order_id: order.id, created_by: storekeeper.id }
+    ]);
+    expect(history[0].note).toEqual(`Purchase order ${order.po_number}`);
+
+    expect(await getPurchaseOrders({ status: 'received' })).toHaveLength(1);
+    expect(await getPurchaseOrders({ supplierId: supplier.id, warehouse: 'ibn_tachfine' })).toHaveLength(0);
+  });
+
+  it('should show what is on order next to low-stock products', async () => {
+    const { pads, supplier } = await createTestData();
+    await setReorderPoint({ product_id: pads.id, warehouse: 'ibn_tachfine', min_quantity: 10, max_quantity: 50 });
+
+    const draft = await createPurchaseOrder({
+      supplier_id: supplier.id,
+      warehouse: 'ibn_tachfine',
+      items: [{ product_id: pads.id, quantity: 30, unit_cost: 60 }]
+    });
+    expect((await getLowStockAlerts(['ibn_tachfine']))[0]).toMatchObject({ on_order: 0, suggested_quantity: 50 });
+
+    await updatePurchaseOrderStatus(draft.id, 'ordered');
+    expect((await getLowStockAlerts(['ibn_tachfine']))[0]).toMatchObject({ on_order: 30, suggested_quantity: 20 });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'bun:test';
+import { inflateSync } from 'zlib';
+import { encodeQrCode, renderQrPng, renderQrSvg } from '../qrcode';
+
+// Reference symbol for "KONIPA" at level M with mask 2
+const KONIPA_M2 = [
+  '#######..#.##.#######',
+  '#.....#..#..#.#.....#',
+  '#.###.#.##....#.###.#',
+  '#.###.#.###.#.#.###.#',
+  '#.###.#.##.##.#.###.#',
+  '#.....#.#.#.#.#.....#',
+  '#######.#.#.#.#######',
+  '........#..##........',
+  '#.#####..#..#.#####..',
+  '..###.....#.#..#.#...',
+  '..##..##.###.#..##.#.',
+  '##..#..####....######',
+  '#.##..##..##.#..#.#.#',
+  '........##.#####.#...',
+  '#######.....#.##...#.',
+  '#.....#.#.#####..##.#',
+  '#.###.#.###.#..#..##.',
+  '#.###.#.#.#.#..#.....',
+  '#.###.#.####.#...##..',
+  '#.....#...#....#.##..',
+  '#######.####.#.#.###.'
+];
+
+function toRows(modules: boolean[][]): string[] {
+  return modules.map(row => row.map(dark => dark ? '#' : '.').join(''));
+}
+
+describe('QR code encoder', () => {
+  it('should encode the reference symbol', () => {
+    const qr = encodeQrCode('KONIPA', 'M', 2);
+
+    expect(qr).toMatchObject({ version: 1, size: 21, mask: 2 });
+    expect(toRows(qr.modules)).toEqual(KONIPA_M2);
+  });
+
+  it('should pick the smallest version that holds the text at the requested level', () => {
+    const shareLink = `https://portal.konipa.com/quotes/share/${'a1'.repeat(32)}`;
+
+    expect(encodeQrCode('x'.repeat(14), 'M').version).toEqual(1);
+    expect(encodeQrCode('x'.repeat(15), 'M').version).toEqual(2);
+    expect(encodeQrCode(shareLink, 'L').version).toEqual(5);
+    expect(encodeQrCode(shareLink, 'M').version).toEqual(6);
+    expect(encodeQrCode(shareLink, 'H').version).toEqual(10);
+    // Versions 7 and up carry version information blocks
+    expect(encodeQrCode('x'.repeat(2331), 'M')).toMatchObject({ version: 40, size: 177 });
+  });
+
+  it('should count UTF-8 bytes and refuse text beyond version 40', () => {
+    expect(encodeQrCode('é'.repeat(7), 'M').version).toEqual(1);
+    expect(encodeQrCode('é'.repeat(8), 'M').version).toEqual(2);
+    expect(() => encodeQrCode('x'.repeat(2332), 'M')).toThrow(/too long for a qr code/i);
+    expect(() => encodeQrCode('KONIPA', 'M', 8)).toThrow(/invalid qr code mask 8/i);
+  });
+
+  it('should choose a mask when none is given', () => {
+    const qr = encodeQrCode('https://portal.konipa.com');
+
+    expect(qr.mask).toBeGreaterThanOrEqual(0);
+    expect(qr.mask).toBeLessThanOrEqual(7);
+    expect(toRows(qr.modules)).toEqual(toRows(encodeQrCode('https://portal.konipa.com', 'M', qr.mask).modules));
+  });
+});
+
+describe('QR code rendering', () => {
+  const qr = encodeQrCode('KONIPA', 'M', 2);
+  const darkModules = qr.modules.flat().filter(Boolean).length;
+
+  it('should draw one square per dark module inside the quiet zone in SVG', () => {
+    const svg = renderQrSvg(qr, { moduleSize: 10, margin: 4 });
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="290" height="290" viewBox="0 0 29 29"')).toBe(true);
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(darkModules);
+    // Top-left module of the finder pattern, offset by the margin
+    expect(svg).toContain('M4,4h1v1h-1z');
+  });
+
+  it('should write a greyscale PNG with the symbol scaled and surrounded by a light border', () => {
+    const png = renderQrPng(qr, { moduleSize: 2, margin: 1 });
+    const dimension = (21 + 2) * 2;
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.subarray(12, 16).toString('ascii')).toEqual('IHDR');
+    expect(png.readUInt32BE(16)).toEqual(dimension);
+    expect(png.readUInt32BE(20)).toEqual(dimension);
+    expect(png.subarray(-8, -4).toString('ascii')).toEqual('IEND');
+
+    const dataLength = png.readUInt32BE(33);
+    expect(png.subarray(37, 41).toString('ascii')).toEqual('IDAT');
+    const pixels = inflateSync(png.subarray(41, 41 + dataLength));
+    const pixel = (x: number, y: number) => pixels[y * (dimension + 1) + 1 + x];
+
+    expect(pixels).toHaveLength((dimension + 1) * dimension);
+    expect(pixel(0, 0)).toEqual(0xff);
+    expect(pixel(2, 2)).toEqual(0x00);
+    expect(pixel(3, 3)).toEqual(0x00);
+    // Light ring of the finder pattern
+    expect(pixel(4, 4)).toEqual(0xff);
+  });
+});
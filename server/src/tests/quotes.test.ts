@@ -1,9 +1,39 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, clientsTable, productsTable, quotesTable, quoteItemsTable, clientProductPricingTable } from '../db/schema';
+import {
+  usersTable,
+  clientsTable,
+  productsTable,
+  quotesTable,
+  quoteItemsTable,
+  clientProductPricingTable,
+  ordersTable,
+  orderItemsTable,
+  orderStatusHistoryTable,
+  stockTable,
+  stockReservationsTable
+} from '../db/schema';
 import { type CreateQuoteInput } from '../schema';
-import { createQuote } from '../handlers/quotes';
+import {
+  createQuote,
+  convertQuoteToOrder,
+  sendQuote,
+  updateQuote,
+  acceptSharedQuote,
+  rejectSharedQuote,
+  reviseQuote,
+  expireQuotes,
+  getQuoteById,
+  getQuoteByShareToken,
+  getQuoteItems,
+  getQuoteQrCode,
+  getQuotesByClient,
+  getQuotesByRepresentative
+} from '../handlers/quotes';
+import { setMailTransport, consoleMailTransport, type MailMessage } from '../mail';
+import { appRouter } from '../router';
+import { createCallerFactory } from '../trpc';
 import { eq, and } from 'drizzle-orm';
 
 describe('createQuote', () => {
@@ -114,10 +144,12 @@ describe('createQuote', () => {
     expect(result.representative_id).toEqual(testRepresentativeId);
     expect(result.quote_number).toMatch(/^QUO-\d{8}-[A-F0-9]{4}$/);
     expect(result.total_amount).toEqual(349.97); // 2*99.99 + 1*149.99
-    expect(result.qr_code).toMatch(/^QUOTE:\d+:[a-f0-9]{64}$/);
+    expect(result.qr_code).toMatch(/^<svg [^>]*viewBox="0 0 49 49"/); // Version 6 share link with a 4-module margin
     expect(result.share_link).toMatch(/^https:\/\/portal\.konipa\.com\/quotes\/share\/[a-f0-9]{64}$/);
     expect(result.is_converted_to_order).toBe(false);
     expect(result.order_id).toBeNull();
+    expect(result.status).toEqual('draft');
+    expect(result.revision).toEqual(0);
     expect(result.expires_at).toBeInstanceOf(Date);
     expect(result.created_at).toBeInstanceOf(Date);
     expect(result.updated_at).toBeInstanceOf(Date);
@@ -396,4 +428,478 @@ describe('createQuote', () => {
     expect(result1.quote_number).toMatch(/^QUO-\d{8}-[A-F0-9]{4}$/);
     expect(result2.quote_number).toMatch(/^QUO-\d{8}-[A-F0-9]{4}$/);
   });
-});
\ No newline at end of file
+});
+
+describe('quote reads', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createCaller = createCallerFactory(appRouter);
+  const DAY = 24 * 60 * 60 * 1000;
+
+  async function createTestData() {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'rep.a@example.com', password_hash: 'hashed_password', role: 'representative' },
+        { email: 'rep.b@example.com', password_hash: 'hashed_password', role: 'representative' },
+        { email: 'client.a@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'client.b@example.com', password_hash: 'hashed_password', role: 'client' }
+      ])
+      .returning()
+      .execute();
+
+    const clients = await db.insert(clientsTable)
+      .values([
+        { user_id: users[2].id, company_name: 'Garage A', contact_name: 'Ali', credit_limit: '10000.00', representative_id: users[0].id },
+        { user_id: users[3].id, company_name: 'Garage B', contact_name: 'Badr', credit_limit: '20000.00', representative_id: users[1].id }
+      ])
+      .returning()
+      .execute();
+
+    const products = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Plaquettes de frein', brand: 'Bosch', base_price: '100.00' },
+        { reference: 'FLT-002', designation: 'Filtre à huile', base_price: '25.50' }
+      ])
+      .returning()
+      .execute();
+
+    const quoteA = await sendQuote((await createQuote({
+      client_id: clients[0].id,
+      representative_id: users[0].id,
+      items: [{ product_id: products[0].id, quantity: 2 }, { product_id: products[1].id, quantity: 4 }],
+      expires_in_days: 30
+    })).id);
+    const quoteB = await sendQuote((await createQuote({
+      client_id: clients[1].id,
+      representative_id: users[1].id,
+      items: [{ product_id: products[1].id, quantity: 1 }],
+      expires_in_days: 30
+    })).id);
+
+    return { repA: users[0], repB: users[1], clientUserA: users[2], clientA: clients[0], products, quoteA, quoteB };
+  }
+
+  it('should read a quote, its items and the quotes of a client or representative', async () => {
+    const { repA, clientA, products, quoteA } = await createTestData();
+
+    expect(await getQuoteById(quoteA.id)).toEqual(quoteA);
+    expect(await getQuoteById(99999)).toBeNull();
+
+    const items = await getQuoteItems(quoteA.id);
+    expect(items.map(({ product_id, quantity, unit_price, total_price }) => ({ product_id, quantity, unit_price, total_price }))).toEqual([
+      { product_id: products[0].id, quantity: 2, unit_price: 100, total_price: 200 },
+      { product_id: products[1].id, quantity: 4, unit_price: 25.5, total_price: 102 }
+    ]);
+
+    expect((await getQuotesByClient(clientA.id)).map(quote => quote.id)).toEqual([quoteA.id]);
+    expect((await getQuotesByRepresentative(repA.id)).map(quote => quote.id)).toEqual([quoteA.id]);
+    expect(typeof (await getQuotesByRepresentative(repA.id))[0].total_amount).toBe('number');
+  });
+
+  it('should open a shared quote with only its content', async () => {
+    const { quoteA } = await createTestData();
+
+    const shared = await getQuoteByShareToken(quoteA.share_token);
+
+    expect(shared).toEqual({
+      quote_number: quoteA.quote_number,
+      status: 'sent',
+      company_name: 'Garage A',
+      total_amount: 302,
+      expires_at: quoteA.expires_at,
+      created_at: quoteA.created_at,
+      items: [
+        { reference: 'BRK-001', designation: 'Plaquettes de frein', brand: 'Bosch', quantity: 2, unit_price: 100, total_price: 200 },
+        { reference: 'FLT-002', designation: 'Filtre à huile', brand: null, quantity: 4, unit_price: 25.5, total_price: 102 }
+      ]
+    });
+    expect(quoteA.share_link.endsWith(`/quotes/share/${quoteA.share_token}`)).toBe(true);
+  });
+
+  it('should not open expired quotes or unknown tokens', async () => {
+    const { quoteA } = await createTestData();
+
+    expect(await getQuoteByShareToken(quoteA.share_token, new Date(quoteA.expires_at.getTime() + DAY))).toBeNull();
+    expect(await getQuoteByShareToken('0'.repeat(64))).toBeNull();
+
+    const caller = createCaller({ user: null });
+    expect((await caller.quotes.getByShareToken({ shareToken: quoteA.share_token }))?.quote_number).toEqual(quoteA.quote_number);
+  });
+
+  it('should give quotes stored without a share token one of their own', async () => {
+    const { repA, clientA } = await createTestData();
+
+    const legacy = await db.insert(quotesTable)
+      .values([
+        { client_id: clientA.id, representative_id: repA.id, quote_number: 'QUO-LEGACY-1', total_amount: '0.00', qr_code: '', share_link: '', expires_at: new Date() },
+        { client_id: clientA.id, representative_id: repA.id, quote_number: 'QUO-LEGACY-2', total_amount: '0.00', qr_code: '', share_link: '', expires_at: new Date() }
+      ])
+      .returning()
+      .execute();
+
+    expect(legacy[0].share_token).toMatch(/^[0-9a-f]{64}$/);
+    expect(legacy[1].share_token).toMatch(/^[0-9a-f]{64}$/);
+    expect(legacy[0].share_token).not.toEqual(legacy[1].share_token);
+  });
+
+  it('should serve the QR code of the share link as SVG or PNG', async () => {
+    const { clientUserA, quoteA, quoteB } = await createTestData();
+    const clientCaller = createCaller({ user: clientUserA });
+
+    const svg = await clientCaller.quotes.getQrCode({ quoteId: quoteA.id });
+    expect(svg).toMatchObject({ format: 'svg', mime_type: 'image/svg+xml' });
+    expect(svg.data).toEqual(quoteA.qr_code);
+
+    const png = await getQuoteQrCode(quoteA.id, 'png');
+    expect(png.mime_type).toEqual('image/png');
+    expect(Buffer.from(png.data, 'base64').subarray(1, 4).toString('ascii')).toEqual('PNG');
+
+    await expect(getQuoteQrCode(99999)).rejects.toThrow(/quote 99999 not found/i);
+    await expect(clientCaller.quotes.getQrCode({ quoteId: quoteB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('should keep quotes of other clients and representatives out of reach', async () => {
+    const { repA, repB, clientUserA, quoteA, quoteB } = await createTestData();
+    const clientCaller = createCaller({ user: clientUserA });
+    const repCaller = createCaller({ user: repA });
+
+    expect((await clientCaller.quotes.getById({ quoteId: quoteA.id }))?.id).toEqual(quoteA.id);
+    expect(await repCaller.quotes.getItems({ quoteId: quoteA.id })).toHaveLength(2);
+
+    await expect(clientCaller.quotes.getById({ quoteId: quoteB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(clientCaller.quotes.getItems({ quoteId: quoteB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(repCaller.quotes.getById({ quoteId: quoteB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(repCaller.quotes.getByRepresentative({ representativeId: repB.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+describe('convertQuoteToOrder', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createCaller = createCallerFactory(appRouter);
+  const DAY = 24 * 60 * 60 * 1000;
+
+  async function createTestData() {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'rep@example.com', password_hash: 'hashed_password', role: 'representative' },
+        { email: 'client.a@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'client.b@example.com', password_hash: 'hashed_password', role: 'client' }
+      ])
+      .returning()
+      .execute();
+
+    const clients = await db.insert(clientsTable)
+      .values([
+        { user_id: users[1].id, company_name: 'Garage A', contact_name: 'Ali', credit_limit: '10000.00', representative_id: users[0].id },
+        { user_id: users[2].id, company_name: 'Garage B', contact_name: 'Badr', credit_limit: '10000.00', representative_id: users[0].id }
+      ])
+      .returning()
+      .execute();
+
+    const products = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Plaquettes de frein', base_price: '100.00' },
+        { reference: 'FLT-002', designation: 'Filtre à huile', base_price: '25.50' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(stockTable)
+      .values([
+        { product_id: products[0].id, warehouse: 'la_villette', quantity: 10 },
+        { product_id: products[1].id, warehouse: 'la_villette', quantity: 10 }
+      ])
+      .execute();
+
+    const quote = await sendQuote((await createQuote({
+      client_id: clients[0].id,
+      representative_id: users[0].id,
+      items: [{ product_id: products[0].id, quantity: 2 }, { product_id: products[1].id, quantity: 4 }],
+      expires_in_days: 30
+    })).id);
+    const items = await getQuoteItems(quote.id);
+
+    return { rep: users[0], clientUserA: users[1], clientUserB: users[2], clientA: clients[0], products, quote, items };
+  }
+
+  it('should order every line at its quoted price and close the quote', async () => {
+    const { rep, clientA, products, quote } = await createTestData();
+    // Prices moved since the quote was issued
+    await db.update(productsTable).set({ base_price: '120.00' }).where(eq(productsTable.id, products[0].id)).execute();
+
+    const result = await convertQuoteToOrder(quote.id, 'ghazala', undefined, rep.id);
+
+    expect(result.order).toMatchObject({
+      client_id: clientA.id,
+      representative_id: rep.id,
+      quote_id: quote.id,
+      status: 'submitted',
+      carrier: 'ghazala',
+      total_amount: 302
+    });
+    expect(result.quote).toMatchObject({ is_converted_to_order: true, order_id: result.order.id });
+
+    const orderItems = await db.select().from(orderItemsTable).where(eq(orderItemsTable.order_id, result.order.id)).execute();
+    expect(orderItems.map(({ product_id, unit_price }) => [product_id, unit_price])).toEqual([
+      [products[0].id, '100.00'],
+      [products[1].id, '25.50']
+    ]);
+    expect((await getQuoteItems(quote.id)).every(item => item.order_id === result.order.id)).toBe(true);
+
+    const reservations = await db.select().from(stockReservationsTable).where(eq(stockReservationsTable.order_id, result.order.id)).execute();
+    expect(reservations.reduce((sum, reservation) => sum + reservation.quantity, 0)).toEqual(6);
+
+    await expect(convertQuoteToOrder(quote.id, 'ghazala')).rejects.toThrow(/has already been converted to an order/i);
+  });
+
+  it('should convert selected lines and leave the rest open on the quote', async () => {
+    const { quote, items } = await createTestData();
+
+    const first = await convertQuoteToOrder(quote.id, 'ghazala', [items[0].id]);
+
+    expect(first.order.total_amount).toEqual(200);
+    expect(first.quote).toMatchObject({ is_converted_to_order: false, order_id: null });
+    await expect(convertQuoteToOrder(quote.id, 'ghazala', [items[0].id]))
+      .rejects.toThrow(new RegExp(`item ${items[0].id} of quote .* has already been converted`, 'i'));
+    await expect(convertQuoteToOrder(quote.id, 'ghazala', [99999])).rejects.toThrow(/item 99999 does not belong to quote/i);
+
+    // Without a selection, only the lines still open are ordered
+    const second = await convertQuoteToOrder(quote.id, 'sh2t');
+
+    expect(second.order.total_amount).toEqual(102);
+    expect(second.quote).toMatchObject({ is_converted_to_order: true, order_id: second.order.id });
+    expect((await getQuoteItems(quote.id)).map(item => item.order_id)).toEqual([first.order.id, second.order.id]);
+  });
+
+  it('should reprice an expired quote at the current client prices', async () => {
+    const { clientA, products, quote } = await createTestData();
+    await db.update(productsTable).set({ base_price: '120.00' }).where(eq(productsTable.id, products[0].id)).execute();
+    await db.insert(clientProductPricingTable)
+      .values({ client_id: clientA.id, product_id: products[1].id, custom_price: '20.00', discount_percentage: '0.00' })
+      .execute();
+
+    const { order } = await convertQuoteToOrder(quote.id, 'ghazala', undefined, null, new Date(quote.expires_at.getTime() + DAY));
+
+    expect(order.total_amount).toEqual(2 * 120 + 4 * 20);
+  });
+
+  it('should refuse the order when credit or stock run short and keep the quote open', async () => {
+    const { clientA, products, quote } = await createTestData();
+
+    await db.update(clientsTable).set({ credit_limit: '100.00' }).where(eq(clientsTable.id, clientA.id)).execute();
+    await expect(convertQuoteToOrder(quote.id, 'ghazala')).rejects.toThrow(/credit limit exceeded/i);
+
+    await db.update(clientsTable).set({ credit_limit: '10000.00' }).where(eq(clientsTable.id, clientA.id)).execute();
+    await db.update(stockTable).set({ quantity: 1 }).where(eq(stockTable.product_id, products[0].id)).execute();
+    await expect(convertQuoteToOrder(quote.id, 'ghazala')).rejects.toThrow(/insufficient stock for product BRK-001/i);
+
+    expect((await getQuoteById(quote.id))?.is_converted_to_order).toBe(false);
+    expect((await getQuoteItems(quote.id)).every(item => item.order_id === null)).toBe(true);
+    expect(await db.select().from(ordersTable).execute()).toHaveLength(0);
+  });
+
+  it('should let clients convert only their own quotes', async () => {
+    const { clientUserA, clientUserB, quote } = await createTestData();
+
+    await expect(createCaller({ user: clientUserB }).quotes.convertToOrder({ quoteId: quote.id, carrier: 'ghazala' }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const { order } = await createCaller({ user: clientUserA }).quotes.convertToOrder({ quoteId: quote.id, carrier: 'ghazala' });
+    const history = await db.select().from(orderStatusHistoryTable).where(eq(orderStatusHistoryTable.order_id, order.id)).execute();
+    expect(history[0]).toMatchObject({ to_status: 'submitted', changed_by: clientUserA.id });
+  });
+});
+
+describe('quote lifecycle', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createCaller = createCallerFactory(appRouter);
+  const DAY = 24 * 60 * 60 * 1000;
+  let sentMail: MailMessage[];
+
+  beforeEach(() => {
+    sentMail = [];
+    setMailTransport({ send: async (message) => { sentMail.push(message); } });
+  });
+
+  afterEach(() => {
+    setMailTransport(consoleMailTransport);
+  });
+
+  async function createTestData() {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'rep.a@example.com', password_hash: 'hashed_password', role: 'representative' },
+        { email: 'rep.b@example.com', password_hash: 'hashed_password', role: 'representative' },
+        { email: 'client@example.com', password_hash: 'hashed_password', role: 'client' }
+      ])
+      .returning()
+      .execute();
+
+    const clients = await db.insert(clientsTable)
+      .values({ user_id: users[2].id, company_name: 'Garage A', contact_name: 'Ali', credit_limit: '10000.00', representative_id: users[0].id })
+      .returning()
+      .execute();
+
+    const products = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Plaquettes de frein', base_price: '100.00' },
+        { reference: 'FLT-002', designation: 'Filtre à huile', base_price: '25.50' }
+      ])
+      .returning()
+      .execute();
+
+    const draft = await createQuote({
+      client_id: clients[0].id,
+      representative_id: users[0].id,
+      items: [{ product_id: products[0].id, quantity: 2 }],
+      expires_in_days: 10
+    });
+
+    return { repA: users[0], repB: users[1], products, draft };
+  }
+
+  it('should edit a draft until it is sent, then email the share link to the client', async () => {
+    const { products, draft } = await createTestData();
+
+    expect(await getQuoteByShareToken(draft.share_token)).toBeNull();
+
+    const edited = await updateQuote({
+      quote_id: draft.id,
+      items: [{ product_id: products[0].id, quantity: 1 }, { product_id: products[1].id, quantity: 2 }],
+      expires_in_days: 15
+    });
+
+    expect(edited.total_amount).toEqual(151);
+    expect(edited.expires_at.getTime()).toBeGreaterThan(draft.expires_at.getTime());
+    expect((await getQuoteItems(draft.id)).map(item => item.quantity)).toEqual([1, 2]);
+
+    const sent = await sendQuote(draft.id);
+
+    expect(sent.status).toEqual('sent');
+    expect(sent.sent_at).toBeInstanceOf(Date);
+    expect(sentMail).toHaveLength(1);
+    expect(sentMail[0].to).toEqual('client@example.com');
+    expect(sentMail[0].text).toContain(draft.share_link);
+
+    await expect(updateQuote({ quote_id: draft.id, items: [{ product_id: products[0].id, quantity: 3 }] }))
+      .rejects.toThrow(/is sent and cannot be edited/i);
+    await expect(sendQuote(draft.id)).rejects.toThrow(/is sent and cannot be sent/i);
+  });
+
+  it('should not send a draft whose validity has run out', async () => {
+    const { draft } = await createTestData();
+
+    await expect(sendQuote(draft.id, new Date(draft.expires_at.getTime() + DAY))).rejects.toThrow(/extend its validity/i);
+    expect(sentMail).toHaveLength(0);
+  });
+
+  it('should let the client accept or reject a sent quote from its share link', async () => {
+    const { repA, products, draft } = await createTestData();
+    await sendQuote(draft.id);
+    const caller = createCaller({ user: null });
+
+    const accepted = await caller.quotes.acceptByShareToken({ shareToken: draft.share_token });
+
+    expect(accepted.status).toEqual('accepted');
+    expect(await getQuoteById(draft.id)).toMatchObject({ status: 'accepted', rejection_reason: null });
+    await expect(rejectSharedQuote(draft.share_token, 'Trop cher')).rejects.toThrow(/is accepted and can no longer be answered/i);
+
+    const other = await sendQuote((await createQuote({
+      client_id: draft.client_id,
+      representative_id: repA.id,
+      items: [{ product_id: products[1].id, quantity: 1 }],
+      expires_in_days: 10
+    })).id);
+    await caller.quotes.rejectByShareToken({ shareToken: other.share_token, reason: 'Trop cher' });
+
+    const rejected = await getQuoteById(other.id);
+    expect(rejected).toMatchObject({ status: 'rejected', rejection_reason: 'Trop cher' });
+    expect(rejected?.responded_at).toBeInstanceOf(Date);
+    await expect(convertQuoteToOrder(other.id, 'ghazala')).rejects.toThrow(/is rejected and cannot be converted/i);
+  });
+
+  it('should refuse answers on drafts, unknown tokens and expired quotes', async () => {
+    const { draft } = await createTestData();
+
+    await expect(acceptSharedQuote(draft.share_token)).rejects.toThrow(/quote not found/i);
+    await expect(acceptSharedQuote('0'.repeat(64))).rejects.toThrow(/quote not found/i);
+
+    await sendQuote(draft.id);
+    await expect(acceptSharedQuote(draft.share_token, new Date(draft.expires_at.getTime() + DAY))).rejects.toThrow(/has expired/i);
+  });
+
+  it('should expire sent quotes past their validity on the scheduled run', async () => {
+    const { repA, products, draft } = await createTestData();
+    await sendQuote(draft.id);
+    const stillDraft = await createQuote({
+      client_id: draft.client_id,
+      representative_id: repA.id,
+      items: [{ product_id: products[1].id, quantity: 1 }],
+      expires_in_days: 1
+    });
+
+    expect(await expireQuotes()).toEqual({ expired: 0 });
+    expect(await expireQuotes(new Date(draft.expires_at.getTime() + DAY))).toEqual({ expired: 1 });
+
+    expect((await getQuoteById(draft.id))?.status).toEqual('expired');
+    expect((await getQuoteById(stillDraft.id))?.status).toEqual('draft');
+  });
+
+  it('should revise a quote under the same number and keep the previous version', async () => {
+    const { products, draft } = await createTestData();
+    await sendQuote(draft.id);
+
+    await expect(reviseQuote(99999)).rejects.toThrow(/quote 99999 not found/i);
+
+    const revision = await reviseQuote(draft.id);
+
+    expect(revision).toMatchObject({
+      quote_number: `${draft.quote_number}-R1`,
+      status: 'draft',
+      revision: 1,
+      previous_version_id: draft.id,
+      total_amount: 200
+    });
+    expect(revision.share_token).not.toEqual(draft.share_token);
+    expect((await getQuoteItems(revision.id)).map(({ product_id, quantity, unit_price }) => ({ product_id, quantity, unit_price }))).toEqual([
+      { product_id: products[0].id, quantity: 2, unit_price: 100 }
+    ]);
+
+    const previous = await getQuoteById(draft.id);
+    expect(previous?.status).toEqual('superseded');
+    expect((await getQuoteItems(draft.id))).toHaveLength(1);
+    await expect(reviseQuote(draft.id)).rejects.toThrow(/is superseded and cannot be revised/i);
+    await expect(reviseQuote(revision.id)).rejects.toThrow(/is draft and cannot be revised/i);
+
+    await sendQuote(revision.id);
+    await rejectSharedQuote(revision.share_token, 'Délai trop long');
+    expect((await reviseQuote(revision.id)).quote_number).toEqual(`${draft.quote_number}-R2`);
+  });
+
+  it('should accept a sent quote when it is ordered and refuse unsent drafts', async () => {
+    const { products, draft } = await createTestData();
+    await db.insert(stockTable).values({ product_id: products[0].id, warehouse: 'la_villette', quantity: 5 }).execute();
+
+    await expect(convertQuoteToOrder(draft.id, 'ghazala')).rejects.toThrow(/is draft and cannot be converted/i);
+
+    await sendQuote(draft.id);
+    const { quote } = await convertQuoteToOrder(draft.id, 'ghazala');
+
+    expect(quote.status).toEqual('accepted');
+    await expect(reviseQuote(draft.id)).rejects.toThrow(/is accepted and cannot be revised/i);
+  });
+
+  it('should keep other representatives away from a quote workflow', async () => {
+    const { repA, repB, draft } = await createTestData();
+
+    await expect(createCaller({ user: repB }).quotes.send({ quoteId: draft.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(createCaller({ user: repB }).quotes.revise({ quoteId: draft.id })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    expect((await createCaller({ user: repA }).quotes.send({ quoteId: draft.id })).status).toEqual('sent');
+  });
+});
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, productsTable, ordersTable, orderItemsTable, stockTable } from '../db/schema';
+import { createOrder } from '../handlers/orders';
+import { stockKey } from '../handlers/stock';
+import { setReorderPoint, getReorderPoints, getLowStockAlerts, getSalesVelocity, DEFAULT_MIN_QUANTITY } from '../handlers/reorder';
+import { getCounterDashboard, getWarehouseLaVilletteDashboard } from '../handlers/dashboards';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('reorder points', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let orderSequence = 0;
+
+  async function createTestData() {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'client@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'warehouse@example.com', password_hash: 'hashed_password', role: 'warehouse_la_villette' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ user_id: userResult[0].id, company_name: 'Atlas', contact_name: 'Karim', credit_limit: '100000.00' })
+      .returning()
+      .execute();
+
+    const productResult = await db.insert(productsTable)
+      .values([
+        { reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' },
+        { reference: 'FLT-001', designation: 'Oil filter', base_price: '25.00' },
+        { reference: 'OLD-001', designation: 'Discontinued', base_price: '10.00', is_active: false }
+      ])
+      .returning()
+      .execute();
+
+    return {
+      client: clientResult[0],
+      storekeeper: userResult[1],
+      pads: productResult[0],
+      filters: productResult[1],
+      discontinued: productResult[2]
+    };
+  }
+
+  async function recordSale(
+    clientId: number,
+    productId: number,
+    quantity: number,
+    createdAt: Date,
+    status: 'delivered' | 'cancelled' = 'delivered'
+  ) {
+    orderSequence++;
+    const orderResult = await db.insert(ordersTable)
+      .values({
+        client_id: clientId,
+        order_number: `ORD-SALE-${orderSequence}`,
+        total_amount: '0.00',
+        carrier: 'ghazala',
+        status,
+        created_at: createdAt
+      })
+      .returning()
+      .execute();
+
+    await db.insert(orderItemsTable)
+      .values({ order_id: orderResult[0].id, product_id: productId, quantity, unit_price: '0.00', total_price: '0.00' })
+      .execute();
+  }
+
+  it('should create and update the min/max levels of a product per warehouse', async () => {
+    const { storekeeper, pads } = await createTestData();
+
+    await setReorderPoint({ product_id: pads.id, warehouse: 'la_villette', min_quantity: 5, max_quantity: 40 }, storekeeper.id);
+    const updated = await setReorderPoint({ product_id: pads.id, warehouse: 'la_villette', min_quantity: 8 }, storekeeper.id);
+
+    expect(updated).toMatchObject({ warehouse: 'la_villette', min_quantity: 8, max_quantity: null, updated_by: storekeeper.id });
+    expect(await getReorderPoints(pads.id)).toHaveLength(1);
+
+    await expect(setReorderPoint({ product_id: pads.id, warehouse: 'ibn_tachfine', min_quantity: 20, max_quantity: 10 }))
+      .rejects.toThrow(/maximum level 10 is below the minimum level 20/i);
+    await expect(setReorderPoint({ product_id: 99999, warehouse: 'ibn_tachfine', min_quantity: 1 }))
+      .rejects.toThrow(/product with id 99999 not found/i);
+  });
+
+  it('should measure sales velocity over recent orders that were not refused or cancelled', async () => {
+    const { client, pads, filters } = await createTestData();
+    const now = new Date();
+
+    await recordSale(client.id, pads.id, 45, new Date(now.getTime() - 5 * DAY));
+    await recordSale(client.id, pads.id, 15, new Date(now.getTime() - 20 * DAY));
+    await recordSale(client.id, pads.id, 100, new Date(now.getTime() - 40 * DAY));
+    await recordSale(client.id, pads.id, 100, new Date(now.getTime() - 2 * DAY), 'cancelled');
+    // Orders placed after the measured day are left out
+    await recordSale(client.id, pads.id, 9, new Date(now.getTime() + DAY));
+
+    const velocity = await getSalesVelocity([pads.id, filters.id], 30, now);
+
+    expect(velocity.get(stockKey(pads.id, 'ibn_tachfine'))).toEqual(2);
+    expect(velocity.has(stockKey(pads.id, 'la_villette'))).toBe(false);
+    expect(velocity.has(stockKey(filters.id, 'ibn_tachfine'))).toBe(false);
+  });
+
+  it('should alert below the configured minimum and suggest refilling to the maximum', async () => {
+    const { client, pads, filters } = await createTestData();
+    await db.insert(stockTable)
+      .values([
+        { product_id: pads.id, warehouse: 'ibn_tachfine', quantity: 30 },
+        { product_id: filters.id, warehouse: 'ibn_tachfine', quantity: 12 }
+      ])
+      .execute();
+    await setReorderPoint({ product_id: pads.id, warehouse: 'ibn_tachfine', min_quantity: 25, max_quantity: 60 });
+
+    // Reserved units are no longer available, so the order pushes the pads under their minimum
+    await createOrder({ client_id: client.id, carrier: 'ghazala', items: [{ product_id: pads.id, quantity: 10 }] });
+
+    const alerts = await getLowStockAlerts(['ibn_tachfine']);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({
+      product_id: pads.id,
+      reference: 'BRK-001',
+      warehouse: 'ibn_tachfine',
+      stock_level: 30,
+      available: 20,
+      min_quantity: 25,
+      max_quantity: 60,
+      suggested_quantity: 40
+    });
+  });
+
+  it('should size suggestions without a maximum on a month of sales and fall back to the default minimum', async () => {
+    const { client, pads, filters, discontinued } = await createTestData();
+    await db.insert(stockTable)
+      .values([
+        { product_id: filters.id, warehouse: 'la_villette', quantity: 4 },
+        { product_id: discontinued.id, warehouse: 'la_villette', quantity: 0 }
+      ])
+      .execute();
+    // Never stocked at Ibn Tachfine, but expected to be
+    await setReorderPoint({ product_id: pads.id, warehouse: 'ibn_tachfine', min_quantity: 6 });
+    await recordSale(client.id, pads.id, 15, new Date(Date.now() - DAY));
+
+    const alerts = await getLowStockAlerts(['ibn_tachfine', 'la_villette']);
+
+    expect(alerts.map(({ reference, available, min_quantity, daily_sales, suggested_quantity }) => ({
+      reference, available, min_quantity, daily_sales, suggested_quantity
+    }))).toEqual([
+      { reference: 'BRK-001', available: 0, min_quantity: 6, daily_sales: 0.5, suggested_quantity: 21 },
+      { reference: 'FLT-001', available: 4, min_quantity: DEFAULT_MIN_QUANTITY, daily_sales: 0, suggested_quantity: 6 }
+    ]);
+
+    // A minimum of zero silences the product
+    await setReorderPoint({ product_id: filters.id, warehouse: 'la_villette', min_quantity: 0 });
+    expect((await getLowStockAlerts(['ibn_tachfine', 'la_villette'])).map(alert => alert.reference)).toEqual(['BRK-001']);
+  });
+
+  it('should size each warehouse on the sales it fulfils', async () => {
+    const { client, pads } = await createTestData();
+    await db.insert(stockTable)
+      .values([
+        { product_id: pads.id, warehouse: 'ibn_tachfine', quantity: 0 },
+        { product_id: pads.id, warehouse: 'drb_omar', quantity: 0 },
+        { product_id: pads.id, warehouse: 'la_villette', quantity: 0 }
+      ])
+      .execute();
+    await recordSale(client.id, pads.id, 30, new Date(Date.now() - DAY));
+
+    const alerts = await getLowStockAlerts(['ibn_tachfine', 'drb_omar', 'la_villette']);
+
+    expect(alerts.map(alert => [alert.warehouse, alert.daily_sales, alert.suggested_quantity]).sort()).toEqual([
+      ['drb_omar', 0, DEFAULT_MIN_QUANTITY],
+      ['ibn_tachfine', 1, DEFAULT_MIN_QUANTITY + 30],
+      ['la_villette', 0, DEFAULT_MIN_QUANTITY]
+    ]);
+  });
+
+  it('should list the alerts of each site in its warehouse dashboard', async () => {
+    const { pads, filters } = await createTestData();
+    await db.insert(stockTable)
+      .values([
+        { product_id: pads.id, warehouse: 'ibn_tachfine', quantity: 3 },
+        { product_id: filters.id, warehouse: 'drb_omar', quantity: 2 },
+        { product_id: filters.id, warehouse: 'la_villette', quantity: 1 }
+      ])
+      .execute();
+
+    const counter = await getCounterDashboard();
+    const laVillette = await getWarehouseLaVilletteDashboard();
+
+    expect(counter.lowStockAlerts.map(alert => [alert.reference, alert.warehouse])).toEqual([
+      ['FLT-001', 'drb_omar'],
+      ['BRK-001', 'ibn_tachfine']
+    ]);
+    expect(laVillette.lowStockAlerts.map(alert => [alert.reference, alert.warehouse])).toEqual([['FLT-001', 'la_villette']]);
+  });
+});
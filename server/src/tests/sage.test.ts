@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, ordersTable, orderItemsTable, productsTable, sageExportOutboxTable } from '../db/schema';
+import { validateOrder } from '../handlers/orders';
+import { processSageOutbox, retrySageExport, getSageExports, SAGE_EXPORT_MAX_ATTEMPTS } from '../handlers/sage';
+import {
+  createFileSageAdapter,
+  formatSageOrderDocument,
+  setSageAdapter,
+  unconfiguredSageAdapter,
+  type SageAdapter,
+  type SageOrderDocument
+} from '../sage';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Local fake standing in for Sage: records documents and can be told to fail
+function createFakeSageAdapter() {
+  const documents: SageOrderDocument[] = [];
+  let failure: string | null = null;
+
+  const adapter: SageAdapter = {
+    async exportOrder(document) {
+      if (failure) {
+        throw new Error(failure);
+      }
+      documents.push(document);
+      return { document_number: `BC${documents.length.toString().padStart(5, '0')}` };
+    }
+  };
+
+  return {
+    adapter,
+    documents,
+    fail(message: string | null) {
+      failure = message;
+    }
+  };
+}
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+async function createTestData(sageId: string | null = 'CLI0042') {
+  const userResult = await db.insert(usersTable)
+    .values([
+      { email: 'client@example.com', password_hash: 'hashed_password', role: 'client', sage_id: sageId },
+      { email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' }
+    ])
+    .returning()
+    .execute();
+
+  const clientResult = await db.insert(clientsTable)
+    .values({ user_id: userResult[0].id, company_name: 'Garage Atlas', contact_name: 'Karim', credit_limit: '5000.00' })
+    .returning()
+    .execute();
+
+  const productResult = await db.insert(productsTable)
+    .values([
+      { reference: 'BRK-001', designation: 'Plaquettes de frein', base_price: '100.00' },
+      { reference: 'FLT-002', designation: 'Filtre à huile', base_price: '25.50' }
+    ])
+    .returning()
+    .execute();
+
+  const orderResult = await db.insert(ordersTable)
+    .values({ client_id: clientResult[0].id, order_number: 'ORD-2024-00007', total_amount: '251.00', carrier: 'ghazala' })
+    .returning()
+    .execute();
+
+  await db.insert(orderItemsTable)
+    .values([
+      { order_id: orderResult[0].id, product_id: productResult[0].id, quantity: 2, unit_price: '100.00', total_price: '200.00' },
+      { order_id: orderResult[0].id, product_id: productResult[1].id, quantity: 2, unit_price: '25.50', total_price: '51.00' }
+    ])
+    .execute();
+
+  return {
+    clientUser: userResult[0],
+    accountant: userResult[1],
+    order: orderResult[0]
+  };
+}
+
+async function getOutboxEntry(orderId: number) {
+  const entries = await db.select()
+    .from(sageExportOutboxTable)
+    .where(eq(sageExportOutboxTable.order_id, orderId))
+    .execute();
+  return entries[0];
+}
+
+describe('formatSageOrderDocument', () => {
+  it('should write a header line and one line per product', () => {
+    const content = formatSageOrderDocument('BC202400007', {
+      order_number: 'ORD-2024-00007',
+      order_date: new Date(2024, 2, 5),
+      client_code: 'CLI0042',
+      client_name: 'Garage; Atlas',
+      carrier: 'ghazala',
+      total_amount: 251,
+      lines: [
+        { product_code: 'BRK-001', designation: 'Plaquettes\nde frein', quantity: 2, unit_price: 100, total_price: 200 },
+        { product_code: 'FLT-002', designation: 'Filtre à huile', quantity: 2, unit_price: 25.5, total_price: 51 }
+      ]
+    });
+
+    expect(content).toEqual(
+      'E;BC202400007;ORD-2024-00007;20240305;CLI0042;Garage Atlas;ghazala;251.00\r\n' +
+      'L;BC202400007;BRK-001;Plaquettes de frein;2;100.00;200.00\r\n' +
+      'L;BC202400007;FLT-002;Filtre à huile;2;25.50;51.00\r\n'
+    );
+  });
+});
+
+describe('createFileSageAdapter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'sage-export-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write one import file per order and return its document number', async () => {
+    const adapter = createFileSageAdapter(path.join(directory, 'inbox'));
+
+    const result = await adapter.exportOrder({
+      order_number: 'ORD-2024-00007',
+      order_date: new Date(2024, 2, 5),
+      client_code: 'CLI0042',
+      client_name: 'Garage Atlas',
+      carrier: 'baha',
+      total_amount: 200,
+      lines: [{ product_code: 'BRK-001', designation: 'Plaquettes de frein', quantity: 2, unit_price: 100, total_price: 200 }]
+    });
+
+    expect(result.document_number).toEqual('BC202400007');
+    expect(await readdir(path.join(directory, 'inbox'))).toEqual(['BC202400007.txt']);
+
+    const content = await readFile(path.join(directory, 'inbox', 'BC202400007.txt'), 'latin1');
+    expect(content.startsWith('E;BC202400007;ORD-2024-00007;20240305;CLI0042;')).toBe(true);
+    expect(content).toContain('L;BC202400007;BRK-001;Plaquettes de frein;2;100.00;200.00\r\n');
+  });
+});
+
+describe('Sage export outbox', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+  afterEach(() => setSageAdapter(unconfiguredSageAdapter));
+
+  it('should export approved orders and record the Sage document number', async () => {
+    const fake = createFakeSageAdapter();
+    setSageAdapter(fake.adapter);
+    const { accountant, order } = await createTestData();
+
+    const result = await validateOrder(order.id, accountant.id, true);
+
+    expect(result.sage_document_number).toEqual('BC00001');
+    expect(fake.documents).toHaveLength(1);
+    expect(fake.documents[0]).toMatchObject({
+      order_number: 'ORD-2024-00007',
+      client_code: 'CLI0042',
+      client_name: 'Garage Atlas',
+      carrier: 'ghazala',
+      total_amount: 251
+    });
+    expect(fake.documents[0].lines.map(line => [line.product_code, line.quantity, line.unit_price])).toEqual([
+      ['BRK-001', 2, 100],
+      ['FLT-002', 2, 25.5]
+    ]);
+
+    const entry = await getOutboxEntry(order.id);
+    expect(entry.status).toEqual('exported');
+    expect(entry.attempts).toEqual(1);
+    expect(entry.exported_at).toBeInstanceOf(Date);
+  });
+
+  it('should not export refused orders', async () => {
+    const fake = createFakeSageAdapter();
+    setSageAdapter(fake.adapter);
+    const { accountant, order } = await createTestData();
+
+    await validateOrder(order.id, accountant.id, false, 'Duplicate order');
+
+    expect(fake.documents).toHaveLength(0);
+    expect(await getOutboxEntry(order.id)).toBeUndefined();
+  });
+
+  it('should keep the approval when Sage fails and retry from the outbox', async () => {
+    const fake = createFakeSageAdapter();
+    fake.fail('Sage unreachable');
+    setSageAdapter(fake.adapter);
+    const { accountant, order } = await createTestData();
+
+    const result = await validateOrder(order.id, accountant.id, true);
+
+    expect(result.status).toEqual('validated');
+    expect(result.sage_document_number).toBeNull();
+
+    const failed = await getOutboxEntry(order.id);
+    expect(failed.status).toEqual('pending');
+    expect(failed.attempts).toEqual(1);
+    expect(failed.last_error).toEqual('Sage unreachable');
+    expect(failed.next_attempt_at.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await processSageOutbox()).toEqual({ exported: 0, failed: 0 });
+
+    fake.fail(null);
+    expect(await processSageOutbox(50, new Date(Date.now() + ONE_HOUR))).toEqual({ exported: 1, failed: 0 });
+
+    const exported = await getOutboxEntry(order.id);
+    expect(exported.status).toEqual('exported');
+    expect(exported.attempts).toEqual(2);
+    expect(exported.last_error).toBeNull();
+
+    const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, order.id)).execute();
+    expect(orders[0].sage_document_number).toEqual('BC00001');
+  });
+
+  it('should record missing client Sage ids as export failures', async () => {
+    const fake = createFakeSageAdapter();
+    setSageAdapter(fake.adapter);
+    const { clientUser, accountant, order } = await createTestData(null);
+
+    await validateOrder(order.id, accountant.id, true);
+
+    expect(fake.documents).toHaveLength(0);
+    expect((await getOutboxEntry(order.id)).last_error).toEqual('Client Garage Atlas has no Sage id');
+
+    await db.update(usersTable).set({ sage_id: 'CLI0099' }).where(eq(usersTable.id, clientUser.id)).execute();
+    const retried = await retrySageExport(order.id);
+
+    expect(retried?.status).toEqual('exported');
+    expect(fake.documents[0].client_code).toEqual('CLI0099');
+  });
+
+  it('should give up after the maximum number of attempts until retried manually', async () => {
+    const fake = createFakeSageAdapter();
+    fake.fail('Sage unreachable');
+    setSageAdapter(fake.adapter);
+    const { accountant, order } = await createTestData();
+
+    await validateOrder(order.id, accountant.id, true);
+
+    let now = Date.now();
+    for (let attempt = 2; attempt <= SAGE_EXPORT_MAX_ATTEMPTS; attempt++) {
+      now += 2 * ONE_HOUR;
+      await processSageOutbox(50, new Date(now));
+    }
+
+    const failed = await getOutboxEntry(order.id);
+    expect(failed.status).toEqual('failed');
+    expect(failed.attempts).toEqual(SAGE_EXPORT_MAX_ATTEMPTS);
+    expect(await processSageOutbox(50, new Date(now + 2 * ONE_HOUR))).toEqual({ exported: 0, failed: 0 });
+    expect(await getSageExports('failed')).toHaveLength(1);
+
+    fake.fail(null);
+    const retried = await retrySageExport(order.id);
+
+    expect(retried?.status).toEqual('exported');
+    expect(await getSageExports('failed')).toHaveLength(0);
+  });
+
+  it('should queue exports while Sage is not configured', async () => {
+    const { accountant, order } = await createTestData();
+
+    await validateOrder(order.id, accountant.id, true);
+
+    const entry = await getOutboxEntry(order.id);
+    expect(entry.status).toEqual('pending');
+    expect(entry.last_error).toMatch(/not configured/i);
+  });
+
+  it('should refuse to retry orders without a pending export', async () => {
+    await expect(retrySageExport(99999)).rejects.toThrow(/no pending sage export for order 99999/i);
+  });
+});
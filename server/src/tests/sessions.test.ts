@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { createUser, login } from '../handlers/auth';
+import { refreshSession, listSessions, revokeSession, verifyToken } from '../handlers/sessions';
+import { appRouter } from '../router';
+import { createCallerFactory, createContextFromToken } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+const credentials = { email: 'rep@example.com', password: 'password123' };
+
+async function callerFor(token: string) {
+  return createCaller(await createContextFromToken(token));
+}
+
+describe('sessions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await createUser({ ...credentials, role: 'representative' });
+  });
+
+  describe('login', () => {
+    it('should open a session with a short-lived access token', async () => {
+      const result = await login(credentials, 'Mozilla/5.0');
+
+      const payload = verifyToken(result.token);
+      const sessions = await db.select().from(sessionsTable).execute();
+
+      expect(result.refresh_token).toBeDefined();
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].user_agent).toEqual('Mozilla/5.0');
+      expect(sessions[0].refresh_token_hash).not.toEqual(result.refresh_token);
+      expect(payload?.sid).toEqual(sessions[0].id);
+      expect(payload!.exp - Date.now()).toBeLessThanOrEqual(15 * 60 * 1000);
+    });
+
+    it('should attach the session to the request context', async () => {
+      const result = await login(credentials);
+
+      const ctx = await createContextFromToken(result.token);
+
+      expect(ctx.user?.email).toEqual(credentials.email);
+      expect(ctx.sessionId).toEqual(verifyToken(result.token)!.sid);
+    });
+  });
+
+  describe('refreshSession', () => {
+    it('should issue new tokens and rotate the refresh token', async () => {
+      const first = await login(credentials);
+
+      const second = await refreshSession({ refresh_token: first.refresh_token });
+
+      expect(second.refresh_token).not.toEqual(first.refresh_token);
+      expect(verifyToken(second.token)!.sid).toEqual(verifyToken(first.token)!.sid);
+      expect((await createContextFromToken(second.token)).user?.email).toEqual(credentials.email);
+
+      const third = await refreshSession({ refresh_token: second.refresh_token });
+      expect(third.refresh_token).not.toEqual(second.refresh_token);
+    });
+
+    it('should revoke the session when a rotated-out refresh token is reused', async () => {
+      const first = await login(credentials);
+      const second = await refreshSession({ refresh_token: first.refresh_token });
+
+      await expect(refreshSession({ refresh_token: first.refresh_token })).rejects.toThrow(/invalid refresh token/i);
+
+      // The legitimate holder is signed out too
+      await expect(refreshSession({ refresh_token: second.refresh_token })).rejects.toThrow(/invalid refresh token/i);
+      expect((await createContextFromToken(second.token)).user).toBeNull();
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      await expect(refreshSession({ refresh_token: 'deadbeef' })).rejects.toThrow(/invalid refresh token/i);
+    });
+
+    it('should reject expired sessions', async () => {
+      const { refresh_token } = await login(credentials);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      await expect(refreshSession({ refresh_token })).rejects.toThrow(/invalid refresh token/i);
+    });
+
+    it('should reject deactivated users', async () => {
+      const { refresh_token } = await login(credentials);
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.email, credentials.email))
+        .execute();
+
+      await expect(refreshSession({ refresh_token })).rejects.toThrow(/deactivated/i);
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the current session only', async () => {
+      const current = await login(credentials);
+      const other = await login(credentials);
+      const caller = await callerFor(current.token);
+
+      const result = await caller.auth.logout();
+
+      expect(result.success).toBe(true);
+      expect((await createContextFromToken(current.token)).user).toBeNull();
+      await expect(refreshSession({ refresh_token: current.refresh_token })).rejects.toThrow(/invalid refresh token/i);
+      expect((await createContextFromToken(other.token)).user?.email).toEqual(credentials.email);
+    });
+  });
+
+  describe('listSessions', () => {
+    it('should list active sessions and flag the current one', async () => {
+      const current = await login(credentials, 'Laptop');
+      const other = await login(credentials, 'Phone');
+      await (await callerFor(other.token)).auth.logout();
+      await login(credentials, 'Tablet');
+
+      const caller = await callerFor(current.token);
+      const sessions = await caller.auth.listSessions();
+
+      expect(sessions).toHaveLength(2);
+      expect(sessions.map(session => session.user_agent).sort()).toEqual(['Laptop', 'Tablet']);
+      expect(sessions.find(session => session.is_current)?.user_agent).toEqual('Laptop');
+      expect(sessions[0]).not.toHaveProperty('refresh_token_hash');
+    });
+
+    it('should only list the sessions of the given user', async () => {
+      await createUser({ email: 'other@example.com', password: 'password123', role: 'accounting' });
+      const { user } = await login(credentials);
+      await login({ email: 'other@example.com', password: 'password123' });
+
+      const sessions = await listSessions(user.id, null);
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].user_id).toEqual(user.id);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should revoke another session of the same user', async () => {
+      const current = await login(credentials);
+      const other = await login(credentials);
+      const caller = await callerFor(current.token);
+
+      await caller.auth.revokeSession({ session_id: verifyToken(other.token)!.sid });
+
+      expect((await createContextFromToken(other.token)).user).toBeNull();
+      expect((await createContextFromToken(current.token)).user).not.toBeNull();
+    });
+
+    it('should not let users revoke sessions of someone else', async () => {
+      await createUser({ email: 'other@example.com', password: 'password123', role: 'accounting' });
+      const { user } = await login(credentials);
+      const other = await login({ email: 'other@example.com', password: 'password123' });
+
+      await expect(revokeSession(verifyToken(other.token)!.sid, user)).rejects.toThrow(/not found/i);
+      expect((await createContextFromToken(other.token)).user).not.toBeNull();
+    });
+
+    it('should let director_admin revoke any session', async () => {
+      const director = await createUser({ email: 'director@example.com', password: 'password123', role: 'director_admin' });
+      const rep = await login(credentials);
+
+      await revokeSession(verifyToken(rep.token)!.sid, director);
+
+      expect((await createContextFromToken(rep.token)).user).toBeNull();
+    });
+  });
+});
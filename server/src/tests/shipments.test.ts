@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, ordersTable, shipmentGroupsTable } from '../db/schema';
+import { type Carrier } from '../schema';
+import {
+  getShippingDate,
+  assignOrderToShipmentGroup,
+  groupValidatedOrders,
+  getUpcomingShipmentGroups
+} from '../handlers/shipments';
+import { validateOrder, updateOrderStatus, getGroupedOrders } from '../handlers/orders';
+import { getCounterDashboard } from '../handlers/dashboards';
+import { eq } from 'drizzle-orm';
+
+describe('getShippingDate', () => {
+  it('should ship orders placed before 19:00 the same day', () => {
+    expect(getShippingDate(new Date(2024, 2, 5, 8, 0))).toEqual('2024-03-05');
+    expect(getShippingDate(new Date(2024, 2, 5, 18, 59, 59))).toEqual('2024-03-05');
+  });
+
+  it('should roll orders placed from 19:00 on to the next day', () => {
+    expect(getShippingDate(new Date(2024, 2, 5, 19, 0))).toEqual('2024-03-06');
+    expect(getShippingDate(new Date(2024, 1, 29, 23, 30))).toEqual('2024-03-01');
+    expect(getShippingDate(new Date(2024, 11, 31, 20, 0))).toEqual('2025-01-01');
+  });
+});
+
+describe('shipment grouping', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let orderSequence = 0;
+
+  async function createClient(name: string) {
+    const userResult = await db.insert(usersTable)
+      .values({ email: `${name.toLowerCase()}@example.com`, password_hash: 'hashed_password', role: 'client' })
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ user_id: userResult[0].id, company_name: name, contact_name: 'Contact', credit_limit: '10000.00' })
+      .returning()
+      .execute();
+
+    return clientResult[0];
+  }
+
+  async function createOrder(
+    clientId: number,
+    carrier: Carrier,
+    values: { status?: 'submitted' | 'validated'; total_amount?: string; created_at?: Date } = {}
+  ) {
+    orderSequence++;
+    const result = await db.insert(ordersTable)
+      .values({
+        client_id: clientId,
+        order_number: `ORD-TEST-${orderSequence}`,
+        total_amount: values.total_amount ?? '100.00',
+        carrier,
+        status: values.status ?? 'validated',
+        created_at: values.created_at
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  }
+
+  async function getOrder(orderId: number) {
+    const orders = await db.select().from(ordersTable).where(eq(ordersTable.id, orderId)).execute();
+    return orders[0];
+  }
+
+  it('should bundle same-day orders of a client and carrier into one group', async () => {
+    const client = await createClient('Atlas');
+    const first = await createOrder(client.id, 'ghazala', { created_at: new Date(2024, 2, 5, 9, 0) });
+    const second = await createOrder(client.id, 'ghazala', { created_at: new Date(2024, 2, 5, 18, 30) });
+
+    const firstGroup = await assignOrderToShipmentGroup(first, new Date(2024, 2, 5, 9, 0));
+    expect((await getOrder(first.id)).is_grouped).toBe(false);
+
+    const secondGroup = await assignOrderToShipmentGroup(second, new Date(2024, 2, 5, 18, 30));
+
+    expect(secondGroup.id).toEqual(firstGroup.id);
+    expect(secondGroup.shipping_date).toEqual('2024-03-05');
+    expect(secondGroup.carrier).toEqual('ghazala');
+
+    const [firstOrder, secondOrder] = [await getOrder(first.id), await getOrder(second.id)];
+    expect(firstOrder.shipment_group_id).toEqual(firstGroup.id);
+    expect(secondOrder.shipment_group_id).toEqual(firstGroup.id);
+    expect(firstOrder.is_grouped).toBe(true);
+    expect(secondOrder.is_grouped).toBe(true);
+  });
+
+  it('should keep carriers and clients apart', async () => {
+    const atlas = await createClient('Atlas');
+    const rif = await createClient('Rif');
+    const at = new Date(2024, 2, 5, 10, 0);
+    const ghazala = await createOrder(atlas.id, 'ghazala', { created_at: at });
+    const baha = await createOrder(atlas.id, 'baha', { created_at: at });
+    const otherClient = await createOrder(rif.id, 'ghazala', { created_at: at });
+
+    const groups = [
+      await assignOrderToShipmentGroup(ghazala, at),
+      await assignOrderToShipmentGroup(baha, at),
+      await assignOrderToShipmentGroup(otherClient, at)
+    ];
+
+    expect(new Set(groups.map(group => group.id)).size).toEqual(3);
+    expect((await getOrder(ghazala.id)).is_grouped).toBe(false);
+    expect((await getOrder(otherClient.id)).is_grouped).toBe(false);
+  });
+
+  it('should roll late orders into the next day group', async () => {
+    const client = await createClient('Atlas');
+    const onTime = await createOrder(client.id, 'sh2t', { created_at: new Date(2024, 2, 5, 17, 0) });
+    const late = await createOrder(client.id, 'sh2t', { created_at: new Date(2024, 2, 5, 19, 15) });
+    const nextMorning = await createOrder(client.id, 'sh2t', { created_at: new Date(2024, 2, 6, 8, 0) });
+
+    const todayGroup = await assignOrderToShipmentGroup(onTime, new Date(2024, 2, 5, 17, 0));
+    const lateGroup = await assignOrderToShipmentGroup(late, new Date(2024, 2, 5, 19, 15));
+    const tomorrowGroup = await assignOrderToShipmentGroup(nextMorning, new Date(2024, 2, 6, 8, 0));
+
+    expect(lateGroup.id).not.toEqual(todayGroup.id);
+    expect(lateGroup.shipping_date).toEqual('2024-03-06');
+    expect(tomorrowGroup.id).toEqual(lateGroup.id);
+    expect((await getOrder(onTime.id)).is_grouped).toBe(false);
+    expect((await getOrder(late.id)).is_grouped).toBe(true);
+  });
+
+  it('should apply the cut-off to the time the order was placed', async () => {
+    const client = await createClient('Atlas');
+    const placedBeforeCutoff = await createOrder(client.id, 'ghazala', { created_at: new Date(2024, 2, 5, 18, 30) });
+    const placedAfterCutoff = await createOrder(client.id, 'baha', { created_at: new Date(2024, 2, 5, 19, 30) });
+
+    const sameDay = await assignOrderToShipmentGroup(placedBeforeCutoff, new Date(2024, 2, 5, 19, 45));
+    const nextDay = await assignOrderToShipmentGroup(placedAfterCutoff, new Date(2024, 2, 5, 19, 45));
+
+    expect(sameDay.shipping_date).toEqual('2024-03-05');
+    expect(nextDay.shipping_date).toEqual('2024-03-06');
+  });
+
+  it('should not group an order validated late into a day that has gone', async () => {
+    const client = await createClient('Atlas');
+    const order = await createOrder(client.id, 'ghazala', { created_at: new Date(2024, 2, 5, 10, 0) });
+
+    const group = await assignOrderToShipmentGroup(order, new Date(2024, 2, 7, 9, 0));
+
+    expect(group.shipping_date).toEqual('2024-03-07');
+  });
+
+  it('should clear is_grouped when a cancellation leaves a single order in the group', async () => {
+    const client = await createClient('Atlas');
+    const accountingResult = await db.insert(usersTable)
+      .values({ email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' })
+      .returning()
+      .execute();
+    const first = await createOrder(client.id, 'ghazala', { status: 'submitted' });
+    const second = await createOrder(client.id, 'ghazala', { status: 'submitted' });
+
+    await validateOrder(first.id, accountingResult[0].id, true);
+    await validateOrder(second.id, accountingResult[0].id, true);
+    expect((await getOrder(first.id)).is_grouped).toBe(true);
+
+    const cancelled = await updateOrderStatus({
+      order_id: second.id,
+      status: 'cancelled',
+      updated_by: accountingResult[0].id,
+      reason: 'Client request'
+    });
+
+    expect(cancelled.shipment_group_id).toBeNull();
+    expect(cancelled.is_grouped).toBe(false);
+    expect((await getOrder(first.id)).is_grouped).toBe(false);
+  });
+
+  it('should group orders when accounting validates them', async () => {
+    const client = await createClient('Atlas');
+    const accountingResult = await db.insert(usersTable)
+      .values({ email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' })
+      .returning()
+      .execute();
+    const first = await createOrder(client.id, 'ghazala', { status: 'submitted' });
+    const second = await createOrder(client.id, 'ghazala', { status: 'submitted' });
+
+    const validatedFirst = await validateOrder(first.id, accountingResult[0].id, true);
+    const validatedSecond = await validateOrder(second.id, accountingResult[0].id, true);
+
+    expect(validatedFirst.shipment_group_id).not.toBeNull();
+    expect(validatedSecond.shipment_group_id).toEqual(validatedFirst.shipment_group_id);
+    expect(validatedSecond.is_grouped).toBe(true);
+
+    const groups = await db.select().from(shipmentGroupsTable).execute();
+    expect(groups).toHaveLength(1);
+    expect(groups[0].shipping_date).toEqual(getShippingDate(new Date()));
+  });
+
+  it('should catch up on validated orders without a group', async () => {
+    const client = await createClient('Atlas');
+    const first = await createOrder(client.id, 'baha');
+    const second = await createOrder(client.id, 'baha');
+    const submitted = await createOrder(client.id, 'baha', { status: 'submitted' });
+
+    const result = await groupValidatedOrders(new Date(2024, 2, 5, 11, 0));
+
+    expect(result.grouped).toEqual(2);
+    expect((await getOrder(first.id)).is_grouped).toBe(true);
+    expect((await getOrder(second.id)).shipment_group_id).toEqual((await getOrder(first.id)).shipment_group_id);
+    expect((await getOrder(submitted.id)).shipment_group_id).toBeNull();
+
+    expect((await groupValidatedOrders(new Date(2024, 2, 5, 12, 0))).grouped).toEqual(0);
+  });
+
+  it('should return the grouped orders of a client for a shipping day', async () => {
+    const atlas = await createClient('Atlas');
+    const rif = await createClient('Rif');
+    const first = await createOrder(atlas.id, 'ghazala', { created_at: new Date(2024, 2, 5, 9, 0) });
+    const second = await createOrder(atlas.id, 'baha', { created_at: new Date(2024, 2, 5, 9, 0) });
+    const nextDay = await createOrder(atlas.id, 'ghazala', { created_at: new Date(2024, 2, 5, 20, 0) });
+    const otherClient = await createOrder(rif.id, 'ghazala', { created_at: new Date(2024, 2, 5, 9, 0) });
+
+    await assignOrderToShipmentGroup(first, new Date(2024, 2, 5, 9, 0));
+    await assignOrderToShipmentGroup(second, new Date(2024, 2, 5, 9, 0));
+    await assignOrderToShipmentGroup(nextDay, new Date(2024, 2, 5, 20, 0));
+    await assignOrderToShipmentGroup(otherClient, new Date(2024, 2, 5, 9, 0));
+
+    const result = await getGroupedOrders(atlas.id, new Date(2024, 2, 5, 12, 0));
+
+    expect(result.map(order => order.id)).toEqual([first.id, second.id]);
+    expect(typeof result[0].total_amount).toBe('number');
+    expect(await getGroupedOrders(atlas.id, new Date(2024, 2, 7))).toEqual([]);
+  });
+
+  it('should expose upcoming groups with their totals', async () => {
+    const atlas = await createClient('Atlas');
+    const rif = await createClient('Rif');
+    const today = new Date();
+    const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1, 10, 0);
+    const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1, 10, 0);
+
+    const dayAfter = new Date(tomorrow.getTime() + 24 * 60 * 60 * 1000);
+
+    const past = await createOrder(rif.id, 'ghazala', { created_at: yesterday });
+    const first = await createOrder(atlas.id, 'ghazala', { total_amount: '120.50', created_at: tomorrow });
+    const second = await createOrder(atlas.id, 'ghazala', { total_amount: '79.50', created_at: tomorrow });
+    const later = await createOrder(rif.id, 'baha', { total_amount: '30.00', created_at: dayAfter });
+
+    await assignOrderToShipmentGroup(past, yesterday);
+    await assignOrderToShipmentGroup(first, tomorrow);
+    await assignOrderToShipmentGroup(second, tomorrow);
+    await assignOrderToShipmentGroup(later, dayAfter);
+
+    const groups = await getUpcomingShipmentGroups(today);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({
+      client_id: atlas.id,
+      client_name: 'Atlas',
+      carrier: 'ghazala',
+      order_count: 2,
+      total_amount: 200
+    });
+    expect(groups[1]).toMatchObject({ client_name: 'Rif', carrier: 'baha', order_count: 1, total_amount: 30 });
+
+    const dashboard = await getCounterDashboard();
+    expect(dashboard.groupedOrders.map(group => group.group_id)).toEqual(groups.map(group => group.group_id));
+  });
+});
@@ -0,0 +1,342 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, clientsTable, productsTable, ordersTable, stockTable, stockReservationsTable } from '../db/schema';
+import { type Warehouse } from '../schema';
+import { createOrder, updateOrderStatus, validateOrder } from '../handlers/orders';
+import { getProductStock, updateProductStock } from '../handlers/products';
+import { getStockHistory, recordStockMovement } from '../handlers/stock';
+import {
+  createTransferRequest,
+  updateTransferRequestStatus,
+  confirmTransferReception,
+  getTransferRequestsByOrder
+} from '../handlers/transfers';
+import { eq } from 'drizzle-orm';
+
+describe('stock reservations', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestData(stock: Partial<Record<Warehouse, number>>) {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'atlas@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'rif@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' },
+        { email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values([
+        { user_id: userResult[0].id, company_name: 'Atlas', contact_name: 'Karim', credit_limit: '10000.00' },
+        { user_id: userResult[1].id, company_name: 'Rif', contact_name: 'Samir', credit_limit: '10000.00' }
+      ])
+      .returning()
+      .execute();
+
+    const productResult = await db.insert(productsTable)
+      .values({ reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' })
+      .returning()
+      .execute();
+
+    const rows = Object.entries(stock).map(([warehouse, quantity]) => ({
+      product_id: productResult[0].id,
+      warehouse: warehouse as Warehouse,
+      quantity: quantity ?? 0
+    }));
+    if (rows.length > 0) {
+      await db.insert(stockTable).values(rows).execute();
+    }
+
+    return {
+      atlas: clientResult[0],
+      rif: clientResult[1],
+      accountant: userResult[2],
+      counter: userResult[3],
+      product: productResult[0]
+    };
+  }
+
+  async function getReservations(orderId: number) {
+    return db.select()
+      .from(stockReservationsTable)
+      .where(eq(stockReservationsTable.order_id, orderId))
+      .orderBy(stockReservationsTable.id)
+      .execute();
+  }
+
+  function levels(stock: Awaited<ReturnType<typeof getProductStock>>) {
+    return stock.map(({ warehouse, quantity, reserved, available }) => ({ warehouse, quantity, reserved, available }));
+  }
+
+  it('should reserve stock at Ibn Tachfine when an order is submitted', async () => {
+    const { atlas, product } = await createTestData({ ibn_tachfine: 5, la_villette: 10 });
+
+    const order = await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 3 }] });
+
+    const reservations = await getReservations(order.id);
+    expect(reservations).toHaveLength(1);
+    expect(reservations[0]).toMatchObject({ product_id: product.id, warehouse: 'ibn_tachfine', quantity: 3, status: 'active' });
+
+    expect(levels(await getProductStock(product.id))).toEqual([
+      { warehouse: 'ibn_tachfine', quantity: 5, reserved: 3, available: 2 },
+      { warehouse: 'la_villette', quantity: 10, reserved: 0, available: 10 }
+    ]);
+  });
+
+  it('should take the shortfall at Ibn Tachfine from the site with the most stock', async () => {
+    const { atlas, product } = await createTestData({ ibn_tachfine: 2, drb_omar: 1, la_villette: 10 });
+
+    const order = await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 6 }] });
+
+    const reservations = await getReservations(order.id);
+    expect(reservations.map(reservation => [reservation.warehouse, reservation.quantity])).toEqual([
+      ['ibn_tachfine', 2],
+      ['la_villette', 4]
+    ]);
+  });
+
+  it('should split a line across warehouses when no single site can cover it', async () => {
+    const { atlas, product } = await createTestData({ ibn_tachfine: 2, drb_omar: 3, la_villette: 2 });
+
+    const order = await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 6 }] });
+
+    const reservations = await getReservations(order.id);
+    expect(reservations.map(reservation => [reservation.warehouse, reservation.quantity])).toEqual([
+      ['ibn_tachfine', 2],
+      ['drb_omar', 3],
+      ['la_villette', 1]
+    ]);
+  });
+
+  it('should not let two clients buy the same last unit', async () => {
+    const { atlas, rif, product } = await createTestData({ ibn_tachfine: 1 });
+
+    await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 1 }] });
+
+    await expect(createOrder({
+      client_id: rif.id,
+      carrier: 'baha',
+      items: [{ product_id: product.id, quantity: 1 }]
+    })).rejects.toThrow(/insufficient stock for product BRK-001: requested 1, available 0/i);
+
+    await expect(createOrder({
+      client_id: atlas.id,
+      carrier: 'ghazala',
+      items: [{ product_id: product.id, quantity: 1 }]
+    })).rejects.toThrow(/insufficient stock/i);
+
+    expect(await db.select().from(stockReservationsTable).execute()).toHaveLength(1);
+  });
+
+  it('should release the reservation when accounting refuses the order', async () => {
+    const { atlas, rif, accountant, product } = await createTestData({ ibn_tachfine: 1 });
+    const order = await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 1 }] });
+
+    await validateOrder(order.id, accountant.id, false, 'Duplicate order');
+
+    expect((await getReservations(order.id))[0].status).toEqual('released');
+    expect((await getProductStock(product.id))[0].available).toEqual(1);
+
+    const next = await createOrder({ client_id: rif.id, carrier: 'baha', items: [{ product_id: product.id, quantity: 1 }] });
+    expect((await getReservations(next.id))[0].status).toEqual('active');
+  });
+
+  it('should release the reservation and the booked balance when a validated order is cancelled', async () => {
+    const { atlas, accountant, product } = await createTestData({ ibn_tachfine: 4 });
+    const order = await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 4 }] });
+    await validateOrder(order.id, accountant.id, true);
+
+    await expect(updateOrderStatus({ order_id: order.id, status: 'cancelled', updated_by: accountant.id }))
+      .rejects.toThrow(/reason is required/i);
+
+    const cancelled = await updateOrderStatus({
+      order_id: order.id,
+      status: 'cancelled',
+      updated_by: accountant.id,
+      reason: 'Client changed their mind'
+    });
+
+    expect(cancelled.status).toEqual('cancelled');
+    expect(cancelled.shipment_group_id).toBeNull();
+    expect((await getReservations(order.id))[0].status).toEqual('released');
+    expect((await getProductStock(product.id))[0]).toMatchObject({ quantity: 4, reserved: 0, available: 4 });
+
+    const clients = await db.select().from(clientsTable).where(eq(clientsTable.id, atlas.id)).execute();
+    expect(parseFloat(clients[0].current_balance)).toEqual(0);
+  });
+
+  it('should only let accounting cancel orders that have not shipped', async () => {
+    const { atlas, accountant, counter, product } = await createTestData({ ibn_tachfine: 4 });
+    const order = await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 1 }] });
+
+    await expect(updateOrderStatus({ order_id: order.id, status: 'cancelled', updated_by: counter.id, reason: 'Out of stock' }))
+      .rejects.toThrow(/cannot change order status/i);
+
+    await validateOrder(order.id, accountant.id, true);
+    for (const status of ['in_preparation', 'ready', 'shipped'] as const) {
+      await updateOrderStatus({ order_id: order.id, status, updated_by: counter.id });
+    }
+
+    await expect(updateOrderStatus({ order_id: order.id, status: 'cancelled', updated_by: accountant.id, reason: 'Too late' }))
+      .rejects.toThrow(/invalid order status transition from shipped to cancelled/i);
+  });
+
+  it('should take reserved units off the shelf when the order ships', async () => {
+    const { atlas, accountant, counter, product } = await createTestData({ ibn_tachfine: 2, drb_omar: 5 });
+    const order = await createOrder({ client_id: atlas.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 3 }] });
+
+    await validateOrder(order.id, accountant.id, true);
+
+    // The unit held at Drb Omar has to reach Ibn Tachfine before the order is picked
+    await expect(updateOrderStatus({ order_id: order.id, status: 'in_preparation', updated_by: counter.id }))
+      .rejects.toThrow(/waiting for 1 transfer\(s\) to be received/i);
+
+    const [transfer] = await getTransferRequestsByOrder(order.id);
+    for (const step of ['in_preparation', 'ready_to_ship', 'shipped'] as const) {
+      await updateTransferRequestStatus(transfer.id, step, counter.id, 1);
+    }
+    await confirmTransferReception(transfer.id, counter.id, 1);
+
+    await updateOrderStatus({ order_id: order.id, status: 'in_preparation', updated_by: counter.id });
+    await updateOrderStatus({ order_id: order.id, status: 'ready', updated_by: counter.id });
+
+    // Nothing leaves the shelf before shipment
+    expect(levels(await getProductStock(product.id)).map(level => level.quantity)).toEqual([3, 4]);
+
+    await updateOrderStatus({ order_id: order.id, status: 'shipped', updated_by: counter.id });
+
+    expect((await getReservations(order.id)).map(reservation => reservation.status)).toEqual(['consumed', 'consumed']);
+    expect(levels(await getProductStock(product.id))).toEqual([
+      { warehouse: 'ibn_tachfine', quantity: 0, reserved: 0, available: 0 },
+      { warehouse: 'drb_omar', quantity: 4, reserved: 0, available: 4 }
+    ]);
+  });
+});
+
+describe('stock ledger', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  async function createTestData() {
+    const userResult = await db.insert(usersTable)
+      .values([
+        { email: 'client@example.com', password_hash: 'hashed_password', role: 'client' },
+        { email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' },
+        { email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' },
+        { email: 'lavillette@example.com', password_hash: 'hashed_password', role: 'warehouse_la_villette' }
+      ])
+      .returning()
+      .execute();
+
+    const clientResult = await db.insert(clientsTable)
+      .values({ user_id: userResult[0].id, company_name: 'Atlas', contact_name: 'Karim', credit_limit: '10000.00' })
+      .returning()
+      .execute();
+
+    const productResult = await db.insert(productsTable)
+      .values({ reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' })
+      .returning()
+      .execute();
+
+    return {
+      client: clientResult[0],
+      accountant: userResult[1],
+      counter: userResult[2],
+      laVillette: userResult[3],
+      product: productResult[0]
+    };
+  }
+
+  it('should book manual stock updates as adjustments', async () => {
+    const { counter, product } = await createTestData();
+
+    await updateProductStock(product.id, 'ibn_tachfine', 12, counter.id);
+    const result = await updateProductStock(product.id, 'ibn_tachfine', 9, counter.id);
+    await updateProductStock(product.id, 'ibn_tachfine', 9, counter.id);
+
+    expect(result.quantity).toEqual(9);
+
+    const history = await getStockHistory(product.id);
+    expect(history.map(movement => [movement.type, movement.quantity, movement.balance_after])).toEqual([
+      ['adjustment', -3, 9],
+      ['adjustment', 12, 12]
+    ]);
+    expect(history[0].created_by).toEqual(counter.id);
+  });
+
+  it('should book shipped orders as sales', async () => {
+    const { client, accountant, counter, product } = await createTestData();
+    await updateProductStock(product.id, 'ibn_tachfine', 10);
+
+    const order = await createOrder({ client_id: client.id, carrier: 'ghazala', items: [{ product_id: product.id, quantity: 4 }] });
+    await validateOrder(order.id, accountant.id, true);
+    for (const status of ['in_preparation', 'ready', 'shipped'] as const) {
+      await updateOrderStatus({ order_id: order.id, status, updated_by: counter.id });
+    }
+
+    const [sale] = await getStockHistory(product.id);
+    expect(sale).toMatchObject({
+      type: 'sale',
+      warehouse: 'ibn_tachfine',
+      quantity: -4,
+      balance_after: 6,
+      order_id: order.id,
+      created_by: counter.id
+    });
+  });
+
+  it('should book both legs of a received transfer with the counted quantities', async () => {
+    const { client, counter, laVillette, product } = await createTestData();
+    await updateProductStock(product.id, 'la_villette', 20);
+    const orderResult = await db.insert(ordersTable)
+      .values({ client_id: client.id, order_number: 'ORD001', total_amount: '100.00', carrier: 'ghazala' })
+      .returning()
+      .execute();
+
+    const transfer = await createTransferRequest(orderResult[0].id, product.id, 'la_villette', 'ibn_tachfine', 5, counter.id);
+    for (const status of ['in_preparation', 'ready_to_ship', 'shipped'] as const) {
+      await updateTransferRequestStatus(transfer.id, status, laVillette.id, 5);
+    }
+    await confirmTransferReception(transfer.id, counter.id, 4);
+
+    const inbound = await getStockHistory(product.id, 'ibn_tachfine');
+    expect(inbound.map(movement => [movement.type, movement.quantity, movement.balance_after, movement.transfer_id])).toEqual([
+      ['transfer_in', 4, 4, transfer.id]
+    ]);
+
+    const outbound = await getStockHistory(product.id, 'la_villette');
+    expect(outbound.map(movement => [movement.type, movement.quantity, movement.balance_after])).toEqual([
+      ['transfer_out', -5, 15],
+      ['adjustment', 20, 20]
+    ]);
+
+    // The stock table is the balance the ledger adds up to
+    const stock = await getProductStock(product.id);
+    expect(stock.map(level => [level.warehouse, level.quantity])).toEqual([['ibn_tachfine', 4], ['la_villette', 15]]);
+  });
+
+  it('should reject movements that take out more than is on hand', async () => {
+    const { product } = await createTestData();
+    await recordStockMovement({ productId: product.id, warehouse: 'drb_omar', type: 'receipt', quantity: 2 });
+
+    await expect(recordStockMovement({ productId: product.id, warehouse: 'drb_omar', type: 'sale', quantity: -5 }))
+      .rejects.toThrow(/insufficient stock of product \d+ at drb_omar: on hand 2, movement -5/i);
+
+    const history = await getStockHistory(product.id);
+    expect(history.map(movement => [movement.type, movement.quantity, movement.balance_after])).toEqual([['receipt', 2, 2]]);
+  });
+
+  it('should limit the history to the most recent movements', async () => {
+    const { product } = await createTestData();
+    for (const quantity of [1, 2, 3]) {
+      await recordStockMovement({ productId: product.id, warehouse: 'drb_omar', type: 'receipt', quantity });
+    }
+
+    const history = await getStockHistory(product.id, undefined, 2);
+    expect(history.map(movement => movement.balance_after)).toEqual([6, 3]);
+  });
+});
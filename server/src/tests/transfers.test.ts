@@ -1,19 +1,48 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, clientsTable, productsTable, ordersTable, transferRequestsTable, stockTable } from '../db/schema';
+import {
+    usersTable,
+    clientsTable,
+    productsTable,
+    ordersTable,
+    orderItemsTable,
+    transferRequestsTable,
+    stockTable,
+    stockReservationsTable
+} from '../db/schema';
 import { eq, and } from 'drizzle-orm';
+import { createOrder, updateOrderStatus, validateOrder } from '../handlers/orders';
+import { getProductStock } from '../handlers/products';
 import {
     createTransferRequest,
     getTransferRequestsForWarehouse,
     updateTransferRequestStatus,
     getTransferRequestsByOrder,
     confirmTransferReception,
-    getPendingTransferRequestsForIbnTachfine
+    getPendingTransferRequestsForIbnTachfine,
+    requestTransfersForOrder,
+    getTransferDiscrepancies
 } from '../handlers/transfers';
 
+// Walks a transfer through preparation up to the given status
+async function advanceTransfer(
+    transferId: number,
+    status: 'in_preparation' | 'ready_to_ship' | 'shipped',
+    userId: number,
+    quantityPrepared?: number
+) {
+    const steps = ['in_preparation', 'ready_to_ship', 'shipped'] as const;
+    let result;
+    for (const step of steps.slice(0, steps.indexOf(status) + 1)) {
+        result = await updateTransferRequestStatus(transferId, step, userId, quantityPrepared);
+    }
+    return result!;
+}
+
 describe('Transfer Handlers', () => {
     let testUserId: number;
+    let laVilletteUserId: number;
     let testClientId: number;
     let testProductId: number;
     let testOrderId: number;
@@ -32,6 +61,17 @@ describe('Transfer Handlers', () => {
             .execute();
         testUserId = userResult[0].id;
 
+        // Create La Villette warehouse user, who prepares transfers leaving La Villette
+        const laVilletteUserResult = await db.insert(usersTable)
+            .values({
+                email: 'lavillette@example.com',
+                password_hash: 'hashed_password',
+                role: 'warehouse_la_villette'
+            })
+            .returning()
+            .execute();
+        laVilletteUserId = laVilletteUserResult[0].id;
+
         // Create test client
         const clientResult = await db.insert(clientsTable)
             .values({
@@ -205,38 +245,28 @@ describe('Transfer Handlers', () => {
             const result = await updateTransferRequestStatus(
                 transferId,
                 'in_preparation',
-                testUserId,
+                laVilletteUserId,
                 8
             );
 
             expect(result.status).toEqual('in_preparation');
-            expect(result.prepared_by).toEqual(testUserId);
+            expect(result.prepared_by).toEqual(laVilletteUserId);
             expect(result.prepared_at).toBeInstanceOf(Date);
             expect(result.quantity_prepared).toEqual(8);
             expect(result.updated_at).toBeInstanceOf(Date);
         });
 
         it('should update status to ready_to_ship', async () => {
-            const result = await updateTransferRequestStatus(
-                transferId,
-                'ready_to_ship',
-                testUserId,
-                10
-            );
+            const result = await advanceTransfer(transferId, 'ready_to_ship', laVilletteUserId, 10);
 
             expect(result.status).toEqual('ready_to_ship');
-            expect(result.prepared_by).toEqual(testUserId);
+            expect(result.prepared_by).toEqual(laVilletteUserId);
             expect(result.prepared_at).toBeInstanceOf(Date);
             expect(result.quantity_prepared).toEqual(10);
         });
 
         it('should update status to shipped', async () => {
-            const result = await updateTransferRequestStatus(
-                transferId,
-                'shipped',
-                testUserId,
-                10
-            );
+            const result = await advanceTransfer(transferId, 'shipped', laVilletteUserId, 10);
 
             expect(result.status).toEqual('shipped');
             expect(result.quantity_prepared).toEqual(10);
@@ -258,6 +288,67 @@ describe('Transfer Handlers', () => {
                 99999
             )).rejects.toThrow(/user.*not found/i);
         });
+
+        it('should enforce the preparation sequence', async () => {
+            await expect(updateTransferRequestStatus(transferId, 'shipped', laVilletteUserId, 10))
+                .rejects.toThrow(/invalid transfer status transition from pending to shipped/i);
+
+            await advanceTransfer(transferId, 'ready_to_ship', laVilletteUserId, 10);
+
+            await expect(updateTransferRequestStatus(transferId, 'in_preparation', laVilletteUserId))
+                .rejects.toThrow(/invalid transfer status transition from ready_to_ship to in_preparation/i);
+        });
+
+        it('should only receive transfers through the reception count', async () => {
+            await advanceTransfer(transferId, 'shipped', laVilletteUserId, 10);
+
+            await expect(updateTransferRequestStatus(transferId, 'received', laVilletteUserId))
+                .rejects.toThrow(/confirming the reception count/i);
+        });
+
+        it('should only let the source warehouse prepare', async () => {
+            const counterResult = await db.insert(usersTable)
+                .values({ email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' })
+                .returning()
+                .execute();
+
+            await expect(updateTransferRequestStatus(transferId, 'in_preparation', counterResult[0].id, 10))
+                .rejects.toThrow(/role counter_ibn_tachfine cannot change transfer status from pending to in_preparation/i);
+            await expect(updateTransferRequestStatus(transferId, 'in_preparation', testUserId, 10))
+                .rejects.toThrow(/role representative cannot/i);
+
+            const directorResult = await db.insert(usersTable)
+                .values({ email: 'director@example.com', password_hash: 'hashed_password', role: 'director_admin' })
+                .returning()
+                .execute();
+
+            const result = await updateTransferRequestStatus(transferId, 'in_preparation', directorResult[0].id, 10);
+            expect(result.status).toEqual('in_preparation');
+        });
+
+        it('should let either side cancel until the transfer ships, leaving stock untouched', async () => {
+            const counterResult = await db.insert(usersTable)
+                .values({ email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' })
+                .returning()
+                .execute();
+
+            await advanceTransfer(transferId, 'ready_to_ship', laVilletteUserId, 10);
+            const result = await updateTransferRequestStatus(transferId, 'cancelled', counterResult[0].id);
+
+            expect(result.status).toEqual('cancelled');
+            const stock = await db.select().from(stockTable).where(eq(stockTable.product_id, testProductId)).execute();
+            expect(stock.map(row => [row.warehouse, row.quantity])).toEqual([['la_villette', 100]]);
+
+            await expect(updateTransferRequestStatus(transferId, 'in_preparation', laVilletteUserId))
+                .rejects.toThrow(/invalid transfer status transition from cancelled/i);
+        });
+
+        it('should not cancel transfers that have shipped', async () => {
+            await advanceTransfer(transferId, 'shipped', laVilletteUserId, 10);
+
+            await expect(updateTransferRequestStatus(transferId, 'cancelled', laVilletteUserId))
+                .rejects.toThrow(/invalid transfer status transition from shipped to cancelled/i);
+        });
     });
 
     describe('getTransferRequestsByOrder', () => {
@@ -320,7 +411,7 @@ describe('Transfer Handlers', () => {
             );
             transferId = transfer.id;
 
-            await updateTransferRequestStatus(transferId, 'shipped', testUserId, 10);
+            await advanceTransfer(transferId, 'shipped', laVilletteUserId, 10);
         });
 
         it('should confirm transfer reception and update stock', async () => {
@@ -407,6 +498,11 @@ describe('Transfer Handlers', () => {
             )).rejects.toThrow(/must be in 'shipped' status/i);
         });
 
+        it('should only let the destination warehouse receive', async () => {
+            await expect(confirmTransferReception(transferId, laVilletteUserId, 10))
+                .rejects.toThrow(/role warehouse_la_villette cannot change transfer status from shipped to received/i);
+        });
+
         it('should throw error for non-existent user', async () => {
             await expect(confirmTransferReception(
                 transferId,
@@ -424,8 +520,8 @@ describe('Transfer Handlers', () => {
             const transfer3 = await createTransferRequest(testOrderId, testProductId, 'la_villette', 'drb_omar', 3, testUserId);
 
             // Update statuses
-            await updateTransferRequestStatus(transfer1.id, 'shipped', testUserId, 10);
-            await updateTransferRequestStatus(transfer2.id, 'ready_to_ship', testUserId, 5);
+            await advanceTransfer(transfer1.id, 'shipped', laVilletteUserId, 10);
+            await advanceTransfer(transfer2.id, 'ready_to_ship', laVilletteUserId, 5);
             // transfer3 stays pending and goes to different warehouse
 
             const results = await getPendingTransferRequestsForIbnTachfine();
@@ -459,11 +555,369 @@ describe('Transfer Handlers', () => {
                 .execute();
 
             const transfer = await createTransferRequest(testOrderId, testProductId, 'la_villette', 'ibn_tachfine', 10, testUserId);
-            await updateTransferRequestStatus(transfer.id, 'shipped', testUserId, 10);
+            await advanceTransfer(transfer.id, 'shipped', laVilletteUserId, 10);
             await confirmTransferReception(transfer.id, warehouseUserResult[0].id, 10);
 
             const results = await getPendingTransferRequestsForIbnTachfine();
             expect(results).toHaveLength(0);
         });
     });
-});
\ No newline at end of file
+});
+
+describe('automatic transfer requests', () => {
+    let accountantId: number;
+    let counterId: number;
+    let laVilletteId: number;
+    let clientId: number;
+    let productId: number;
+
+    beforeEach(async () => {
+        await createDB();
+
+        const userResult = await db.insert(usersTable)
+            .values([
+                { email: 'client@example.com', password_hash: 'hashed_password', role: 'client' },
+                { email: 'accounting@example.com', password_hash: 'hashed_password', role: 'accounting' },
+                { email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' },
+                { email: 'lavillette@example.com', password_hash: 'hashed_password', role: 'warehouse_la_villette' }
+            ])
+            .returning()
+            .execute();
+        accountantId = userResult[1].id;
+        counterId = userResult[2].id;
+        laVilletteId = userResult[3].id;
+
+        const clientResult = await db.insert(clientsTable)
+            .values({ user_id: userResult[0].id, company_name: 'Atlas', contact_name: 'Karim', credit_limit: '10000.00' })
+            .returning()
+            .execute();
+        clientId = clientResult[0].id;
+
+        const productResult = await db.insert(productsTable)
+            .values({ reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' })
+            .returning()
+            .execute();
+        productId = productResult[0].id;
+    });
+
+    afterEach(resetDB);
+
+    async function setStock(stock: Array<[ 'ibn_tachfine' | 'drb_omar' | 'la_villette', number ]>) {
+        await db.insert(stockTable)
+            .values(stock.map(([warehouse, quantity]) => ({ product_id: productId, warehouse, quantity })))
+            .execute();
+    }
+
+    async function placeOrder(quantity: number) {
+        return createOrder({ client_id: clientId, carrier: 'ghazala', items: [{ product_id: productId, quantity }] });
+    }
+
+    it('should not request transfers when Ibn Tachfine covers the order', async () => {
+        await setStock([['ibn_tachfine', 10], ['la_villette', 50]]);
+        const order = await placeOrder(4);
+
+        await validateOrder(order.id, accountantId, true);
+
+        expect(await getTransferRequestsByOrder(order.id)).toHaveLength(0);
+    });
+
+    it('should request the shortfall from the site with the most stock on validation', async () => {
+        await setStock([['ibn_tachfine', 2], ['drb_omar', 3], ['la_villette', 20]]);
+        const order = await placeOrder(6);
+
+        // Nothing moves before accounting approves the order
+        expect(await getTransferRequestsByOrder(order.id)).toHaveLength(0);
+
+        await validateOrder(order.id, accountantId, true);
+
+        const transfers = await getTransferRequestsByOrder(order.id);
+        expect(transfers).toHaveLength(1);
+        expect(transfers[0]).toMatchObject({
+            product_id: productId,
+            from_warehouse: 'la_villette',
+            to_warehouse: 'ibn_tachfine',
+            quantity_requested: 4,
+            status: 'pending',
+            requested_by: accountantId
+        });
+        expect(transfers[0].reservation_id).not.toBeNull();
+
+        const pending = await getPendingTransferRequestsForIbnTachfine();
+        expect(pending.map(transfer => transfer.id)).toEqual([transfers[0].id]);
+    });
+
+    it('should split the shortfall across sites when one cannot cover it', async () => {
+        await setStock([['ibn_tachfine', 1], ['drb_omar', 3], ['la_villette', 2]]);
+        const order = await placeOrder(5);
+
+        await validateOrder(order.id, accountantId, true);
+
+        const transfers = await getTransferRequestsByOrder(order.id);
+        expect(transfers.map(transfer => [transfer.from_warehouse, transfer.quantity_requested]).sort()).toEqual([
+            ['drb_omar', 3],
+            ['la_villette', 1]
+        ]);
+
+        // Requesting again does not duplicate transfers already raised
+        expect(await requestTransfersForOrder(order.id, accountantId)).toHaveLength(0);
+    });
+
+    it('should move the reservation to Ibn Tachfine once the transfer is received', async () => {
+        await setStock([['ibn_tachfine', 1], ['la_villette', 10]]);
+        const order = await placeOrder(3);
+        await validateOrder(order.id, accountantId, true);
+
+        const [transfer] = await getTransferRequestsByOrder(order.id);
+        await advanceTransfer(transfer.id, 'shipped', laVilletteId, 2);
+        await confirmTransferReception(transfer.id, counterId, 2);
+
+        const reservations = await db.select()
+            .from(stockReservationsTable)
+            .where(eq(stockReservationsTable.order_id, order.id))
+            .execute();
+        expect(reservations.map(reservation => reservation.warehouse)).toEqual(['ibn_tachfine', 'ibn_tachfine']);
+
+        for (const status of ['in_preparation', 'ready', 'shipped'] as const) {
+            await updateOrderStatus({ order_id: order.id, status, updated_by: counterId });
+        }
+
+        const stock = await getProductStock(productId);
+        expect(stock.map(level => [level.warehouse, level.quantity, level.reserved])).toEqual([
+            ['ibn_tachfine', 0, 0],
+            ['la_villette', 8, 0]
+        ]);
+    });
+
+    it('should cancel transfers not yet started when the order is cancelled', async () => {
+        await setStock([['ibn_tachfine', 0], ['drb_omar', 5]]);
+        const order = await placeOrder(2);
+        await validateOrder(order.id, accountantId, true);
+
+        await updateOrderStatus({ order_id: order.id, status: 'cancelled', updated_by: accountantId, reason: 'Client cancelled' });
+
+        const transfers = await getTransferRequestsByOrder(order.id);
+        expect(transfers.map(transfer => transfer.status)).toEqual(['cancelled']);
+        expect(await getPendingTransferRequestsForIbnTachfine()).toHaveLength(0);
+    });
+
+    it('should hold the order until its transfers arrive so stock moves only once', async () => {
+        await setStock([['ibn_tachfine', 0], ['drb_omar', 10]]);
+        const order = await placeOrder(4);
+        await validateOrder(order.id, accountantId, true);
+
+        await expect(updateOrderStatus({ order_id: order.id, status: 'in_preparation', updated_by: counterId }))
+            .rejects.toThrow(/waiting for 1 transfer\(s\) to be received/i);
+
+        const [transfer] = await getTransferRequestsByOrder(order.id);
+        await advanceTransfer(transfer.id, 'shipped', counterId, 4);
+        await confirmTransferReception(transfer.id, counterId, 4);
+
+        for (const status of ['in_preparation', 'ready', 'shipped'] as const) {
+            await updateOrderStatus({ order_id: order.id, status, updated_by: counterId });
+        }
+
+        const stock = await getProductStock(productId);
+        expect(stock.map(level => [level.warehouse, level.quantity, level.reserved])).toEqual([
+            ['ibn_tachfine', 0, 0],
+            ['drb_omar', 6, 0]
+        ]);
+    });
+
+    it('should re-supply the order from another site when its transfer is cancelled', async () => {
+        await setStock([['ibn_tachfine', 0], ['drb_omar', 2], ['la_villette', 5]]);
+        const order = await placeOrder(2);
+        await validateOrder(order.id, accountantId, true);
+
+        const [transfer] = await getTransferRequestsByOrder(order.id);
+        expect(transfer.from_warehouse).toEqual('la_villette');
+
+        await updateTransferRequestStatus(transfer.id, 'cancelled', laVilletteId);
+
+        const transfers = await getTransferRequestsByOrder(order.id);
+        const replacement = transfers.find(t => t.id !== transfer.id);
+        expect(replacement).toMatchObject({ from_warehouse: 'drb_omar', quantity_requested: 2, status: 'pending' });
+
+        const reservations = await db.select()
+            .from(stockReservationsTable)
+            .where(eq(stockReservationsTable.order_id, order.id))
+            .execute();
+        const held = reservations.map(reservation => [reservation.warehouse, reservation.quantity, reservation.status]);
+        expect(held.sort()).toEqual([['drb_omar', 2, 'active'], ['la_villette', 2, 'released']]);
+    });
+
+    it('should back-order the line when no other site can replace a cancelled transfer', async () => {
+        await setStock([['ibn_tachfine', 1], ['la_villette', 5]]);
+        const order = await placeOrder(3);
+        await validateOrder(order.id, accountantId, true);
+
+        const [transfer] = await getTransferRequestsByOrder(order.id);
+        const cancelled = await updateTransferRequestStatus(transfer.id, 'cancelled', laVilletteId);
+
+        expect(cancelled.status).toEqual('cancelled');
+        expect((await getTransferRequestsByOrder(order.id)).map(t => t.status)).toEqual(['cancelled']);
+
+        const [item] = await db.select().from(orderItemsTable).where(eq(orderItemsTable.order_id, order.id)).execute();
+        expect(item.backordered_quantity).toEqual(2);
+
+        // The order goes on with the unit Ibn Tachfine holds
+        for (const status of ['in_preparation', 'ready', 'shipped'] as const) {
+            await updateOrderStatus({ order_id: order.id, status, updated_by: counterId });
+        }
+
+        const stock = await getProductStock(productId);
+        expect(stock.map(level => [level.warehouse, level.quantity, level.reserved])).toEqual([
+            ['ibn_tachfine', 0, 0],
+            ['la_villette', 5, 0]
+        ]);
+    });
+
+    it('should keep the reservation for units still owed at the source', async () => {
+        await setStock([['ibn_tachfine', 1], ['la_villette', 10]]);
+        const order = await placeOrder(4);
+        await validateOrder(order.id, accountantId, true);
+
+        const [transfer] = await getTransferRequestsByOrder(order.id);
+        await advanceTransfer(transfer.id, 'shipped', laVilletteId, 3);
+        await confirmTransferReception(transfer.id, counterId, 2);
+
+        const reservations = await db.select()
+            .from(stockReservationsTable)
+            .where(eq(stockReservationsTable.order_id, order.id))
+            .execute();
+        const held = reservations.map(reservation => [reservation.warehouse, reservation.quantity]).sort();
+        expect(held).toEqual([['ibn_tachfine', 1], ['ibn_tachfine', 2], ['la_villette', 1]]);
+
+        const backorder = (await getTransferRequestsByOrder(order.id)).find(t => t.backorder_of_id === transfer.id);
+        expect(backorder?.quantity_requested).toEqual(1);
+        expect(backorder?.reservation_id).toEqual(transfer.reservation_id);
+    });
+});
+
+describe('partial transfers', () => {
+    let userId: number;
+    let laVilletteId: number;
+    let productId: number;
+    let orderId: number;
+
+    beforeEach(async () => {
+        await createDB();
+
+        const userResult = await db.insert(usersTable)
+            .values([
+                { email: 'counter@example.com', password_hash: 'hashed_password', role: 'counter_ibn_tachfine' },
+                { email: 'lavillette@example.com', password_hash: 'hashed_password', role: 'warehouse_la_villette' }
+            ])
+            .returning()
+            .execute();
+        userId = userResult[0].id;
+        laVilletteId = userResult[1].id;
+
+        const clientResult = await db.insert(clientsTable)
+            .values({ user_id: userId, company_name: 'Atlas', contact_name: 'Karim', credit_limit: '10000.00' })
+            .returning()
+            .execute();
+
+        const productResult = await db.insert(productsTable)
+            .values({ reference: 'BRK-001', designation: 'Brake pad', base_price: '100.00' })
+            .returning()
+            .execute();
+        productId = productResult[0].id;
+
+        const orderResult = await db.insert(ordersTable)
+            .values({ client_id: clientResult[0].id, order_number: 'ORD001', total_amount: '1000.00', carrier: 'ghazala' })
+            .returning()
+            .execute();
+        orderId = orderResult[0].id;
+
+        await db.insert(stockTable)
+            .values({ product_id: productId, warehouse: 'la_villette', quantity: 20 })
+            .execute();
+    });
+
+    afterEach(resetDB);
+
+    async function getStock(warehouse: 'ibn_tachfine' | 'la_villette') {
+        const stock = await db.select()
+            .from(stockTable)
+            .where(and(eq(stockTable.product_id, productId), eq(stockTable.warehouse, warehouse)))
+            .execute();
+        return stock[0]?.quantity ?? 0;
+    }
+
+    it('should not prepare more than was requested', async () => {
+        const transfer = await createTransferRequest(orderId, productId, 'la_villette', 'ibn_tachfine', 5, userId);
+
+        await expect(updateTransferRequestStatus(transfer.id, 'in_preparation', laVilletteId, 6))
+            .rejects.toThrow(/prepared quantity 6 exceeds requested quantity 5/i);
+    });
+
+    it('should not ship a transfer with nothing prepared', async () => {
+        const transfer = await createTransferRequest(orderId, productId, 'la_villette', 'ibn_tachfine', 5, userId);
+
+        await advanceTransfer(transfer.id, 'ready_to_ship', laVilletteId);
+
+        await expect(updateTransferRequestStatus(transfer.id, 'shipped', laVilletteId))
+            .rejects.toThrow(/nothing prepared to ship/i);
+    });
+
+    it('should move the prepared quantity and back-order the rest', async () => {
+        const transfer = await createTransferRequest(orderId, productId, 'la_villette', 'ibn_tachfine', 10, userId);
+        await advanceTransfer(transfer.id, 'ready_to_ship', laVilletteId, 6);
+        await updateTransferRequestStatus(transfer.id, 'shipped', laVilletteId);
+
+        const result = await confirmTransferReception(transfer.id, userId, 6);
+
+        expect(result.quantity_received).toEqual(6);
+        expect(await getStock('la_villette')).toEqual(14);
+        expect(await getStock('ibn_tachfine')).toEqual(6);
+
+        // Shipped and received agree, so there is nothing to report
+        expect(await getTransferDiscrepancies(orderId)).toHaveLength(0);
+
+        const backorders = (await getTransferRequestsByOrder(orderId)).filter(t => t.backorder_of_id === transfer.id);
+        expect(backorders).toHaveLength(1);
+        expect(backorders[0]).toMatchObject({
+            from_warehouse: 'la_villette',
+            to_warehouse: 'ibn_tachfine',
+            quantity_requested: 4,
+            status: 'pending'
+        });
+    });
+
+    it('should record a discrepancy when less arrives than was shipped', async () => {
+        const transfer = await createTransferRequest(orderId, productId, 'la_villette', 'ibn_tachfine', 10, userId);
+        await advanceTransfer(transfer.id, 'shipped', laVilletteId, 10);
+
+        await confirmTransferReception(transfer.id, userId, 7, 'Carton damaged');
+
+        expect(await getStock('la_villette')).toEqual(10);
+        expect(await getStock('ibn_tachfine')).toEqual(7);
+
+        const discrepancies = await getTransferDiscrepancies(orderId);
+        expect(discrepancies).toHaveLength(1);
+        expect(discrepancies[0]).toMatchObject({
+            transfer_id: transfer.id,
+            product_id: productId,
+            quantity_shipped: 10,
+            quantity_received: 7,
+            reported_by: userId,
+            note: 'Carton damaged'
+        });
+
+        const backorders = (await getTransferRequestsByOrder(orderId)).filter(t => t.backorder_of_id === transfer.id);
+        expect(backorders.map(t => t.quantity_requested)).toEqual([3]);
+        expect(discrepancies[0].backorder_transfer_id).toEqual(backorders[0].id);
+    });
+
+    it('should reject a reception count above the quantity shipped', async () => {
+        const transfer = await createTransferRequest(orderId, productId, 'la_villette', 'ibn_tachfine', 4, userId);
+        await advanceTransfer(transfer.id, 'shipped', laVilletteId, 4);
+
+        await expect(confirmTransferReception(transfer.id, userId, 5))
+            .rejects.toThrow(/received quantity 5 exceeds shipped quantity 4/i);
+
+        expect(await getStock('ibn_tachfine')).toEqual(0);
+        expect(await getTransferDiscrepancies()).toHaveLength(0);
+        expect((await getTransferRequestsByOrder(orderId)).map(t => t.status)).toEqual(['shipped']);
+    });
+});
@@ -0,0 +1,297 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User, type UserRole } from '../schema';
+import { createUser, login } from '../handlers/auth';
+import { appRouter } from '../router';
+import { createCallerFactory, createContextFromToken } from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+// Build an in-memory user for a given role; guards reject before any handler touches the database
+function userWithRole(role: UserRole): User {
+  return {
+    id: 999,
+    email: `${role}@example.com`,
+    password_hash: 'hash',
+    role,
+    sage_id: null,
+    is_active: true,
+    password_changed_at: null,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+}
+
+type Caller = ReturnType<typeof createCaller>;
+
+// Every role-restricted route with a valid input
+const restrictedRoutes: Record<string, (caller: Caller) => Promise<unknown>> = {
+  'auth.createUser': (c) => c.auth.createUser({ email: 'new@example.com', password: 'password123', role: 'client' }),
+  'audit.getEntries': (c) => c.audit.getEntries(),
+  'clients.create': (c) => c.clients.create({ user_id: 1, company_name: 'Co', contact_name: 'Contact', credit_limit: 1000 }),
+  'clients.getByRepresentative': (c) => c.clients.getByRepresentative({ representativeId: 1 }),
+  'clients.updateCreditStatus': (c) => c.clients.updateCreditStatus({ clientId: 1, isBlocked: true }),
+  'products.create': (c) => c.products.create({ reference: 'REF', designation: 'Part', base_price: 10 }),
+  'products.updateStock': (c) => c.products.updateStock({ product_id: 1, warehouse: 'ibn_tachfine', quantity: 5 }),
+  'products.getStockHistory': (c) => c.products.getStockHistory({ productId: 1 }),
+  'products.setReorderPoint': (c) => c.products.setReorderPoint({ product_id: 1, warehouse: 'la_villette', min_quantity: 5 }),
+  'products.getLowStockAlerts': (c) => c.products.getLowStockAlerts(),
+  'orders.updateStatus': (c) => c.orders.updateStatus({ order_id: 1, status: 'validated', updated_by: 1 }),
+  'orders.validate': (c) => c.orders.validate({ orderId: 1, approve: true }),
+  'orders.getForPreparation': (c) => c.orders.getForPreparation({ warehouse: 'ibn_tachfine' }),
+  'orders.getPendingValidation': (c) => c.orders.getPendingValidation(),
+  'orders.groupValidated': (c) => c.orders.groupValidated(),
+  'quotes.create': (c) => c.quotes.create({ client_id: 1, representative_id: 1, items: [], expires_in_days: 30 }),
+  'quotes.getByRepresentative': (c) => c.quotes.getByRepresentative({ representativeId: 1 }),
+  'quotes.send': (c) => c.quotes.send({ quoteId: 1 }),
+  'quotes.revise': (c) => c.quotes.revise({ quoteId: 1 }),
+  'transfers.createRequest': (c) => c.transfers.createRequest({
+    orderId: 1, productId: 1, fromWarehouse: 'drb_omar', toWarehouse: 'ibn_tachfine', quantity: 1
+  }),
+  'transfers.confirmReception': (c) => c.transfers.confirmReception({ transferId: 1, quantityReceived: 1 }),
+  'transfers.getDiscrepancies': (c) => c.transfers.getDiscrepancies(),
+  'purchasing.createOrder': (c) => c.purchasing.createOrder({
+    supplier_id: 1, warehouse: 'ibn_tachfine', items: [{ product_id: 1, quantity: 5, unit_cost: 10 }]
+  }),
+  'purchasing.getOrders': (c) => c.purchasing.getOrders(),
+  'purchasing.receive': (c) => c.purchasing.receive({ purchase_order_id: 1, lines: [{ line_id: 1, quantity: 5 }] }),
+  'inventory.open': (c) => c.inventory.open({ warehouse: 'ibn_tachfine' }),
+  'inventory.recordCount': (c) => c.inventory.recordCount({ sessionId: 1, productId: 1, countedQuantity: 3 }),
+  'inventory.scan': (c) => c.inventory.scan({ sessionId: 1, code: 'REF' }),
+  'inventory.post': (c) => c.inventory.post({ sessionId: 1 }),
+  'inventory.getVarianceReport': (c) => c.inventory.getVarianceReport({ sessionId: 1 }),
+  'dashboards.representative': (c) => c.dashboards.representative({ representativeId: 1 }),
+  'dashboards.accounting': (c) => c.dashboards.accounting(),
+  'dashboards.counter': (c) => c.dashboards.counter(),
+  'dashboards.warehouseLaVillette': (c) => c.dashboards.warehouseLaVillette(),
+  'dashboards.director': (c) => c.dashboards.director(),
+  'documents.quote': (c) => c.documents.quote({ quoteId: 1 }),
+  'documents.deliveryNote': (c) => c.documents.deliveryNote({ shipmentGroupId: 1 }),
+  'documents.transferSlip': (c) => c.documents.transferSlip({ transferId: 1 }),
+  'pricing.setCustomPricing': (c) => c.pricing.setCustomPricing({ clientId: 1, productId: 1, customPrice: 10, discountPercentage: 0 }),
+  'pricing.calculateOrderTotal': (c) => c.pricing.calculateOrderTotal({ clientId: 1, items: [] }),
+  'pricing.createPriceList': (c) => c.pricing.createPriceList({ name: 'Promo', rules: [] }),
+  'pricing.getPriceLists': (c) => c.pricing.getPriceLists(),
+  'sage.getExports': (c) => c.sage.getExports(),
+  'sage.retryExport': (c) => c.sage.retryExport({ orderId: 1 }),
+  'sage.processOutbox': (c) => c.sage.processOutbox()
+};
+
+// Routes each role must not reach
+const forbiddenByRole: Record<Exclude<UserRole, 'director_admin'>, string[]> = {
+  client: [
+    'auth.createUser', 'audit.getEntries', 'clients.create', 'clients.getByRepresentative', 'clients.updateCreditStatus',
+    'products.create', 'products.updateStock', 'products.getStockHistory', 'orders.updateStatus', 'orders.validate',
+    'products.setReorderPoint', 'products.getLowStockAlerts',
+    'orders.getForPreparation', 'orders.getPendingValidation', 'quotes.create', 'quotes.getByRepresentative', 'quotes.send', 'quotes.revise', 'orders.groupValidated',
+    'transfers.createRequest', 'transfers.confirmReception', 'transfers.getDiscrepancies', 'dashboards.representative',
+    'inventory.open', 'inventory.recordCount', 'inventory.scan', 'inventory.post', 'inventory.getVarianceReport',
+    'purchasing.createOrder', 'purchasing.getOrders', 'purchasing.receive',
+    'dashboards.accounting', 'dashboards.counter', 'dashboards.warehouseLaVillette', 'dashboards.director',
+    'documents.deliveryNote', 'documents.transferSlip', 'pricing.createPriceList', 'pricing.getPriceLists',
+    'pricing.setCustomPricing', 'sage.getExports', 'sage.retryExport', 'sage.processOutbox'
+  ],
+  representative: [
+    'auth.createUser', 'audit.getEntries', 'clients.updateCreditStatus', 'products.create', 'products.updateStock',
+    'products.getStockHistory', 'products.setReorderPoint', 'products.getLowStockAlerts',
+    'orders.updateStatus', 'orders.validate', 'orders.getPendingValidation', 'transfers.createRequest', 'orders.groupValidated',
+    'transfers.confirmReception', 'transfers.getDiscrepancies', 'dashboards.accounting', 'dashboards.counter',
+    'inventory.open', 'inventory.recordCount', 'inventory.scan', 'inventory.post', 'inventory.getVarianceReport',
+    'purchasing.createOrder', 'purchasing.getOrders', 'purchasing.receive',
+    'dashboards.warehouseLaVillette', 'dashboards.director', 'documents.deliveryNote', 'documents.transferSlip',
+    'pricing.setCustomPricing', 'pricing.createPriceList', 'pricing.getPriceLists', 'sage.getExports', 'sage.retryExport', 'sage.processOutbox'
+  ],
+  accounting: [
+    'auth.createUser', 'audit.getEntries', 'clients.create', 'products.create', 'products.updateStock', 'orders.getForPreparation', 'orders.groupValidated',
+    'products.setReorderPoint',
+    'quotes.create', 'quotes.getByRepresentative', 'quotes.send', 'quotes.revise', 'transfers.createRequest', 'transfers.confirmReception',
+    'inventory.open', 'inventory.recordCount', 'inventory.scan', 'inventory.post', 'inventory.getVarianceReport',
+    'purchasing.createOrder', 'purchasing.receive',
+    'dashboards.representative', 'dashboards.counter', 'dashboards.warehouseLaVillette', 'dashboards.director',
+    'documents.quote', 'documents.transferSlip', 'pricing.setCustomPricing', 'pricing.createPriceList', 'sage.processOutbox'
+  ],
+  counter_ibn_tachfine: [
+    'auth.createUser', 'audit.getEntries', 'clients.create', 'clients.getByRepresentative', 'clients.updateCreditStatus',
+    'products.create', 'orders.validate', 'orders.getPendingValidation', 'quotes.create',
+    'quotes.getByRepresentative', 'quotes.send', 'quotes.revise', 'inventory.post', 'inventory.getVarianceReport', 'dashboards.representative', 'dashboards.accounting',
+    'purchasing.createOrder',
+    'dashboards.warehouseLaVillette', 'dashboards.director', 'documents.quote', 'pricing.setCustomPricing',
+    'pricing.calculateOrderTotal', 'pricing.createPriceList', 'pricing.getPriceLists', 'sage.getExports', 'sage.retryExport',
+    'sage.processOutbox'
+  ],
+  warehouse_la_villette: [
+    'auth.createUser', 'audit.getEntries', 'clients.create', 'clients.getByRepresentative', 'clients.updateCreditStatus',
+    'products.create', 'orders.validate', 'orders.getPendingValidation', 'orders.groupValidated', 'quotes.create',
+    'quotes.getByRepresentative', 'quotes.send', 'quotes.revise', 'transfers.createRequest', 'inventory.post', 'inventory.getVarianceReport', 'dashboards.representative',
+    'purchasing.createOrder',
+    'dashboards.accounting', 'dashboards.counter', 'dashboards.director', 'documents.quote', 'pricing.setCustomPricing',
+    'pricing.calculateOrderTotal', 'pricing.createPriceList', 'pricing.getPriceLists', 'sage.getExports', 'sage.retryExport',
+    'sage.processOutbox'
+  ]
+};
+
+describe('tRPC authorization', () => {
+  describe('anonymous callers', () => {
+    const caller = createCaller({ user: null });
+
+    it('should allow public routes', async () => {
+      const result = await caller.healthcheck();
+      expect(result.status).toEqual('ok');
+    });
+
+    for (const [route, call] of Object.entries(restrictedRoutes)) {
+      it(`should reject ${route} with UNAUTHORIZED`, async () => {
+        await expect(call(caller)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      });
+    }
+
+    it('should reject authenticated read routes', async () => {
+      await expect(caller.products.getAll()).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+      await expect(caller.orders.getById({ orderId: 1 })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+    });
+  });
+
+  for (const [role, routes] of Object.entries(forbiddenByRole)) {
+    describe(`${role} role`, () => {
+      const caller = createCaller({ user: userWithRole(role as UserRole) });
+
+      for (const route of routes) {
+        it(`should reject ${route} with FORBIDDEN`, async () => {
+          await expect(restrictedRoutes[route](caller)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+        });
+      }
+    });
+  }
+
+  describe('role access', () => {
+    beforeEach(createDB);
+    afterEach(resetDB);
+
+    it('should let each role reach its own dashboard', async () => {
+      const accounting = createCaller({ user: userWithRole('accounting') });
+      const counter = createCaller({ user: userWithRole('counter_ibn_tachfine') });
+      const warehouse = createCaller({ user: userWithRole('warehouse_la_villette') });
+
+      expect((await accounting.dashboards.accounting()).pendingOrders).toEqual([]);
+      expect((await counter.dashboards.counter()).ordersToPreparation).toEqual([]);
+      expect((await warehouse.dashboards.warehouseLaVillette()).transferRequests).toEqual([]);
+    });
+
+    it('should give director_admin access to every dashboard', async () => {
+      const director = createCaller({ user: userWithRole('director_admin') });
+
+      expect((await director.dashboards.director()).globalStats.totalClients).toEqual(0);
+      expect((await director.dashboards.accounting()).pendingOrders).toEqual([]);
+      expect((await director.dashboards.counter()).lowStockAlerts).toEqual([]);
+    });
+
+    it('should not hand out password hashes of created users', async () => {
+      const director = createCaller({ user: userWithRole('director_admin') });
+
+      const created = await director.auth.createUser({ email: 'new@example.com', password: 'password123', role: 'client' });
+
+      expect(created.email).toEqual('new@example.com');
+      expect(created).not.toHaveProperty('password_hash');
+    });
+  });
+});
+
+describe('createContextFromToken', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  beforeEach(async () => {
+    await createUser({ email: 'rep@example.com', password: 'password123', role: 'representative' });
+  });
+
+  it('should resolve the user from a valid token', async () => {
+    const { token, user } = await login({ email: 'rep@example.com', password: 'password123' });
+
+    const ctx = await createContextFromToken(token);
+
+    expect(ctx.user).not.toBeNull();
+    expect(ctx.user?.id).toEqual(user.id);
+    expect(ctx.user?.role).toEqual('representative');
+  });
+
+  it('should return an anonymous context without a token', async () => {
+    expect((await createContextFromToken(null)).user).toBeNull();
+    expect((await createContextFromToken('')).user).toBeNull();
+  });
+
+  it('should reject a token with a tampered payload', async () => {
+    const { token } = await login({ email: 'rep@example.com', password: 'password123' });
+    const [payloadBase64, signature] = token.split('.');
+    const payload = JSON.parse(Buffer.from(payloadBase64, 'base64').toString('utf-8'));
+    const forged = Buffer.from(JSON.stringify({ ...payload, role: 'director_admin' })).toString('base64');
+
+    const ctx = await createContextFromToken(`${forged}.${signature}`);
+
+    expect(ctx.user).toBeNull();
+  });
+
+  it('should reject malformed tokens', async () => {
+    expect((await createContextFromToken('not-a-token')).user).toBeNull();
+    expect((await createContextFromToken('abc.def')).user).toBeNull();
+  });
+
+  it('should reject tokens of deactivated users', async () => {
+    const { token } = await login({ email: 'rep@example.com', password: 'password123' });
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.email, 'rep@example.com'))
+      .execute();
+
+    const ctx = await createContextFromToken(token);
+
+    expect(ctx.user).toBeNull();
+  });
+
+  it('should sign out other sessions on password change', async () => {
+    const { token: currentToken } = await login({ email: 'rep@example.com', password: 'password123' });
+    const { token: otherToken } = await login({ email: 'rep@example.com', password: 'password123' });
+    const caller = createCaller(await createContextFromToken(currentToken));
+
+    await caller.auth.changePassword({
+      current_password: 'password123',
+      new_password: 'Stronger2024'
+    });
+
+    expect((await createContextFromToken(otherToken)).user).toBeNull();
+    expect((await createContextFromToken(currentToken)).user?.email).toEqual('rep@example.com');
+  });
+
+  it('should enforce the password policy on changePassword', async () => {
+    const { token } = await login({ email: 'rep@example.com', password: 'password123' });
+    const caller = createCaller(await createContextFromToken(token));
+
+    for (const weak of ['short1A', 'alllowercase1', 'ALLUPPERCASE1', 'NoDigitsHere']) {
+      await expect(caller.auth.changePassword({
+        current_password: 'password123',
+        new_password: weak
+      })).rejects.toMatchObject({ code: 'BAD_REQUEST' });
+    }
+  });
+
+  it('should require authentication for changePassword', async () => {
+    const caller = createCaller({ user: null });
+
+    await expect(caller.auth.changePassword({
+      current_password: 'password123',
+      new_password: 'Stronger2024'
+    })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+
+  it('should let an authenticated caller reach role routes', async () => {
+    const { token } = await login({ email: 'rep@example.com', password: 'password123' });
+    const caller = createCaller(await createContextFromToken(token));
+
+    const dashboard = await caller.dashboards.representative({ representativeId: 1 });
+
+    expect(dashboard.clients).toEqual([]);
+  });
+});
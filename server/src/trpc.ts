@@ -0,0 +1,91 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { eq } from 'drizzle-orm';
+import { db } from './db';
+import { usersTable } from './db/schema';
+import { verifyToken, getActiveSession } from './handlers/sessions';
+import { type User, type UserRole } from './schema';
+
+export interface Context {
+  user: User | null;
+  sessionId?: number | null;
+  userAgent?: string | null;
+}
+
+// Resolve the current user from a bearer token; any invalid token yields an anonymous context
+export async function createContextFromToken(
+  token: string | null | undefined,
+  userAgent: string | null = null
+): Promise<Context> {
+  const anonymous: Context = { user: null, sessionId: null, userAgent };
+  if (!token) {
+    return anonymous;
+  }
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    return anonymous;
+  }
+
+  try {
+    // Revoked or expired sessions invalidate their access tokens immediately
+    const session = await getActiveSession(payload.sid, payload.userId);
+    if (!session) {
+      return anonymous;
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, payload.userId))
+      .execute();
+
+    const user = users[0];
+    if (!user || !user.is_active) {
+      return anonymous;
+    }
+
+    return { user, sessionId: session.id, userAgent };
+  } catch (error) {
+    console.error('Context creation failed:', error);
+    throw error;
+  }
+}
+
+export async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  const header = req.headers['authorization'];
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  return createContextFromToken(token, req.headers['user-agent'] ?? null);
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+export const publicProcedure = t.procedure;
+
+export const authedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { user: ctx.user, sessionId: ctx.sessionId ?? null } });
+});
+
+// director_admin has administrative access to every role-restricted route
+export function roleProcedure(...roles: UserRole[]) {
+  return authedProcedure.use(({ ctx, next }) => {
+    if (ctx.user.role !== 'director_admin' && !roles.includes(ctx.user.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Role '${ctx.user.role}' is not allowed to perform this action` });
+    }
+    return next();
+  });
+}
+
+export const clientProcedure = roleProcedure('client');
+export const representativeProcedure = roleProcedure('representative');
+export const accountingProcedure = roleProcedure('accounting');
+export const counterProcedure = roleProcedure('counter_ibn_tachfine');
+export const warehouseProcedure = roleProcedure('warehouse_la_villette');
+export const directorProcedure = roleProcedure('director_admin');